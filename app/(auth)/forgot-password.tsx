@@ -1,4 +1,4 @@
-import { useAuth, useSignIn } from '@clerk/clerk-expo';
+import { useSignIn } from '@clerk/clerk-expo';
 import { useRouter } from 'expo-router';
 import React from 'react';
 import { View, Text, SafeAreaView } from 'react-native';
@@ -30,7 +30,6 @@ type RequestResetInput = z.infer<typeof requestResetSchema>;
 type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
 
 export default function ForgotPasswordScreen() {
-  const { isSignedIn } = useAuth();
   const { isLoaded, signIn, setActive } = useSignIn();
   const router = useRouter();
   
@@ -87,8 +86,8 @@ export default function ForgotPasswordScreen() {
       });
 
       if (result.status === 'complete') {
+        // The root layout opens the app once the session is active
         await setActive({ session: result.createdSessionId });
-        router.replace('/');
       } else if (result.status === 'needs_second_factor') {
         throw new Error('2FA is required but not supported in this UI');
       } else {
@@ -97,12 +96,6 @@ export default function ForgotPasswordScreen() {
     },
   });
 
-  React.useEffect(() => {
-    if (isSignedIn) {
-      router.replace('/');
-    }
-  }, [isSignedIn]);
-
   if (!isLoaded) {
     return null;
   }
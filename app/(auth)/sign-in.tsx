@@ -1,5 +1,5 @@
 import { useSignIn, useSSO } from '@clerk/clerk-expo';
-import { Link, useRouter } from 'expo-router';
+import { Link } from 'expo-router';
 import { View, Text, SafeAreaView } from 'react-native';
 import React, { useCallback, useEffect } from 'react';
 import Animated, { FadeInDown, FadeInUp } from 'react-native-reanimated';
@@ -13,6 +13,7 @@ import { loginSchema, type LoginInput } from '@/lib/validations/auth';
 import { useMutation } from '@tanstack/react-query';
 import * as WebBrowser from 'expo-web-browser';
 import * as AuthSession from 'expo-auth-session';
+import { APP_SCHEME } from '@/constants/links';
 
 // Handle any pending authentication sessions
 WebBrowser.maybeCompleteAuthSession();
@@ -34,7 +35,6 @@ export default function SignInScreen() {
   useWarmUpBrowser();
   
   const { signIn, setActive, isLoaded } = useSignIn();
-  const router = useRouter();
   const { startSSOFlow } = useSSO();
 
   const {
@@ -63,8 +63,8 @@ export default function SignInScreen() {
       });
 
       if (signInAttempt.status === 'complete') {
+        // The root layout takes it from here, opening any link the user followed before signing in
         await setActive({ session: signInAttempt.createdSessionId });
-        router.replace('/');
       } else {
         throw new Error('Authentication failed. Please check your credentials.');
       }
@@ -80,9 +80,9 @@ export default function SignInScreen() {
       setGoogleAuthPending(true);
       setOauthError(null);
       
-      // Use the correct scheme from app.json (myapp) and the standard Clerk callback path
+      // Use the scheme from app.json and the standard Clerk callback path
       const redirectUrl = AuthSession.makeRedirectUri({
-        scheme: 'myapp',
+        scheme: APP_SCHEME,
         path: 'oauth-native-callback'
       });
       
@@ -97,7 +97,6 @@ export default function SignInScreen() {
         const { createdSessionId, setActive: setOAuthActive } = result;
         if (createdSessionId && setOAuthActive) {
           await setOAuthActive({ session: createdSessionId });
-          router.replace('/');
         }
       }
     } catch (err: unknown) {
@@ -108,7 +107,7 @@ export default function SignInScreen() {
     } finally {
       setGoogleAuthPending(false);
     }
-  }, [startSSOFlow, router]);
+  }, [startSSOFlow]);
 
   return (
     <SafeAreaView className="flex-1 px-4 bg-neutral-2 dark:bg-neutral-8">
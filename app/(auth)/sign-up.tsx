@@ -1,7 +1,7 @@
 import * as React from 'react';
 import { View, Text, SafeAreaView } from 'react-native';
 import { useSignUp } from '@clerk/clerk-expo';
-import { Link, useRouter } from 'expo-router';
+import { Link } from 'expo-router';
 import { Button } from '@/components/ui/Button';
 import { TextInput } from '@/components/ui/TextInput';
 import { Card } from '@/components/ui/Card';
@@ -14,7 +14,6 @@ import { useMutation } from '@tanstack/react-query';
 
 export default function SignUpScreen() {
   const { isLoaded, signUp, setActive } = useSignUp();
-  const router = useRouter();
 
   const [showPassword, setShowPassword] = React.useState(false);
   const [pendingVerification, setPendingVerification] = React.useState(false);
@@ -69,8 +68,8 @@ export default function SignUpScreen() {
       });
 
       if (signUpAttempt.status === 'complete') {
+        // The root layout sends new accounts on to onboarding
         await setActive({ session: signUpAttempt.createdSessionId });
-        router.replace('/');
       } else {
         throw new Error('Verification failed. Please check your code and try again.');
       }
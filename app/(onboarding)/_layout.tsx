@@ -0,0 +1,17 @@
+import { Redirect, Stack } from 'expo-router';
+import { useAuth } from '@clerk/clerk-expo';
+import { View } from 'react-native';
+
+export default function OnboardingRoutesLayout() {
+  const { isSignedIn, isLoaded } = useAuth();
+
+  if (!isLoaded) {
+    return <View />;
+  }
+
+  if (!isSignedIn) {
+    return <Redirect href="/sign-in" />;
+  }
+
+  return <Stack screenOptions={{ headerShown: false }} />;
+}
@@ -0,0 +1,143 @@
+import React from 'react';
+import { View, Text, ScrollView, TouchableOpacity, KeyboardAvoidingView, Platform } from 'react-native';
+import { router } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import type { Role } from '@prisma/client';
+import { useColorScheme } from '@/components/useColorScheme';
+import { Button } from '@/components/ui/Button';
+import { TextInput } from '@/components/ui/TextInput';
+import OnboardingHeader from '@/components/shared/onboarding-header';
+import { COLLEGE_LABELS, COLLEGE_OPTIONS, ROLE_DETAILS, UNSET_PROFILE_VALUE } from '@/constants/profile';
+import { affiliationSchema, type AffiliationInput } from '@/lib/validations/onboarding';
+import { useOnboardingStore } from '@/stores/onboarding.store';
+import { useUserStore } from '@/stores/user.store';
+import { describeRolePricing } from '@/utils/pricing';
+
+const ROLE_OPTIONS = Object.keys(ROLE_DETAILS) as Role[];
+
+export default function AffiliationScreen() {
+  const colorScheme = useColorScheme();
+  const { user } = useUserStore();
+  const { affiliation, setAffiliation } = useOnboardingStore();
+
+  const { control, handleSubmit, watch, formState: { errors } } = useForm<AffiliationInput>({
+    resolver: zodResolver(affiliationSchema),
+    defaultValues: affiliation ?? {
+      role: user?.role ?? 'STUDENT',
+      college: user?.college ?? 'NOT_APPLICABLE',
+      courses: user?.courses && user.courses !== UNSET_PROFILE_VALUE ? user.courses : '',
+    },
+  });
+
+  const role = watch('role');
+  const college = watch('college');
+
+  const onSubmit = handleSubmit((values) => {
+    setAffiliation(values);
+    router.push('/review');
+  });
+
+  return (
+    <SafeAreaView className="flex-1 bg-neutral-50 dark:bg-neutral-900">
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+      <KeyboardAvoidingView className="flex-1" behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <ScrollView className="flex-1" contentContainerClassName="px-4 py-6" keyboardShouldPersistTaps="handled">
+          <OnboardingHeader
+            step={2}
+            title="Your Campus"
+            subtitle="Your role and college decide which prices you see."
+          />
+
+          <Text className="text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">I am a...</Text>
+          <Controller
+            control={control}
+            name="role"
+            render={({ field: { onChange, value } }) => (
+              <View className="mb-2">
+                {ROLE_OPTIONS.map((option) => {
+                  const details = ROLE_DETAILS[option];
+                  const isSelected = value === option;
+
+                  return (
+                    <TouchableOpacity
+                      key={option}
+                      onPress={() => onChange(option)}
+                      className={`flex-row items-center rounded-xl border p-3 mb-2 ${isSelected ? 'border-primary bg-primary/5' : 'border-neutral-200 dark:border-neutral-700'}`}
+                    >
+                      <FontAwesome name={details.icon} size={18} color={isSelected ? '#2C59DB' : '#9CA3AF'} />
+                      <View className="flex-1 ml-3">
+                        <Text className="text-base font-medium text-neutral-800 dark:text-neutral-100">{details.label}</Text>
+                        <Text className="text-xs text-neutral-500 dark:text-neutral-400">{details.description}</Text>
+                      </View>
+                      <FontAwesome name={isSelected ? 'dot-circle-o' : 'circle-o'} size={18} color={isSelected ? '#2C59DB' : '#9CA3AF'} />
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+          />
+          {errors.role?.message ? (
+            <Text className="text-sm text-red-500 mb-2">{errors.role.message}</Text>
+          ) : null}
+
+          <Text className="text-sm font-medium text-neutral-700 dark:text-neutral-300 mt-2 mb-2">College</Text>
+          <Controller
+            control={control}
+            name="college"
+            render={({ field: { onChange, value } }) => (
+              <View className="flex-row flex-wrap mb-1">
+                {COLLEGE_OPTIONS.map((option) => {
+                  const isSelected = value === option;
+
+                  return (
+                    <TouchableOpacity
+                      key={option}
+                      onPress={() => onChange(option)}
+                      className={`rounded-full border px-4 py-2 mr-2 mb-2 ${isSelected ? 'border-primary bg-primary' : 'border-neutral-200 dark:border-neutral-700'}`}
+                    >
+                      <Text className={`text-sm font-medium ${isSelected ? 'text-white' : 'text-neutral-700 dark:text-neutral-300'}`}>
+                        {COLLEGE_LABELS[option]}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+          />
+          {errors.college?.message ? (
+            <Text className="text-sm text-red-500 mb-2">{errors.college.message}</Text>
+          ) : null}
+
+          <Controller
+            control={control}
+            name="courses"
+            render={({ field: { onChange, value } }) => (
+              <TextInput
+                label={role === 'STUDENT' ? 'Course' : 'Course (optional)'}
+                value={value}
+                onChangeText={onChange}
+                placeholder="BS Computer Science"
+                leftIcon="book"
+                className="mt-2 mb-4"
+                error={errors.courses?.message}
+              />
+            )}
+          />
+
+          <View className="flex-row items-start rounded-xl p-3 mb-6 bg-primary/10">
+            <FontAwesome name="info-circle" size={16} color="#2C59DB" />
+            <Text className="flex-1 ml-2 text-sm text-neutral-700 dark:text-neutral-200">
+              {describeRolePricing({ role, college })}
+            </Text>
+          </View>
+
+          <Button title="Continue" icon="arrow-right" iconPosition="right" onPress={onSubmit} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,105 @@
+import React from 'react';
+import { ScrollView, KeyboardAvoidingView, Platform } from 'react-native';
+import { router } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useColorScheme } from '@/components/useColorScheme';
+import { Button } from '@/components/ui/Button';
+import { TextInput } from '@/components/ui/TextInput';
+import OnboardingHeader from '@/components/shared/onboarding-header';
+import { UNSET_PROFILE_VALUE } from '@/constants/profile';
+import { personalDetailsSchema, type PersonalDetailsInput } from '@/lib/validations/onboarding';
+import { useOnboardingStore } from '@/stores/onboarding.store';
+import { useUserStore } from '@/stores/user.store';
+
+export default function PersonalDetailsScreen() {
+  const colorScheme = useColorScheme();
+  const { user } = useUserStore();
+  const { personalDetails, setPersonalDetails } = useOnboardingStore();
+
+  const { control, handleSubmit, formState: { errors } } = useForm<PersonalDetailsInput>({
+    resolver: zodResolver(personalDetailsSchema),
+    // Start from earlier answers, or whatever the account already has
+    defaultValues: personalDetails ?? {
+      firstName: user?.firstName ?? '',
+      lastName: user?.lastName ?? '',
+      phone: user?.phone && user.phone !== UNSET_PROFILE_VALUE ? user.phone : '',
+    },
+  });
+
+  const onSubmit = handleSubmit((values) => {
+    setPersonalDetails(values);
+    router.push('/affiliation');
+  });
+
+  return (
+    <SafeAreaView className="flex-1 bg-neutral-50 dark:bg-neutral-900">
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+      <KeyboardAvoidingView className="flex-1" behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <ScrollView className="flex-1" contentContainerClassName="px-4 py-6" keyboardShouldPersistTaps="handled">
+          <OnboardingHeader
+            step={1}
+            title="About You"
+            subtitle="We use these to hand over your orders and reach you about them."
+          />
+
+          <Controller
+            control={control}
+            name="firstName"
+            render={({ field: { onChange, value } }) => (
+              <TextInput
+                label="First Name"
+                value={value}
+                onChangeText={onChange}
+                placeholder="Juan"
+                leftIcon="user"
+                autoComplete="given-name"
+                className="mb-4"
+                error={errors.firstName?.message}
+              />
+            )}
+          />
+
+          <Controller
+            control={control}
+            name="lastName"
+            render={({ field: { onChange, value } }) => (
+              <TextInput
+                label="Last Name"
+                value={value}
+                onChangeText={onChange}
+                placeholder="Dela Cruz"
+                leftIcon="user"
+                autoComplete="family-name"
+                className="mb-4"
+                error={errors.lastName?.message}
+              />
+            )}
+          />
+
+          <Controller
+            control={control}
+            name="phone"
+            render={({ field: { onChange, value } }) => (
+              <TextInput
+                label="Mobile Number"
+                value={value}
+                onChangeText={onChange}
+                placeholder="09171234567"
+                leftIcon="phone"
+                keyboardType="phone-pad"
+                autoComplete="tel"
+                className="mb-6"
+                error={errors.phone?.message}
+              />
+            )}
+          />
+
+          <Button title="Continue" icon="arrow-right" iconPosition="right" onPress={onSubmit} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,93 @@
+import React from 'react';
+import { View, Text, ScrollView, Alert } from 'react-native';
+import { Redirect, router } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { useColorScheme } from '@/components/useColorScheme';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import OnboardingHeader from '@/components/shared/onboarding-header';
+import { COLLEGE_LABELS, ROLE_DETAILS, UNSET_PROFILE_VALUE } from '@/constants/profile';
+import { useUpdateProfile } from '@/lib/hooks/use-mutations';
+import { useOnboardingStore } from '@/stores/onboarding.store';
+import { describeRolePricing } from '@/utils/pricing';
+import { isQueuedMutation } from '@/utils/outbox';
+
+const SummaryRow = ({ label, value }: { label: string; value: string }) => (
+  <View className="flex-row justify-between py-2 border-t border-neutral-100 dark:border-neutral-700">
+    <Text className="text-neutral-500 dark:text-neutral-400">{label}</Text>
+    <Text className="font-medium text-neutral-800 dark:text-white ml-4 flex-1 text-right">{value}</Text>
+  </View>
+);
+
+export default function ReviewScreen() {
+  const colorScheme = useColorScheme();
+  const { personalDetails, affiliation, reset } = useOnboardingStore();
+  const updateProfileMutation = useUpdateProfile();
+
+  // The answers live in memory, so start over if the app was restarted mid-way
+  if (!personalDetails) return <Redirect href="/personal-details" />;
+  if (!affiliation) return <Redirect href="/affiliation" />;
+
+  const handleFinish = () => {
+    updateProfileMutation.mutate({
+      ...personalDetails,
+      role: affiliation.role,
+      college: affiliation.college,
+      courses: affiliation.courses || UNSET_PROFILE_VALUE,
+      isOnboarded: true,
+    }, {
+      onSuccess: (response) => {
+        if (isQueuedMutation(response)) {
+          Alert.alert(
+            "You're Offline",
+            "Your profile is saved and will be sent when you're back online. We'll take you to the shop then."
+          );
+          return;
+        }
+
+        // The root layout moves on once isOnboarded is set, to a link opened earlier if there was one
+        reset();
+      },
+      onError: (error) => {
+        Alert.alert('Setup Failed', error.message || "We couldn't save your profile. Please try again.");
+      },
+    });
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-neutral-50 dark:bg-neutral-900">
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+      <ScrollView className="flex-1" contentContainerClassName="px-4 py-6">
+        <OnboardingHeader step={3} title="All Set?" subtitle="Check your details before you start shopping." />
+
+        <Card className="p-4 mb-4">
+          <Text className="font-semibold text-neutral-800 dark:text-white mb-1">Your Profile</Text>
+          <SummaryRow label="Name" value={`${personalDetails.firstName} ${personalDetails.lastName}`} />
+          <SummaryRow label="Mobile" value={personalDetails.phone} />
+          <SummaryRow label="Role" value={ROLE_DETAILS[affiliation.role].label} />
+          <SummaryRow label="College" value={COLLEGE_LABELS[affiliation.college]} />
+          {affiliation.courses ? <SummaryRow label="Course" value={affiliation.courses} /> : null}
+        </Card>
+
+        <View className="flex-row items-start rounded-xl p-3 mb-6 bg-primary/10">
+          <FontAwesome name="tags" size={16} color="#2C59DB" />
+          <Text className="flex-1 ml-2 text-sm text-neutral-700 dark:text-neutral-200">
+            {describeRolePricing(affiliation)}
+          </Text>
+        </View>
+
+        <Button
+          title="Finish Setup"
+          icon="check"
+          className="mb-3"
+          isLoading={updateProfileMutation.isPending}
+          disabled={updateProfileMutation.isPending}
+          onPress={handleFinish}
+        />
+        <Button title="Edit Details" icon="pencil" variant="outline" onPress={() => router.back()} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,76 @@
+import React from 'react';
+import { View, Text, ScrollView } from 'react-native';
+import { router } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import Animated, { FadeInDown, FadeInUp } from 'react-native-reanimated';
+import { useColorScheme } from '@/components/useColorScheme';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+
+const PRICING_POINTS: {
+  icon: React.ComponentProps<typeof FontAwesome>['name'];
+  title: string;
+  description: string;
+}[] = [
+  {
+    icon: 'id-badge',
+    title: 'Your role sets your price',
+    description: 'Students, players, staff, faculty and alumni can get their own prices on merch.',
+  },
+  {
+    icon: 'university',
+    title: 'Your college matters',
+    description: 'Role prices apply to merch posted by your own college.',
+  },
+  {
+    icon: 'tags',
+    title: 'Everything else is open to all',
+    description: 'Merch from other colleges shows its guest price, so you can still buy it.',
+  },
+];
+
+export default function WelcomeScreen() {
+  const colorScheme = useColorScheme();
+
+  return (
+    <SafeAreaView className="flex-1 bg-neutral-50 dark:bg-neutral-900">
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+      <ScrollView className="flex-1" contentContainerClassName="px-4 py-8">
+        <Animated.View className="items-center mb-8" entering={FadeInUp.duration(600)}>
+          <View className="items-center justify-center w-20 h-20 mb-4 rounded-3xl bg-primary/10">
+            <FontAwesome name="shopping-bag" size={40} color="#2C59DB" />
+          </View>
+          <Text className="text-2xl font-bold text-center text-neutral-800 dark:text-white">
+            Welcome to MerchTrack
+          </Text>
+          <Text className="mt-2 text-center text-neutral-500 dark:text-neutral-400">
+            Let&apos;s set up your profile so you see the right prices.
+          </Text>
+        </Animated.View>
+
+        <Text className="text-lg font-semibold text-neutral-800 dark:text-white mb-3">How pricing works</Text>
+        {PRICING_POINTS.map((point, index) => (
+          <Animated.View key={point.title} entering={FadeInDown.delay(200 + index * 100)}>
+            <Card className="flex-row items-start p-4 mb-3">
+              <View className="items-center justify-center w-10 h-10 rounded-full bg-primary/10 mr-3">
+                <FontAwesome name={point.icon} size={18} color="#2C59DB" />
+              </View>
+              <View className="flex-1">
+                <Text className="font-semibold text-neutral-800 dark:text-white">{point.title}</Text>
+                <Text className="mt-0.5 text-sm text-neutral-500 dark:text-neutral-400">{point.description}</Text>
+              </View>
+            </Card>
+          </Animated.View>
+        ))}
+
+        <Text className="text-xs text-center text-neutral-400 dark:text-neutral-500 mt-2 mb-6">
+          Choose carefully: changing your role or college later needs staff approval.
+        </Text>
+
+        <Button title="Get Started" icon="arrow-right" iconPosition="right" onPress={() => router.push('/personal-details')} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
@@ -7,6 +7,8 @@ import Animated, { useAnimatedStyle, useSharedValue, withSpring } from 'react-na
 import { useColorScheme } from '@/components/useColorScheme';
 import { useClientOnlyValue } from '@/components/useClientOnlyValue';
 import { useCartStore } from '@/stores/cart.store';
+import { useUnreadAnnouncements } from '@/lib/hooks/use-announcements';
+import { useInbox } from '@/lib/hooks/use-messages';
 
 // Cart badge component
 function CartBadge() {
@@ -70,6 +72,8 @@ function TabBarIcon(props: Readonly<{
 
 export default function TabLayout() {
   const colorScheme = useColorScheme();
+  const { unreadCount } = useUnreadAnnouncements();
+  const { unreadCount: unreadMessageCount } = useInbox();
 
   return (
     <Tabs
@@ -128,6 +132,17 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="announcements"
+        options={{
+          title: 'News',
+          tabBarIcon: ({ color, focused }) => (
+            <TabBarIcon name="bullhorn" color={color} focused={focused} />
+          ),
+          tabBarBadge: unreadCount > 0 ? (unreadCount > 99 ? '99+' : unreadCount) : undefined,
+          tabBarBadgeStyle: { backgroundColor: '#EF4444', fontSize: 10 },
+        }}
+      />
       <Tabs.Screen
         name="account"
         options={{
@@ -137,6 +152,17 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="messages"
+        options={{
+          title: 'Messages',
+          tabBarIcon: ({ color, focused }) => (
+            <TabBarIcon name="envelope" color={color} focused={focused} />
+          ),
+          tabBarBadge: unreadMessageCount > 0 ? (unreadMessageCount > 99 ? '99+' : unreadMessageCount) : undefined,
+          tabBarBadgeStyle: { backgroundColor: '#EF4444', fontSize: 10 },
+        }}
+      />
       <Tabs.Screen
         name="tickets"
         options={{
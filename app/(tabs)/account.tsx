@@ -1,6 +1,6 @@
 import React from 'react';
-import { View, Text, ScrollView, SafeAreaView, TouchableOpacity, Image, Alert } from 'react-native';
-import { useMutation } from '@tanstack/react-query';
+import { View, Text, ScrollView, SafeAreaView, TouchableOpacity, Image, Alert, RefreshControl } from 'react-native';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { StatusBar } from 'expo-status-bar';
 import { useRouter } from 'expo-router';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
@@ -9,26 +9,18 @@ import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
 import { useUserStore } from '@/stores/user.store';
 import { useAuth, useUser } from '@clerk/clerk-expo';
-import { useOrders, usePayments } from '@/lib/hooks/use-queries';
+import { useOrders, usePayments, useRefreshProfile, useUserPermissions } from '@/lib/hooks/use-queries';
+import { useUnregisterPushToken } from '@/lib/hooks/use-mutations';
+import { useNotificationStore } from '@/stores/notification.store';
+import PaymentStatusChip from '@/components/shared/payment-status-chip';
+import PendingChanges from '@/components/shared/pending-changes';
+import NotificationPreferences from '@/components/shared/notification-preferences';
+import { PAYMENT_METHOD_DETAILS } from '@/constants/payments';
+import { formatCurrency } from '@/utils/format-currency';
+import { canClaimPickups } from '@/utils/permissions';
 
 // Define allowed routes for type checking
-type AppRoute = '/' | '/account/orders' | '/account/payments' | '/products';
-
-// Define Payment interface - using unknown for metadata to avoid any
-interface Payment {
-  id: string;
-  userId: string;
-  orderId: string;
-  processedById?: string | null;
-  paymentDate: Date;
-  amount: number | { toFixed: (digits: number) => string };
-  paymentStatus: string;
-  referenceNo?: string;
-  transactionId?: string;
-  createdAt: Date;
-  updatedAt: Date;
-  metadata?: unknown;
-}
+type AppRoute = '/' | '/account/profile' | '/account/orders' | '/account/payments' | '/products' | '/staff/pickup-scanner';
 
 interface AccountOption {
   id: string;
@@ -43,6 +35,7 @@ export default function AccountScreen() {
   const colorScheme = useColorScheme();
   const { user, clearUser } = useUserStore();
   const router = useRouter();
+  const queryClient = useQueryClient();
 
   const { signOut } = useAuth();
   const [isLoadingUser, setIsLoadingUser] = React.useState(true);
@@ -56,7 +49,7 @@ export default function AccountScreen() {
   }, [user]);
 
   // Recent orders query - limited to 3
-  const { data: recentOrdersData, isLoading: isLoadingOrders } = useOrders({
+  const { data: recentOrdersData, isLoading: isLoadingOrders, refetch: refetchOrders } = useOrders({
     take: 3,
     limit: 3,
     where: { customerId: user?.id as string },
@@ -69,7 +62,7 @@ export default function AccountScreen() {
   const recentOrders = recentOrdersData?.data;
 
   // Recent payments query - limited to 3
-  const { data: recentPaymentsData, isLoading: isLoadingPayments } = usePayments({
+  const { data: recentPaymentsData, isLoading: isLoadingPayments, refetch: refetchPayments } = usePayments({
     take: 3,
     where: { userId: user?.id as string },
     orderBy: { createdAt: 'desc' },
@@ -77,11 +70,37 @@ export default function AccountScreen() {
 
   const recentPayments = recentPaymentsData?.data;
 
+  // Only staff need their permissions, e.g. to show the claim scanner
+  const { data: permissionsData } = useUserPermissions(user?.isStaff ? user.id : '');
+  const showClaimScanner = canClaimPickups(user, permissionsData?.data?.userPermissions);
+
+  // Pull to refresh also reloads the profile, picking up role or college changes made by an admin
+  const refreshProfile = useRefreshProfile(user?.id);
+  const [refreshing, setRefreshing] = React.useState(false);
+  const onRefresh = React.useCallback(async () => {
+    setRefreshing(true);
+    await Promise.all([refreshProfile(), refetchOrders(), refetchPayments()]);
+    setRefreshing(false);
+  }, [refreshProfile, refetchOrders, refetchPayments]);
+
+  const { mutateAsync: unregisterPushToken } = useUnregisterPushToken();
+
   // Logout mutation
   const logoutMutation = useMutation({
     mutationFn: async () => {
+      // Stop pushes to this device while still signed in; a failure shouldn't block logging out
+      const { pushToken, setPushToken } = useNotificationStore.getState();
+      if (pushToken) {
+        await unregisterPushToken(pushToken.token).catch((error) => {
+          // no-dd-sa:typescript-best-practices/no-console
+          console.warn('Failed to unregister push token:', error);
+        });
+        setPushToken(null);
+      }
       await signOut();
       clearUser();
+      // Also empties the saved cache so the next account doesn't see this one's data
+      queryClient.clear();
       router.replace('/sign-in');
     },
   });
@@ -103,7 +122,7 @@ export default function AccountScreen() {
       id: 'profile',
       title: 'Edit Profile',
       icon: 'user-circle',
-      route: '/',
+      route: '/account/profile',
       description: 'Update your personal information and preferences'
     },
     {
@@ -115,11 +134,18 @@ export default function AccountScreen() {
     },
     {
       id: 'payments',
-      title: 'Payment Methods',
+      title: 'Payment History',
       icon: 'credit-card',
       route: '/account/payments',
-      description: 'Manage your saved payment methods'
+      description: 'View your payments and their verification status'
     },
+    ...(showClaimScanner ? [{
+      id: 'claim-scanner',
+      title: 'Claim Scanner',
+      icon: 'qrcode',
+      route: '/staff/pickup-scanner',
+      description: 'Scan pickup codes and hand over ready orders'
+    } satisfies AccountOption] : []),
     {
       id: 'addresses',
       title: 'Shipping Addresses',
@@ -132,7 +158,7 @@ export default function AccountScreen() {
       title: 'Account Settings',
       icon: 'cog',
       route: '/',
-      description: 'Notification preferences, privacy settings, and more'
+      description: 'Privacy settings and more'
     },
     {
       id: 'help',
@@ -154,25 +180,15 @@ export default function AccountScreen() {
     return new Date(dateString).toLocaleDateString(undefined);
   };
 
-  // Helper function to get payment status class
-  const getPaymentStatusClass = (status: string) => {
-    if (status === 'PAID' || status === 'COMPLETED' || status === 'VERIFIED') {
-      return 'bg-green-100 text-green-800';
-    } else if (status === 'PENDING' || status === 'PROCESSING') {
-      return 'bg-yellow-100 text-yellow-800';
-    } else if (status === 'FAILED' || status === 'CANCELLED' || status === 'DECLINED') {
-      return 'bg-red-100 text-red-800';
-    } else if (status === 'REFUNDED' || status === 'REFUND_PENDING') {
-      return 'bg-blue-100 text-blue-800';
-    } else {
-      return 'bg-neutral-100 text-neutral-800';
-    }
-  };
-
   return (
     <SafeAreaView className="flex-1 bg-neutral-50 dark:bg-neutral-900">
       <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
-      <ScrollView className="flex-1">
+      <ScrollView
+        className="flex-1"
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={["#2C59DB"]} tintColor={"#2C59DB"} />
+        }
+      >
         {/* Header/Profile Section */}
         <View className="bg-primary p-5 pb-8 rounded-b-3xl shadow-sm mb-6">
           <View className="flex-row items-center">
@@ -189,7 +205,7 @@ export default function AccountScreen() {
               <Text className="text-white/80">
                 {userData?.email ?? 'No email provided'}
               </Text>
-              <TouchableOpacity className="flex-row items-center mt-2" onPress={() => router.push('/')}>
+              <TouchableOpacity className="flex-row items-center mt-2" onPress={() => router.push('/account/profile' as AppRoute)}>
                 <Text className="text-white mr-1">Edit Profile</Text>
                 <FontAwesome name="pencil" size={12} color="#FFFFFF" />
               </TouchableOpacity>
@@ -248,7 +264,7 @@ export default function AccountScreen() {
                   </Text>
                   <View className="flex-row justify-between items-center">
                     <Text className="text-primary font-bold">
-                      ${order.totalAmount?.toFixed(2)}
+                      {formatCurrency(order.totalAmount)}
                     </Text>
                     <FontAwesome name="chevron-right" size={14} color="#ADB5BD" />
                   </View>
@@ -299,33 +315,39 @@ export default function AccountScreen() {
               <Text className="text-neutral-500">Loading your payments...</Text>
             </Card>
           ) : recentPayments && recentPayments.length > 0 ? (
-            (recentPayments as unknown as Payment[]).map((payment) => (
-              <Card key={payment.id} className="p-4 mb-3">
-                <View className="flex-row justify-between items-center mb-2">
-                  <View className="flex-row items-center">
-                    <FontAwesome 
-                      name="credit-card"
-                      size={16} 
-                      color="#2C59DB" 
-                      style={{ marginRight: 8 }}
-                    />
-                    <Text className="font-medium text-neutral-800 dark:text-white">
-                      Payment #{payment.id.slice(0, 6)}
+            recentPayments.map((payment) => (
+              <TouchableOpacity
+                key={payment.id}
+                onPress={() => router.push({
+                  pathname: '/account/payments/[paymentId]',
+                  params: { paymentId: payment.id }
+                })}
+              >
+                <Card className="p-4 mb-3">
+                  <View className="flex-row justify-between items-center mb-2">
+                    <View className="flex-row items-center">
+                      <FontAwesome 
+                        name={PAYMENT_METHOD_DETAILS[payment.paymentMethod]?.icon ?? 'credit-card'}
+                        size={16} 
+                        color="#2C59DB" 
+                        style={{ marginRight: 8 }}
+                      />
+                      <Text className="font-medium text-neutral-800 dark:text-white">
+                        Payment #{payment.id.slice(0, 6)}
+                      </Text>
+                    </View>
+                    <PaymentStatusChip status={payment.paymentStatus} />
+                  </View>
+                  <View className="flex-row justify-between items-center">
+                    <Text className="text-neutral-500 dark:text-neutral-400">
+                      {formatDate(payment.createdAt)}
+                    </Text>
+                    <Text className="text-primary font-bold">
+                      {formatCurrency(Number(payment.amount), payment.currency)}
                     </Text>
                   </View>
-                  <Text className={`text-xs font-medium px-2 py-1 rounded-full ${getPaymentStatusClass(payment.paymentStatus)}`}>
-                    {payment.paymentStatus || 'Unknown'}
-                  </Text>
-                </View>
-                <View className="flex-row justify-between items-center">
-                  <Text className="text-neutral-500 dark:text-neutral-400">
-                    {formatDate(payment.createdAt)}
-                  </Text>
-                  <Text className="text-primary font-bold">
-                    ${payment.amount?.toFixed(2)}
-                  </Text>
-                </View>
-              </Card>
+                </Card>
+              </TouchableOpacity>
             ))
           ) : (
             <Card className="p-4 items-center justify-center">
@@ -337,6 +359,11 @@ export default function AccountScreen() {
           )}
         </View>
 
+        <View className="px-4">
+          <PendingChanges className="mb-6" />
+          <NotificationPreferences latestOrder={recentOrders?.[0]} className="mb-6" />
+        </View>
+
         {/* Account Options */}
         <View className="px-4 mb-6">
           <Text className="text-lg font-bold text-neutral-800 dark:text-white mb-4">
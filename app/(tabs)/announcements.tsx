@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { View, Text, ScrollView, SafeAreaView, TouchableOpacity, ActivityIndicator, RefreshControl } from 'react-native';
+import { router } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import Animated, { FadeIn, FadeInDown } from 'react-native-reanimated';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { useColorScheme } from '@/components/useColorScheme';
+import ListFooter from '@/components/shared/list-footer';
+import { ANNOUNCEMENT_LEVEL_DETAILS } from '@/constants/announcements';
+import { useInfiniteAnnouncements } from '@/lib/hooks/use-queries';
+import { useAnnouncementReadState } from '@/lib/hooks/use-announcements';
+import type { QueryParams } from '@/types/common';
+import type { AnnouncementWithAuthor } from '@/types/announcement';
+import { stripHtmlTags } from '@/utils/html-parser';
+import { DEFAULT_PAGE_SIZE, isCloseToBottom } from '@/utils/pagination';
+
+const announcementParams: QueryParams = {
+  orderBy: { publishedAt: 'desc' },
+};
+
+const formatDate = (date: string | Date) => new Date(date).toLocaleDateString('en-US', {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric',
+});
+
+export default function AnnouncementsScreen() {
+  const colorScheme = useColorScheme();
+  const { userId, isRead, markRead } = useAnnouncementReadState();
+  const [refreshing, setRefreshing] = useState(false);
+
+  const {
+    items,
+    total,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    loadMore,
+    refresh,
+  } = useInfiniteAnnouncements(announcementParams, !!userId);
+  const announcements = items as AnnouncementWithAuthor[];
+  const unreadIds = announcements.filter(announcement => !isRead(announcement.id)).map(announcement => announcement.id);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await refresh();
+    setRefreshing(false);
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-neutral-50 dark:bg-neutral-900">
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+
+      <Animated.View className="px-4 pt-6 pb-6 bg-primary shadow-md" entering={FadeIn}>
+        <View className="flex-row justify-between items-center">
+          <View className="flex-row items-center">
+            <FontAwesome name="bullhorn" size={24} color="#FFFFFF" />
+            <Text className="text-2xl font-bold text-white ml-2">Announcements</Text>
+          </View>
+          {unreadIds.length > 0 && (
+            <Button
+              title="Mark All Read"
+              size="sm"
+              icon="check"
+              className="bg-white"
+              iconColor="#2C59DB"
+              onPress={() => markRead(unreadIds)}
+            />
+          )}
+        </View>
+        <Text className="text-white/80 mt-2">
+          {total ? `${total} announcement${total === 1 ? '' : 's'}` : 'Pickup schedules, shop updates and more'}
+        </Text>
+      </Animated.View>
+
+      <ScrollView
+        className="flex-1"
+        contentContainerClassName="p-4"
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={["#2C59DB"]} tintColor={"#2C59DB"} />
+        }
+        onScroll={({ nativeEvent }) => {
+          if (isCloseToBottom(nativeEvent)) loadMore();
+        }}
+        scrollEventThrottle={200}
+      >
+        {isLoading ? (
+          <View className="py-10 items-center justify-center">
+            <ActivityIndicator size="large" color="#2C59DB" />
+            <Text className="mt-4 text-neutral-500 dark:text-neutral-400">Loading announcements...</Text>
+          </View>
+        ) : announcements.length === 0 ? (
+          <View className="py-10 items-center justify-center">
+            <FontAwesome name="bullhorn" size={50} color={colorScheme === 'dark' ? "#4B5563" : "#D1D5DB"} />
+            <Text className="mt-4 text-neutral-500 dark:text-neutral-400 text-center">
+              No announcements yet
+            </Text>
+          </View>
+        ) : (
+          <>
+            {announcements.map((announcement, index) => {
+              const details = ANNOUNCEMENT_LEVEL_DETAILS[announcement.level] ?? ANNOUNCEMENT_LEVEL_DETAILS.INFO;
+              const unread = !isRead(announcement.id);
+
+              return (
+                <Animated.View
+                  key={announcement.id}
+                  entering={FadeInDown.delay((index % DEFAULT_PAGE_SIZE) * 50).duration(300)}
+                >
+                  <TouchableOpacity
+                    activeOpacity={0.8}
+                    onPress={() => router.push({ pathname: '/announcements/[id]', params: { id: announcement.id } })}
+                  >
+                    <Card className="mb-3 p-4">
+                      <View className="flex-row items-center justify-between mb-2">
+                        <View className={`flex-row items-center px-2 py-1 rounded-full ${details.className}`}>
+                          <FontAwesome name={details.icon} size={12} color={details.color} />
+                          <Text className={`ml-1 text-xs font-medium ${details.textClassName}`}>{details.label}</Text>
+                        </View>
+                        <View className="flex-row items-center">
+                          <Text className="text-xs text-neutral-500 dark:text-neutral-400">
+                            {formatDate(announcement.publishedAt)}
+                          </Text>
+                          {unread && <View className="w-2 h-2 ml-2 rounded-full bg-primary" />}
+                        </View>
+                      </View>
+                      <Text className={`text-base text-neutral-800 dark:text-white ${unread ? 'font-bold' : 'font-medium'}`}>
+                        {announcement.title}
+                      </Text>
+                      <Text className="mt-1 text-sm text-neutral-600 dark:text-neutral-400" numberOfLines={2}>
+                        {stripHtmlTags(announcement.content)}
+                      </Text>
+                    </Card>
+                  </TouchableOpacity>
+                </Animated.View>
+              );
+            })}
+            <ListFooter
+              isFetchingNextPage={isFetchingNextPage}
+              hasNextPage={hasNextPage}
+              itemCount={announcements.length}
+              onLoadMore={loadMore}
+              endLabel="You're all caught up"
+            />
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
@@ -8,21 +8,14 @@ import Animated, { FadeIn, FadeInDown, FadeInRight, SlideInUp, ZoomIn } from 're
 import { Button } from '@/components/ui/Button';
 import { useColorScheme } from '@/components/useColorScheme';
 import { useApiClient } from '@/lib/api';
+import { categoryKeys, productKeys } from '@/lib/query-keys';
 import { ApiResponse } from '@/types/common';
 import { Category, Product } from '@prisma/client';
+import { useRolePricing } from '@/lib/hooks/use-role-pricing';
+import { useRefreshProfile } from '@/lib/hooks/use-queries';
 import { useUserStore } from '@/stores/user.store';
-import { useRolePricing } from '@/utils/use-role-pricing';
 import { parseHtmlForDisplay } from '@/utils/html-parser';
-
-// Format currency as Philippine Peso
-const formatCurrency = (amount: number): string => {
-  return new Intl.NumberFormat('en-PH', {
-    style: 'currency',
-    currency: 'PHP',
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(amount);
-};
+import AnnouncementBanner from '@/components/shared/announcement-banner';
 
 // Extended Product interface with required properties
 interface ExtendedProduct extends Product {
@@ -44,14 +37,15 @@ interface ExtendedProduct extends Product {
 export default function HomeScreen() {
   const colorScheme = useColorScheme();
   const [refreshing, setRefreshing] = React.useState(false);
-  const { user } = useUserStore();
+  const { getProductPriceRange } = useRolePricing();
+  const refreshProfile = useRefreshProfile(useUserStore((state) => state.user?.id));
   
   const api = useApiClient();
   
   // Featured products query
   const { data: featuredProducts, isLoading: isLoadingFeatured, refetch: refetchFeatured } = useQuery({
-    queryKey: ['products', 'featured'],
-    queryFn: async () => {
+    queryKey: productKeys.featured(),
+    queryFn: async ({ signal }) => {
       const response = await api.post('/products', {
         take: 4,
         orderBy: { createdAt: 'desc' },
@@ -62,94 +56,29 @@ export default function HomeScreen() {
             select: { college: true }
           }
         }
-      });
+      }, { signal, idempotent: true });
       return (response as ApiResponse<ExtendedProduct[]>).data;
     }
   });
 
   // Categories query
   const { data: categories, isLoading: isLoadingCategories, refetch: refetchCategories } = useQuery({
-    queryKey: ['categories'],
-    queryFn: async () => {
-      const response = await api.post('/categories', {});
+    queryKey: categoryKeys.list(),
+    queryFn: async ({ signal }) => {
+      const response = await api.post('/categories', {}, { signal, idempotent: true });
       return (response as ApiResponse<Category[]>).data;
     }
   });
 
   const onRefresh = React.useCallback(async () => {
     setRefreshing(true);
-    await Promise.all([refetchFeatured(), refetchCategories()]);
+    // The profile is refreshed too so role and college prices are current
+    await Promise.all([refetchFeatured(), refetchCategories(), refreshProfile()]);
     setRefreshing(false);
-  }, [refetchFeatured, refetchCategories]);
+  }, [refetchFeatured, refetchCategories, refreshProfile]);
 
   // Function to get pricing for a product
-  const getPricing = (product: ExtendedProduct) => {
-    try {
-      // If the product has variants, process them
-      if (product.variants && product.variants.length > 0) {
-        // Get pricing for each variant
-        const variantPricings = product.variants.map(variant => {
-          return useRolePricing({
-            variant: {
-              price: Number(variant.price),
-              rolePricing: variant.rolePricing as unknown as Record<string, number> || {}
-            },
-            customerRole: user?.role as string | null,
-            customerCollege: user?.college as string | null,
-            productPostedByCollege: product.postedBy?.college || null
-          });
-        });
-
-        // Find the lowest and highest prices
-        const prices = variantPricings.map(p => p.price);
-        const lowestPrice = Math.min(...prices);
-        const highestPrice = Math.max(...prices);
-        
-        // Check if all variants have the same role pricing applied
-        const allSameRole = variantPricings.every(p => p.appliedRole === variantPricings[0].appliedRole);
-        const commonAppliedRole = allSameRole ? variantPricings[0].appliedRole : "OTHERS";
-        
-        // If all variants have the same price, display a single price
-        if (lowestPrice === highestPrice) {
-          return {
-            price: lowestPrice,
-            appliedRole: commonAppliedRole,
-            formattedPrice: formatCurrency(lowestPrice),
-            originalPrice: undefined
-          };
-        }
-        
-        // Otherwise, display a price range
-        return {
-          price: lowestPrice, // Use lowest price as the base price
-          appliedRole: commonAppliedRole,
-          formattedPrice: `${formatCurrency(lowestPrice)} - ${formatCurrency(highestPrice)}`,
-          originalPrice: undefined,
-          isRange: true
-        };
-      }
-      
-      // If no variants, use the main product price
-      return useRolePricing({
-        variant: { 
-          price: product?.price ? Number(product.price) : 0,
-          rolePricing: product.rolePricing as unknown as Record<string, number> || {}
-        },
-        customerRole: user?.role as string | null,
-        customerCollege: user?.college as string | null,
-        productPostedByCollege: product.postedBy?.college || null
-      });
-    } catch (error) {
-      // In case of any error, return a default pricing object
-      console.warn("Error calculating price:", error);
-      return {
-        price: 0,
-        appliedRole: "OTHERS",
-        formattedPrice: formatCurrency(0),
-        originalPrice: undefined
-      };
-    }
-  };
+  const getPricing = (product: ExtendedProduct) => getProductPriceRange(product, product.postedBy?.college);
 
   return (
     <>
@@ -210,6 +139,9 @@ export default function HomeScreen() {
             </View>
           </Animated.View>
         </Animated.View>
+
+        {/* Unread critical announcement */}
+        <AnnouncementBanner />
         
         {/* Featured Products */}
         <Animated.View 
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { View, Text, ScrollView, SafeAreaView, TouchableOpacity, ActivityIndicator, RefreshControl, Alert } from 'react-native';
+import { router } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import Animated, { FadeIn, FadeInDown, FadeOut } from 'react-native-reanimated';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { TextInput } from '@/components/ui/TextInput';
+import { useColorScheme } from '@/components/useColorScheme';
+import { useInbox } from '@/lib/hooks/use-messages';
+import { useSendMessage } from '@/lib/hooks/use-mutations';
+import { messageSchema, type MessageFormData } from '@/lib/validations/forms';
+import { useUserStore } from '@/stores/user.store';
+import { countUnreadInThread, getLastMessage } from '@/utils/messages';
+
+const formatDate = (date: string | Date) => new Date(date).toLocaleDateString('en-US', {
+  month: 'short',
+  day: 'numeric',
+});
+
+export default function MessagesScreen() {
+  const colorScheme = useColorScheme();
+  const { user } = useUserStore();
+  const [refreshing, setRefreshing] = useState(false);
+  const [showComposer, setShowComposer] = useState(false);
+
+  const { threads, unreadCount, isLoading, refetch } = useInbox();
+  const sendMessageMutation = useSendMessage();
+
+  const { control, handleSubmit, reset, formState: { errors } } = useForm<MessageFormData>({
+    resolver: zodResolver(messageSchema),
+    defaultValues: { subject: '', message: '' },
+  });
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await refetch();
+    setRefreshing(false);
+  };
+
+  const toggleComposer = () => {
+    if (showComposer) reset();
+    setShowComposer(!showComposer);
+  };
+
+  const onSend = handleSubmit((values) => {
+    if (!user) return;
+
+    sendMessageMutation.mutate({ ...values, sentBy: user.id, email: user.email }, {
+      onSuccess: () => {
+        reset();
+        setShowComposer(false);
+        Alert.alert('Message Sent', "We'll reply here as soon as we can.");
+      },
+      onError: (error) => {
+        Alert.alert('Message Not Sent', error.message || "We couldn't send your message. Please try again.");
+      },
+    });
+  });
+
+  return (
+    <SafeAreaView className="flex-1 bg-neutral-50 dark:bg-neutral-900">
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+
+      <Animated.View className="px-4 pt-6 pb-6 bg-primary shadow-md" entering={FadeIn}>
+        <View className="flex-row justify-between items-center">
+          <View className="flex-row items-center">
+            <FontAwesome name="envelope" size={24} color="#FFFFFF" />
+            <Text className="text-2xl font-bold text-white ml-2">Messages</Text>
+          </View>
+          <Button
+            title={showComposer ? 'Cancel' : 'New'}
+            size="sm"
+            icon={showComposer ? 'times' : 'pencil'}
+            className={showComposer ? 'bg-white/20 border-white/30' : 'bg-white'}
+            iconColor={showComposer ? '#FFFFFF' : '#2C59DB'}
+            onPress={toggleComposer}
+          />
+        </View>
+        <Text className="text-white/80 mt-2">
+          {unreadCount > 0
+            ? `${unreadCount} unread repl${unreadCount === 1 ? 'y' : 'ies'}`
+            : 'Questions for the MerchTrack team'}
+        </Text>
+      </Animated.View>
+
+      <ScrollView
+        className="flex-1"
+        contentContainerClassName="p-4"
+        keyboardShouldPersistTaps="handled"
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={["#2C59DB"]} tintColor={"#2C59DB"} />
+        }
+      >
+        {showComposer && (
+          <Animated.View entering={FadeInDown.duration(300)} exiting={FadeOut.duration(200)}>
+            <Card className="p-4 mb-4">
+              <Text className="text-lg font-semibold text-neutral-800 dark:text-white mb-3">New Message</Text>
+              <Controller
+                control={control}
+                name="subject"
+                render={({ field: { onChange, value } }) => (
+                  <TextInput
+                    label="Subject"
+                    leftIcon="tag"
+                    value={value}
+                    onChangeText={onChange}
+                    placeholder="What is this about?"
+                    error={errors.subject?.message}
+                  />
+                )}
+              />
+              <Controller
+                control={control}
+                name="message"
+                render={({ field: { onChange, value } }) => (
+                  <TextInput
+                    label="Message"
+                    leftIcon="comment"
+                    value={value}
+                    onChangeText={onChange}
+                    placeholder="Write your message"
+                    multiline
+                    numberOfLines={4}
+                    error={errors.message?.message}
+                  />
+                )}
+              />
+              <Button
+                title="Send Message"
+                icon="paper-plane"
+                className="mt-2"
+                onPress={onSend}
+                isLoading={sendMessageMutation.isPending}
+                disabled={sendMessageMutation.isPending}
+              />
+            </Card>
+          </Animated.View>
+        )}
+
+        {isLoading ? (
+          <View className="py-10 items-center justify-center">
+            <ActivityIndicator size="large" color="#2C59DB" />
+            <Text className="mt-4 text-neutral-500 dark:text-neutral-400">Loading messages...</Text>
+          </View>
+        ) : threads.length === 0 ? (
+          <View className="py-10 items-center justify-center">
+            <FontAwesome name="envelope-o" size={50} color={colorScheme === 'dark' ? "#4B5563" : "#D1D5DB"} />
+            <Text className="mt-4 text-neutral-500 dark:text-neutral-400 text-center">
+              No messages yet. Tap New to ask us anything.
+            </Text>
+          </View>
+        ) : (
+          threads.map((thread, index) => {
+            const lastMessage = getLastMessage(thread);
+            const unread = countUnreadInThread(thread);
+
+            return (
+              <Animated.View key={thread.id} entering={FadeInDown.delay(index * 50).duration(300)}>
+                <TouchableOpacity
+                  activeOpacity={0.8}
+                  onPress={() => router.push({ pathname: '/messages/[id]', params: { id: thread.id } })}
+                >
+                  <Card className="mb-3 p-4">
+                    <View className="flex-row items-center justify-between mb-1">
+                      <Text
+                        className={`flex-1 mr-2 text-base text-neutral-800 dark:text-white ${unread > 0 ? 'font-bold' : 'font-medium'}`}
+                        numberOfLines={1}
+                      >
+                        {thread.subject}
+                      </Text>
+                      <Text className="text-xs text-neutral-500 dark:text-neutral-400">
+                        {formatDate(lastMessage.createdAt)}
+                      </Text>
+                    </View>
+                    <View className="flex-row items-center">
+                      <Text className="flex-1 text-sm text-neutral-600 dark:text-neutral-400" numberOfLines={2}>
+                        {lastMessage.isSentByAdmin ? 'MerchTrack: ' : 'You: '}{lastMessage.message}
+                      </Text>
+                      {unread > 0 && (
+                        <View className="ml-2 min-w-[20px] h-5 px-1.5 rounded-full bg-primary items-center justify-center">
+                          <Text className="text-white text-xs font-bold">{unread}</Text>
+                        </View>
+                      )}
+                    </View>
+                    {thread.isResolved && (
+                      <View className="flex-row items-center mt-2">
+                        <FontAwesome name="check-circle" size={12} color="#10B981" />
+                        <Text className="ml-1 text-xs text-green-600">Resolved</Text>
+                      </View>
+                    )}
+                  </Card>
+                </TouchableOpacity>
+              </Animated.View>
+            );
+          })
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
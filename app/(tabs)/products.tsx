@@ -12,12 +12,15 @@ import { TextInput } from '@/components/ui/TextInput';
 import { Button } from '@/components/ui/Button';
 import { useColorScheme } from '@/components/useColorScheme';
 import { useApiClient } from '@/lib/api';
+import { categoryKeys } from '@/lib/query-keys';
+import { useInfiniteProducts } from '@/lib/hooks/use-queries';
 import Animated, { FadeIn, FadeInDown } from 'react-native-reanimated';
 import type { Category, Product as PrismaProduct } from '@prisma/client';
 import { ApiResponse, QueryParams } from '@/types/common';
-import { useRolePricing } from '@/utils/use-role-pricing';
-import { useUserStore } from '@/stores/user.store';
+import { useRolePricing } from '@/lib/hooks/use-role-pricing';
 import { parseHtmlForDisplay } from '@/utils/html-parser';
+import { DEFAULT_PAGE_SIZE, isCloseToBottom } from '@/utils/pagination';
+import ListFooter from '@/components/shared/list-footer';
 
 // Define schema for filters
 const filterSchema = z.object({
@@ -50,13 +53,70 @@ interface Product extends PrismaProduct {
 // Define a more specific type for the 'where' clause if possible
 // For now, using Record<string, any> and will refine later if needed.
 
+// Builds the product list request from the filter form
+const buildProductParams = (formValues: FilterValues): QueryParams => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const where: Record<string, any> = {}; 
+  
+  if (formValues.search) {
+    where.OR = [
+      { title: { contains: formValues.search, mode: 'insensitive' } },
+      { description: { contains: formValues.search, mode: 'insensitive' } },
+    ];
+  }
+
+  if (formValues.categoryId) {
+    where.categoryId = formValues.categoryId;
+  }
+
+  if (formValues.minPrice !== undefined || formValues.maxPrice !== undefined) {
+    where.price = {};
+    if (formValues.minPrice !== undefined) {
+      where.price.gte = formValues.minPrice;
+    }
+    if (formValues.maxPrice !== undefined) {
+      where.price.lte = formValues.maxPrice;
+    }
+  }
+
+  const orderBy: Record<string, string> = {};
+  switch (formValues.sortBy) {
+  case 'price_asc':
+    orderBy.price = 'asc';
+    break;
+  case 'price_desc':
+    orderBy.price = 'desc';
+    break;
+  case 'newest':
+    orderBy.createdAt = 'desc';
+    break;
+  case 'oldest':
+    orderBy.createdAt = 'asc';
+    break;
+  default:
+    orderBy.createdAt = 'desc';
+  }
+
+  return {
+    where,
+    orderBy,
+    include: { 
+      category: true,
+      variants: true,
+      postedBy: {
+        select: { college: true }
+      }
+    }
+  } as QueryParams;
+};
+
 export default function ProductsScreen() {
   const colorScheme = useColorScheme();
   const [refreshing, setRefreshing] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
   const params = useLocalSearchParams();
   const api = useApiClient();
-  const { user } = useUserStore();
+  const { getProductPriceRange } = useRolePricing();
 
 
   const { watch, setValue, reset } = useForm<FilterValues>({
@@ -86,88 +146,33 @@ export default function ProductsScreen() {
   }, [searchValue, debouncedSearch]);
 
   const { data: categoriesData, isLoading: isLoadingCategories } = useQuery<ApiResponse<Category[]>>({
-    queryKey: ['categories'],
-    queryFn: async () => {
-      return api.post<ApiResponse<Category[]>>('/categories', {take: 10} as QueryParams);
+    queryKey: categoryKeys.list({ take: 10 }),
+    queryFn: async ({ signal }) => {
+      return api.post<ApiResponse<Category[]>>('/categories', {take: 10} as QueryParams, { signal, idempotent: true });
     },
   });
   const categories = categoriesData?.data || [];
   const filters = watch();
+  const productParams = buildProductParams(filters);
   const {
-    data: productsResponse,
+    items: products,
+    total,
     isLoading: isLoadingProducts,
-    refetch,
-  } = useQuery<ApiResponse<Product[]>>({
-    queryKey: ['products', JSON.stringify(filters)], 
-    queryFn: async () => {
-      const formValues = watch();
-      
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const where: Record<string, any> = {}; 
-      
-      if (formValues.search) {
-        where.OR = [
-          { title: { contains: formValues.search, mode: 'insensitive' } },
-          { description: { contains: formValues.search, mode: 'insensitive' } },
-        ];
-      }
-
-      if (formValues.categoryId) {
-        where.categoryId = formValues.categoryId;
-      }
-
-      if (formValues.minPrice !== undefined || formValues.maxPrice !== undefined) {
-        where.price = {};
-        if (formValues.minPrice !== undefined) {
-          where.price.gte = formValues.minPrice;
-        }
-        if (formValues.maxPrice !== undefined) {
-          where.price.lte = formValues.maxPrice;
-        }
-      }
-
-      const orderBy: Record<string, string> = {};
-      switch (formValues.sortBy) {
-      case 'price_asc':
-        orderBy.price = 'asc';
-        break;
-      case 'price_desc':
-        orderBy.price = 'desc';
-        break;
-      case 'newest':
-        orderBy.createdAt = 'desc';
-        break;
-      case 'oldest':
-        orderBy.createdAt = 'asc';
-        break;
-      default:
-        orderBy.createdAt = 'desc';
-      }
-
-      return api.post<ApiResponse<Product[]>>('/products', {
-        take: 20,
-        skip: 0,
-        where,
-        orderBy,
-        include: { 
-          category: true,
-          variants: true,
-          postedBy: {
-            select: { college: true }
-          }
-        }
-      } as QueryParams);
-    },
-  });
+    hasNextPage,
+    isFetchingNextPage,
+    loadMore,
+    refresh,
+  } = useInfiniteProducts<Product>(productParams);
 
+  // Pull to refresh starts over from the first page
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
-    await refetch();
+    await refresh();
     setRefreshing(false);
-  }, [refetch]);
+  }, [refresh]);
 
   const handleApplyFilters = () => {
-    refetch(); 
+    refresh(); 
   };
 
   const handleClearFilters = () => {
@@ -178,80 +183,13 @@ export default function ProductsScreen() {
       maxPrice: undefined,
       sortBy: 'newest',
     });
-    refetch();
+    refresh();
   };
 
-  const products = productsResponse?.data || [];
-  const metadata = productsResponse?.metadata || { total: 0, hasNextPage: false, hasPreviousPage: false, page: 1, lastPage: 1 };
+  const totalProducts = total ?? products.length;
 
   // Function to get pricing for a product
-  const getPricing = (product: Product) => {
-    try {
-      // If the product has variants, process them
-      if (product.variants && product.variants.length > 0) {
-        // Get pricing for each variant
-        const variantPricings = product.variants.map(variant => {
-          return useRolePricing({
-            variant: {
-              price: Number(variant.price),
-              rolePricing: variant.rolePricing as unknown as Record<string, number> || {}
-            },
-            customerRole: user?.role as string | null,
-            customerCollege: user?.college as string | null,
-            productPostedByCollege: product.postedBy?.college || null
-          });
-        });
-
-        // Find the lowest and highest prices
-        const prices = variantPricings.map(p => p.price);
-        const lowestPrice = Math.min(...prices);
-        const highestPrice = Math.max(...prices);
-        
-        // Check if all variants have the same role pricing applied
-        const allSameRole = variantPricings.every(p => p.appliedRole === variantPricings[0].appliedRole);
-        const commonAppliedRole = allSameRole ? variantPricings[0].appliedRole : "OTHERS";
-        
-        // If all variants have the same price, display a single price
-        if (lowestPrice === highestPrice) {
-          return {
-            price: lowestPrice,
-            appliedRole: commonAppliedRole,
-            formattedPrice: `₱${lowestPrice.toFixed(2)}`,
-            originalPrice: undefined
-          };
-        }
-        
-        // Otherwise, display a price range
-        return {
-          price: lowestPrice, // Use lowest price as the base price
-          appliedRole: commonAppliedRole,
-          formattedPrice: `₱${lowestPrice.toFixed(2)} - ₱${highestPrice.toFixed(2)}`,
-          originalPrice: undefined,
-          isRange: true
-        };
-      }
-      
-      // If no variants, use the main product price
-      return useRolePricing({
-        variant: { 
-          price: product?.price ? Number(product.price) : 0,
-          rolePricing: product.rolePricing as unknown as Record<string, number> || {}
-        },
-        customerRole: user?.role as string | null,
-        customerCollege: user?.college as string | null,
-        productPostedByCollege: product.postedBy?.college || null
-      });
-    } catch (error) {
-      // In case of any error, return a default pricing object
-      console.warn("Error calculating price:", error);
-      return {
-        price: 0,
-        appliedRole: "OTHERS",
-        formattedPrice: "₱0.00",
-        originalPrice: undefined
-      };
-    }
-  };
+  const getPricing = (product: Product) => getProductPriceRange(product, product.postedBy?.college);
 
   return (
     <SafeAreaView className="flex-1 bg-neutral-50 dark:bg-neutral-900">
@@ -362,10 +300,14 @@ export default function ProductsScreen() {
         refreshControl={
           <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={["#2C59DB"]} tintColor={"#2C59DB"}/>
         }
+        onScroll={({ nativeEvent }) => {
+          if (isCloseToBottom(nativeEvent)) loadMore();
+        }}
+        scrollEventThrottle={200}
       >
         <View className="flex-row justify-between items-center mb-4 px-2">
           <Text className="text-sm text-neutral-600 dark:text-neutral-400">
-            {isLoadingProducts ? 'Loading products...' : `${metadata.total} Product${metadata.total === 1 ? '' : 's'} Found`}
+            {isLoadingProducts ? 'Loading products...' : `${totalProducts} Product${totalProducts === 1 ? '' : 's'} Found`}
           </Text>
           {(watch('search') || watch('categoryId') || watch('minPrice') !== undefined || watch('maxPrice') !== undefined) && (
             <TouchableOpacity
@@ -393,7 +335,8 @@ export default function ProductsScreen() {
                 <Animated.View 
                   key={product.id}
                   className="w-1/2 px-2 mb-4" 
-                  entering={FadeInDown.delay(100 + index * 50).springify().duration(600)}
+                  // Stagger within a page so later pages don't wait on earlier items
+                  entering={FadeInDown.delay(100 + (index % DEFAULT_PAGE_SIZE) * 50).springify().duration(600)}
                 >
                   <Link
                     href={`/product/${product.slug}`}
@@ -447,6 +390,16 @@ export default function ProductsScreen() {
           </View>
         )}
 
+        {!isLoadingProducts && (
+          <ListFooter
+            isFetchingNextPage={isFetchingNextPage}
+            hasNextPage={hasNextPage}
+            itemCount={products.length}
+            onLoadMore={loadMore}
+            endLabel="You've seen every product"
+          />
+        )}
+
         {!isLoadingProducts && products.length === 0 && (
           <View className="items-center justify-center py-16">
             <FontAwesome name="dropbox" size={60} color={colorScheme === 'dark' ? '#4B5563' : '#9CA3AF'} />
@@ -1,41 +1,33 @@
-import React, { useState } from 'react';
-import { View, Text, ScrollView, SafeAreaView, TouchableOpacity, ActivityIndicator, RefreshControl, Alert, Modal, TextInput as RNTextInput } from 'react-native';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import React, { useEffect, useState } from 'react';
+import { View, Text, ScrollView, SafeAreaView, TouchableOpacity, ActivityIndicator, RefreshControl, Alert, TextInput as RNTextInput } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import Animated, { FadeIn, FadeInDown, FadeOut, SlideInRight } from 'react-native-reanimated';
-import * as z from 'zod';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { useColorScheme } from '@/components/useColorScheme';
 import { useUserStore } from '@/stores/user.store';
-import { useApiClient } from '@/lib/api';
-
-// Ticket status types with icons
-const ticketStatus = {
-  OPEN: { 
-    color: 'bg-green-100 text-green-800', 
-    label: 'Open',
-    icon: 'envelope-open'
-  },
-  IN_PROGRESS: { 
-    color: 'bg-blue-100 text-blue-800', 
-    label: 'In Progress',
-    icon: 'spinner'
-  },
-  RESOLVED: { 
-    color: 'bg-gray-100 text-gray-800', 
-    label: 'Resolved',
-    icon: 'check-circle'
-  },
-  CLOSED: { 
-    color: 'bg-red-100 text-red-800', 
-    label: 'Closed',
-    icon: 'times-circle'
-  },
-};
+import { useInfiniteTickets } from '@/lib/hooks/use-queries';
+import { useCreateTicket } from '@/lib/hooks/use-mutations';
+import { ticketSchema, type TicketFormData } from '@/lib/validations/forms';
+import type { QueryParams } from '@/types/common';
+import { DEFAULT_PAGE_SIZE, isCloseToBottom } from '@/utils/pagination';
+import ListFooter from '@/components/shared/list-footer';
+import PendingChanges from '@/components/shared/pending-changes';
+import { isQueuedMutation } from '@/utils/outbox';
+import {
+  applyTicketTemplate,
+  describeTicketLink,
+  getTicketTemplates,
+  isTicketTemplateId,
+  parseTicketUpdates,
+  type TicketLink,
+} from '@/utils/tickets';
+import { TICKET_STATUS_DETAILS, TICKET_TEMPLATES, type TicketTemplateId } from '@/constants/tickets';
+import type { TicketStatus } from '@/types/ticket';
 
 // Priority icons and colors
 const priorityConfig = {
@@ -54,42 +46,20 @@ const priorityConfig = {
     activeColor: 'bg-orange-500',
     icon: 'arrow-up'
   },
-  URGENT: { 
-    color: 'bg-red-50 border-red-200',
-    activeColor: 'bg-red-500',
-    icon: 'exclamation'
-  },
 };
 
-// Define schema for new ticket form
-const newTicketSchema = z.object({
-  subject: z.string().min(5, 'Subject is required and must be at least 5 characters'),
-  description: z.string().min(10, 'Description is required and must be at least 10 characters'),
-  priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']),
-});
-
-type NewTicketFormValues = z.infer<typeof newTicketSchema>;
-
-// Add TicketUpdate type
-type TicketStatus = "OPEN" | "CLOSED" | "IN_PROGRESS" | "RESOLVED";
-
-interface TicketUpdate {
-  status: TicketStatus;
-  message: string;
-  createdBy?: string;
-  createdAt?: string;
-}
-
 // Add Ticket interface
 interface Ticket {
   id: string;
-  subject: string;
+  title: string;
   description: string;
   status: TicketStatus;
-  priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+  priority: 'LOW' | 'MEDIUM' | 'HIGH';
+  orderId?: string | null;
+  paymentId?: string | null;
   createdAt: string;
   createdById: string;
-  updates: TicketUpdate[] | undefined | null | string;
+  updates: unknown;
   messages?: {
     id: string;
     content: string;
@@ -98,16 +68,6 @@ interface Ticket {
   }[];
 }
 
-// Define API response type
-interface TicketsResponse {
-  data: Ticket[];
-  metadata: {
-    total: number;
-    hasNextPage?: boolean;
-    hasPreviousPage?: boolean;
-  };
-}
-
 // Valid FontAwesome icon type
 type IconName = React.ComponentProps<typeof FontAwesome>['name'];
 
@@ -116,67 +76,94 @@ export default function TicketsScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [showNewTicketForm, setShowNewTicketForm] = useState(false);
   const { user } = useUserStore();
-  const queryClient = useQueryClient();
-  const api = useApiClient();
-  const [selectedTicket, setSelectedTicket] = useState<Ticket | null>(null);
-  const [modalVisible, setModalVisible] = useState(false);
+  const params = useLocalSearchParams<{ orderId?: string; paymentId?: string; template?: string }>();
+  const [ticketLink, setTicketLink] = useState<TicketLink>({});
+  const [templateId, setTemplateId] = useState<TicketTemplateId | null>(null);
   
   // Form setup with zod validation
-  const { control, handleSubmit, formState: { errors }, reset, watch, setValue } = useForm<NewTicketFormValues>({
-    resolver: zodResolver(newTicketSchema),
+  const { control, handleSubmit, formState: { errors }, reset, watch, setValue } = useForm<TicketFormData>({
+    resolver: zodResolver(ticketSchema),
     defaultValues: {
-      subject: '',
+      title: '',
       description: '',
       priority: 'MEDIUM',
     },
   });
 
+  const selectTemplate = (id: TicketTemplateId, link: TicketLink = ticketLink) => {
+    setTemplateId(id);
+    reset(applyTicketTemplate(id, link));
+  };
+
+  const clearNewTicket = () => {
+    setTicketLink({});
+    setTemplateId(null);
+    reset();
+  };
+
+  // "Report a problem" shortcuts open the form already linked to an order or payment
+  useEffect(() => {
+    if (!params.orderId && !params.paymentId) return;
+
+    const link = { orderId: params.orderId || undefined, paymentId: params.paymentId || undefined };
+    setTicketLink(link);
+    if (isTicketTemplateId(params.template)) {
+      selectTemplate(params.template, link);
+    } else {
+      setTemplateId(null);
+      reset();
+    }
+    setShowNewTicketForm(true);
+    // Clear the params so returning to the tab doesn't prefill the form again
+    router.setParams({ orderId: undefined, paymentId: undefined, template: undefined });
+  }, [params.orderId, params.paymentId, params.template]);
+
   // Fetch user tickets
-  const { data: ticketsResponse, isLoading, refetch } = useQuery({
-    queryKey: ['tickets', user?.id],
-    queryFn: async () => {
-      if (!user?.id) return { data: [], metadata: { total: 0 } } as TicketsResponse;
-      const response = await api.post('/tickets', {
-        where: { createdById: user.id },
-        orderBy: { createdAt: 'desc' },
-      });
-      return response as TicketsResponse;
-    },
-    enabled: !!user?.id,
-  });
+  const ticketParams: QueryParams = {
+    where: { createdById: user?.id ?? '' },
+    orderBy: { createdAt: 'desc' },
+  };
+  const {
+    items,
+    total,
+    isLoading,
+    isFetchingNextPage,
+    hasNextPage,
+    loadMore,
+    refresh,
+  } = useInfiniteTickets(ticketParams, !!user?.id);
 
-  // Access data safely
-  const tickets = ticketsResponse?.data || [];
-  const metadata = ticketsResponse?.metadata || { total: 0 };
+  // The list endpoint returns the Prisma ticket; this screen reads it through its own shape
+  const tickets = items as unknown as Ticket[];
 
   // Create new ticket mutation
-  const createTicketMutation = useMutation({
-    mutationFn: async (data: NewTicketFormValues) => {
-      return api.post('/api/tickets/create', {
-        ...data,
-        userId: user?.id,
-      });
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['tickets'] });
-      setShowNewTicketForm(false);
-      reset();
-      Alert.alert('Success', 'Your support ticket has been created.');
-    },
-    onError: (error) => {
-      Alert.alert('Error', 'Failed to create ticket. Please try again.');
-      console.error('Failed to create ticket:', error);
-    },
-  });
+  const createTicketMutation = useCreateTicket();
 
   const onRefresh = React.useCallback(async () => {
     setRefreshing(true);
-    await refetch();
+    await refresh();
     setRefreshing(false);
-  }, [refetch]);
+  }, [refresh]);
 
-  const onSubmitTicket = (data: NewTicketFormValues) => {
-    createTicketMutation.mutate(data);
+  const onSubmitTicket = (data: TicketFormData) => {
+    if (!user?.id) return;
+
+    createTicketMutation.mutate({ ...data, ...ticketLink, userId: user.id }, {
+      onSuccess: (response) => {
+        setShowNewTicketForm(false);
+        clearNewTicket();
+        Alert.alert(
+          'Success',
+          isQueuedMutation(response)
+            ? "You're offline. Your ticket will be sent when you're back online."
+            : 'Your support ticket has been created.'
+        );
+      },
+      onError: (error) => {
+        Alert.alert('Error', 'Failed to create ticket. Please try again.');
+        console.error('Failed to create ticket:', error);
+      },
+    });
   };
 
   const formatDate = (dateString: string | number | Date) => {
@@ -185,52 +172,12 @@ export default function TicketsScreen() {
 
   // Toggle form with animation
   const toggleNewTicketForm = () => {
+    if (showNewTicketForm) clearNewTicket();
     setShowNewTicketForm(!showNewTicketForm);
   };
 
-  // Process updates to ensure they're in array format
-  const processUpdates = (updates: TicketUpdate[] | undefined | null | string): TicketUpdate[] => {
-    if (!updates) {
-      return [];
-    }
-    
-    // If it's a string, try to parse it as JSON
-    if (typeof updates === 'string') {
-      try {
-        const parsedUpdates = JSON.parse(updates);
-        return Array.isArray(parsedUpdates) ? parsedUpdates : [];
-      } catch (error) {
-        console.warn('Failed to parse updates string:', error);
-        return [];
-      }
-    }
-    
-    // If it's already an array, return it
-    if (Array.isArray(updates)) {
-      return updates;
-    }
-    
-    // If we reached here, we have something unexpected
-    console.warn('Unexpected updates format:', updates);
-    return [];
-  };
-
-  // Function to handle opening the ticket detail modal
-  const openTicketModal = (ticket: Ticket) => {
-    // Process ticket updates to ensure it's an array
-    const processedTicket = {
-      ...ticket,
-      updates: processUpdates(ticket.updates)
-    };
-    
-    setSelectedTicket(processedTicket);
-    setModalVisible(true);
-  };
-
-  // Function to close the modal
-  const closeModal = () => {
-    setModalVisible(false);
-    setSelectedTicket(null);
+  const openTicket = (ticket: Ticket) => {
+    router.push({ pathname: '/ticket/[id]', params: { id: ticket.id } });
   };
 
   // Helper to get FontAwesome icon name safely
@@ -271,7 +218,13 @@ export default function TicketsScreen() {
         refreshControl={
           <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
         }
+        onScroll={({ nativeEvent }) => {
+          if (isCloseToBottom(nativeEvent)) loadMore();
+        }}
+        scrollEventThrottle={200}
       >
+        <PendingChanges types={['ticket.create']} title="Tickets Waiting to Send" className="mb-4" />
+
         {/* New Ticket Form with animation */}
         {showNewTicketForm && (
           <Animated.View
@@ -286,28 +239,66 @@ export default function TicketsScreen() {
                 </Text>
               </View>
               
+              {describeTicketLink(ticketLink) && (
+                <View className="flex-row items-center self-start mb-4 px-3 py-1.5 rounded-full bg-primary/10 dark:bg-primary/20">
+                  <FontAwesome name="link" size={12} color="#2C59DB" />
+                  <Text className="text-primary text-xs font-medium ml-1.5">
+                    About {describeTicketLink(ticketLink)}
+                  </Text>
+                  <TouchableOpacity onPress={() => setTicketLink({})} className="ml-2" accessibilityLabel="Remove link">
+                    <FontAwesome name="times" size={12} color="#2C59DB" />
+                  </TouchableOpacity>
+                </View>
+              )}
+
+              <View className="mb-4">
+                <Text className="text-sm font-medium text-neutral-600 dark:text-neutral-300 mb-2">
+                  What do you need help with?
+                </Text>
+                <View className="flex-row flex-wrap">
+                  {getTicketTemplates(ticketLink).map((id) => {
+                    const isSelected = templateId === id;
+
+                    return (
+                      <TouchableOpacity
+                        key={id}
+                        onPress={() => selectTemplate(id)}
+                        className={`mr-2 mb-2 px-3 py-1.5 rounded-full border flex-row items-center ${
+                          isSelected ? 'bg-primary border-primary' : 'border-neutral-300 dark:border-neutral-600'
+                        }`}
+                      >
+                        <FontAwesome name={TICKET_TEMPLATES[id].icon} size={12} color={isSelected ? '#FFFFFF' : '#6B7280'} />
+                        <Text className={`ml-1.5 text-xs ${isSelected ? 'text-white' : 'text-neutral-700 dark:text-neutral-300'}`}>
+                          {TICKET_TEMPLATES[id].label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+
               <View className="mb-4">
                 <Text className="text-sm font-medium text-neutral-600 dark:text-neutral-300 mb-2 flex-row items-center">
                   <FontAwesome name="tag" size={14} color={colorScheme === 'dark' ? '#ADB5BD' : '#6B7280'} />
-                  <Text className="ml-2">Subject</Text>
+                  <Text className="ml-2">Title</Text>
                 </Text>
                 <Controller
                   control={control}
-                  name="subject"
+                  name="title"
                   render={({ field: { onChange, onBlur, value } }) => (
                     <RNTextInput
                       value={value}
                       onChangeText={onChange}
                       onBlur={onBlur}
-                      placeholder="Enter ticket subject"
+                      placeholder="Enter ticket title"
                       className="border border-neutral-300 dark:border-neutral-600 rounded-md p-2.5 bg-white dark:bg-neutral-700 text-neutral-800 dark:text-neutral-200"
                       placeholderTextColor={colorScheme === 'dark' ? '#A3A3A3' : '#737373'}
                     />
                   )}
                 />
-                {errors.subject?.message && (
+                {errors.title?.message && (
                   <Text className="text-red-500 text-xs mt-1">
-                    {errors.subject?.message}
+                    {errors.title?.message}
                   </Text>
                 )}
               </View>
@@ -347,7 +338,7 @@ export default function TicketsScreen() {
                   <Text className="ml-2">Priority</Text>
                 </Text>
                 <View className="flex-row flex-wrap">
-                  {['LOW', 'MEDIUM', 'HIGH', 'URGENT'].map((priority) => (
+                  {['LOW', 'MEDIUM', 'HIGH'].map((priority) => (
                     <TouchableOpacity
                       key={priority}
                       className={`mr-2 mb-2 px-4 py-2 rounded-full border ${
@@ -355,7 +346,7 @@ export default function TicketsScreen() {
                           ? priorityConfig[priority as keyof typeof priorityConfig].activeColor
                           : priorityConfig[priority as keyof typeof priorityConfig].color
                       } flex-row items-center`}
-                      onPress={() => setValue('priority', priority as 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT')}
+                      onPress={() => setValue('priority', priority as TicketFormData['priority'])}
                     >
                       <FontAwesome 
                         name={getIconName(priorityConfig[priority as keyof typeof priorityConfig].icon)} 
@@ -394,160 +385,6 @@ export default function TicketsScreen() {
           </Animated.View>
         )}
 
-        {/* Ticket Detail Modal */}
-        <Modal
-          animationType="slide"
-          transparent={true}
-          visible={modalVisible}
-          onRequestClose={closeModal}
-        >
-          <View className="flex-1 justify-end bg-black/0">
-            <View className="bg-white border-neutral-400 border-t-4 dark:bg-neutral-800 rounded-t-3xl h-5/6 p-4">
-              <View className="flex-row justify-between items-center mb-4">
-                <Text className="text-xl font-bold text-neutral-800 dark:text-white">Ticket Details</Text>
-                <TouchableOpacity onPress={closeModal} className="p-2">
-                  <FontAwesome name="times" size={24} color={colorScheme === 'dark' ? '#FFFFFF' : '#000000'} />
-                </TouchableOpacity>
-              </View>
-              
-              {selectedTicket && (
-                <ScrollView showsVerticalScrollIndicator={false} className="flex-1">
-                  {/* Ticket Header */}
-                  <View className="mb-4">
-                    <Text className="text-lg font-semibold text-neutral-800 dark:text-white mb-1">{selectedTicket.subject}</Text>
-                    <View className="flex-row justify-between items-center mb-2">
-                      <Text className="text-sm text-neutral-500 dark:text-neutral-400">
-                        ID: {selectedTicket.id.slice(0, 8)}
-                      </Text>
-                      <View className={`flex-row items-center px-2 py-1 rounded-full ${
-                        ticketStatus[selectedTicket.status]?.color || 'bg-neutral-100 text-neutral-800'
-                      }`}>
-                        <FontAwesome 
-                          name={getIconName(ticketStatus[selectedTicket.status]?.icon)} 
-                          size={12} 
-                          color={selectedTicket.status === 'OPEN' ? '#047857' : 
-                            selectedTicket.status === 'IN_PROGRESS' ? '#1E40AF' : 
-                              selectedTicket.status === 'RESOLVED' ? '#4B5563' : '#B91C1C'} 
-                        />
-                        <Text className={`text-xs font-medium ml-1 ${
-                          ticketStatus[selectedTicket.status]?.color || 'text-neutral-800'
-                        }`}>
-                          {ticketStatus[selectedTicket.status]?.label || selectedTicket.status}
-                        </Text>
-                      </View>
-                    </View>
-                    
-                    <View className="flex-row items-center mb-2">
-                      <FontAwesome name="calendar" size={14} color={colorScheme === 'dark' ? '#ADB5BD' : '#6B7280'} className="mr-2" />
-                      <Text className="text-sm text-neutral-600 dark:text-neutral-400">
-                        Created on {formatDate(selectedTicket.createdAt)}
-                      </Text>
-                    </View>
-                    
-                    <View className="flex-row items-center mb-3">
-                      <FontAwesome 
-                        name={getIconName(priorityConfig[selectedTicket.priority as keyof typeof priorityConfig]?.icon)} 
-                        size={14} 
-                        color={colorScheme === 'dark' ? '#ADB5BD' : '#6B7280'} 
-                        className="mr-2" 
-                      />
-                      <Text className="text-sm text-neutral-600 dark:text-neutral-400">
-                        Priority: {selectedTicket.priority}
-                      </Text>
-                    </View>
-                  </View>
-                  
-                  {/* Ticket Description */}
-                  <View className="bg-neutral-100 dark:bg-neutral-700 p-4 rounded-lg mb-6">
-                    <Text className="text-sm font-medium text-neutral-800 dark:text-white mb-2">Description</Text>
-                    <Text className="text-neutral-600 dark:text-neutral-300">{selectedTicket.description}</Text>
-                  </View>
-                  
-                  {/* Updates Timeline */}
-                  <View className="mb-4">
-                    <Text className="text-lg font-semibold text-neutral-800 dark:text-white mb-4">Updates History</Text>
-                    
-                    {selectedTicket.updates && Array.isArray(selectedTicket.updates) && selectedTicket.updates.length > 0 ? (
-                      selectedTicket.updates.map((update, index) => (
-                        <View key={index} className="mb-4 relative pl-8">
-                          {/* Timeline dot */}
-                          <View className="absolute left-0 top-0 w-4 h-4 bg-primary rounded-full items-center justify-center">
-                            <View className="w-2 h-2 bg-white rounded-full" />
-                          </View>
-                          
-                          {/* Timeline line */}
-                          {index < (selectedTicket.updates && Array.isArray(selectedTicket.updates) ? selectedTicket.updates.length : 0) - 1 && (
-                            <View className="absolute left-[7.5px] top-4 w-0.5 h-full bg-neutral-300 dark:bg-neutral-600" />
-                          )}
-                          
-                          {/* Update content */}
-                          <View className="bg-white dark:bg-neutral-700 p-3 rounded-lg border border-neutral-200 dark:border-neutral-600">
-                            <View className="flex-row justify-between items-center mb-2">
-                              <View className={`px-2 py-0.5 rounded-full ${ticketStatus[update.status]?.color || 'bg-neutral-100'}`}>
-                                <Text className="text-xs font-medium">{update.status}</Text>
-                              </View>
-                              {update.createdAt && (
-                                <Text className="text-xs text-neutral-500 dark:text-neutral-400">
-                                  {formatDate(update.createdAt)}
-                                </Text>
-                              )}
-                            </View>
-                            <Text className="text-sm text-neutral-700 dark:text-neutral-300">{update.message}</Text>
-                            {update.createdBy && (
-                              <Text className="text-xs text-neutral-500 dark:text-neutral-400 mt-1 italic">
-                                - {update.createdBy}
-                              </Text>
-                            )}
-                          </View>
-                        </View>
-                      ))
-                    ) : (
-                      <Text className="text-neutral-500 dark:text-neutral-400 text-center italic">No updates available</Text>
-                    )}
-                  </View>
-                  
-                  {/* Messages Section */}
-                  {selectedTicket.messages && selectedTicket.messages.length > 0 && (
-                    <View className="mb-4">
-                      <Text className="text-lg font-semibold text-neutral-800 dark:text-white mb-4">Conversation</Text>
-                      
-                      {selectedTicket.messages.map((message) => (
-                        <View 
-                          key={message.id ?? message.createdAt} 
-                          className={`mb-3 p-3 rounded-lg ${
-                            message.isFromSupport 
-                              ? 'bg-blue-50 dark:bg-blue-900/30 ml-4' 
-                              : 'bg-neutral-100 dark:bg-neutral-700 mr-4'
-                          }`}
-                        >
-                          <View className="flex-row justify-between items-center mb-1">
-                            <Text className="text-xs font-medium text-neutral-800 dark:text-neutral-300">
-                              {message.isFromSupport ? 'Support Team' : 'You'}
-                            </Text>
-                            <Text className="text-xs text-neutral-500 dark:text-neutral-400">
-                              {formatDate(message.createdAt)}
-                            </Text>
-                          </View>
-                          <Text className="text-sm text-neutral-700 dark:text-neutral-300">{message.content}</Text>
-                        </View>
-                      ))}
-                    </View>
-                  )}
-
-                  {/* Close button */}
-                  <Button
-                    title="Close"
-                    variant="outline"
-                    icon="times"
-                    className="mt-3 mb-10"
-                    onPress={closeModal}
-                  />
-                </ScrollView>
-              )}
-            </View>
-          </View>
-        </Modal>
-
         {/* Tickets List with animation */}
         {isLoading ? (
           <View className="items-center justify-center py-12">
@@ -559,7 +396,7 @@ export default function TicketsScreen() {
               <View className="flex-row items-center mb-4">
                 <FontAwesome name="list-alt" size={16} color={colorScheme === 'dark' ? '#ADB5BD' : '#6B7280'} />
                 <Text className="text-neutral-600 dark:text-neutral-400 ml-2">
-                  {metadata?.total || 0} Support Tickets
+                  {total} Support Tickets
                 </Text>
               </View>
             </Animated.View>
@@ -567,20 +404,21 @@ export default function TicketsScreen() {
             {tickets.map((ticket: Ticket, index: number) => (
               <Animated.View 
                 key={ticket.id} 
-                entering={FadeInDown.delay(index * 100).springify()}
+                entering={FadeInDown.delay((index % DEFAULT_PAGE_SIZE) * 100).springify()}
               >
-                <TouchableOpacity onPress={() => openTicketModal(ticket)}>
+                <TouchableOpacity onPress={() => openTicket(ticket)}>
                   <Card className="mb-3 p-0 overflow-hidden border-l-4 border-primary shadow-sm">
                     <View className="p-3">
-                      {/* Header section with subject and status */}
+                      {/* Header section with title and status */}
                       <View className="flex-row justify-between items-center mb-1">
                         <View className="flex-1 mr-2">
                           <Text className="font-medium text-neutral-800 dark:text-white" numberOfLines={1}>
-                            {ticket.subject}
+                            {ticket.title}
                           </Text>
                           <View className="flex-row items-center">
                             <Text className="text-xs text-neutral-500 dark:text-neutral-400">
                               ID: {ticket.id.slice(0, 8)} • {formatDate(ticket.createdAt)}
+                              {describeTicketLink(ticket) ? ` • ${describeTicketLink(ticket)}` : ''}
                             </Text>
                             {/* Badge for priority */}
                             <View className="ml-2 px-1.5 py-0.5 rounded-md bg-neutral-100 dark:bg-neutral-700">
@@ -592,19 +430,17 @@ export default function TicketsScreen() {
                         </View>
                         
                         <View className={`flex-row items-center px-2 py-1 rounded-full ${
-                          ticketStatus[ticket.status]?.color || 'bg-neutral-100 text-neutral-800'
+                          TICKET_STATUS_DETAILS[ticket.status]?.color || 'bg-neutral-100 text-neutral-800'
                         }`}>
                           <FontAwesome 
-                            name={getIconName(ticketStatus[ticket.status]?.icon)} 
+                            name={TICKET_STATUS_DETAILS[ticket.status]?.icon ?? 'circle'} 
                             size={10} 
-                            color={ticket.status === 'OPEN' ? '#047857' : 
-                              ticket.status === 'IN_PROGRESS' ? '#1E40AF' : 
-                                ticket.status === 'RESOLVED' ? '#4B5563' : '#B91C1C'} 
+                            color={TICKET_STATUS_DETAILS[ticket.status]?.iconColor ?? '#6B7280'} 
                           />
                           <Text className={`text-xs font-medium ml-1 ${
-                            ticketStatus[ticket.status]?.color || 'text-neutral-800'
+                            TICKET_STATUS_DETAILS[ticket.status]?.color || 'text-neutral-800'
                           }`}>
-                            {ticketStatus[ticket.status]?.label || ticket.status}
+                            {TICKET_STATUS_DETAILS[ticket.status]?.label || ticket.status}
                           </Text>
                         </View>
                       </View>
@@ -648,7 +484,7 @@ export default function TicketsScreen() {
                           <View className="flex-row items-center mr-3">
                             <FontAwesome name="refresh" size={12} color="#ADB5BD" />
                             <Text className="text-neutral-500 dark:text-neutral-400 text-xs ml-1">
-                              {Array.isArray(ticket.updates) ? ticket.updates.length : 0}
+                              {parseTicketUpdates(ticket.updates).length}
                             </Text>
                           </View>
                           
@@ -662,7 +498,7 @@ export default function TicketsScreen() {
                         </View>
                         
                         <TouchableOpacity
-                          onPress={() => openTicketModal(ticket)}
+                          onPress={() => openTicket(ticket)}
                           className="flex-row items-center bg-primary/10 dark:bg-primary/20 px-2 py-1 rounded-full"
                         >
                           <Text className="text-primary font-medium text-xs mr-1">Details</Text>
@@ -674,6 +510,13 @@ export default function TicketsScreen() {
                 </TouchableOpacity>
               </Animated.View>
             ))}
+            <ListFooter
+              isFetchingNextPage={isFetchingNextPage}
+              hasNextPage={hasNextPage}
+              itemCount={tickets.length}
+              onLoadMore={loadMore}
+              endLabel="No more tickets"
+            />
           </>
         ) : (
           <Animated.View 
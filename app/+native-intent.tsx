@@ -0,0 +1,10 @@
+import { resolveDeepLink } from '@/utils/deep-links';
+
+// Runs for every link the app is opened with, before it's matched to a route
+export function redirectSystemPath({ path }: { path: string; initial: boolean }) {
+  try {
+    return resolveDeepLink(path);
+  } catch {
+    return path;
+  }
+}
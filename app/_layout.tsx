@@ -3,12 +3,19 @@ import { tokenCache } from '@/cache';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
 import { useFonts } from 'expo-font';
-import { Stack, useRouter, useSegments } from 'expo-router';
+import { Stack, useGlobalSearchParams, useRouter, useSegments, type Href } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
 import { ClerkProvider, ClerkLoaded, useAuth } from '@clerk/clerk-expo';
 import { useColorScheme } from '@/components/useColorScheme';
 import QueryProvider from "@/providers/query-client";
 import SyncUserData from "@/components/misc/sync-user-data";
+import SyncCart from "@/components/misc/sync-cart";
+import SyncOutbox from "@/components/misc/sync-outbox";
+import SyncNotifications from "@/components/misc/sync-notifications";
+import { useUserStore } from "@/stores/user.store";
+import { useNavigationStore } from "@/stores/navigation.store";
+import { getReturnHref } from "@/utils/deep-links";
+import NetworkBanner from "@/components/shared/network-banner";
 import './global.css';
 
 export {
@@ -22,19 +29,40 @@ export const unstable_settings = {
 function InitialLayout() {
   const { isLoaded, isSignedIn } = useAuth();
   const segments = useSegments();
+  const params = useGlobalSearchParams();
   const router = useRouter();
 
+  // Undefined until the profile has loaded, so nobody is sent to onboarding by mistake
+  const isOnboarded = useUserStore((state) => state.user?.isOnboarded);
+  const wasSignedIn = React.useRef(isSignedIn);
+
   React.useEffect(() => {
     if (!isLoaded) return;
 
     const inAuthGroup = segments[0] === '(auth)';
-    
+    const inOnboardingGroup = segments[0] === '(onboarding)';
+    const { setReturnHref, takeReturnHref } = useNavigationStore.getState();
+
+    // Remember a link opened before sign-in or onboarding, e.g. a shared product, so it isn't lost
+    const rememberCurrentRoute = () => {
+      const returnHref = getReturnHref(segments, params);
+      if (returnHref) setReturnHref(returnHref);
+    };
+
     if (!isSignedIn && !inAuthGroup) {
+      // Logging out isn't a reason to come back to the same screen, possibly as someone else
+      if (!wasSignedIn.current) rememberCurrentRoute();
       router.replace('/sign-in');
-    } else if (isSignedIn && inAuthGroup) {
-      router.replace('/(tabs)');
+    } else if (isSignedIn && isOnboarded === false && !inOnboardingGroup) {
+      rememberCurrentRoute();
+      router.replace('/welcome');
+    } else if (isSignedIn && (inAuthGroup || (inOnboardingGroup && isOnboarded))) {
+      // The sign-in and onboarding screens leave it to this redirect, so the remembered link wins
+      router.replace((takeReturnHref() ?? '/(tabs)') as Href);
     }
-  }, [isSignedIn, segments, isLoaded]);
+
+    wasSignedIn.current = isSignedIn;
+  }, [isSignedIn, isOnboarded, segments, isLoaded]);
 
   return <Stack screenOptions={{ headerShown: false }} />;
 }
@@ -82,7 +110,11 @@ function RootLayoutNav() {
         <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
           <QueryProvider>
             <SyncUserData />
+            <SyncCart />
+            <SyncOutbox />
+            <SyncNotifications />
             <InitialLayout />
+            <NetworkBanner />
           </QueryProvider>
         </ThemeProvider>
       </ClerkLoaded>
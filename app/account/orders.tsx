@@ -6,18 +6,23 @@ import {
   SafeAreaView, 
   TouchableOpacity, 
   ActivityIndicator,
-  TextInput
+  TextInput,
+  RefreshControl
 } from 'react-native';
 import { Stack, router } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { useColorScheme } from '@/components/useColorScheme';
 import { useUserStore } from '@/stores/user.store';
-import { useOrders } from '@/lib/hooks/use-queries';
-import { OrderStatus } from '@prisma/client';
+import { useInfiniteOrders } from '@/lib/hooks/use-queries';
+import { OrderStatus, OrderPaymentStatus } from '@prisma/client';
 import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
 import { QueryParams } from '@/types/common';
+import { canPayOrder } from '@/utils/payments';
+import { canGiveFeedback, hasGivenFeedback } from '@/utils/survey';
+import { isCloseToBottom } from '@/utils/pagination';
+import ListFooter from '@/components/shared/list-footer';
 
 // Define the order type with items relation
 interface OrderItem {
@@ -38,11 +43,12 @@ interface Order {
   processedById: string | null;
   orderDate: Date;
   status: OrderStatus;
-  paymentStatus: string;
+  paymentStatus: OrderPaymentStatus;
   cancellationReason?: string | null;
   totalAmount: number;
   discountAmount: number;
   estimatedDelivery: Date;
+  customerSatisfactionSurveyId: string | null;
   createdAt: Date;
   updatedAt: Date;
   orderItems?: OrderItem[];
@@ -76,6 +82,8 @@ const OrdersScreen = () => {
   const [statusFilter, setStatusFilter] = useState('ALL');
   const [dateFilter, setDateFilter] = useState('ALL');
   const [searchText, setSearchText] = useState('');
+  // Search term sent to the server; updated when the search button is pressed
+  const [appliedSearch, setAppliedSearch] = useState('');
   const [isSearching, setIsSearching] = useState(false);
   
   // Build query params
@@ -94,7 +102,7 @@ const OrdersScreen = () => {
       };
     }
     
-    // Add date filter
+    // Add date filter. Bounds start at midnight so the query key stays stable between renders
     const now = new Date();
     if (dateFilter === 'MONTH') {
       const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
@@ -103,15 +111,13 @@ const OrdersScreen = () => {
         createdAt: { gte: monthStart }
       };
     } else if (dateFilter === '3MONTHS') {
-      const threeMonthsAgo = new Date(now);
-      threeMonthsAgo.setMonth(now.getMonth() - 3);
+      const threeMonthsAgo = new Date(now.getFullYear(), now.getMonth() - 3, now.getDate());
       params.where = {
         ...params.where,
         createdAt: { gte: threeMonthsAgo }
       };
     } else if (dateFilter === '6MONTHS') {
-      const sixMonthsAgo = new Date(now);
-      sixMonthsAgo.setMonth(now.getMonth() - 6);
+      const sixMonthsAgo = new Date(now.getFullYear(), now.getMonth() - 6, now.getDate());
       params.where = {
         ...params.where,
         createdAt: { gte: sixMonthsAgo }
@@ -125,10 +131,10 @@ const OrdersScreen = () => {
     }
     
     // Search text
-    if (searchText.trim()) {
+    if (appliedSearch) {
       params.where = {
         ...params.where,
-        OR: [{ id: { contains: searchText.trim() } }]
+        OR: [{ id: { contains: appliedSearch } }]
       };
     }
     
@@ -136,8 +142,24 @@ const OrdersScreen = () => {
   };
 
   // Fetch orders with filters
-  const { data, isLoading, refetch } = useOrders(getQueryParams());
-  const orders = (data?.data || []) as Order[];
+  const {
+    items,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    loadMore,
+    refresh,
+  } = useInfiniteOrders(getQueryParams(), !!user?.id);
+  const orders = items as Order[];
+
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Pull to refresh starts over from the first page
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await refresh();
+    setRefreshing(false);
+  };
 
   // Format date
   const formatDate = (dateString: string | Date) => {
@@ -151,8 +173,14 @@ const OrdersScreen = () => {
   
   // Handle search
   const handleSearch = () => {
+    const search = searchText.trim();
+    // A new search term changes the query key, which fetches on its own
+    if (search !== appliedSearch) {
+      setAppliedSearch(search);
+      return;
+    }
     setIsSearching(true);
-    refetch().then(() => setIsSearching(false));
+    refresh().then(() => setIsSearching(false));
   };
   
   // Navigate to order details / tracking
@@ -265,7 +293,16 @@ const OrdersScreen = () => {
       </View>
       
       {/* Orders List */}
-      <ScrollView className="flex-1 px-4">
+      <ScrollView
+        className="flex-1 px-4"
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={["#2C59DB"]} tintColor={"#2C59DB"}/>
+        }
+        onScroll={({ nativeEvent }) => {
+          if (isCloseToBottom(nativeEvent)) loadMore();
+        }}
+        scrollEventThrottle={200}
+      >
         {isLoading ? (
           <View className="py-10 items-center justify-center">
             <ActivityIndicator size="large" color="#2C59DB" />
@@ -280,11 +317,11 @@ const OrdersScreen = () => {
               No orders found
             </Text>
             <Text className="mt-2 text-neutral-500 dark:text-neutral-400 text-center">
-              {searchText || statusFilter !== 'ALL' || dateFilter !== 'ALL' 
+              {appliedSearch || statusFilter !== 'ALL' || dateFilter !== 'ALL' 
                 ? "Try changing your filters" 
                 : "Start shopping to see your orders here"}
             </Text>
-            {!searchText && statusFilter === 'ALL' && dateFilter === 'ALL' && (
+            {!appliedSearch && statusFilter === 'ALL' && dateFilter === 'ALL' && (
               <Button
                 title="Browse Products"
                 className="mt-4 bg-primary"
@@ -369,6 +406,33 @@ const OrdersScreen = () => {
                     </View>
                   </View>
                   
+                  {canPayOrder(order) && (
+                    <Button
+                      title="Pay This Order"
+                      size="sm"
+                      icon="credit-card"
+                      className="mt-3"
+                      onPress={() => router.push({ pathname: '/pay/[orderId]', params: { orderId: order.id } })}
+                    />
+                  )}
+
+                  {canGiveFeedback(order) && (
+                    <Button
+                      title="Rate This Order"
+                      variant="outline"
+                      size="sm"
+                      icon="star"
+                      className="mt-3"
+                      onPress={() => router.push({ pathname: '/feedback/[orderId]', params: { orderId: order.id } })}
+                    />
+                  )}
+                  {hasGivenFeedback(order) && (
+                    <View className="flex-row items-center mt-3">
+                      <FontAwesome name="check-circle" size={14} color="#10B981" />
+                      <Text className="ml-1.5 text-sm text-green-700 dark:text-green-400">Feedback given</Text>
+                    </View>
+                  )}
+                  
                   <View className="mt-3 pt-3 border-t border-neutral-100 dark:border-neutral-700">
                     <Text className="text-sm text-neutral-700 dark:text-neutral-300 mb-2">
                       {order.orderItems?.length || 0} item{order.orderItems?.length !== 1 ? 's' : ''}
@@ -380,6 +444,13 @@ const OrdersScreen = () => {
                 </View>
               </Card>
             ))}
+            <ListFooter
+              isFetchingNextPage={isFetchingNextPage}
+              hasNextPage={hasNextPage}
+              itemCount={orders.length}
+              onLoadMore={loadMore}
+              endLabel="You've seen all your orders"
+            />
           </View>
         )}
       </ScrollView>
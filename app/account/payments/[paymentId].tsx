@@ -0,0 +1,177 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  SafeAreaView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Image,
+} from 'react-native';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import type { Order, Payment } from '@prisma/client';
+import { useColorScheme } from '@/components/useColorScheme';
+import { usePayment } from '@/lib/hooks/use-queries';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import PaymentStatusChip from '@/components/shared/payment-status-chip';
+import { PAYMENT_METHOD_DETAILS } from '@/constants/payments';
+import { QueryParams } from '@/types/common';
+import { formatCurrency } from '@/utils/format-currency';
+import { getPaymentReceipt } from '@/utils/payments';
+
+interface PaymentWithOrder extends Payment {
+  order?: Order;
+}
+
+const paymentQueryParams: QueryParams = {
+  include: { order: true },
+};
+
+// Format date and time
+const formatDateTime = (dateString: string | Date) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+const DetailRow = ({ label, value, selectable }: { label: string; value: string; selectable?: boolean }) => (
+  <View className="flex-row justify-between py-2 border-b border-neutral-100 dark:border-neutral-700">
+    <Text className="text-neutral-500 dark:text-neutral-400">{label}</Text>
+    <Text className="flex-1 ml-4 text-right text-neutral-800 dark:text-white" selectable={selectable}>
+      {value}
+    </Text>
+  </View>
+);
+
+const PaymentDetailScreen = () => {
+  const { paymentId } = useLocalSearchParams<{ paymentId: string }>();
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+
+  const { data, isLoading, error } = usePayment(paymentId ?? '', paymentQueryParams);
+  const payment = data?.data as PaymentWithOrder | undefined;
+  const method = payment ? PAYMENT_METHOD_DETAILS[payment.paymentMethod] : undefined;
+  const receipt = getPaymentReceipt(payment?.metadata);
+
+  return (
+    <SafeAreaView className="flex-1 bg-neutral-50 dark:bg-neutral-900">
+      <StatusBar style={isDark ? 'light' : 'dark'} />
+
+      <Stack.Screen
+        options={{
+          title: 'Payment Details',
+          headerLeft: () => (
+            <TouchableOpacity onPress={() => router.back()} style={{ padding: 10 }}>
+              <FontAwesome name="arrow-left" size={22} color={isDark ? "#ccc" : "#888"} />
+            </TouchableOpacity>
+          )
+        }}
+      />
+
+      <ScrollView className="flex-1 px-4 py-4">
+        {isLoading ? (
+          <View className="py-10 items-center justify-center">
+            <ActivityIndicator size="large" color="#2C59DB" />
+            <Text className="mt-4 text-neutral-500 dark:text-neutral-400">Loading payment...</Text>
+          </View>
+        ) : error || !payment ? (
+          <View className="py-10 items-center justify-center">
+            <FontAwesome name="exclamation-circle" size={48} color="#EF4444" />
+            <Text className="mt-4 text-neutral-600 dark:text-neutral-400 text-center">
+              We couldn&apos;t find this payment.
+            </Text>
+          </View>
+        ) : (
+          <>
+            <Card className="p-4 mb-4 items-center">
+              <View className="w-12 h-12 rounded-full bg-primary/10 items-center justify-center mb-2">
+                <FontAwesome name={method?.icon ?? 'credit-card'} size={22} color="#2C59DB" />
+              </View>
+              <Text className="text-2xl font-bold text-neutral-800 dark:text-white">
+                {formatCurrency(Number(payment.amount), payment.currency)}
+              </Text>
+              <Text className="text-neutral-500 dark:text-neutral-400 mb-3">
+                {method?.label ?? payment.paymentMethod}
+              </Text>
+              <PaymentStatusChip status={payment.paymentStatus} />
+            </Card>
+
+            <Card className="p-4 mb-4">
+              <Text className="text-lg font-semibold text-neutral-800 dark:text-white mb-2">Details</Text>
+              <DetailRow label="Payment ID" value={payment.id} selectable />
+              <DetailRow label="Date" value={formatDateTime(payment.paymentDate)} />
+              <DetailRow label="Reference No." value={payment.referenceNo || 'N/A'} selectable />
+              {payment.transactionId && (
+                <DetailRow label="Transaction ID" value={payment.transactionId} selectable />
+              )}
+              {payment.paymentProvider && (
+                <DetailRow label="Provider" value={payment.paymentProvider} />
+              )}
+              <DetailRow label="Paid" value={payment.paymentSite === 'ONSITE' ? 'On site' : 'Online'} />
+              {payment.memo && (
+                <DetailRow label="Note" value={payment.memo} />
+              )}
+            </Card>
+
+            {payment.paymentStatus === 'VERIFIED' && (
+              <Button
+                title="Download Receipt"
+                icon="file-text-o"
+                className="mb-4"
+                onPress={() => router.push({ pathname: '/receipt', params: { paymentId: payment.id } })}
+              />
+            )}
+
+            {receipt && (
+              <Card className="p-4 mb-4">
+                <Text className="text-lg font-semibold text-neutral-800 dark:text-white mb-3">Receipt</Text>
+                <Image source={{ uri: receipt.url }} className="w-full h-80 rounded-lg" resizeMode="contain" />
+              </Card>
+            )}
+
+            {payment.order && (
+              <Card className="p-4 mb-4">
+                <Text className="text-lg font-semibold text-neutral-800 dark:text-white mb-2">Order</Text>
+                <DetailRow label="Order Number" value={payment.order.id.slice(0, 8).toUpperCase()} />
+                <DetailRow label="Order Total" value={formatCurrency(payment.order.totalAmount, payment.currency)} />
+                <Button
+                  title="View Order"
+                  icon="shopping-bag"
+                  size="sm"
+                  className="mt-3"
+                  onPress={() => router.push({ pathname: '/track-order', params: { orderId: payment.orderId } })}
+                />
+              </Card>
+            )}
+
+            <Button
+              title="Report a Problem"
+              icon="life-ring"
+              variant="outline"
+              className="mb-4"
+              onPress={() => router.push({
+                pathname: '/(tabs)/tickets',
+                params: {
+                  orderId: payment.orderId,
+                  paymentId: payment.id,
+                  // A payment staff haven't verified yet is most likely not reflected
+                  ...(payment.paymentStatus === 'PENDING' ? { template: 'PAYMENT_NOT_REFLECTED' } : {}),
+                },
+              })}
+            />
+          </>
+        )}
+        <View className="h-10" />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default PaymentDetailScreen;
@@ -7,43 +7,34 @@ import {
   TouchableOpacity, 
   ActivityIndicator,
   TextInput,
-  Alert
+  Alert,
+  RefreshControl
 } from 'react-native';
 import { Stack, router } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { useColorScheme } from '@/components/useColorScheme';
 import { useUserStore } from '@/stores/user.store';
-import { usePayments } from '@/lib/hooks/use-queries';
+import { useInfinitePayments } from '@/lib/hooks/use-queries';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
+import PaymentStatusChip from '@/components/shared/payment-status-chip';
+import { PAYMENT_METHOD_DETAILS, PAYMENT_STATUS_DETAILS } from '@/constants/payments';
 import { QueryParams } from '@/types/common';
+import { formatCurrency } from '@/utils/format-currency';
+import { isCloseToBottom } from '@/utils/pagination';
+import ListFooter from '@/components/shared/list-footer';
+import PendingChanges from '@/components/shared/pending-changes';
+import type { Order, Payment as PrismaPayment } from '@prisma/client';
 
-// Define the payment type
-interface Payment {
-  id: string;
-  userId: string;
-  orderId?: string;
-  processedById?: string | null;
-  paymentDate: Date;
-  amount: number;
-  method: string;
-  status: string;
-  transactionId?: string;
-  referenceNo?: string;
-  last4?: string;
-  createdAt: Date;
-  updatedAt: Date;
+interface Payment extends PrismaPayment {
+  order?: Order;
 }
 
 // Status filter options
 const STATUS_FILTERS = [
   { id: 'ALL', label: 'All' },
-  { id: 'PENDING', label: 'Pending' },
-  { id: 'PROCESSING', label: 'Processing' },
-  { id: 'COMPLETED', label: 'Completed' },
-  { id: 'FAILED', label: 'Failed' },
-  { id: 'REFUNDED', label: 'Refunded' },
+  ...Object.entries(PAYMENT_STATUS_DETAILS).map(([id, details]) => ({ id, label: details.label })),
 ];
 
 // Date filters
@@ -58,11 +49,7 @@ const DATE_FILTERS = [
 // Payment methods
 const PAYMENT_METHODS = [
   { id: 'ALL', label: 'All Methods' },
-  { id: 'CREDIT_CARD', label: 'Credit Card' },
-  { id: 'DEBIT_CARD', label: 'Debit Card' },
-  { id: 'PAYPAL', label: 'PayPal' },
-  { id: 'BANK_TRANSFER', label: 'Bank Transfer' },
-  { id: 'CASH', label: 'Cash' },
+  ...Object.entries(PAYMENT_METHOD_DETAILS).map(([id, details]) => ({ id, label: details.label })),
 ];
 
 const PaymentsScreen = () => {
@@ -75,6 +62,8 @@ const PaymentsScreen = () => {
   const [dateFilter, setDateFilter] = useState('ALL');
   const [methodFilter, setMethodFilter] = useState('ALL');
   const [searchText, setSearchText] = useState('');
+  // Search term sent to the server; updated when the search button is pressed
+  const [appliedSearch, setAppliedSearch] = useState('');
   const [isSearching, setIsSearching] = useState(false);
   
   // Build query params
@@ -89,7 +78,7 @@ const PaymentsScreen = () => {
     if (statusFilter !== 'ALL') {
       params.where = {
         ...params.where,
-        status: statusFilter
+        paymentStatus: statusFilter
       };
     }
     
@@ -97,11 +86,11 @@ const PaymentsScreen = () => {
     if (methodFilter !== 'ALL') {
       params.where = {
         ...params.where,
-        method: methodFilter
+        paymentMethod: methodFilter
       };
     }
     
-    // Add date filter
+    // Add date filter. Bounds start at midnight so the query key stays stable between renders
     const now = new Date();
     if (dateFilter === 'MONTH') {
       const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
@@ -110,15 +99,13 @@ const PaymentsScreen = () => {
         createdAt: { gte: monthStart }
       };
     } else if (dateFilter === '3MONTHS') {
-      const threeMonthsAgo = new Date(now);
-      threeMonthsAgo.setMonth(now.getMonth() - 3);
+      const threeMonthsAgo = new Date(now.getFullYear(), now.getMonth() - 3, now.getDate());
       params.where = {
         ...params.where,
         createdAt: { gte: threeMonthsAgo }
       };
     } else if (dateFilter === '6MONTHS') {
-      const sixMonthsAgo = new Date(now);
-      sixMonthsAgo.setMonth(now.getMonth() - 6);
+      const sixMonthsAgo = new Date(now.getFullYear(), now.getMonth() - 6, now.getDate());
       params.where = {
         ...params.where,
         createdAt: { gte: sixMonthsAgo }
@@ -132,12 +119,12 @@ const PaymentsScreen = () => {
     }
     
     // Search text (reference number, transaction ID)
-    if (searchText.trim()) {
+    if (appliedSearch) {
       params.where = {
         ...params.where,
         OR: [
-          { transactionId: { contains: searchText.trim() } },
-          { referenceNo: { contains: searchText.trim() } }
+          { transactionId: { contains: appliedSearch } },
+          { referenceNo: { contains: appliedSearch } }
         ]
       };
     }
@@ -146,8 +133,24 @@ const PaymentsScreen = () => {
   };
   
   // Fetch payments with filters
-  const { data, isLoading, refetch } = usePayments(getQueryParams());
-  const payments = (data?.data || []) as unknown as Payment[];
+  const {
+    items,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    loadMore,
+    refresh,
+  } = useInfinitePayments(getQueryParams(), !!user?.id);
+  const payments = items as Payment[];
+
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Pull to refresh starts over from the first page
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await refresh();
+    setRefreshing(false);
+  };
   
   // Format date
   const formatDate = (dateString: string | Date) => {
@@ -170,22 +173,22 @@ const PaymentsScreen = () => {
   
   // Handle search
   const handleSearch = () => {
+    const search = searchText.trim();
+    // A new search term changes the query key, which fetches on its own
+    if (search !== appliedSearch) {
+      setAppliedSearch(search);
+      return;
+    }
     setIsSearching(true);
-    refetch().then(() => setIsSearching(false));
+    refresh().then(() => setIsSearching(false));
   };
   
   // View payment details
   const viewPaymentDetails = (payment: Payment) => {
-    Alert.alert(
-      `Payment #${payment.id.slice(0, 8)}`,
-      `Transaction ID: ${payment.transactionId || 'N/A'}\n` +
-      `Reference: ${payment.referenceNo || 'N/A'}\n` +
-      `Amount: $${payment.amount.toFixed(2)}\n` +
-      `Method: ${payment.method}\n` +
-      `Status: ${payment.status}\n` +
-      `Date: ${formatDate(payment.createdAt)} ${formatTime(payment.createdAt)}`,
-      [{ text: 'OK' }]
-    );
+    router.push({
+      pathname: '/account/payments/[paymentId]',
+      params: { paymentId: payment.id }
+    });
   };
   
   // View related order (if one exists)
@@ -204,55 +207,6 @@ const PaymentsScreen = () => {
     }
   };
   
-  // Get icon for payment method
-  const getPaymentMethodIcon = (method: string) => {
-    switch (method) {
-    case 'CREDIT_CARD':
-    case 'DEBIT_CARD':
-      return 'credit-card';
-    case 'PAYPAL':
-      return 'paypal';
-    case 'BANK_TRANSFER':
-      return 'bank';
-    case 'CASH':
-      return 'money';
-    default:
-      return 'credit-card';
-    }
-  };
-  
-  // Get color for payment status
-  const getStatusColor = (status: string, isDarkMode: boolean) => {
-    switch (status) {
-    case 'COMPLETED':
-      return {
-        bg: isDarkMode ? 'bg-green-900' : 'bg-green-100',
-        text: isDarkMode ? 'text-green-300' : 'text-green-800'
-      };
-    case 'PENDING':
-    case 'PROCESSING':
-      return {
-        bg: isDarkMode ? 'bg-yellow-900' : 'bg-yellow-100',
-        text: isDarkMode ? 'text-yellow-300' : 'text-yellow-800'
-      };
-    case 'FAILED':
-      return {
-        bg: isDarkMode ? 'bg-red-900' : 'bg-red-100',
-        text: isDarkMode ? 'text-red-300' : 'text-red-800'
-      };
-    case 'REFUNDED':
-      return {
-        bg: isDarkMode ? 'bg-blue-900' : 'bg-blue-100',
-        text: isDarkMode ? 'text-blue-300' : 'text-blue-800'
-      };
-    default:
-      return {
-        bg: isDarkMode ? 'bg-neutral-700' : 'bg-neutral-100',
-        text: isDarkMode ? 'text-neutral-300' : 'text-neutral-800'
-      };
-    }
-  };
-
   return (
     <SafeAreaView className="flex-1 bg-neutral-50 dark:bg-neutral-900">
       <StatusBar style={isDark ? 'light' : 'dark'} />
@@ -386,7 +340,18 @@ const PaymentsScreen = () => {
       </View>
       
       {/* Payments List */}
-      <ScrollView className="flex-1 px-4">
+      <ScrollView
+        className="flex-1 px-4"
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={["#2C59DB"]} tintColor={"#2C59DB"}/>
+        }
+        onScroll={({ nativeEvent }) => {
+          if (isCloseToBottom(nativeEvent)) loadMore();
+        }}
+        scrollEventThrottle={200}
+      >
+        <PendingChanges types={['payment.create']} title="Payments Waiting to Send" className="mt-4" />
+
         {isLoading ? (
           <View className="py-10 items-center justify-center">
             <ActivityIndicator size="large" color="#2C59DB" />
@@ -401,12 +366,12 @@ const PaymentsScreen = () => {
               No payment records found
             </Text>
             <Text className="mt-2 text-neutral-500 dark:text-neutral-400 text-center">
-              {searchText || statusFilter !== 'ALL' || methodFilter !== 'ALL' || dateFilter !== 'ALL' 
+              {appliedSearch || statusFilter !== 'ALL' || methodFilter !== 'ALL' || dateFilter !== 'ALL' 
                 ? "Try changing your filters" 
                 : "Your payment history will appear here"}
             </Text>
             
-            {!searchText && statusFilter === 'ALL' && methodFilter === 'ALL' && dateFilter === 'ALL' && (
+            {!appliedSearch && statusFilter === 'ALL' && methodFilter === 'ALL' && dateFilter === 'ALL' && (
               <Button
                 title="Browse Products"
                 className="mt-4 bg-primary"
@@ -417,7 +382,7 @@ const PaymentsScreen = () => {
         ) : (
           <View className="py-2">
             {payments.map((payment) => {
-              const statusStyle = getStatusColor(payment.status, isDark);
+              const method = PAYMENT_METHOD_DETAILS[payment.paymentMethod];
               
               return (
                 <Card key={payment.id} className="mb-4 overflow-hidden">
@@ -426,7 +391,7 @@ const PaymentsScreen = () => {
                       <View className="flex-row items-center">
                         <View className={`w-8 h-8 rounded-full bg-primary/10 items-center justify-center mr-3`}>
                           <FontAwesome 
-                            name={getPaymentMethodIcon(payment.method)} 
+                            name={method?.icon ?? 'credit-card'} 
                             size={16} 
                             color="#2C59DB" 
                           />
@@ -436,17 +401,12 @@ const PaymentsScreen = () => {
                             Payment #{payment.id.slice(0, 8)}
                           </Text>
                           <Text className="text-xs text-neutral-500 dark:text-neutral-400">
-                            {payment.method}
-                            {payment.last4 ? ` •••• ${payment.last4}` : ''}
+                            {method?.label ?? payment.paymentMethod}
                           </Text>
                         </View>
                       </View>
                       
-                      <View className={`px-2 py-1 rounded-full ${statusStyle.bg}`}>
-                        <Text className={`text-xs font-medium ${statusStyle.text}`}>
-                          {payment.status}
-                        </Text>
-                      </View>
+                      <PaymentStatusChip status={payment.paymentStatus} />
                     </View>
                     
                     <View className="flex-row justify-between items-center mb-3">
@@ -454,7 +414,7 @@ const PaymentsScreen = () => {
                         {formatDate(payment.createdAt)} • {formatTime(payment.createdAt)}
                       </Text>
                       <Text className="font-bold text-primary">
-                        ${payment.amount?.toFixed(2)}
+                        {formatCurrency(Number(payment.amount), payment.currency)}
                       </Text>
                     </View>
                     
@@ -486,6 +446,13 @@ const PaymentsScreen = () => {
                 </Card>
               );
             })}
+            <ListFooter
+              isFetchingNextPage={isFetchingNextPage}
+              hasNextPage={hasNextPage}
+              itemCount={payments.length}
+              onLoadMore={loadMore}
+              endLabel="You've seen all your payments"
+            />
           </View>
         )}
       </ScrollView>
@@ -0,0 +1,430 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  SafeAreaView,
+  TouchableOpacity,
+  Image,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Stack, router } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import * as ImagePicker from 'expo-image-picker';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import type { Role } from '@prisma/client';
+import { useColorScheme } from '@/components/useColorScheme';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { TextInput } from '@/components/ui/TextInput';
+import { COLLEGE_LABELS, COLLEGE_OPTIONS, ROLE_DETAILS, UNSET_PROFILE_VALUE } from '@/constants/profile';
+import { useCreateTicket, useUpdateAvatar, useUpdateProfile } from '@/lib/hooks/use-mutations';
+import { useTickets } from '@/lib/hooks/use-queries';
+import {
+  profileChangeRequestSchema,
+  profileSchema,
+  type ProfileChangeRequestData,
+  type ProfileFormData,
+} from '@/lib/validations/forms';
+import { useUserStore } from '@/stores/user.store';
+import { isQueuedMutation } from '@/utils/outbox';
+import { describeRolePricing } from '@/utils/pricing';
+import { buildProfileChangeTicket, hasProfileChange, PROFILE_CHANGE_TICKET_PREFIX } from '@/utils/profile-change';
+
+const ROLE_OPTIONS = Object.keys(ROLE_DETAILS) as Role[];
+
+const withoutPlaceholder = (value?: string | null) => (value && value !== UNSET_PROFILE_VALUE ? value : '');
+
+export default function EditProfileScreen() {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const { user } = useUserStore();
+  const [showChangeRequest, setShowChangeRequest] = useState(false);
+  // Shown while the upload runs so the new photo appears right away
+  const [avatarPreview, setAvatarPreview] = useState<string | null>(null);
+
+  const updateProfileMutation = useUpdateProfile();
+  const updateAvatarMutation = useUpdateAvatar();
+  const createTicketMutation = useCreateTicket();
+
+  const { data: changeRequests } = useTickets({
+    where: {
+      createdById: user?.id ?? null,
+      title: { startsWith: PROFILE_CHANGE_TICKET_PREFIX },
+      status: { in: ['OPEN', 'IN_PROGRESS'] },
+    },
+    orderBy: { createdAt: 'desc' },
+    limit: 1,
+  }, !!user?.id);
+  const pendingRequest = changeRequests?.data?.[0];
+
+  const { control, handleSubmit, reset, formState: { errors, isDirty } } = useForm<ProfileFormData>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: {
+      firstName: user?.firstName ?? '',
+      lastName: user?.lastName ?? '',
+      phone: withoutPlaceholder(user?.phone),
+      courses: withoutPlaceholder(user?.courses),
+    },
+  });
+
+  const changeRequestForm = useForm<ProfileChangeRequestData>({
+    resolver: zodResolver(profileChangeRequestSchema),
+    defaultValues: {
+      role: user?.role ?? 'STUDENT',
+      college: user?.college ?? 'NOT_APPLICABLE',
+      reason: '',
+    },
+  });
+  const requestedRole = changeRequestForm.watch('role');
+  const requestedCollege = changeRequestForm.watch('college');
+
+  if (!user) {
+    return (
+      <SafeAreaView className="flex-1 items-center justify-center bg-neutral-50 dark:bg-neutral-900">
+        <ActivityIndicator size="large" color="#2C59DB" />
+      </SafeAreaView>
+    );
+  }
+
+  const onSave = handleSubmit((values) => {
+    updateProfileMutation.mutate({
+      ...values,
+      courses: values.courses || UNSET_PROFILE_VALUE,
+    }, {
+      onSuccess: (response) => {
+        reset(values);
+        if (isQueuedMutation(response)) {
+          Alert.alert("You're Offline", "Your changes are saved on this device and will be sent when you're back online.");
+          return;
+        }
+        router.back();
+      },
+      onError: (error) => {
+        Alert.alert('Update Failed', error.message || "We couldn't save your profile. Please try again.");
+      },
+    });
+  });
+
+  const uploadAvatar = async (source: 'camera' | 'library') => {
+    const permission = source === 'camera'
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert("Permission Needed", source === 'camera'
+        ? "Allow camera access to take a profile photo."
+        : "Allow photo access to choose a profile photo.");
+      return;
+    }
+
+    const options: ImagePicker.ImagePickerOptions = {
+      mediaTypes: ['images'],
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 0.5,
+      base64: true,
+    };
+    const result = source === 'camera'
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+    if (result.canceled) return;
+
+    const asset = result.assets[0];
+    if (!asset.base64) {
+      Alert.alert("Upload Failed", "We couldn't read that image. Please try another one.");
+      return;
+    }
+
+    setAvatarPreview(asset.uri);
+    updateAvatarMutation.mutate(`data:${asset.mimeType ?? 'image/jpeg'};base64,${asset.base64}`, {
+      onSuccess: () => setAvatarPreview(null),
+      onError: (error) => {
+        setAvatarPreview(null);
+        Alert.alert('Upload Failed', error.message || "We couldn't update your photo. Please try again.");
+      },
+    });
+  };
+
+  const handleChangeAvatar = () => {
+    Alert.alert('Profile Photo', 'Choose a new photo', [
+      { text: 'Take Photo', onPress: () => uploadAvatar('camera') },
+      { text: 'Choose from Library', onPress: () => uploadAvatar('library') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const onRequestChange = changeRequestForm.handleSubmit((values) => {
+    if (!hasProfileChange(user, values)) {
+      Alert.alert('Nothing to Change', 'Pick a different role or college than the one on your profile.');
+      return;
+    }
+
+    createTicketMutation.mutate(buildProfileChangeTicket(user, values), {
+      onSuccess: (response) => {
+        setShowChangeRequest(false);
+        changeRequestForm.reset({ ...values, reason: '' });
+        if (isQueuedMutation(response)) {
+          Alert.alert("You're Offline", "Your request will be sent when you're back online.");
+          return;
+        }
+        Alert.alert('Request Sent', "Staff will review your request. Your prices stay the same until it's approved.");
+      },
+      onError: (error) => {
+        Alert.alert('Request Failed', error.message || "We couldn't send your request. Please try again.");
+      },
+    });
+  });
+
+  const avatarUri = avatarPreview
+    ?? (user.imageUrl || `https://ui-avatars.com/api/?name=${user.firstName}&background=2C59DB&color=fff`);
+
+  return (
+    <SafeAreaView className="flex-1 bg-neutral-50 dark:bg-neutral-900">
+      <StatusBar style={isDark ? 'light' : 'dark'} />
+      <Stack.Screen
+        options={{
+          title: 'Edit Profile',
+          headerLeft: () => (
+            <TouchableOpacity onPress={() => router.back()} style={{ padding: 10 }}>
+              <FontAwesome name="arrow-left" size={22} color={isDark ? "#ccc" : "#888"} />
+            </TouchableOpacity>
+          )
+        }}
+      />
+
+      <KeyboardAvoidingView className="flex-1" behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <ScrollView className="flex-1" contentContainerClassName="px-4 py-6" keyboardShouldPersistTaps="handled">
+          {/* Avatar */}
+          <View className="items-center mb-6">
+            <TouchableOpacity onPress={handleChangeAvatar} disabled={updateAvatarMutation.isPending}>
+              <Image source={{ uri: avatarUri }} className="w-24 h-24 rounded-full" />
+              <View className="absolute bottom-0 right-0 items-center justify-center w-8 h-8 rounded-full bg-primary border-2 border-white dark:border-neutral-900">
+                {updateAvatarMutation.isPending ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <FontAwesome name="camera" size={14} color="#FFFFFF" />
+                )}
+              </View>
+            </TouchableOpacity>
+            <Text className="mt-2 text-sm text-neutral-500 dark:text-neutral-400">
+              {updateAvatarMutation.isPending ? 'Uploading photo...' : 'Tap to change your photo'}
+            </Text>
+          </View>
+
+          {/* Personal details */}
+          <Card className="p-4 mb-4">
+            <Text className="font-semibold text-neutral-800 dark:text-white mb-3">Personal Details</Text>
+            <Controller
+              control={control}
+              name="firstName"
+              render={({ field: { onChange, value } }) => (
+                <TextInput
+                  label="First Name"
+                  value={value}
+                  onChangeText={onChange}
+                  leftIcon="user"
+                  autoComplete="given-name"
+                  className="mb-4"
+                  error={errors.firstName?.message}
+                />
+              )}
+            />
+            <Controller
+              control={control}
+              name="lastName"
+              render={({ field: { onChange, value } }) => (
+                <TextInput
+                  label="Last Name"
+                  value={value}
+                  onChangeText={onChange}
+                  leftIcon="user"
+                  autoComplete="family-name"
+                  className="mb-4"
+                  error={errors.lastName?.message}
+                />
+              )}
+            />
+            <Controller
+              control={control}
+              name="phone"
+              render={({ field: { onChange, value } }) => (
+                <TextInput
+                  label="Mobile Number"
+                  value={value}
+                  onChangeText={onChange}
+                  placeholder="09171234567"
+                  leftIcon="phone"
+                  keyboardType="phone-pad"
+                  autoComplete="tel"
+                  className="mb-4"
+                  error={errors.phone?.message}
+                />
+              )}
+            />
+            <Controller
+              control={control}
+              name="courses"
+              render={({ field: { onChange, value } }) => (
+                <TextInput
+                  label={user.role === 'STUDENT' ? 'Course' : 'Course (optional)'}
+                  value={value}
+                  onChangeText={onChange}
+                  placeholder="BS Computer Science"
+                  leftIcon="book"
+                  error={errors.courses?.message}
+                />
+              )}
+            />
+          </Card>
+
+          <Button
+            title="Save Changes"
+            icon="check"
+            className="mb-6"
+            isLoading={updateProfileMutation.isPending}
+            disabled={!isDirty || updateProfileMutation.isPending}
+            onPress={onSave}
+          />
+
+          {/* Role and college are reviewed by staff since they change prices */}
+          <Card className="p-4 mb-4">
+            <Text className="font-semibold text-neutral-800 dark:text-white mb-1">Role & College</Text>
+            <View className="flex-row justify-between py-2 border-t border-neutral-100 dark:border-neutral-700">
+              <Text className="text-neutral-500 dark:text-neutral-400">Role</Text>
+              <Text className="font-medium text-neutral-800 dark:text-white">{ROLE_DETAILS[user.role].label}</Text>
+            </View>
+            <View className="flex-row justify-between py-2 border-t border-neutral-100 dark:border-neutral-700">
+              <Text className="text-neutral-500 dark:text-neutral-400">College</Text>
+              <Text className="font-medium text-neutral-800 dark:text-white">{COLLEGE_LABELS[user.college]}</Text>
+            </View>
+            <Text className="mt-2 text-sm text-neutral-500 dark:text-neutral-400">{describeRolePricing(user)}</Text>
+
+            {pendingRequest ? (
+              <View className="flex-row items-start rounded-xl p-3 mt-3 bg-amber-100 dark:bg-amber-900/30">
+                <FontAwesome name="clock-o" size={16} color="#D97706" />
+                <Text className="flex-1 ml-2 text-sm text-amber-800 dark:text-amber-200">
+                  Your change request is waiting for staff review. We&apos;ll update your profile once it&apos;s approved.
+                </Text>
+              </View>
+            ) : !showChangeRequest ? (
+              <Button
+                title="Request a Change"
+                icon="exchange"
+                variant="outline"
+                size="sm"
+                className="mt-3"
+                onPress={() => setShowChangeRequest(true)}
+              />
+            ) : null}
+          </Card>
+
+          {showChangeRequest && !pendingRequest ? (
+            <Card className="p-4 mb-4">
+              <Text className="font-semibold text-neutral-800 dark:text-white mb-1">Request a Change</Text>
+              <Text className="text-sm text-neutral-500 dark:text-neutral-400 mb-3">
+                Staff check each request before your prices change.
+              </Text>
+
+              <Text className="text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">New role</Text>
+              <Controller
+                control={changeRequestForm.control}
+                name="role"
+                render={({ field: { onChange, value } }) => (
+                  <View className="flex-row flex-wrap mb-1">
+                    {ROLE_OPTIONS.map((option) => {
+                      const isSelected = value === option;
+
+                      return (
+                        <TouchableOpacity
+                          key={option}
+                          onPress={() => onChange(option)}
+                          className={`flex-row items-center rounded-full border px-3 py-2 mr-2 mb-2 ${isSelected ? 'border-primary bg-primary' : 'border-neutral-200 dark:border-neutral-700'}`}
+                        >
+                          <FontAwesome name={ROLE_DETAILS[option].icon} size={12} color={isSelected ? '#FFFFFF' : '#9CA3AF'} />
+                          <Text className={`ml-1.5 text-sm font-medium ${isSelected ? 'text-white' : 'text-neutral-700 dark:text-neutral-300'}`}>
+                            {ROLE_DETAILS[option].label}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                )}
+              />
+
+              <Text className="text-sm font-medium text-neutral-700 dark:text-neutral-300 mt-2 mb-2">New college</Text>
+              <Controller
+                control={changeRequestForm.control}
+                name="college"
+                render={({ field: { onChange, value } }) => (
+                  <View className="flex-row flex-wrap mb-1">
+                    {COLLEGE_OPTIONS.map((option) => {
+                      const isSelected = value === option;
+
+                      return (
+                        <TouchableOpacity
+                          key={option}
+                          onPress={() => onChange(option)}
+                          className={`rounded-full border px-4 py-2 mr-2 mb-2 ${isSelected ? 'border-primary bg-primary' : 'border-neutral-200 dark:border-neutral-700'}`}
+                        >
+                          <Text className={`text-sm font-medium ${isSelected ? 'text-white' : 'text-neutral-700 dark:text-neutral-300'}`}>
+                            {COLLEGE_LABELS[option]}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                )}
+              />
+
+              <Controller
+                control={changeRequestForm.control}
+                name="reason"
+                render={({ field: { onChange, value } }) => (
+                  <TextInput
+                    label="Reason"
+                    value={value}
+                    onChangeText={onChange}
+                    placeholder="e.g. I graduated last semester"
+                    multiline
+                    numberOfLines={3}
+                    className="mt-2 mb-3"
+                    error={changeRequestForm.formState.errors.reason?.message}
+                  />
+                )}
+              />
+
+              <View className="flex-row items-start rounded-xl p-3 mb-4 bg-primary/10">
+                <FontAwesome name="info-circle" size={16} color="#2C59DB" />
+                <Text className="flex-1 ml-2 text-sm text-neutral-700 dark:text-neutral-200">
+                  If approved: {describeRolePricing({ role: requestedRole, college: requestedCollege })}
+                </Text>
+              </View>
+
+              <View className="flex-row">
+                <Button
+                  title="Cancel"
+                  variant="outline"
+                  className="flex-1 mr-2"
+                  onPress={() => setShowChangeRequest(false)}
+                />
+                <Button
+                  title="Send Request"
+                  icon="paper-plane"
+                  className="flex-1"
+                  isLoading={createTicketMutation.isPending}
+                  disabled={createTicketMutation.isPending}
+                  onPress={onRequestChange}
+                />
+              </View>
+            </Card>
+          ) : null}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,100 @@
+import React, { useEffect } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { useColorScheme } from '@/components/useColorScheme';
+import { Card } from '@/components/ui/Card';
+import { ANNOUNCEMENT_LEVEL_DETAILS } from '@/constants/announcements';
+import { useAnnouncement } from '@/lib/hooks/use-queries';
+import { useAnnouncementReadState } from '@/lib/hooks/use-announcements';
+import { parseHtmlForDisplay } from '@/utils/html-parser';
+
+const AnnouncementDetailScreen = () => {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const { markRead } = useAnnouncementReadState();
+
+  const { data, isLoading, error } = useAnnouncement(id ?? '');
+  const announcement = data?.data;
+
+  // Opening an announcement marks it as read
+  useEffect(() => {
+    if (announcement?.id) markRead([announcement.id]);
+  }, [announcement?.id, markRead]);
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <View className="py-10 items-center justify-center">
+          <ActivityIndicator size="large" color="#2C59DB" />
+          <Text className="mt-4 text-neutral-500 dark:text-neutral-400">Loading announcement...</Text>
+        </View>
+      );
+    }
+
+    if (error || !announcement) {
+      return (
+        <View className="py-10 items-center justify-center">
+          <FontAwesome name="exclamation-circle" size={48} color="#EF4444" />
+          <Text className="mt-4 text-neutral-600 dark:text-neutral-400 text-center">
+            We couldn&apos;t load this announcement. Please go back and try again.
+          </Text>
+        </View>
+      );
+    }
+
+    const details = ANNOUNCEMENT_LEVEL_DETAILS[announcement.level] ?? ANNOUNCEMENT_LEVEL_DETAILS.INFO;
+    const author = announcement.publishedBy
+      ? `${announcement.publishedBy.firstName} ${announcement.publishedBy.lastName}`.trim()
+      : '';
+
+    return (
+      <Card className="p-4">
+        <View className={`flex-row items-center self-start px-2 py-1 mb-3 rounded-full ${details.className}`}>
+          <FontAwesome name={details.icon} size={12} color={details.color} />
+          <Text className={`ml-1 text-xs font-medium ${details.textClassName}`}>
+            {announcement.type === 'SYSTEM' ? `System · ${details.label}` : details.label}
+          </Text>
+        </View>
+        <Text className="text-2xl font-bold text-neutral-800 dark:text-white">{announcement.title}</Text>
+        <Text className="mt-1 mb-4 text-sm text-neutral-500 dark:text-neutral-400">
+          {new Date(announcement.publishedAt).toLocaleDateString('en-US', {
+            year: 'numeric',
+            month: 'long',
+            day: 'numeric',
+          })}
+          {author ? ` · ${author}` : ''}
+        </Text>
+        <Text className="text-base leading-relaxed text-neutral-700 dark:text-neutral-300">
+          {parseHtmlForDisplay(announcement.content)}
+        </Text>
+      </Card>
+    );
+  };
+
+  return (
+    <SafeAreaView edges={['bottom', 'left', 'right']} className="flex-1 bg-neutral-50 dark:bg-neutral-900">
+      <StatusBar style={isDark ? 'light' : 'dark'} />
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Announcement',
+          headerLeft: () => (
+            <TouchableOpacity onPress={() => router.back()} style={{ padding: 10 }}>
+              <FontAwesome name="arrow-left" size={22} color={isDark ? "#ccc" : "#888"} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+      <ScrollView className="flex-1 px-4 pt-4">
+        {renderContent()}
+        <View className="h-20" />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default AnnouncementDetailScreen;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { 
   View, 
   Text, 
@@ -11,6 +11,7 @@ import {
   useColorScheme as RNUseColorScheme
 } from 'react-native';
 import { Stack, router } from 'expo-router';
+import { onlineManager } from '@tanstack/react-query';
 import { StatusBar } from 'expo-status-bar';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { Button } from '@/components/ui/Button';
@@ -18,6 +19,25 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useCartStore } from '@/stores/cart.store';
 import Animated, { FadeIn, FadeInDown } from 'react-native-reanimated';
 import { useColorScheme } from '@/components/useColorScheme';
+import { useUserStore } from '@/stores/user.store';
+import { useCreateOrder, useValidateVoucher } from '@/lib/hooks/use-mutations';
+import { orderSchema } from '@/lib/validations/forms';
+import { useCartRevalidation } from '@/lib/hooks/use-cart-revalidation';
+import CartLineIssues from '@/components/shared/cart-line-issues';
+import CartRevalidationBanner from '@/components/shared/cart-revalidation-banner';
+import FulfillmentOptions from '@/components/shared/fulfillment-options';
+import PromoCodeInput from '@/components/shared/promo-code-input';
+import { useFulfillmentConfig } from '@/lib/hooks/use-queries';
+import { useRolePricing } from '@/lib/hooks/use-role-pricing';
+import type { FulfillmentSelection } from '@/types/fulfillment';
+import type { Voucher } from '@/types/voucher';
+import { evaluateVoucher, normalizeVoucherCode } from '@/utils/voucher';
+import {
+  calculateFulfillmentFee,
+  getDefaultFulfillmentSelection,
+  resolveFulfillmentConfig,
+  validateFulfillmentSelection,
+} from '@/utils/fulfillment';
 
 // Format currency as Philippine Peso
 const formatCurrency = (amount: number): string => {
@@ -30,24 +50,83 @@ const formatCurrency = (amount: number): string => {
 };
 
 const CheckoutScreen = () => {
-  const { items, getTotalPrice } = useCartStore();
+  const { items, getTotalPrice, clearCart } = useCartStore();
+  const { user } = useUserStore();
+  const { customer } = useRolePricing();
+  const createOrderMutation = useCreateOrder();
+  const validateVoucherMutation = useValidateVoucher();
+  const { checksByItemId, hasIssues, isVerified, isChecking, isError, recheck, applyUpdates } = useCartRevalidation();
   const colorScheme = useColorScheme();
   const systemColorScheme = RNUseColorScheme();
   const isDark = colorScheme === 'dark' || (systemColorScheme === 'dark');
   
   const [termsAccepted, setTermsAccepted] = useState(false);
   const [showTerms, setShowTerms] = useState(false);
+  const [fulfillment, setFulfillment] = useState<FulfillmentSelection | null>(null);
+  const [voucher, setVoucher] = useState<Voucher | null>(null);
+  const [voucherError, setVoucherError] = useState<string | null>(null);
+
+  // Fee rules come from the server, with local defaults as a fallback
+  const { data: fulfillmentConfigResponse } = useFulfillmentConfig();
+  const fulfillmentConfig = useMemo(
+    () => resolveFulfillmentConfig(fulfillmentConfigResponse?.data),
+    [fulfillmentConfigResponse]
+  );
+  const selectedFulfillment = fulfillment ?? getDefaultFulfillmentSelection(fulfillmentConfig, user?.college);
   
   // Calculate subtotal, shipping, and total
   const subtotal = getTotalPrice();
-  const shipping = subtotal > 1000 ? 0 : 150; // Free shipping for orders over 1000
-  const total = subtotal + shipping;
+
+  // Voucher rules are re-checked on every change so edits to the cart can't keep a stale discount
+  const voucherEvaluation = voucher ? evaluateVoucher(voucher, subtotal, customer) : null;
+  const discount = voucherEvaluation?.isValid ? voucherEvaluation.discountAmount : 0;
+
+  // Free delivery goes by what the customer pays for the items, after the voucher
+  const fulfillmentQuote = calculateFulfillmentFee(fulfillmentConfig, selectedFulfillment.method, subtotal - discount, user?.college);
+  const shipping = fulfillmentQuote.fee;
+  const total = subtotal - discount + shipping;
+
+  // Orders can only be placed against freshly verified prices and stock
+  const canPlaceOrder = termsAccepted && isVerified && !hasIssues;
 
   // Format prices for display
   const formattedSubtotal = formatCurrency(subtotal);
   const formattedShipping = shipping === 0 ? 'FREE' : formatCurrency(shipping);
   const formattedTotal = formatCurrency(total);
 
+  const handleApplyVoucher = (code: string) => {
+    if (!user?.id) {
+      setVoucherError("Please sign in to use a promo code.");
+      return;
+    }
+
+    setVoucherError(null);
+    validateVoucherMutation.mutate({ code: normalizeVoucherCode(code), customerId: user.id, subtotal }, {
+      onSuccess: (response) => {
+        if (!response.success || !response.data) {
+          setVoucherError(response.message ?? "This code is not valid.");
+          return;
+        }
+
+        const evaluation = evaluateVoucher(response.data, subtotal, customer);
+        if (!evaluation.isValid) {
+          setVoucherError(evaluation.reason);
+          return;
+        }
+
+        setVoucher(response.data);
+      },
+      onError: (error) => {
+        setVoucherError(error.message || "We couldn't check this code. Please try again.");
+      },
+    });
+  };
+
+  const handleRemoveVoucher = () => {
+    setVoucher(null);
+    setVoucherError(null);
+  };
+
   const handleCheckout = () => {
     if (!termsAccepted) {
       Alert.alert(
@@ -56,24 +135,91 @@ const CheckoutScreen = () => {
       );
       return;
     }
-    
-    // Log checkout information
-    console.log("CHECKOUT DATA:", {
-      items,
-      subtotal,
-      shipping,
-      total,
-      timestamp: new Date().toISOString()
+
+    // Orders need live prices and stock, so they aren't queued like other changes
+    if (!onlineManager.isOnline()) {
+      Alert.alert("You're Offline", "Connect to the internet to place your order. Your cart is saved on this device.");
+      return;
+    }
+
+    if (!isVerified || hasIssues) {
+      Alert.alert(
+        "Review Your Cart",
+        "Some prices or stock levels changed. Please review the updates before placing your order."
+      );
+      return;
+    }
+
+    if (!user?.id) {
+      Alert.alert(
+        "Account Required",
+        "We couldn't load your account details. Please sign in again and retry."
+      );
+      return;
+    }
+
+    if (voucherEvaluation && !voucherEvaluation.isValid) {
+      Alert.alert("Promo Code", `${voucherEvaluation.reason} Remove the code to continue.`);
+      return;
+    }
+
+    const fulfillmentError = validateFulfillmentSelection(fulfillmentConfig, selectedFulfillment, user.college);
+    if (fulfillmentError) {
+      Alert.alert("Fulfillment Required", fulfillmentError);
+      return;
+    }
+
+    // Every order line must point to a concrete product variant
+    const missingVariant = items.find(item => !item.variantId);
+    if (missingVariant) {
+      Alert.alert(
+        "Unavailable Item",
+        `${missingVariant.name} can no longer be ordered. Please remove it from your cart.`
+      );
+      return;
+    }
+
+    const parsed = orderSchema.safeParse({
+      customerId: user.id,
+      orderItems: items.map(item => ({
+        variantId: item.variantId,
+        quantity: item.quantity,
+        price: item.price,
+        originalPrice: item.originalPrice ?? item.price,
+        appliedRole: item.appliedRole ?? 'OTHERS',
+        customerNote: item.notes?.trim() || undefined,
+      })),
+      totalAmount: total,
+      discountAmount: discount,
+      voucherCode: voucher?.code,
+      fulfillmentMethod: selectedFulfillment.method,
+      fulfillmentFee: shipping,
+      pickupPointId: selectedFulfillment.method === 'DELIVERY' ? undefined : selectedFulfillment.pickupPointId,
+      deliveryAddress: selectedFulfillment.method === 'DELIVERY' ? selectedFulfillment.deliveryAddress?.trim() : undefined,
     });
-    
-    // Navigate to success page with order details
-    const encodedItems = encodeURIComponent(JSON.stringify(items));
-    router.push({
-      pathname: '/success',
-      params: {
-        orderItems: encodedItems,
-        total: total.toString()
-      }
+
+    if (!parsed.success) {
+      Alert.alert("Invalid Order", parsed.error.errors[0]?.message ?? "Please review your cart and try again.");
+      return;
+    }
+
+    createOrderMutation.mutate(parsed.data, {
+      onSuccess: (response) => {
+        const order = response.data;
+        if (!order) {
+          Alert.alert("Order Failed", response.message ?? "We couldn't place your order. Please try again.");
+          return;
+        }
+
+        clearCart();
+        router.replace({
+          pathname: '/success',
+          params: { orderId: order.id }
+        });
+      },
+      onError: (error) => {
+        Alert.alert("Order Failed", error.message || "We couldn't place your order. Please try again.");
+      },
     });
   };
 
@@ -120,6 +266,15 @@ const CheckoutScreen = () => {
       />
       
       <ScrollView style={styles.scrollView}>
+        <CartRevalidationBanner
+          hasIssues={hasIssues}
+          isChecking={isChecking}
+          isError={isError}
+          onApply={applyUpdates}
+          onRetry={() => recheck()}
+          className="mx-4 mt-4"
+        />
+
         <Animated.View 
           style={[styles.section, isDark && styles.sectionDark]}
           entering={FadeIn.duration(300)}
@@ -155,6 +310,7 @@ const CheckoutScreen = () => {
                     Note: {item.notes}
                   </Text>
                 )}
+                <CartLineIssues issues={checksByItemId[item.id]?.issues} />
               </View>
             </Animated.View>
           ))}
@@ -165,8 +321,19 @@ const CheckoutScreen = () => {
               <Text style={[styles.priceValue, isDark && styles.textDark]}>{formattedSubtotal}</Text>
             </View>
             
+            {discount > 0 && (
+              <View style={styles.priceLine}>
+                <Text style={[styles.priceLabel, isDark && styles.textMutedDark]}>Discount ({voucher?.code})</Text>
+                <Text style={[styles.priceValue, styles.discountValue, isDark && styles.discountValueDark]}>
+                  -{formatCurrency(discount)}
+                </Text>
+              </View>
+            )}
+
             <View style={styles.priceLine}>
-              <Text style={[styles.priceLabel, isDark && styles.textMutedDark]}>Shipping</Text>
+              <Text style={[styles.priceLabel, isDark && styles.textMutedDark]}>
+                {selectedFulfillment.method === 'DELIVERY' ? 'Delivery' : 'Pickup'}
+              </Text>
               <Text style={[
                 styles.priceValue, 
                 shipping === 0 && styles.freeShipping, 
@@ -176,9 +343,9 @@ const CheckoutScreen = () => {
               </Text>
             </View>
             
-            {shipping === 0 && (
+            {fulfillmentQuote.note && (
               <Text style={[styles.shippingNote, isDark && styles.shippingNoteDark]}>
-                Free shipping on orders over ₱1,000
+                {fulfillmentQuote.note}
               </Text>
             )}
             
@@ -189,6 +356,36 @@ const CheckoutScreen = () => {
           </View>
         </Animated.View>
 
+        <Animated.View 
+          style={[styles.section, styles.termsSection, isDark && styles.sectionDark]}
+          entering={FadeIn.delay(200)}
+        >
+          <Text style={[styles.sectionTitle, isDark && styles.textDark]}>Pickup or Delivery</Text>
+          <FulfillmentOptions
+            config={fulfillmentConfig}
+            college={user?.college}
+            selection={selectedFulfillment}
+            quote={fulfillmentQuote}
+            onChange={setFulfillment}
+          />
+        </Animated.View>
+
+        <Animated.View 
+          style={[styles.section, styles.termsSection, isDark && styles.sectionDark]}
+          entering={FadeIn.delay(250)}
+        >
+          <Text style={[styles.sectionTitle, isDark && styles.textDark]}>Promo Code</Text>
+          <PromoCodeInput
+            appliedCode={voucher?.code}
+            description={voucher?.description}
+            discountAmount={discount}
+            error={voucherEvaluation && !voucherEvaluation.isValid ? voucherEvaluation.reason : voucherError}
+            isApplying={validateVoucherMutation.isPending}
+            onApply={handleApplyVoucher}
+            onRemove={handleRemoveVoucher}
+          />
+        </Animated.View>
+
         <Animated.View 
           style={[styles.section, styles.termsSection, isDark && styles.sectionDark]}
           entering={FadeIn.delay(300)}
@@ -246,9 +443,10 @@ const CheckoutScreen = () => {
         <Button
           title="Place Order"
           icon="check"
-          className={`w-full ${!termsAccepted ? 'bg-neutral-400' : 'bg-primary'}`}
+          className={`w-full ${!canPlaceOrder ? 'bg-neutral-400' : 'bg-primary'}`}
           onPress={handleCheckout}
-          disabled={!termsAccepted}
+          isLoading={createOrderMutation.isPending}
+          disabled={!canPlaceOrder || createOrderMutation.isPending}
         />
       </View>
     </SafeAreaView>
@@ -384,6 +582,12 @@ const styles = StyleSheet.create({
   freeShippingDark: {
     color: '#34D399',
   },
+  discountValue: {
+    color: '#059669',
+  },
+  discountValueDark: {
+    color: '#34D399',
+  },
   shippingNote: {
     fontSize: 13,
     color: '#059669',
@@ -0,0 +1,212 @@
+import React from 'react';
+import { View, Text, ScrollView, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import type { Order } from '@prisma/client';
+import { useColorScheme } from '@/components/useColorScheme';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { TextInput } from '@/components/ui/TextInput';
+import { ApiError } from '@/lib/api';
+import { useOrder, useSurveyCategory } from '@/lib/hooks/use-queries';
+import { useSubmitSurvey } from '@/lib/hooks/use-mutations';
+import { surveySchema, type SurveyFormData } from '@/lib/validations/forms';
+import { canGiveFeedback, getSurveyQuestions, hasGivenFeedback, SURVEY_SCALE, SURVEY_SCALE_LABELS } from '@/utils/survey';
+
+const SCALE = Array.from({ length: SURVEY_SCALE }, (_, i) => i + 1);
+
+const FeedbackScreen = () => {
+  const { orderId } = useLocalSearchParams<{ orderId: string }>();
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+
+  const { data: orderResponse, isLoading: isOrderLoading, error: orderError } = useOrder(orderId ?? '', {});
+  const { data: categoryResponse, isLoading: isCategoryLoading, error: categoryError } = useSurveyCategory();
+  const order = orderResponse?.data as Order | undefined;
+  const category = categoryResponse?.data;
+
+  const submitSurveyMutation = useSubmitSurvey();
+
+  const { control, handleSubmit, formState: { errors } } = useForm<SurveyFormData>({
+    resolver: zodResolver(surveySchema),
+    defaultValues: { comments: '' },
+  });
+
+  const onSubmit = handleSubmit((values) => {
+    if (!order || !category) return;
+
+    submitSurveyMutation.mutate({
+      orderId: order.id,
+      categoryId: category.id,
+      answers: values.answers,
+      comments: values.comments || undefined,
+    }, {
+      onSuccess: () => {
+        Alert.alert('Thank You!', 'Your feedback helps us improve our merch and service.', [
+          { text: 'OK', onPress: () => router.back() },
+        ]);
+      },
+      onError: (submitError) => {
+        // Another device already sent feedback for this order
+        if (submitError instanceof ApiError && submitError.status === 409) {
+          Alert.alert('Feedback Given', 'We already have your feedback for this order.', [
+            { text: 'OK', onPress: () => router.back() },
+          ]);
+          return;
+        }
+        Alert.alert('Feedback Not Sent', submitError.message || "We couldn't send your feedback. Please try again.");
+      },
+    });
+  });
+
+  const renderContent = () => {
+    if (isOrderLoading || isCategoryLoading) {
+      return (
+        <View className="py-10 items-center justify-center">
+          <ActivityIndicator size="large" color="#2C59DB" />
+          <Text className="mt-4 text-neutral-500 dark:text-neutral-400">Loading survey...</Text>
+        </View>
+      );
+    }
+
+    if (orderError || categoryError || !order || !category) {
+      return (
+        <View className="py-10 items-center justify-center">
+          <FontAwesome name="exclamation-circle" size={48} color="#EF4444" />
+          <Text className="mt-4 text-neutral-600 dark:text-neutral-400 text-center">
+            We couldn&apos;t load the survey. Please go back and try again.
+          </Text>
+        </View>
+      );
+    }
+
+    if (!canGiveFeedback(order)) {
+      return (
+        <View className="py-10 items-center justify-center">
+          <FontAwesome name={hasGivenFeedback(order) ? 'check-circle' : 'clock-o'} size={48} color={hasGivenFeedback(order) ? '#10B981' : '#9CA3AF'} />
+          <Text className="mt-4 text-neutral-600 dark:text-neutral-400 text-center">
+            {hasGivenFeedback(order)
+              ? 'Thanks! You already gave feedback for this order.'
+              : 'You can give feedback once this order is delivered.'}
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <>
+        <Card className="mb-4 p-4">
+          <Text className="text-lg font-semibold text-neutral-800 dark:text-white">
+            How did we do on Order #{order.id.slice(0, 8).toUpperCase()}?
+          </Text>
+          {category.description ? (
+            <Text className="mt-1 text-sm text-neutral-500 dark:text-neutral-400">{category.description}</Text>
+          ) : null}
+        </Card>
+
+        {getSurveyQuestions(category).map((question, index) => (
+          <Card key={question.id} className="mb-4 p-4">
+            <Text className="font-medium text-neutral-800 dark:text-white mb-3">
+              {index + 1}. {question.text}
+            </Text>
+            <Controller
+              control={control}
+              name={`answers.${question.id}`}
+              render={({ field: { onChange, value } }) => (
+                <View>
+                  <View className="flex-row justify-between">
+                    {SCALE.map(score => {
+                      const isSelected = value === score;
+
+                      return (
+                        <TouchableOpacity
+                          key={`${question.id}-${score}`}
+                          onPress={() => onChange(score)}
+                          accessibilityLabel={`${score} - ${SURVEY_SCALE_LABELS[score - 1]}`}
+                          className={`items-center justify-center w-12 h-12 rounded-full border ${isSelected ? 'border-primary bg-primary' : 'border-neutral-200 dark:border-neutral-700'}`}
+                        >
+                          <Text className={`text-base font-semibold ${isSelected ? 'text-white' : 'text-neutral-700 dark:text-neutral-300'}`}>
+                            {score}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                  <View className="flex-row justify-between mt-1.5">
+                    <Text className="text-xs text-neutral-500 dark:text-neutral-400">{SURVEY_SCALE_LABELS[0]}</Text>
+                    <Text className="text-xs text-neutral-500 dark:text-neutral-400">{SURVEY_SCALE_LABELS[SURVEY_SCALE - 1]}</Text>
+                  </View>
+                </View>
+              )}
+            />
+            {errors.answers?.[question.id]?.message ? (
+              <Text className="text-sm text-red-500 mt-2">{errors.answers[question.id]?.message}</Text>
+            ) : null}
+          </Card>
+        ))}
+
+        <Card className="mb-4 p-4">
+          <Controller
+            control={control}
+            name="comments"
+            render={({ field: { onChange, value } }) => (
+              <TextInput
+                label="Comments (optional)"
+                leftIcon="comment"
+                value={value}
+                onChangeText={onChange}
+                placeholder="Anything else you'd like to tell us?"
+                multiline
+                numberOfLines={4}
+                error={errors.comments?.message}
+              />
+            )}
+          />
+        </Card>
+      </>
+    );
+  };
+
+  const canSubmit = !!order && !!category && canGiveFeedback(order);
+
+  return (
+    <SafeAreaView className="flex-1 bg-neutral-50 dark:bg-neutral-900">
+      <StatusBar style={isDark ? 'light' : 'dark'} />
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Order Feedback',
+          headerLeft: () => (
+            <TouchableOpacity onPress={() => router.back()} style={{ padding: 10 }}>
+              <FontAwesome name="arrow-left" size={22} color={isDark ? "#ccc" : "#888"} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <ScrollView className="flex-1 px-4 pt-4" keyboardShouldPersistTaps="handled">
+        {renderContent()}
+        <View className="h-20" />
+      </ScrollView>
+
+      {canSubmit && (
+        <View className="p-4 bg-white dark:bg-neutral-800 border-t border-neutral-100 dark:border-neutral-700">
+          <Button
+            title="Submit Feedback"
+            icon="paper-plane"
+            className="w-full"
+            onPress={onSubmit}
+            isLoading={submitSurveyMutation.isPending}
+            disabled={submitSurveyMutation.isPending}
+          />
+        </View>
+      )}
+    </SafeAreaView>
+  );
+};
+
+export default FeedbackScreen;
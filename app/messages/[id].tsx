@@ -0,0 +1,206 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+  KeyboardAvoidingView,
+  Platform,
+  TextInput as RNTextInput,
+} from 'react-native';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useColorScheme } from '@/components/useColorScheme';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { useMessageThread } from '@/lib/hooks/use-queries';
+import { useMarkThreadRead, useSendMessage } from '@/lib/hooks/use-mutations';
+import { messageReplySchema, type MessageReplyFormData } from '@/lib/validations/forms';
+import { useUserStore } from '@/stores/user.store';
+import { countUnreadInThread, getReplySubject, getThreadMessages } from '@/utils/messages';
+
+const formatDateTime = (date: string | Date) => new Date(date).toLocaleString(undefined, {
+  month: 'short',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+});
+
+const MessageThreadScreen = () => {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const { user } = useUserStore();
+  const scrollRef = useRef<ScrollView>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const { data, isLoading, error, refetch } = useMessageThread(id ?? '');
+  const thread = data?.data;
+  const sendMessageMutation = useSendMessage();
+  const { mutate: markThreadRead } = useMarkThreadRead();
+
+  // Mark staff replies read once per visit, when the thread first loads with unread replies
+  const markedThreadId = useRef<string | null>(null);
+  useEffect(() => {
+    if (!thread || markedThreadId.current === thread.id) return;
+    if (countUnreadInThread(thread) === 0) return;
+
+    markedThreadId.current = thread.id;
+    markThreadRead(thread.id);
+  }, [thread, markThreadRead]);
+
+  const { control, handleSubmit, reset, formState: { errors } } = useForm<MessageReplyFormData>({
+    resolver: zodResolver(messageReplySchema),
+    defaultValues: { message: '' },
+  });
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await refetch();
+    setRefreshing(false);
+  };
+
+  const onSend = handleSubmit((values) => {
+    if (!user || !thread) return;
+
+    sendMessageMutation.mutate({
+      sentBy: user.id,
+      email: user.email,
+      subject: getReplySubject(thread.subject),
+      message: values.message,
+      repliesToId: thread.id,
+    }, {
+      onSuccess: () => {
+        reset({ message: '' });
+        scrollRef.current?.scrollToEnd({ animated: true });
+      },
+      onError: (sendError) => {
+        Alert.alert('Reply Not Sent', sendError.message || "We couldn't send your reply. Please try again.");
+      },
+    });
+  });
+
+  if (isLoading) {
+    return (
+      <SafeAreaView className="flex-1 items-center justify-center bg-neutral-50 dark:bg-neutral-900">
+        <ActivityIndicator size="large" color="#2C59DB" />
+        <Text className="mt-4 text-neutral-500 dark:text-neutral-400">Loading messages...</Text>
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !thread) {
+    return (
+      <SafeAreaView className="flex-1 items-center justify-center bg-neutral-50 dark:bg-neutral-900 p-4">
+        <FontAwesome name="exclamation-circle" size={48} color="#EF4444" />
+        <Text className="mt-4 text-neutral-600 dark:text-neutral-400 text-center">
+          We couldn&apos;t load this conversation. Please go back and try again.
+        </Text>
+        <Button title="Go Back" variant="outline" className="mt-6" onPress={() => router.back()} />
+      </SafeAreaView>
+    );
+  }
+
+  const messages = getThreadMessages(thread);
+
+  return (
+    <SafeAreaView edges={['bottom', 'left', 'right']} className="flex-1 bg-neutral-50 dark:bg-neutral-900">
+      <StatusBar style={isDark ? 'light' : 'dark'} />
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Conversation',
+          headerLeft: () => (
+            <TouchableOpacity onPress={() => router.back()} style={{ padding: 10 }}>
+              <FontAwesome name="arrow-left" size={22} color={isDark ? "#ccc" : "#888"} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <KeyboardAvoidingView
+        className="flex-1"
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 90 : 0}
+      >
+        <ScrollView
+          ref={scrollRef}
+          className="flex-1"
+          contentContainerClassName="p-4"
+          keyboardShouldPersistTaps="handled"
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={["#2C59DB"]} tintColor={"#2C59DB"} />
+          }
+        >
+          <Card className="p-4 mb-4">
+            <Text className="text-lg font-semibold text-neutral-800 dark:text-white">{thread.subject}</Text>
+            <Text className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+              Started {formatDateTime(thread.createdAt)}
+              {thread.isResolved ? ' • Resolved' : ''}
+            </Text>
+          </Card>
+
+          {messages.map((message) => {
+            const isOwn = !message.isSentByAdmin;
+
+            return (
+              <View key={message.id} className={`mb-3 max-w-[85%] ${isOwn ? 'self-end' : 'self-start'}`}>
+                <View className={`p-3 rounded-2xl ${isOwn ? 'bg-primary rounded-br-sm' : 'bg-white dark:bg-neutral-800 rounded-bl-sm border border-neutral-200 dark:border-neutral-700'}`}>
+                  {!isOwn && <Text className="text-xs font-semibold text-primary mb-1">MerchTrack</Text>}
+                  <Text className={isOwn ? 'text-white' : 'text-neutral-700 dark:text-neutral-200'}>{message.message}</Text>
+                </View>
+                <Text className={`mt-1 text-xs text-neutral-400 ${isOwn ? 'text-right' : ''}`}>
+                  {formatDateTime(message.createdAt)}
+                </Text>
+              </View>
+            );
+          })}
+        </ScrollView>
+
+        <View className="px-4 pt-3 pb-4 bg-white dark:bg-neutral-800 border-t border-neutral-100 dark:border-neutral-700">
+          <View className="flex-row items-end">
+            <Controller
+              control={control}
+              name="message"
+              render={({ field: { onChange, onBlur, value } }) => (
+                <RNTextInput
+                  value={value}
+                  onChangeText={onChange}
+                  onBlur={onBlur}
+                  placeholder="Write a reply"
+                  multiline
+                  className="flex-1 max-h-28 border border-neutral-300 dark:border-neutral-600 rounded-2xl px-3 py-2 bg-white dark:bg-neutral-700 text-neutral-800 dark:text-neutral-200"
+                  placeholderTextColor={isDark ? '#A3A3A3' : '#737373'}
+                />
+              )}
+            />
+            <TouchableOpacity
+              onPress={onSend}
+              disabled={sendMessageMutation.isPending}
+              className="ml-2 w-10 h-10 rounded-full bg-primary items-center justify-center"
+              accessibilityLabel="Send reply"
+            >
+              {sendMessageMutation.isPending ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <FontAwesome name="paper-plane" size={16} color="#FFFFFF" />
+              )}
+            </TouchableOpacity>
+          </View>
+          {errors.message?.message && (
+            <Text className="text-red-500 text-xs mt-1">{errors.message.message}</Text>
+          )}
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+export default MessageThreadScreen;
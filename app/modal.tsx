@@ -15,6 +15,10 @@ import { useCartStore } from '@/stores/cart.store';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { Button } from '@/components/ui/Button';
 import Animated, { FadeInDown } from 'react-native-reanimated';
+import { useCartRevalidation } from '@/lib/hooks/use-cart-revalidation';
+import CartLineIssues from '@/components/shared/cart-line-issues';
+import CartRevalidationBanner from '@/components/shared/cart-revalidation-banner';
+import type { CartItem } from '@/stores/cart.store';
 
 // Format currency as Philippine Peso
 const formatCurrency = (amount: number): string => {
@@ -31,6 +35,7 @@ export default function CartModal() {
   const [editingNotes, setEditingNotes] = useState<string | null>(null);
   const [noteText, setNoteText] = useState<string>('');
   const colorScheme = useColorScheme();
+  const { checksByItemId, hasIssues, isChecking, isError, recheck, applyUpdates } = useCartRevalidation();
   
   // Get theme colors
   const backgroundColor = useThemeColor({ light: '#f8f8f8', dark: '#121212' }, 'background');
@@ -43,6 +48,12 @@ export default function CartModal() {
   const iconColor = useThemeColor({ light: '#888', dark: '#a0a0a0' }, 'text');
   const buttonBgColor = useThemeColor({ light: '#f0f0f0', dark: '#333333' }, 'background');
 
+  // Stop increasing quantity once the line reaches the remaining stock
+  const isAtStockLimit = (item: CartItem) => {
+    const availableQuantity = checksByItemId[item.id]?.availableQuantity ?? null;
+    return availableQuantity !== null && item.quantity >= availableQuantity;
+  };
+
   // Format price for display
   const formattedTotal = formatCurrency(getTotalPrice());
 
@@ -116,6 +127,15 @@ export default function CartModal() {
           </TouchableOpacity>
         </View>
 
+        <CartRevalidationBanner
+          hasIssues={hasIssues}
+          isChecking={isChecking}
+          isError={isError}
+          onApply={applyUpdates}
+          onRetry={() => recheck()}
+          className="mb-3"
+        />
+
         {items.map((item, index) => (
           <Animated.View 
             key={item.id} 
@@ -154,6 +174,7 @@ export default function CartModal() {
                 )}
                 
                 <Text style={styles.cartItemPrice}>{formatCurrency(item.price)}</Text>
+                <CartLineIssues issues={checksByItemId[item.id]?.issues} />
                 
                 <View style={[styles.quantityContainer, { backgroundColor: cardBackground }]}>
                   <TouchableOpacity 
@@ -169,8 +190,9 @@ export default function CartModal() {
                   <TouchableOpacity 
                     style={[styles.quantityButton, { backgroundColor: buttonBgColor }]}
                     onPress={() => updateQuantity(item.id, item.quantity + 1)}
+                    disabled={isAtStockLimit(item)}
                   >
-                    <FontAwesome name="plus" size={14} color={accentColor} />
+                    <FontAwesome name="plus" size={14} color={isAtStockLimit(item) ? iconColor : accentColor} />
                   </TouchableOpacity>
                 </View>
               </View>
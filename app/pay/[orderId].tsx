@@ -0,0 +1,422 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  Image,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import * as ImagePicker from 'expo-image-picker';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import type { Order, Payment } from '@prisma/client';
+import { useColorScheme } from '@/components/useColorScheme';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { TextInput } from '@/components/ui/TextInput';
+import { useMerchantAccounts, useOrder } from '@/lib/hooks/use-queries';
+import { useCreatePayment, useUploadPaymentReceipt } from '@/lib/hooks/use-mutations';
+import { paymentSchema, type PaymentFormData } from '@/lib/validations/forms';
+import { useUserStore } from '@/stores/user.store';
+import { ONLINE_PAYMENT_METHODS, PAYMENT_METHOD_DETAILS } from '@/constants/payments';
+import { QueryParams } from '@/types/common';
+import { formatCurrency } from '@/utils/format-currency';
+import { isQueuedMutation } from '@/utils/outbox';
+import {
+  canPayOrder,
+  getMerchantAccounts,
+  getOrderBalance,
+  getOrderPaymentStatusAfterPayment,
+  PaymentReceipt,
+} from '@/utils/payments';
+
+interface OrderWithPayments extends Order {
+  payments?: Payment[];
+}
+
+const orderQueryParams: QueryParams = {
+  include: { payments: true },
+};
+
+const PayOrderScreen = () => {
+  const { orderId } = useLocalSearchParams<{ orderId: string }>();
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const { user } = useUserStore();
+  const [receipt, setReceipt] = useState<PaymentReceipt | null>(null);
+
+  const { data, isLoading, error } = useOrder(orderId ?? '', orderQueryParams);
+  const order = data?.data as OrderWithPayments | undefined;
+  const { paidAmount, balance } = getOrderBalance(order?.totalAmount ?? 0, order?.payments);
+
+  // Online payment stays hidden unless the server returns an account to pay into
+  const { data: accountsResponse, isLoading: isLoadingAccounts } = useMerchantAccounts();
+  const merchantAccounts = useMemo(() => getMerchantAccounts(accountsResponse?.data), [accountsResponse?.data]);
+  const payableMethods = useMemo(
+    () => ONLINE_PAYMENT_METHODS.filter(method => merchantAccounts[method]),
+    [merchantAccounts]
+  );
+
+  const createPaymentMutation = useCreatePayment();
+  const uploadReceiptMutation = useUploadPaymentReceipt();
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    setError,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<PaymentFormData>({
+    resolver: zodResolver(paymentSchema),
+    defaultValues: {
+      paymentMethod: 'GCASH',
+      referenceNo: '',
+      memo: '',
+    },
+  });
+
+  // Default the amount to the outstanding balance once the order loads
+  useEffect(() => {
+    if (order) {
+      reset((values) => ({ ...values, amount: balance }));
+    }
+  }, [order?.id, balance, reset]);
+
+  const selectedMethod = watch('paymentMethod');
+  const account = merchantAccounts[selectedMethod];
+
+  // Move off a method the server has no account for
+  useEffect(() => {
+    if (!account && payableMethods.length > 0) {
+      setValue('paymentMethod', payableMethods[0]);
+    }
+  }, [account, payableMethods, setValue]);
+
+  const pickReceipt = async () => {
+    if (!order || !user?.id) return;
+
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert("Permission Needed", "Allow photo access to attach your payment receipt.");
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      quality: 0.5,
+      base64: true,
+    });
+    if (result.canceled) return;
+
+    const asset = result.assets[0];
+    if (!asset.base64) {
+      Alert.alert("Attachment Failed", "We couldn't read that image. Please try another one.");
+      return;
+    }
+
+    // Only the hosted URL goes into the payment, so it stays small enough to cache and queue
+    uploadReceiptMutation.mutate({
+      orderId: order.id,
+      userId: user.id,
+      dataUri: `data:${asset.mimeType ?? 'image/jpeg'};base64,${asset.base64}`,
+      fileName: asset.fileName ?? null,
+      width: asset.width,
+      height: asset.height,
+    }, {
+      onSuccess: setReceipt,
+      onError: (uploadError) => {
+        Alert.alert("Attachment Failed", uploadError.message || "We couldn't upload your receipt. Please try again.");
+      },
+    });
+  };
+
+  const onSubmit = handleSubmit((values) => {
+    if (!order || !user?.id || !account) return;
+
+    if (values.amount > balance) {
+      setError('amount', { message: `Amount cannot be more than the balance of ${formatCurrency(balance)}` });
+      return;
+    }
+
+    createPaymentMutation.mutate({
+      orderId: order.id,
+      userId: user.id,
+      amount: values.amount,
+      paymentMethod: values.paymentMethod,
+      paymentSite: 'OFFSITE',
+      referenceNo: values.referenceNo.trim(),
+      memo: values.memo?.trim() || undefined,
+      metadata: receipt ? { receipt } : undefined,
+      orderPaymentStatus: getOrderPaymentStatusAfterPayment(order.paymentStatus, balance, values.amount),
+    }, {
+      onSuccess: (response) => {
+        if (isQueuedMutation(response)) {
+          Alert.alert(
+            "Payment Saved",
+            "You're offline. We'll submit your payment as soon as you're back online.",
+            [{ text: "OK", onPress: () => router.replace({ pathname: '/track-order', params: { orderId: order.id } }) }]
+          );
+          return;
+        }
+
+        if (!response.data) {
+          Alert.alert("Payment Failed", response.message ?? "We couldn't submit your payment. Please try again.");
+          return;
+        }
+
+        Alert.alert(
+          "Payment Submitted",
+          "We'll verify your payment shortly. You can check its status under Payment History.",
+          [{ text: "OK", onPress: () => router.replace({ pathname: '/track-order', params: { orderId: order.id } }) }]
+        );
+      },
+      onError: (submitError) => {
+        Alert.alert("Payment Failed", submitError.message || "We couldn't submit your payment. Please try again.");
+      },
+    });
+  });
+
+  const renderContent = () => {
+    if (isLoading || isLoadingAccounts) {
+      return (
+        <View className="py-10 items-center justify-center">
+          <ActivityIndicator size="large" color="#2C59DB" />
+          <Text className="mt-4 text-neutral-500 dark:text-neutral-400">Loading order...</Text>
+        </View>
+      );
+    }
+
+    if (error || !order) {
+      return (
+        <View className="py-10 items-center justify-center">
+          <FontAwesome name="exclamation-circle" size={48} color="#EF4444" />
+          <Text className="mt-4 text-neutral-600 dark:text-neutral-400 text-center">
+            We couldn&apos;t load this order. Please go back and try again.
+          </Text>
+        </View>
+      );
+    }
+
+    if (!canPayOrder(order) || balance === 0) {
+      return (
+        <View className="py-10 items-center justify-center">
+          <FontAwesome name="check-circle" size={48} color="#10B981" />
+          <Text className="mt-4 text-neutral-600 dark:text-neutral-400 text-center">
+            {order.status === 'CANCELLED'
+              ? 'This order was cancelled and can no longer be paid.'
+              : 'There is nothing left to pay on this order.'}
+          </Text>
+        </View>
+      );
+    }
+
+    if (payableMethods.length === 0) {
+      return (
+        <View className="py-10 items-center justify-center">
+          <FontAwesome name="credit-card" size={48} color="#9CA3AF" />
+          <Text className="mt-4 text-neutral-600 dark:text-neutral-400 text-center">
+            Online payment isn&apos;t available right now. Please pay at the merch booth or try again later.
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <>
+        <Card className="mb-4 p-4">
+          <Text className="text-lg font-semibold text-neutral-800 dark:text-white mb-3">
+            Order #{order.id.slice(0, 8).toUpperCase()}
+          </Text>
+          <View className="flex-row justify-between mb-1">
+            <Text className="text-neutral-600 dark:text-neutral-400">Order Total</Text>
+            <Text className="text-neutral-800 dark:text-white">{formatCurrency(order.totalAmount)}</Text>
+          </View>
+          {paidAmount > 0 && (
+            <View className="flex-row justify-between mb-1">
+              <Text className="text-neutral-600 dark:text-neutral-400">Paid or Pending</Text>
+              <Text className="text-neutral-800 dark:text-white">-{formatCurrency(paidAmount)}</Text>
+            </View>
+          )}
+          <View className="flex-row justify-between mt-2 pt-2 border-t border-neutral-100 dark:border-neutral-700">
+            <Text className="font-semibold text-neutral-800 dark:text-white">Balance</Text>
+            <Text className="font-bold text-primary">{formatCurrency(balance)}</Text>
+          </View>
+        </Card>
+
+        <Card className="mb-4 p-4">
+          <Text className="text-lg font-semibold text-neutral-800 dark:text-white mb-3">Payment Method</Text>
+          <Controller
+            control={control}
+            name="paymentMethod"
+            render={({ field: { onChange, value } }) => (
+              <View className="flex-row">
+                {payableMethods.map((method) => {
+                  const isSelected = value === method;
+                  return (
+                    <TouchableOpacity
+                      key={method}
+                      onPress={() => onChange(method)}
+                      className={`flex-1 items-center rounded-xl border py-3 mx-1 ${isSelected ? 'border-primary bg-primary/5' : 'border-neutral-200 dark:border-neutral-700'}`}
+                    >
+                      <FontAwesome
+                        name={PAYMENT_METHOD_DETAILS[method].icon}
+                        size={20}
+                        color={isSelected ? '#2C59DB' : '#9CA3AF'}
+                      />
+                      <Text className={`mt-1 text-sm ${isSelected ? 'text-primary font-semibold' : 'text-neutral-600 dark:text-neutral-400'}`}>
+                        {PAYMENT_METHOD_DETAILS[method].label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+          />
+
+          {account && (
+            <View className="mt-4 rounded-lg bg-neutral-50 dark:bg-neutral-800 p-3">
+              {account.bankName && (
+                <Text className="text-sm text-neutral-600 dark:text-neutral-400">Bank: {account.bankName}</Text>
+              )}
+              <Text className="text-sm text-neutral-600 dark:text-neutral-400">Account Name: {account.accountName}</Text>
+              <Text className="text-base font-semibold text-neutral-800 dark:text-white mt-1" selectable>
+                {account.accountNumber}
+              </Text>
+              <Text className="text-xs text-neutral-500 dark:text-neutral-400 mt-2">{account.instructions}</Text>
+            </View>
+          )}
+        </Card>
+
+        <Card className="mb-4 p-4">
+          <Text className="text-lg font-semibold text-neutral-800 dark:text-white mb-3">Payment Details</Text>
+          <Controller
+            control={control}
+            name="amount"
+            render={({ field: { onChange, value } }) => (
+              <TextInput
+                label="Amount Paid"
+                leftIcon="money"
+                keyboardType="decimal-pad"
+                value={value === undefined ? '' : String(value)}
+                onChangeText={onChange}
+                error={errors.amount?.message}
+                className="mb-1"
+              />
+            )}
+          />
+          <Text className="text-xs text-neutral-500 dark:text-neutral-400 mb-4">
+            Paying less than the balance is recorded as a down payment.
+          </Text>
+          <Controller
+            control={control}
+            name="referenceNo"
+            render={({ field: { onChange, value } }) => (
+              <TextInput
+                label="Reference Number"
+                leftIcon="hashtag"
+                autoCapitalize="characters"
+                value={value}
+                onChangeText={onChange}
+                error={errors.referenceNo?.message}
+                className="mb-4"
+              />
+            )}
+          />
+          <Controller
+            control={control}
+            name="memo"
+            render={({ field: { onChange, value } }) => (
+              <TextInput
+                label="Note (optional)"
+                leftIcon="comment"
+                value={value}
+                onChangeText={onChange}
+                error={errors.memo?.message}
+                multiline
+              />
+            )}
+          />
+        </Card>
+
+        <Card className="mb-4 p-4">
+          <Text className="text-lg font-semibold text-neutral-800 dark:text-white mb-1">Receipt</Text>
+          <Text className="text-xs text-neutral-500 dark:text-neutral-400 mb-3">
+            Attach a screenshot of your receipt to speed up verification.
+          </Text>
+          {receipt ? (
+            <View>
+              <Image source={{ uri: receipt.url }} className="w-full h-64 rounded-lg" resizeMode="contain" />
+              <View className="flex-row mt-3">
+                <Button
+                  title="Replace"
+                  icon="refresh"
+                  variant="outline"
+                  size="sm"
+                  className="mr-2"
+                  isLoading={uploadReceiptMutation.isPending}
+                  onPress={pickReceipt}
+                />
+                <Button title="Remove" icon="trash" variant="outline" size="sm" onPress={() => setReceipt(null)} />
+              </View>
+            </View>
+          ) : (
+            <Button
+              title="Attach Receipt"
+              icon="paperclip"
+              variant="outline"
+              isLoading={uploadReceiptMutation.isPending}
+              onPress={pickReceipt}
+            />
+          )}
+        </Card>
+      </>
+    );
+  };
+
+  const canSubmit = !!order && canPayOrder(order) && balance > 0 && !!account;
+
+  return (
+    <SafeAreaView className="flex-1 bg-neutral-50 dark:bg-neutral-900">
+      <StatusBar style={isDark ? 'light' : 'dark'} />
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Pay Order',
+          headerLeft: () => (
+            <TouchableOpacity onPress={() => router.back()} style={{ padding: 10 }}>
+              <FontAwesome name="arrow-left" size={22} color={isDark ? "#ccc" : "#888"} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <ScrollView className="flex-1 px-4 pt-4" keyboardShouldPersistTaps="handled">
+        {renderContent()}
+        <View className="h-20" />
+      </ScrollView>
+
+      {canSubmit && (
+        <View className="p-4 bg-white dark:bg-neutral-800 border-t border-neutral-100 dark:border-neutral-700">
+          <Button
+            title="Submit Payment"
+            icon="check"
+            className="w-full"
+            onPress={onSubmit}
+            isLoading={createPaymentMutation.isPending}
+            disabled={createPaymentMutation.isPending || uploadReceiptMutation.isPending}
+          />
+        </View>
+      )}
+    </SafeAreaView>
+  );
+};
+
+export default PayOrderScreen;
@@ -1,21 +1,28 @@
-import React, { useEffect, useState } from 'react';
-import { View, Text, ScrollView, ActivityIndicator, Image, TouchableOpacity } from 'react-native';
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, ScrollView, ActivityIndicator, Image, TouchableOpacity, Alert, Share } from 'react-native';
 import { useLocalSearchParams, Stack, router } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
-import { useProduct } from '@/lib/hooks/use-queries';
+import { useCanReviewProduct, useProduct } from '@/lib/hooks/use-queries';
+import { useDeleteReview } from '@/lib/hooks/use-mutations';
 import { QueryParams } from '@/types/common';
 import type { Product as PrismaProduct, Category, Review, User, ProductVariant } from '@prisma/client';
 import { useColorScheme } from '@/components/useColorScheme';
 import { Button } from '@/components/ui/Button';
 import Animated, { FadeIn, FadeInDown } from 'react-native-reanimated';
-import { useRolePricing } from '@/utils/use-role-pricing';
+import { useRolePricing } from '@/lib/hooks/use-role-pricing';
 import { parseHtmlForDisplay } from '@/utils/html-parser';
 import Avatar from '@/components/shared/avatar';
-import { useUserStore } from '@/stores/user.store';
+import ReviewComposer from '@/components/shared/review-composer';
 import { useCartStore } from '@/stores/cart.store';
+import { useUserStore } from '@/stores/user.store';
+import { sortReviews, summarizeReviews, type ReviewSort } from '@/utils/reviews';
+import { getProductLink } from '@/utils/deep-links';
 
-
+const REVIEW_SORT_OPTIONS: { id: ReviewSort; label: string }[] = [
+  { id: 'newest', label: 'Newest' },
+  { id: 'highest', label: 'Highest rated' },
+];
 
 interface ProductReview extends Review {
   user?: Pick<User, 'firstName' | 'lastName' | 'imageUrl' | 'clerkId'>;
@@ -38,7 +45,11 @@ const ProductDetailScreen = () => {
   const { slug } = useLocalSearchParams<{ slug: string }>();
   const colorScheme = useColorScheme();
   const [selectedVariant, setSelectedVariant] = useState<ProductVariant | null>(null);
-  const { user } = useUserStore();
+  const { getVariantPrice } = useRolePricing();
+  const userId = useUserStore((state) => state.user?.id);
+  const [reviewSort, setReviewSort] = useState<ReviewSort>('newest');
+  const [isComposing, setIsComposing] = useState(false);
+  const deleteReviewMutation = useDeleteReview();
   // Query parameters to include related data with the product
   const queryParams: QueryParams = {
     include: { 
@@ -66,6 +77,13 @@ const ProductDetailScreen = () => {
   // Cast the product data to our extended interface
   const product = productResponse?.data as ExtendedProduct | undefined;
 
+  // Only customers with a delivered order of this product can review it
+  const { data: canReview = false } = useCanReviewProduct(product?.id ?? '', userId);
+
+  const reviewSummary = useMemo(() => summarizeReviews(product?.reviews ?? []), [product?.reviews]);
+  const sortedReviews = useMemo(() => sortReviews(product?.reviews ?? [], reviewSort), [product?.reviews, reviewSort]);
+  const ownReview = userId ? product?.reviews?.find(review => review.userId === userId) : undefined;
+
   // Set the first variant as selected by default once product loads
   useEffect(() => {
     if (product?.variants && product.variants.length > 0) {
@@ -74,20 +92,10 @@ const ProductDetailScreen = () => {
   }, [product]);
 
   // Get pricing based on role
-  const pricing = useRolePricing({
-    variant: selectedVariant 
-      ? {
-        price: Number(selectedVariant.price),
-        rolePricing: selectedVariant.rolePricing as Record<string, number>
-      }
-      : { 
-        price: product?.price ? Number(product.price) : 0,
-        rolePricing: {} as Record<string, number>
-      },
-    customerRole: user?.role as string | null,
-    customerCollege: user?.college as string | null,
-    productPostedByCollege: product?.postedBy?.college || null
-  });
+  const pricing = getVariantPrice(
+    selectedVariant ?? { price: product?.price ?? 0 },
+    product?.postedBy?.college
+  );
 
   if (isLoading) {
     return (
@@ -116,11 +124,23 @@ const ProductDetailScreen = () => {
     );
   }
 
-  // Calculate average rating and total reviews
-  const totalReviews = product.reviews?.length || 0;
-  const averageRating = totalReviews > 0
-    ? (product.reviews?.reduce((sum: number, review: ProductReview) => sum + review.rating, 0) || 0) / totalReviews
-    : 0;
+  const { total: totalReviews, average: averageRating } = reviewSummary;
+
+  const handleDeleteReview = (reviewId: string) => {
+    Alert.alert('Delete Review', 'Remove your review of this product?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => deleteReviewMutation.mutate(reviewId, {
+          onSuccess: () => setIsComposing(false),
+          onError: (deleteError) => {
+            Alert.alert('Delete Failed', deleteError.message || "We couldn't delete your review. Please try again.");
+          },
+        }),
+      },
+    ]);
+  };
 
   const getUserDisplayName = (user?: Pick<User, 'firstName' | 'lastName' | 'imageUrl'>) => {
     if (!user) return 'Anonymous';
@@ -129,6 +149,24 @@ const ProductDetailScreen = () => {
 
   const hasVariants = product.variants !== undefined && product.variants.length > 0;
 
+  const handleShare = () => {
+    Share.share({
+      title: product.title,
+      message: `Check out ${product.title} on MerchTrack: ${getProductLink(product.slug)}`,
+    }).catch((shareError) => {
+      Alert.alert('Share Failed', shareError instanceof Error ? shareError.message : 'Please try again.');
+    });
+  };
+
+  // Opened from a link there may be nothing to go back to
+  const handleBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)/products');
+    }
+  };
+
   return (
     <SafeAreaView edges={['bottom', 'left', 'right']} className="flex-1 bg-neutral-50 dark:bg-neutral-900">
       <Stack.Screen options={{ 
@@ -151,11 +189,20 @@ const ProductDetailScreen = () => {
           
           {/* Back button overlay */}
           <TouchableOpacity 
-            onPress={() => router.back()}
+            onPress={handleBack}
             className="absolute top-10 left-4 z-10 w-10 h-10 bg-black/30 dark:bg-black/50 rounded-full items-center justify-center"
           >
             <FontAwesome name="arrow-left" size={18} color="#FFFFFF" />
           </TouchableOpacity>
+
+          {/* Share button overlay */}
+          <TouchableOpacity
+            onPress={handleShare}
+            accessibilityLabel="Share product"
+            className="absolute top-10 right-4 z-10 w-10 h-10 bg-black/30 dark:bg-black/50 rounded-full items-center justify-center"
+          >
+            <FontAwesome name="share-alt" size={18} color="#FFFFFF" />
+          </TouchableOpacity>
         </View>
 
         <Animated.View entering={FadeInDown.delay(200).duration(500)} className="p-4">
@@ -267,7 +314,9 @@ const ProductDetailScreen = () => {
                   productId: product.id,
                   variantId: useVariant && selectedVariant ? selectedVariant.id : undefined,
                   name: product.title,
-                  price: useVariant && selectedVariant ? Number(selectedVariant.price) : Number(product.price),
+                  price: pricing.price,
+                  originalPrice: pricing.basePrice,
+                  appliedRole: pricing.appliedRole,
                   quantity: 1,
                   imageUrl: product.imageUrl?.[0],
                   variantName: useVariant && selectedVariant ? selectedVariant.variantName : undefined
@@ -285,8 +334,59 @@ const ProductDetailScreen = () => {
         {/* Reviews Section */}
         <Animated.View entering={FadeInDown.delay(400).duration(500)} className="p-4 border-t border-neutral-200 dark:border-neutral-700 mt-4">
           <Text className="text-xl font-bold text-neutral-800 dark:text-white mb-3">Customer Reviews ({totalReviews})</Text>
-          {totalReviews > 0 && product.reviews ? (
-            product.reviews.map(review => (
+
+          {/* Rating histogram */}
+          {totalReviews > 0 && (
+            <View className="flex-row items-center mb-4">
+              <View className="items-center mr-4 w-20">
+                <Text className="text-4xl font-bold text-neutral-800 dark:text-white">{averageRating.toFixed(1)}</Text>
+                <Text className="text-xs text-neutral-500 dark:text-neutral-400">out of 5</Text>
+              </View>
+              <View className="flex-1">
+                {reviewSummary.buckets.map(bucket => (
+                  <View key={`rating-bucket-${bucket.stars}`} className="flex-row items-center mb-1">
+                    <Text className="w-4 text-xs text-neutral-600 dark:text-neutral-400">{bucket.stars}</Text>
+                    <FontAwesome name="star" size={10} color="#FFC107" />
+                    <View className="flex-1 h-2 mx-2 rounded-full bg-neutral-200 dark:bg-neutral-700 overflow-hidden">
+                      <View className="h-2 rounded-full bg-amber-400" style={{ width: `${bucket.share * 100}%` }} />
+                    </View>
+                    <Text className="w-6 text-xs text-right text-neutral-500 dark:text-neutral-400">{bucket.count}</Text>
+                  </View>
+                ))}
+              </View>
+            </View>
+          )}
+
+          {/* Composer for customers who received this product */}
+          {userId && isComposing ? (
+            <ReviewComposer
+              productId={product.id}
+              userId={userId}
+              review={ownReview}
+              onDone={() => setIsComposing(false)}
+            />
+          ) : canReview && !ownReview ? (
+            <Button title="Write a Review" icon="pencil" variant="outline" className="mb-4" onPress={() => setIsComposing(true)} />
+          ) : null}
+
+          {totalReviews > 1 && (
+            <View className="flex-row mb-3">
+              {REVIEW_SORT_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option.id}
+                  onPress={() => setReviewSort(option.id)}
+                  className={`px-3 py-1.5 mr-2 rounded-full border ${reviewSort === option.id ? 'border-primary bg-primary' : 'border-neutral-200 dark:border-neutral-700'}`}
+                >
+                  <Text className={`text-xs font-medium ${reviewSort === option.id ? 'text-white' : 'text-neutral-600 dark:text-neutral-300'}`}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          {totalReviews > 0 ? (
+            sortedReviews.map(review => (
               <View key={review.id} className="mb-4 p-3 bg-neutral-50 dark:bg-neutral-800 rounded-xl elevation-1">
                 <View className="flex-row items-start mb-1.5">
                   <Avatar src={review.user?.clerkId} size="lg" className='mr-2 rounded-full' />
@@ -309,6 +409,22 @@ const ProductDetailScreen = () => {
                 <Text className="text-neutral-600 dark:text-neutral-300 leading-snug text-sm pl-[40px]">
                   {review.comment ? parseHtmlForDisplay(review.comment) : ''}
                 </Text>
+                {review.userId === userId && !isComposing && (
+                  <View className="flex-row justify-end mt-2">
+                    <TouchableOpacity className="flex-row items-center px-2 py-1" onPress={() => setIsComposing(true)}>
+                      <FontAwesome name="pencil" size={12} color="#2C59DB" />
+                      <Text className="ml-1 text-xs font-medium text-primary">Edit</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      className="flex-row items-center px-2 py-1 ml-2"
+                      onPress={() => handleDeleteReview(review.id)}
+                      disabled={deleteReviewMutation.isPending}
+                    >
+                      <FontAwesome name="trash-o" size={12} color="#EF4444" />
+                      <Text className="ml-1 text-xs font-medium text-red-500">Delete</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
               </View>
             ))
           ) : (
@@ -0,0 +1,154 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { useColorScheme } from '@/components/useColorScheme';
+import { Button } from '@/components/ui/Button';
+import ReceiptView from '@/components/shared/receipt-view';
+import { useOrder, usePayment } from '@/lib/hooks/use-queries';
+import { QueryParams } from '@/types/common';
+import { buildOrderReceipt, buildPaymentReceipt, ReceiptOrder, ReceiptPayment } from '@/utils/receipt';
+import { shareReceiptImage, shareReceiptPdf } from '@/utils/receipt-export';
+
+const orderInclude = {
+  orderItems: {
+    include: {
+      variant: {
+        include: {
+          product: { select: { title: true } }
+        }
+      }
+    }
+  },
+  payments: true,
+  customer: { select: { firstName: true, lastName: true, email: true } },
+};
+
+const orderQueryParams: QueryParams = {
+  include: orderInclude,
+};
+
+const paymentQueryParams: QueryParams = {
+  include: {
+    order: { include: orderInclude },
+  },
+};
+
+type ExportFormat = 'pdf' | 'image';
+
+const ReceiptScreen = () => {
+  const { orderId, paymentId } = useLocalSearchParams<{ orderId?: string; paymentId?: string }>();
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const receiptRef = useRef<View>(null);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  // A payment receipt takes precedence when both params are passed
+  const orderQuery = useOrder(paymentId ? '' : orderId ?? '', orderQueryParams);
+  const paymentQuery = usePayment(paymentId ?? '', paymentQueryParams);
+  const { isLoading, error } = paymentId ? paymentQuery : orderQuery;
+
+  const receipt = useMemo(() => {
+    if (paymentId) {
+      const payment = paymentQuery.data?.data as ReceiptPayment | undefined;
+      // Only verified payments get a receipt
+      return payment?.paymentStatus === 'VERIFIED' ? buildPaymentReceipt(payment) : undefined;
+    }
+    const order = orderQuery.data?.data as ReceiptOrder | undefined;
+    return order ? buildOrderReceipt(order) : undefined;
+  }, [paymentId, paymentQuery.data, orderQuery.data]);
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!receipt) return;
+
+    setExporting(format);
+    try {
+      if (format === 'pdf') {
+        await shareReceiptPdf(receipt);
+      } else {
+        await shareReceiptImage(receiptRef, receipt);
+      }
+    } catch (exportError) {
+      // no-dd-sa:typescript-best-practices/no-console
+      console.error('Failed to export receipt:', exportError);
+      Alert.alert(
+        'Export Failed',
+        exportError instanceof Error ? exportError.message : 'We could not export this receipt. Please try again.'
+      );
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-neutral-50 dark:bg-neutral-900" edges={['bottom']}>
+      <StatusBar style={isDark ? 'light' : 'dark'} />
+
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Receipt',
+          headerLeft: () => (
+            <TouchableOpacity onPress={() => router.back()} style={{ padding: 10 }}>
+              <FontAwesome name="arrow-left" size={22} color={isDark ? "#ccc" : "#888"} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <ScrollView className="flex-1 px-4 py-4">
+        {isLoading ? (
+          <View className="py-10 items-center justify-center">
+            <ActivityIndicator size="large" color="#2C59DB" />
+            <Text className="mt-4 text-neutral-500 dark:text-neutral-400">Preparing receipt...</Text>
+          </View>
+        ) : error || !receipt ? (
+          <View className="py-10 items-center justify-center">
+            <FontAwesome name="file-text-o" size={48} color="#9CA3AF" />
+            <Text className="mt-4 text-neutral-600 dark:text-neutral-400 text-center">
+              {paymentId
+                ? 'Receipts are available once a payment has been verified.'
+                : 'We couldn\'t load the receipt for this order.'}
+            </Text>
+          </View>
+        ) : (
+          <ReceiptView ref={receiptRef} receipt={receipt} />
+        )}
+        <View className="h-10" />
+      </ScrollView>
+
+      {receipt && (
+        <View className="flex-row px-4 py-3 border-t border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-800">
+          <Button
+            title="Share PDF"
+            icon="file-pdf-o"
+            className="flex-1 mr-2"
+            isLoading={exporting === 'pdf'}
+            disabled={exporting !== null}
+            onPress={() => handleExport('pdf')}
+          />
+          <Button
+            title="Share Image"
+            icon="image"
+            variant="outline"
+            className="flex-1 ml-2"
+            isLoading={exporting === 'image'}
+            disabled={exporting !== null}
+            onPress={() => handleExport('image')}
+          />
+        </View>
+      )}
+    </SafeAreaView>
+  );
+};
+
+export default ReceiptScreen;
@@ -0,0 +1,280 @@
+import React, { useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  StyleSheet,
+} from 'react-native';
+import { Stack, router } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { CameraView, useCameraPermissions, type BarcodeScanningResult } from 'expo-camera';
+import type { Fulfillment } from '@prisma/client';
+import { useColorScheme } from '@/components/useColorScheme';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { useUserPermissions } from '@/lib/hooks/use-queries';
+import { useClaimPickup, useVerifyPickup } from '@/lib/hooks/use-mutations';
+import { useUserStore } from '@/stores/user.store';
+import type { PickupClaim } from '@/types/fulfillment';
+import { FULFILLMENT_METHODS } from '@/constants/fulfillment';
+import { canClaimPickups } from '@/utils/permissions';
+import { decodePickupQr } from '@/utils/pickup-qr';
+
+type ScanState =
+  | { step: 'scanning' }
+  | { step: 'verifying' }
+  | { step: 'review'; token: string; claim: PickupClaim }
+  | { step: 'claimed'; claim: PickupClaim; fulfillment: Fulfillment }
+  | { step: 'error'; message: string };
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error && error.message ? error.message : fallback;
+
+const StateMessage = ({ icon, color, title, message }: {
+  icon: React.ComponentProps<typeof FontAwesome>['name'];
+  color: string;
+  title: string;
+  message: string;
+}) => (
+  <View className="items-center py-6">
+    <FontAwesome name={icon} size={48} color={color} />
+    <Text className="mt-4 text-lg font-semibold text-neutral-800 dark:text-white text-center">{title}</Text>
+    <Text className="mt-1 text-neutral-500 dark:text-neutral-400 text-center">{message}</Text>
+  </View>
+);
+
+const PickupScannerScreen = () => {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const { user } = useUserStore();
+  const { data: permissionsData, isLoading: isLoadingPermissions } = useUserPermissions(user?.id ?? '');
+  const [cameraPermission, requestCameraPermission] = useCameraPermissions();
+  const verifyPickup = useVerifyPickup();
+  const claimPickup = useClaimPickup();
+
+  const [state, setState] = useState<ScanState>({ step: 'scanning' });
+  // The camera fires several events per code, so only the first one is handled
+  const isHandlingScan = useRef(false);
+
+  const hasAccess = canClaimPickups(user, permissionsData?.data?.userPermissions);
+
+  const resetScanner = () => {
+    isHandlingScan.current = false;
+    setState({ step: 'scanning' });
+  };
+
+  const handleScan = async ({ data }: BarcodeScanningResult) => {
+    if (isHandlingScan.current) return;
+    isHandlingScan.current = true;
+
+    const decoded = decodePickupQr(data);
+    if (!decoded.isValid) {
+      setState({ step: 'error', message: decoded.reason });
+      return;
+    }
+
+    setState({ step: 'verifying' });
+    try {
+      const response = await verifyPickup.mutateAsync({ token: data });
+      if (!response.data) {
+        throw new Error(response.message || 'This pickup code could not be verified');
+      }
+      setState({ step: 'review', token: data, claim: response.data });
+    } catch (error) {
+      setState({ step: 'error', message: getErrorMessage(error, 'This pickup code could not be verified') });
+    }
+  };
+
+  const handleClaim = async (token: string, claim: PickupClaim) => {
+    if (!user) return;
+
+    try {
+      const response = await claimPickup.mutateAsync({ token, processedById: user.id });
+      if (!response.data) {
+        throw new Error(response.message || 'We could not complete this pickup');
+      }
+      setState({ step: 'claimed', claim, fulfillment: response.data });
+    } catch (error) {
+      setState({ step: 'error', message: getErrorMessage(error, 'We could not complete this pickup') });
+    }
+  };
+
+  const renderClaim = (claim: PickupClaim) => {
+    const customerName = [claim.order.customer?.firstName, claim.order.customer?.lastName]
+      .filter(Boolean)
+      .join(' ');
+
+    return (
+      <Card className="p-4 mb-4">
+        <View className="flex-row justify-between items-center mb-2">
+          <Text className="text-lg font-semibold text-neutral-800 dark:text-white">
+            Order #{claim.order.id.slice(0, 8).toUpperCase()}
+          </Text>
+          <Text className="text-xs text-neutral-500 dark:text-neutral-400">
+            {FULFILLMENT_METHODS[claim.order.fulfillmentMethod]?.label}
+          </Text>
+        </View>
+        {customerName ? (
+          <Text className="text-neutral-600 dark:text-neutral-300 mb-3">{customerName}</Text>
+        ) : null}
+
+        {claim.order.orderItems.map(item => (
+          <View key={item.id} className="flex-row justify-between py-2 border-t border-neutral-100 dark:border-neutral-700">
+            <View className="flex-1 pr-3">
+              <Text className="font-medium text-neutral-800 dark:text-white">
+                {item.variant?.product?.title ?? 'Item'}
+              </Text>
+              <Text className="text-xs text-neutral-500 dark:text-neutral-400">
+                {[item.variant?.variantName, item.size].filter(Boolean).join(' · ')}
+              </Text>
+            </View>
+            <Text className="font-semibold text-neutral-800 dark:text-white">×{item.quantity}</Text>
+          </View>
+        ))}
+      </Card>
+    );
+  };
+
+  const renderContent = () => {
+    if (isLoadingPermissions) {
+      return (
+        <View className="py-10 items-center">
+          <ActivityIndicator size="large" color="#2C59DB" />
+        </View>
+      );
+    }
+
+    if (!hasAccess) {
+      return (
+        <StateMessage
+          icon="lock"
+          color="#9CA3AF"
+          title="Staff Only"
+          message="You need the fulfillment permission to claim orders."
+        />
+      );
+    }
+
+    if (!cameraPermission) {
+      return null;
+    }
+
+    if (!cameraPermission.granted) {
+      return (
+        <>
+          <StateMessage
+            icon="camera"
+            color="#2C59DB"
+            title="Camera Access Needed"
+            message="Allow camera access to scan customer pickup codes."
+          />
+          <Button title="Allow Camera" icon="camera" onPress={requestCameraPermission} />
+        </>
+      );
+    }
+
+    switch (state.step) {
+    case 'scanning':
+      return (
+        <>
+          <View className="rounded-2xl overflow-hidden mb-4" style={styles.cameraContainer}>
+            <CameraView
+              style={StyleSheet.absoluteFill}
+              facing="back"
+              barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+              onBarcodeScanned={handleScan}
+            />
+          </View>
+          <Text className="text-center text-neutral-500 dark:text-neutral-400">
+            Point the camera at the customer&apos;s pickup code.
+          </Text>
+        </>
+      );
+    case 'verifying':
+      return (
+        <View className="py-10 items-center">
+          <ActivityIndicator size="large" color="#2C59DB" />
+          <Text className="mt-4 text-neutral-500 dark:text-neutral-400">Verifying pickup code...</Text>
+        </View>
+      );
+    case 'review':
+      return (
+        <>
+          {renderClaim(state.claim)}
+          {state.claim.fulfillment.status === 'READY' ? (
+            <Button
+              title="Mark as Claimed"
+              icon="check"
+              className="mb-3"
+              isLoading={claimPickup.isPending}
+              disabled={claimPickup.isPending}
+              onPress={() => handleClaim(state.token, state.claim)}
+            />
+          ) : (
+            <Text className="text-center text-red-600 dark:text-red-400 mb-3">
+              {state.claim.fulfillment.status === 'COMPLETED'
+                ? 'This order has already been claimed.'
+                : 'This order is not ready for pickup.'}
+            </Text>
+          )}
+          <Button title="Scan Another" icon="qrcode" variant="outline" onPress={resetScanner} />
+        </>
+      );
+    case 'claimed':
+      return (
+        <>
+          <StateMessage
+            icon="check-circle"
+            color="#10B981"
+            title="Order Claimed"
+            message={`Completed ${new Date(state.fulfillment.fulfillmentDate).toLocaleString('en-US')}`}
+          />
+          {renderClaim(state.claim)}
+          <Button title="Scan Next" icon="qrcode" onPress={resetScanner} />
+        </>
+      );
+    case 'error':
+      return (
+        <>
+          <StateMessage icon="exclamation-circle" color="#EF4444" title="Can't Claim Order" message={state.message} />
+          <Button title="Try Again" icon="qrcode" onPress={resetScanner} />
+        </>
+      );
+    }
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-neutral-50 dark:bg-neutral-900" edges={['bottom']}>
+      <StatusBar style={isDark ? 'light' : 'dark'} />
+
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Claim Scanner',
+          headerLeft: () => (
+            <TouchableOpacity onPress={() => router.back()} style={{ padding: 10 }}>
+              <FontAwesome name="arrow-left" size={22} color={isDark ? "#ccc" : "#888"} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <ScrollView className="flex-1 px-4 py-4">
+        {renderContent()}
+        <View className="h-10" />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  cameraContainer: {
+    aspectRatio: 1,
+  },
+});
+
+export default PickupScannerScreen;
@@ -5,6 +5,7 @@ import {
   StyleSheet, 
   ScrollView, 
   Image,
+  ActivityIndicator,
   useColorScheme as RNUseColorScheme
 } from 'react-native';
 import { Stack, router, useLocalSearchParams } from 'expo-router';
@@ -23,16 +24,18 @@ import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { Button } from '@/components/ui/Button';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useColorScheme } from '@/components/useColorScheme';
-import { useCartStore } from '@/stores/cart.store';
+import { useOrder } from '@/lib/hooks/use-queries';
+import type { Order, OrderItem, Product, ProductVariant } from '@prisma/client';
+import { QueryParams } from '@/types/common';
+import { FULFILLMENT_METHODS } from '@/constants/fulfillment';
 
-// Define a type for the order item
-interface OrderItem {
-  id: string;
-  name: string;
-  price: number;
-  quantity: number;
-  imageUrl?: string;
-  variantName?: string;
+// Order shape returned by the API with the relations requested below
+interface OrderWithItems extends Order {
+  orderItems?: Array<OrderItem & {
+    variant?: ProductVariant & {
+      product?: Pick<Product, 'title' | 'imageUrl'>;
+    };
+  }>;
 }
 
 // Format currency as Philippine Peso
@@ -45,9 +48,31 @@ const formatCurrency = (amount: number): string => {
   }).format(amount);
 };
 
+// Format date
+const formatDate = (date: string | Date): string => {
+  return new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+};
+
+const orderQueryParams: QueryParams = {
+  include: {
+    orderItems: {
+      include: {
+        variant: {
+          include: {
+            product: { select: { title: true, imageUrl: true } }
+          }
+        }
+      }
+    }
+  }
+};
+
 const SuccessScreen = () => {
-  const params = useLocalSearchParams();
-  const { clearCart } = useCartStore();
+  const { orderId } = useLocalSearchParams<{ orderId: string }>();
   const colorScheme = useColorScheme();
   const systemColorScheme = RNUseColorScheme();
   const isDark = colorScheme === 'dark' || (systemColorScheme === 'dark');
@@ -56,14 +81,10 @@ const SuccessScreen = () => {
   const scale = useSharedValue(0);
   const opacity = useSharedValue(0);
   
-  // Parse order items from params
-  const orderItems: OrderItem[] = params.orderItems ? JSON.parse(decodeURIComponent(params.orderItems as string)) : [];
-  const orderTotal = params.total ? Number(params.total) : 0;
-  const orderDate = new Date().toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric'
-  });
+  // Load the order that was just created
+  const { data, isLoading } = useOrder(orderId ?? '', orderQueryParams);
+  const order = data?.data as OrderWithItems | undefined;
+  const orderItems = order?.orderItems ?? [];
   
   useEffect(() => {
     // Start animations
@@ -73,9 +94,6 @@ const SuccessScreen = () => {
     );
     
     opacity.value = withDelay(600, withTiming(1, { duration: 500 }));
-    
-    // Clear cart after displaying success page
-    clearCart();
   }, []);
   
   const checkmarkStyle = useAnimatedStyle(() => {
@@ -133,20 +151,53 @@ const SuccessScreen = () => {
             entering={FadeInDown.delay(900).duration(500)}
           >
             <Text style={[styles.infoTitle, isDark && styles.textDark]}>Order Details</Text>
-            <View style={styles.infoRow}>
-              <Text style={[styles.infoLabel, isDark && styles.textMutedDark]}>Order Number:</Text>
-              <Text style={[styles.infoValue, isDark && styles.textDark]}>
-                {Math.floor(Math.random() * 900000) + 100000}
-              </Text>
-            </View>
-            <View style={styles.infoRow}>
-              <Text style={[styles.infoLabel, isDark && styles.textMutedDark]}>Date:</Text>
-              <Text style={[styles.infoValue, isDark && styles.textDark]}>{orderDate}</Text>
-            </View>
-            <View style={styles.infoRow}>
-              <Text style={[styles.infoLabel, isDark && styles.textMutedDark]}>Total:</Text>
-              <Text style={[styles.infoValue, styles.totalValue]}>{formatCurrency(orderTotal)}</Text>
-            </View>
+            {isLoading || !order ? (
+              <View style={styles.loadingRow}>
+                <ActivityIndicator size="small" color="#2C59DB" />
+                <Text style={[styles.infoLabel, styles.loadingText, isDark && styles.textMutedDark]}>
+                  {isLoading ? 'Loading order details...' : 'Order details are not available yet.'}
+                </Text>
+              </View>
+            ) : (
+              <>
+                <View style={styles.infoRow}>
+                  <Text style={[styles.infoLabel, isDark && styles.textMutedDark]}>Order Number:</Text>
+                  <Text style={[styles.infoValue, isDark && styles.textDark]} selectable>
+                    {order.id}
+                  </Text>
+                </View>
+                <View style={styles.infoRow}>
+                  <Text style={[styles.infoLabel, isDark && styles.textMutedDark]}>Date:</Text>
+                  <Text style={[styles.infoValue, isDark && styles.textDark]}>{formatDate(order.orderDate)}</Text>
+                </View>
+                <View style={styles.infoRow}>
+                  <Text style={[styles.infoLabel, isDark && styles.textMutedDark]}>Estimated Delivery:</Text>
+                  <Text style={[styles.infoValue, isDark && styles.textDark]}>{formatDate(order.estimatedDelivery)}</Text>
+                </View>
+                <View style={styles.infoRow}>
+                  <Text style={[styles.infoLabel, isDark && styles.textMutedDark]}>Fulfillment:</Text>
+                  <Text style={[styles.infoValue, isDark && styles.textDark]}>
+                    {FULFILLMENT_METHODS[order.fulfillmentMethod]?.label ?? 'Pickup'}
+                  </Text>
+                </View>
+                {order.fulfillmentFee > 0 && (
+                  <View style={styles.infoRow}>
+                    <Text style={[styles.infoLabel, isDark && styles.textMutedDark]}>Delivery Fee:</Text>
+                    <Text style={[styles.infoValue, isDark && styles.textDark]}>{formatCurrency(order.fulfillmentFee)}</Text>
+                  </View>
+                )}
+                {order.discountAmount > 0 && (
+                  <View style={styles.infoRow}>
+                    <Text style={[styles.infoLabel, isDark && styles.textMutedDark]}>Discount:</Text>
+                    <Text style={[styles.infoValue, isDark && styles.textDark]}>-{formatCurrency(order.discountAmount)}</Text>
+                  </View>
+                )}
+                <View style={styles.infoRow}>
+                  <Text style={[styles.infoLabel, isDark && styles.textMutedDark]}>Total:</Text>
+                  <Text style={[styles.infoValue, styles.totalValue]}>{formatCurrency(order.totalAmount)}</Text>
+                </View>
+              </>
+            )}
           </Animated.View>
         </View>
         
@@ -160,20 +211,22 @@ const SuccessScreen = () => {
               entering={FadeInDown.delay(1000 + (index * 100)).duration(400)}
             >
               <Image 
-                source={{ uri: item.imageUrl || 'https://placehold.co/100x100/E0E0E0/B0B0B0/png?text=Product' }}
+                source={{ uri: item.variant?.product?.imageUrl?.[0] || 'https://placehold.co/100x100/E0E0E0/B0B0B0/png?text=Product' }}
                 style={styles.productImage}
               />
               <View style={styles.productInfo}>
-                <Text style={[styles.productName, isDark && styles.textDark]}>{item.name}</Text>
-                {item.variantName && (
-                  <Text style={[styles.productVariant, isDark && styles.textMutedDark]}>{item.variantName}</Text>
+                <Text style={[styles.productName, isDark && styles.textDark]}>
+                  {item.variant?.product?.title ?? 'Product'}
+                </Text>
+                {item.variant?.variantName && (
+                  <Text style={[styles.productVariant, isDark && styles.textMutedDark]}>{item.variant.variantName}</Text>
                 )}
                 <View style={styles.productPriceRow}>
                   <Text style={[styles.productQuantity, isDark && styles.textMutedDark]}>
                     Qty: {item.quantity}
                   </Text>
                   <Text style={[styles.productPrice, isDark && styles.textDark]}>
-                    {formatCurrency(item.price * item.quantity)}
+                    {formatCurrency(Number(item.price) * item.quantity)}
                   </Text>
                 </View>
               </View>
@@ -195,13 +248,27 @@ const SuccessScreen = () => {
               title="Track Order"
               icon="map-marker"
               className="w-full bg-secondary"
+              disabled={!order}
               onPress={() => {
-                // Generate a random order ID for demo purposes
-                // In a real app, this would be the actual order ID returned from the API
-                const demoOrderId = Math.random().toString(36).substring(2, 10);
+                if (!order) return;
                 router.push({
                   pathname: '/track-order',
-                  params: { orderId: demoOrderId }
+                  params: { orderId: order.id }
+                });
+              }}
+            />
+
+            <Button
+              title="View Receipt"
+              icon="file-text-o"
+              variant="outline"
+              className="w-full mt-4"
+              disabled={!order}
+              onPress={() => {
+                if (!order) return;
+                router.push({
+                  pathname: '/receipt',
+                  params: { orderId: order.id }
                 });
               }}
             />
@@ -297,6 +364,17 @@ const styles = StyleSheet.create({
     fontSize: 15,
     fontWeight: '500',
     color: '#1F2937',
+    flexShrink: 1,
+    textAlign: 'right',
+    marginLeft: 12,
+  },
+  loadingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  loadingText: {
+    marginLeft: 8,
   },
   totalValue: {
     color: '#2C59DB',
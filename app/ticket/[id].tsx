@@ -0,0 +1,403 @@
+import React, { useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  Image,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+  KeyboardAvoidingView,
+  Platform,
+  TextInput as RNTextInput,
+} from 'react-native';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import * as ImagePicker from 'expo-image-picker';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useColorScheme } from '@/components/useColorScheme';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { TICKET_STATUS_DETAILS } from '@/constants/tickets';
+import { useTicket } from '@/lib/hooks/use-queries';
+import { useAddTicketUpdate, useUploadTicketAttachment } from '@/lib/hooks/use-mutations';
+import { ticketReplySchema, type TicketReplyFormData } from '@/lib/validations/forms';
+import { useUserStore } from '@/stores/user.store';
+import { TicketStatus, type TicketAttachment, type TicketUpdate } from '@/types/ticket';
+import {
+  buildTicketUpdate,
+  describeTicketLink,
+  getTicketActions,
+  MAX_TICKET_ATTACHMENTS,
+  parseTicketUpdates,
+} from '@/utils/tickets';
+
+const formatDateTime = (date: string | Date) => new Date(date).toLocaleString(undefined, {
+  month: 'short',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+});
+
+const StatusChip = ({ status }: { status: TicketStatus }) => {
+  const details = TICKET_STATUS_DETAILS[status];
+
+  return (
+    <View className={`flex-row items-center px-2 py-1 rounded-full ${details?.color ?? 'bg-neutral-100 text-neutral-800'}`}>
+      <FontAwesome name={details?.icon ?? 'circle'} size={12} color={details?.iconColor ?? '#6B7280'} />
+      <Text className={`text-xs font-medium ml-1 ${details?.color ?? 'text-neutral-800'}`}>{details?.label ?? status}</Text>
+    </View>
+  );
+};
+
+const MessageBubble = ({ update, isOwn }: { update: TicketUpdate; isOwn: boolean }) => (
+  <View className={`mb-3 max-w-[85%] ${isOwn ? 'self-end' : 'self-start'}`}>
+    <View className={`p-3 rounded-2xl ${isOwn ? 'bg-primary rounded-br-sm' : 'bg-white dark:bg-neutral-800 rounded-bl-sm border border-neutral-200 dark:border-neutral-700'}`}>
+      {!isOwn && <Text className="text-xs font-semibold text-primary mb-1">Support Team</Text>}
+      {update.message ? (
+        <Text className={isOwn ? 'text-white' : 'text-neutral-700 dark:text-neutral-200'}>{update.message}</Text>
+      ) : null}
+      {update.attachments?.map((attachment, index) => (
+        <Image
+          key={`${attachment.url.slice(-16)}-${index}`}
+          source={{ uri: attachment.url }}
+          className="w-48 h-48 mt-2 rounded-lg"
+          resizeMode="cover"
+        />
+      ))}
+    </View>
+    {update.createdAt && (
+      <Text className={`mt-1 text-xs text-neutral-400 ${isOwn ? 'text-right' : ''}`}>{formatDateTime(update.createdAt)}</Text>
+    )}
+  </View>
+);
+
+const TicketThreadScreen = () => {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const { user } = useUserStore();
+  const scrollRef = useRef<ScrollView>(null);
+  const [attachments, setAttachments] = useState<TicketAttachment[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Polls while the thread is open so replies from support show up
+  const { data, isLoading, error, refetch } = useTicket(id ?? '');
+  const ticket = data?.data;
+  const addUpdateMutation = useAddTicketUpdate();
+  const uploadAttachmentMutation = useUploadTicketAttachment();
+
+  const { control, handleSubmit, reset, getValues, formState: { errors } } = useForm<TicketReplyFormData>({
+    resolver: zodResolver(ticketReplySchema),
+    defaultValues: { message: '' },
+  });
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await refetch();
+    setRefreshing(false);
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView className="flex-1 items-center justify-center bg-neutral-50 dark:bg-neutral-900">
+        <ActivityIndicator size="large" color="#2C59DB" />
+        <Text className="mt-4 text-neutral-500 dark:text-neutral-400">Loading ticket...</Text>
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !ticket || !user) {
+    return (
+      <SafeAreaView className="flex-1 items-center justify-center bg-neutral-50 dark:bg-neutral-900 p-4">
+        <FontAwesome name="exclamation-circle" size={48} color="#EF4444" />
+        <Text className="mt-4 text-neutral-600 dark:text-neutral-400 text-center">
+          We couldn&apos;t load this ticket. Please go back and try again.
+        </Text>
+        <Button title="Go Back" variant="outline" className="mt-6" onPress={() => router.back()} />
+      </SafeAreaView>
+    );
+  }
+
+  const status = ticket.status as TicketStatus;
+  const updates = parseTicketUpdates(ticket.updates);
+  const { canReply, canReopen, canClose } = getTicketActions(status);
+  const linkLabel = describeTicketLink(ticket);
+
+  const openLinkedRecord = () => {
+    if (ticket.paymentId) {
+      router.push({ pathname: '/account/payments/[paymentId]', params: { paymentId: ticket.paymentId } });
+    } else if (ticket.orderId) {
+      router.push({ pathname: '/track-order', params: { orderId: ticket.orderId } });
+    }
+  };
+
+  const sendUpdate = (message: string, nextStatus?: TicketStatus) => {
+    let update: TicketUpdate;
+    try {
+      update = buildTicketUpdate(status, { message, attachments, status: nextStatus }, user.id);
+    } catch (transitionError) {
+      Alert.alert('Not Allowed', (transitionError as Error).message);
+      return;
+    }
+
+    addUpdateMutation.mutate({
+      ticketId: ticket.id,
+      userId: user.id,
+      message: update.message,
+      attachments: update.attachments,
+      // Only send a status when it changes; replies keep the ticket where it is
+      status: update.status !== status ? update.status : undefined,
+    }, {
+      onSuccess: () => {
+        reset({ message: '' });
+        setAttachments([]);
+        scrollRef.current?.scrollToEnd({ animated: true });
+      },
+      onError: (sendError) => {
+        Alert.alert('Not Sent', sendError.message || "We couldn't send your message. Please try again.");
+      },
+    });
+  };
+
+  const onSend = handleSubmit((values) => sendUpdate(values.message));
+
+  const handleReopen = () => {
+    sendUpdate(getValues('message').trim() || 'I still need help with this.', TicketStatus.OPEN);
+  };
+
+  const handleClose = () => {
+    Alert.alert('Close Ticket', "Close this ticket? You won't be able to reply to it afterwards.", [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Close Ticket',
+        style: 'destructive',
+        onPress: () => sendUpdate(getValues('message').trim() || 'Closed the ticket.', TicketStatus.CLOSED),
+      },
+    ]);
+  };
+
+  const pickAttachment = async () => {
+    if (uploadAttachmentMutation.isPending) return;
+    if (attachments.length >= MAX_TICKET_ATTACHMENTS) {
+      Alert.alert('Attachment Limit', `You can attach up to ${MAX_TICKET_ATTACHMENTS} images per message.`);
+      return;
+    }
+
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert("Permission Needed", "Allow photo access to attach images to your ticket.");
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      quality: 0.5,
+      base64: true,
+    });
+    if (result.canceled) return;
+
+    const asset = result.assets[0];
+    if (!asset.base64) {
+      Alert.alert("Attachment Failed", "We couldn't read that image. Please try another one.");
+      return;
+    }
+
+    // Only the hosted URL goes into the ticket, so the thread stays small enough to cache
+    uploadAttachmentMutation.mutate({
+      ticketId: ticket.id,
+      userId: user.id,
+      dataUri: `data:${asset.mimeType ?? 'image/jpeg'};base64,${asset.base64}`,
+      fileName: asset.fileName ?? null,
+      width: asset.width,
+      height: asset.height,
+    }, {
+      onSuccess: (attachment) => setAttachments(current => [...current, attachment]),
+      onError: (uploadError) => {
+        Alert.alert('Attachment Failed', uploadError.message || "We couldn't upload that image. Please try again.");
+      },
+    });
+  };
+
+  return (
+    <SafeAreaView edges={['bottom', 'left', 'right']} className="flex-1 bg-neutral-50 dark:bg-neutral-900">
+      <StatusBar style={isDark ? 'light' : 'dark'} />
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: `Ticket #${ticket.id.slice(0, 8)}`,
+          headerLeft: () => (
+            <TouchableOpacity
+              // Opened from a link or notification there may be nothing to go back to
+              onPress={() => router.canGoBack() ? router.back() : router.replace('/(tabs)/tickets')}
+              style={{ padding: 10 }}
+            >
+              <FontAwesome name="arrow-left" size={22} color={isDark ? "#ccc" : "#888"} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <KeyboardAvoidingView
+        className="flex-1"
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 90 : 0}
+      >
+        <ScrollView
+          ref={scrollRef}
+          className="flex-1"
+          contentContainerClassName="p-4"
+          keyboardShouldPersistTaps="handled"
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={["#2C59DB"]} tintColor={"#2C59DB"} />
+          }
+        >
+          <Card className="p-4 mb-4">
+            <View className="flex-row justify-between items-start mb-2">
+              <Text className="flex-1 mr-2 text-lg font-semibold text-neutral-800 dark:text-white">{ticket.title}</Text>
+              <StatusChip status={status} />
+            </View>
+            <Text className="text-xs text-neutral-500 dark:text-neutral-400">
+              Opened {formatDateTime(ticket.createdAt)} • Priority: {ticket.priority}
+            </Text>
+            {linkLabel && (
+              <TouchableOpacity onPress={openLinkedRecord} className="flex-row items-center mt-3">
+                <FontAwesome name="link" size={12} color="#2C59DB" />
+                <Text className="text-primary text-sm font-medium ml-1.5">{linkLabel}</Text>
+                <FontAwesome name="chevron-right" size={10} color="#2C59DB" style={{ marginLeft: 6 }} />
+              </TouchableOpacity>
+            )}
+          </Card>
+
+          {/* The original request starts the thread */}
+          <MessageBubble
+            update={{ status: TicketStatus.OPEN, message: ticket.description, createdAt: new Date(ticket.createdAt).toISOString() }}
+            isOwn
+          />
+
+          {updates.map((update, index) => {
+            const previousStatus = index === 0 ? TicketStatus.OPEN : updates[index - 1].status;
+
+            return (
+              <React.Fragment key={`${update.createdAt ?? 'update'}-${index}`}>
+                {update.status !== previousStatus && (
+                  <View className="flex-row items-center justify-center my-2">
+                    <Text className="text-xs text-neutral-500 dark:text-neutral-400 mr-2">Status changed to</Text>
+                    <StatusChip status={update.status} />
+                  </View>
+                )}
+                <MessageBubble update={update} isOwn={update.createdBy === ticket.createdById} />
+              </React.Fragment>
+            );
+          })}
+        </ScrollView>
+
+        <View className="px-4 pt-3 pb-4 bg-white dark:bg-neutral-800 border-t border-neutral-100 dark:border-neutral-700">
+          {canReply ? (
+            <>
+              {attachments.length > 0 && (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-2">
+                  {attachments.map((attachment, index) => (
+                    <View key={`attachment-${index}`} className="mr-2">
+                      <Image source={{ uri: attachment.url }} className="w-16 h-16 rounded-lg" />
+                      <TouchableOpacity
+                        onPress={() => setAttachments(current => current.filter((_, i) => i !== index))}
+                        className="absolute -top-1 -right-1 w-5 h-5 rounded-full bg-neutral-800 items-center justify-center"
+                        accessibilityLabel="Remove attachment"
+                      >
+                        <FontAwesome name="times" size={10} color="#FFFFFF" />
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                </ScrollView>
+              )}
+
+              <View className="flex-row items-end">
+                <TouchableOpacity
+                  onPress={pickAttachment}
+                  disabled={uploadAttachmentMutation.isPending}
+                  className="p-2 mr-1"
+                  accessibilityLabel="Attach image"
+                >
+                  {uploadAttachmentMutation.isPending ? (
+                    <ActivityIndicator size="small" color="#2C59DB" />
+                  ) : (
+                    <FontAwesome name="paperclip" size={20} color={isDark ? '#ADB5BD' : '#6B7280'} />
+                  )}
+                </TouchableOpacity>
+                <Controller
+                  control={control}
+                  name="message"
+                  render={({ field: { onChange, onBlur, value } }) => (
+                    <RNTextInput
+                      value={value}
+                      onChangeText={onChange}
+                      onBlur={onBlur}
+                      placeholder={status === TicketStatus.RESOLVED ? 'Reply to reopen this ticket' : 'Write a message'}
+                      multiline
+                      className="flex-1 max-h-28 border border-neutral-300 dark:border-neutral-600 rounded-2xl px-3 py-2 bg-white dark:bg-neutral-700 text-neutral-800 dark:text-neutral-200"
+                      placeholderTextColor={isDark ? '#A3A3A3' : '#737373'}
+                    />
+                  )}
+                />
+                <TouchableOpacity
+                  onPress={onSend}
+                  disabled={addUpdateMutation.isPending || uploadAttachmentMutation.isPending}
+                  className="ml-2 w-10 h-10 rounded-full bg-primary items-center justify-center"
+                  accessibilityLabel="Send message"
+                >
+                  {addUpdateMutation.isPending ? (
+                    <ActivityIndicator size="small" color="#FFFFFF" />
+                  ) : (
+                    <FontAwesome name="paper-plane" size={16} color="#FFFFFF" />
+                  )}
+                </TouchableOpacity>
+              </View>
+              {errors.message?.message && (
+                <Text className="text-red-500 text-xs mt-1 ml-10">{errors.message.message}</Text>
+              )}
+
+              <View className="flex-row mt-3">
+                {canReopen && (
+                  <Button
+                    title="Reopen Ticket"
+                    icon="undo"
+                    size="sm"
+                    variant="outline"
+                    className="flex-1 mr-2"
+                    disabled={addUpdateMutation.isPending}
+                    onPress={handleReopen}
+                  />
+                )}
+                {canClose && (
+                  <Button
+                    title="Close Ticket"
+                    icon="times-circle"
+                    size="sm"
+                    variant="outline"
+                    className="flex-1"
+                    disabled={addUpdateMutation.isPending}
+                    onPress={handleClose}
+                  />
+                )}
+              </View>
+            </>
+          ) : (
+            <View className="flex-row items-center">
+              <FontAwesome name="lock" size={16} color="#9CA3AF" />
+              <Text className="flex-1 ml-2 text-sm text-neutral-500 dark:text-neutral-400">
+                This ticket is closed. Open a new ticket if you need more help.
+              </Text>
+            </View>
+          )}
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+export default TicketThreadScreen;
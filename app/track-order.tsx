@@ -17,8 +17,12 @@ import { Button } from '@/components/ui/Button';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useColorScheme } from '@/components/useColorScheme';
 import { useOrder } from '@/lib/hooks/use-queries';
-import { OrderStatus, OrderPaymentStatus, CancellationReason, OrderItem } from '@prisma/client';
+import { OrderStatus, OrderPaymentStatus, CancellationReason, OrderItem, Fulfillment, FulfillmentMethod } from '@prisma/client';
 import { QueryParams } from '@/types/common';
+import { canPayOrder } from '@/utils/payments';
+import { canShowPickupQr } from '@/utils/pickup-qr';
+import { canGiveFeedback, hasGivenFeedback } from '@/utils/survey';
+import PickupQrCard from '@/components/shared/pickup-qr-card';
 
 // Extended order type that includes relations
 interface OrderWithRelations {
@@ -37,7 +41,9 @@ interface OrderWithRelations {
   updatedAt: Date;
   fulfillmentId: string | null;
   customerSatisfactionSurveyId: string | null;
+  fulfillmentMethod: FulfillmentMethod;
   orderItems?: OrderItem[];
+  Fulfillment?: Fulfillment[];
 }
 
 // Format currency as Philippine Peso
@@ -75,7 +81,8 @@ const TrackOrderScreen = () => {
   const queryParams: QueryParams = {
     include: {
       orderItems: true,
-      customer: true
+      customer: true,
+      Fulfillment: true
     }
   };
   
@@ -135,7 +142,11 @@ const TrackOrderScreen = () => {
         options={{
           title: 'Track Order',
           headerLeft: () => (
-            <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+            <TouchableOpacity
+              // A link can open this screen with nothing behind it
+              onPress={() => router.canGoBack() ? router.back() : router.replace('/(tabs)')}
+              style={styles.headerButton}
+            >
               <FontAwesome name="arrow-left" size={22} color={isDark ? "#ccc" : "#888"} />
             </TouchableOpacity>
           ),
@@ -288,6 +299,50 @@ const TrackOrderScreen = () => {
               )}
             </Animated.View>
             
+            {/* Pickup Code */}
+            {canShowPickupQr(order) && (
+              <Animated.View entering={FadeInDown.delay(150).duration(300)}>
+                <PickupQrCard orderId={order.id} />
+              </Animated.View>
+            )}
+
+            {/* Feedback */}
+            {canGiveFeedback(order) && (
+              <Animated.View
+                entering={FadeInDown.delay(150).duration(300)}
+                style={[styles.card, isDark && styles.cardDark]}
+              >
+                <Text style={[styles.sectionTitle, { marginBottom: 4 }, isDark && styles.textDark]}>
+                  How was your order?
+                </Text>
+                <Text style={[styles.infoLabel, { marginBottom: 12 }, isDark && styles.textMutedDark]}>
+                  Answer four quick questions to help us improve.
+                </Text>
+                <Button
+                  title="Give Feedback"
+                  icon="star"
+                  variant="outline"
+                  onPress={() => router.push({ pathname: '/feedback/[orderId]', params: { orderId: order.id } })}
+                />
+              </Animated.View>
+            )}
+            {hasGivenFeedback(order) && (
+              <View style={styles.feedbackGiven}>
+                <FontAwesome name="check-circle" size={16} color="#10B981" />
+                <Text style={styles.feedbackGivenText}>Feedback given. Thank you!</Text>
+              </View>
+            )}
+
+            {/* Report a problem */}
+            <TouchableOpacity
+              style={styles.reportProblem}
+              onPress={() => router.push({ pathname: '/(tabs)/tickets', params: { orderId: order.id } })}
+            >
+              <FontAwesome name="life-ring" size={16} color="#2C59DB" />
+              <Text style={styles.reportProblemText}>Problem with this order? Report it</Text>
+              <FontAwesome name="chevron-right" size={12} color="#2C59DB" />
+            </TouchableOpacity>
+            
             {/* Order Details */}
             <Animated.View 
               entering={FadeInDown.delay(200).duration(300)}
@@ -390,6 +445,23 @@ const TrackOrderScreen = () => {
       </ScrollView>
       
       <View style={[styles.footer, isDark && styles.footerDark]}>
+        {order && canPayOrder(order) && (
+          <Button
+            title="Pay This Order"
+            icon="credit-card"
+            className="w-full mb-3"
+            onPress={() => router.push({ pathname: '/pay/[orderId]', params: { orderId: order.id } })}
+          />
+        )}
+        {order && (
+          <Button
+            title="View Receipt"
+            icon="file-text-o"
+            variant="outline"
+            className="w-full mb-3"
+            onPress={() => router.push({ pathname: '/receipt', params: { orderId: order.id } })}
+          />
+        )}
         <Button
           title="Back to Home"
           icon="home"
@@ -688,6 +760,29 @@ const styles = StyleSheet.create({
   textMutedDark: {
     color: '#9CA3AF',
   },
+  feedbackGiven: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+    paddingHorizontal: 4,
+  },
+  feedbackGivenText: {
+    marginLeft: 8,
+    fontSize: 15,
+    color: '#10B981',
+  },
+  reportProblem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+    paddingHorizontal: 4,
+  },
+  reportProblemText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 15,
+    color: '#2C59DB',
+  },
 });
 
 export default TrackOrderScreen; 
\ No newline at end of file
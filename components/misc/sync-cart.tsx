@@ -0,0 +1,91 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { onlineManager } from "@tanstack/react-query";
+import { useAuth } from "@clerk/clerk-expo";
+import { debounce } from "lodash";
+import { useCartStore } from "@/stores/cart.store";
+import { useUserStore } from "@/stores/user.store";
+import { useServerCart } from "@/lib/hooks/use-queries";
+import { useSyncCart } from "@/lib/hooks/use-mutations";
+import { useRolePricing } from "@/lib/hooks/use-role-pricing";
+import { getCartSyncStep, mapServerCartItems, mergeCartItems, toCartSyncItems, CartSyncItem } from "@/utils/cart-sync";
+
+// Wait for the user to stop editing before writing the cart to the server
+const SYNC_DEBOUNCE_MS = 1500;
+
+const SyncCart = () => {
+  const { isSignedIn } = useAuth();
+  const { user } = useUserStore();
+  const userId = user?.id ?? '';
+  const items = useCartStore((state) => state.items);
+  const { customer } = useRolePricing();
+  const [hasHydrated, setHasHydrated] = useState(useCartStore.persist.hasHydrated());
+  const mergedForUserId = useRef<string | null>(null);
+
+  const { data: serverCart, status: serverCartStatus, refetch: refetchServerCart } = useServerCart(userId);
+  const { mutate: pushCart } = useSyncCart();
+
+  useEffect(() => {
+    return useCartStore.persist.onFinishHydration(() => setHasHydrated(true));
+  }, []);
+
+  const debouncedPush = useMemo(
+    () => debounce((id: string, syncItems: CartSyncItem[]) => {
+      pushCart({ userId: id, items: syncItems }, {
+        onError: (error) => {
+          // no-dd-sa:typescript-best-practices/no-console
+          console.error('Failed to sync cart:', error);
+        },
+      });
+    }, SYNC_DEBOUNCE_MS),
+    [pushCart]
+  );
+
+  useEffect(() => () => debouncedPush.flush(), [debouncedPush]);
+
+  const getStep = () => getCartSyncStep({
+    userId,
+    hasHydrated,
+    mergedForUserId: mergedForUserId.current,
+    serverCartStatus,
+  });
+
+  // Merge the stored cart with the server cart once per signed-in user
+  useEffect(() => {
+    if (getStep() !== 'merge') return;
+
+    const { items: localItems, setItems } = useCartStore.getState();
+    setItems(mergeCartItems(localItems, mapServerCartItems(serverCart?.data, customer)));
+    mergedForUserId.current = userId;
+  }, [userId, hasHydrated, serverCartStatus, serverCart, customer]);
+
+  // Keep the server cart in sync with local changes after the initial merge.
+  // Until then, a change retries a failed server cart fetch.
+  useEffect(() => {
+    const step = getStep();
+    if (step === 'push') {
+      debouncedPush(userId, toCartSyncItems(items));
+    } else if (step === 'refetch') {
+      refetchServerCart();
+    }
+  }, [items, userId, debouncedPush]);
+
+  // Queries don't retry on their own, so ask again for a cart that failed to load once back online
+  useEffect(() => {
+    return onlineManager.subscribe((isOnline) => {
+      if (isOnline && getStep() === 'refetch') refetchServerCart();
+    });
+  }, [userId, hasHydrated, serverCartStatus, refetchServerCart]);
+
+  // Drop the previous account's cart when signing out
+  useEffect(() => {
+    if (!isSignedIn && mergedForUserId.current) {
+      debouncedPush.cancel();
+      mergedForUserId.current = null;
+      useCartStore.getState().clearCart();
+    }
+  }, [isSignedIn, debouncedPush]);
+
+  return null;
+};
+
+export default SyncCart;
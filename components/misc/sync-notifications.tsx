@@ -0,0 +1,88 @@
+import { useEffect, useRef } from "react";
+import { router } from "expo-router";
+import * as Notifications from "expo-notifications";
+import { useQueryClient } from "@tanstack/react-query";
+import { useRegisterPushToken } from "@/lib/hooks/use-mutations";
+import { registerForPushNotifications, setNotificationHandler } from "@/lib/notifications";
+import { announcementKeys, orderKeys, paymentKeys, ticketKeys } from "@/lib/query-keys";
+import { useNotificationStore } from "@/stores/notification.store";
+import { useUserStore } from "@/stores/user.store";
+import type { NotificationData } from "@/types/notification";
+import { getNotificationHref, getNotificationPreferences, parseNotificationData } from "@/utils/notifications";
+
+// Preferences are read when a notification arrives, so changes apply without re-registering
+setNotificationHandler(() => getNotificationPreferences(useUserStore.getState().user?.notificationPreferences));
+
+const SyncNotifications = () => {
+  const queryClient = useQueryClient();
+  const userId = useUserStore((state) => state.user?.id);
+  const isOnboarded = useUserStore((state) => state.user?.isOnboarded);
+  const setPushToken = useNotificationStore((state) => state.setPushToken);
+  const { mutate: registerPushToken } = useRegisterPushToken();
+  const lastResponse = Notifications.useLastNotificationResponse();
+  const handledResponseId = useRef<string | null>(null);
+
+  // Tie this device's push token to whoever is signed in
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    registerForPushNotifications()
+      .then((pushToken) => {
+        if (cancelled || !pushToken) return;
+        registerPushToken(pushToken, { onSuccess: () => setPushToken(pushToken) });
+      })
+      .catch((error) => {
+        // no-dd-sa:typescript-best-practices/no-console
+        console.warn('Push notifications are unavailable:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, registerPushToken, setPushToken]);
+
+  // A status changed on the server, so cached screens showing it are out of date
+  useEffect(() => {
+    const refresh = (data: NotificationData) => {
+      switch (data.category) {
+      case 'order':
+      case 'fulfillment':
+        queryClient.invalidateQueries({ queryKey: orderKeys.all });
+        break;
+      case 'payment':
+        queryClient.invalidateQueries({ queryKey: paymentKeys.all });
+        break;
+      case 'ticket':
+        queryClient.invalidateQueries({ queryKey: ticketKeys.all });
+        break;
+      case 'announcement':
+        queryClient.invalidateQueries({ queryKey: announcementKeys.all });
+        break;
+      }
+    };
+
+    const subscription = Notifications.addNotificationReceivedListener((notification) => {
+      const data = parseNotificationData(notification.request.content.data);
+      if (data) refresh(data);
+    });
+    return () => subscription.remove();
+  }, [queryClient]);
+
+  // Open the screen for a tapped notification, including the one that launched the app.
+  // Waits for sign-in and onboarding, which would otherwise redirect away from it.
+  useEffect(() => {
+    if (!lastResponse || !userId || !isOnboarded) return;
+    if (lastResponse.actionIdentifier !== Notifications.DEFAULT_ACTION_IDENTIFIER) return;
+
+    const responseId = lastResponse.notification.request.identifier;
+    if (handledResponseId.current === responseId) return;
+    handledResponseId.current = responseId;
+
+    const data = parseNotificationData(lastResponse.notification.request.content.data);
+    if (data) router.push(getNotificationHref(data));
+  }, [lastResponse, userId, isOnboarded]);
+
+  return null;
+};
+
+export default SyncNotifications;
@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useApiClient } from "@/lib/api";
+import { useIsOnline } from "@/lib/hooks/use-network-status";
+import { orderKeys, paymentKeys, ticketKeys, userKeys } from "@/lib/query-keys";
+import { useOutboxStore } from "@/stores/outbox.store";
+import { useUserStore } from "@/stores/user.store";
+import type { OutboxEntry } from "@/types/outbox";
+import { getOutboxRequest, replayOutbox } from "@/utils/outbox";
+
+// How often to try again while changes are waiting and the server is unreachable
+const RETRY_INTERVAL_MS = 30000;
+
+const SyncOutbox = () => {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+  const isOnline = useIsOnline();
+  const { user } = useUserStore();
+  const userId = user?.id;
+  const [hasHydrated, setHasHydrated] = useState(useOutboxStore.persist.hasHydrated());
+  const pendingCount = useOutboxStore((state) =>
+    state.entries.filter(entry => entry.userId === userId && entry.status === 'pending').length
+  );
+  const isReplaying = useRef(false);
+
+  useEffect(() => {
+    return useOutboxStore.persist.onFinishHydration(() => setHasHydrated(true));
+  }, []);
+
+  const send = useCallback((entry: OutboxEntry) => {
+    const { method, path, body, options } = getOutboxRequest(entry);
+    return method === 'PUT' ? api.put(path, body, options) : api.post(path, body, options);
+  }, [api]);
+
+  const refreshAfterSync = useCallback((entry: OutboxEntry) => {
+    switch (entry.type) {
+    case 'ticket.create':
+      queryClient.invalidateQueries({ queryKey: ticketKeys.lists() });
+      break;
+    case 'profile.update':
+      queryClient.invalidateQueries({ queryKey: userKeys.profiles() });
+      break;
+    case 'payment.create':
+      queryClient.invalidateQueries({ queryKey: paymentKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: orderKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: orderKeys.detail(entry.payload.orderId) });
+      break;
+    }
+  }, [queryClient]);
+
+  const replay = useCallback(async () => {
+    if (!userId || isReplaying.current) return;
+    isReplaying.current = true;
+
+    const { entries, markSynced, markDeferred, markRejected } = useOutboxStore.getState();
+    try {
+      await replayOutbox(entries.filter(entry => entry.userId === userId), send, {
+        onSynced: (entry) => {
+          markSynced(entry.id);
+          refreshAfterSync(entry);
+        },
+        onRejected: (entry, outcome, message) => markRejected(entry.id, outcome, message),
+        onDeferred: (entry, message) => markDeferred(entry.id, message),
+      });
+    } finally {
+      isReplaying.current = false;
+    }
+  }, [userId, send, refreshAfterSync]);
+
+  // Send queued changes when the connection returns or a new change is queued
+  useEffect(() => {
+    if (!isOnline || !hasHydrated || pendingCount === 0) return;
+
+    replay();
+    const interval = setInterval(replay, RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isOnline, hasHydrated, pendingCount, replay]);
+
+  return null;
+};
+
+export default SyncOutbox;
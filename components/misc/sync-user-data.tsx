@@ -1,32 +1,54 @@
-
-import { useEffect } from "react";
-import { User } from "@prisma/client";
-import { useUserStore } from "@/stores/user.store";
+import { useEffect, useRef } from "react";
+import { AppState } from "react-native";
 import { useUser } from "@clerk/clerk-expo";
+import { useUserStore } from "@/stores/user.store";
+import { useProfile, useRefreshProfile } from "@/lib/hooks/use-queries";
 
 const SyncUserData = () => {
-  const { user, isSignedIn } = useUser();
-  const { setUser, clearUser, user: userData } = useUserStore();
+  const { user: clerkUser, isSignedIn } = useUser();
+  const { setUser, clearUser, user } = useUserStore();
+  const clerkId = isSignedIn ? clerkUser?.id ?? '' : '';
+
+  const { data: profileResponse, error } = useProfile(clerkId);
+  const refreshProfile = useRefreshProfile(user?.id);
+  const appState = useRef(AppState.currentState);
 
+  // Keep the store in step with the server profile, so role and college changes apply right away
   useEffect(() => {
-    if (isSignedIn && userData === null) {
-      try {
-        const metadata = user?.publicMetadata?.data;
-        if (!metadata) {
-          throw new Error('User metadata is missing');
-        }
-        setUser(metadata as User);
-      } catch (error) {
-        // no-dd-sa:typescript-best-practices/no-console
-        console.error('Failed to sync user data:', error);
-        clearUser();
-      }
-    } else if (!isSignedIn) {
+    const profile = profileResponse?.data;
+    if (profile && profile.clerkId === clerkId) {
+      setUser(profile);
+    }
+  }, [profileResponse, clerkId, setUser]);
+
+  // Drop the previous account when signing out or switching accounts
+  useEffect(() => {
+    if (!isSignedIn || (user && user.clerkId !== clerkId)) {
       clearUser();
     }
-  }, [isSignedIn, user, userData, setUser, clearUser]);
+  }, [isSignedIn, user, clerkId, clearUser]);
+
+  useEffect(() => {
+    if (error) {
+      // no-dd-sa:typescript-best-practices/no-console
+      console.error('Failed to sync user data:', error);
+    }
+  }, [error]);
+
+  // An admin may have changed the role or permissions while the app was in the background
+  useEffect(() => {
+    if (!clerkId) return;
+
+    const subscription = AppState.addEventListener('change', (nextState) => {
+      if (appState.current.match(/inactive|background/) && nextState === 'active') {
+        refreshProfile();
+      }
+      appState.current = nextState;
+    });
+    return () => subscription.remove();
+  }, [clerkId, refreshProfile]);
 
   return null;
 };
 
-export default SyncUserData;
\ No newline at end of file
+export default SyncUserData;
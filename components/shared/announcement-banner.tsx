@@ -0,0 +1,47 @@
+import React from "react";
+import { View, Text, TouchableOpacity } from "react-native";
+import { router } from "expo-router";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import Animated, { FadeInDown, FadeOut } from "react-native-reanimated";
+import { ANNOUNCEMENT_LEVEL_DETAILS } from "@/constants/announcements";
+import { useUnreadAnnouncements } from "@/lib/hooks/use-announcements";
+import { stripHtmlTags } from "@/utils/html-parser";
+
+/**
+ * Home screen banner for the newest unread critical announcement. Closing it
+ * hides the banner, but the announcement stays unread in the feed.
+ */
+const AnnouncementBanner = () => {
+  const { banner, dismiss } = useUnreadAnnouncements();
+
+  if (!banner) return null;
+
+  const details = ANNOUNCEMENT_LEVEL_DETAILS.CRITICAL;
+
+  return (
+    <Animated.View entering={FadeInDown.duration(400)} exiting={FadeOut} className="px-4 mt-4">
+      <TouchableOpacity
+        activeOpacity={0.8}
+        onPress={() => router.push({ pathname: '/announcements/[id]', params: { id: banner.id } })}
+        className={`flex-row items-start rounded-xl p-3 ${details.className}`}
+      >
+        <FontAwesome name={details.icon} size={18} color={details.color} style={{ marginTop: 2 }} />
+        <View className="flex-1 mx-3">
+          <Text className={`font-semibold ${details.textClassName}`}>{banner.title}</Text>
+          <Text className={`mt-0.5 text-sm ${details.textClassName}`} numberOfLines={2}>
+            {stripHtmlTags(banner.content)}
+          </Text>
+        </View>
+        <TouchableOpacity
+          onPress={() => dismiss(banner.id)}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          accessibilityLabel="Dismiss announcement"
+        >
+          <FontAwesome name="times" size={16} color={details.color} />
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Animated.View>
+  );
+};
+
+export default AnnouncementBanner;
@@ -0,0 +1,61 @@
+import React from "react";
+import { View, Text } from "react-native";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import type { CartLineIssue, CartLineIssueKind } from "@/utils/cart-revalidation";
+
+const issueStyles: Record<CartLineIssueKind, {
+  icon: React.ComponentProps<typeof FontAwesome>['name'];
+  color: string;
+  container: string;
+  text: string;
+}> = {
+  UNAVAILABLE: {
+    icon: 'ban',
+    color: '#DC2626',
+    container: 'bg-red-50 dark:bg-red-900/30',
+    text: 'text-red-700 dark:text-red-300',
+  },
+  OUT_OF_STOCK: {
+    icon: 'times-circle',
+    color: '#DC2626',
+    container: 'bg-red-50 dark:bg-red-900/30',
+    text: 'text-red-700 dark:text-red-300',
+  },
+  LOW_STOCK: {
+    icon: 'exclamation-triangle',
+    color: '#D97706',
+    container: 'bg-amber-50 dark:bg-amber-900/30',
+    text: 'text-amber-700 dark:text-amber-300',
+  },
+  PRICE_CHANGED: {
+    icon: 'tag',
+    color: '#D97706',
+    container: 'bg-amber-50 dark:bg-amber-900/30',
+    text: 'text-amber-700 dark:text-amber-300',
+  },
+};
+
+interface CartLineIssuesProps {
+  issues?: CartLineIssue[];
+  className?: string;
+}
+
+const CartLineIssues = ({ issues, className = '' }: CartLineIssuesProps) => {
+  if (!issues || issues.length === 0) return null;
+
+  return (
+    <View className={className}>
+      {issues.map((issue) => {
+        const style = issueStyles[issue.kind];
+        return (
+          <View key={issue.kind} className={`flex-row items-center rounded-md px-2 py-1 mt-1 self-start ${style.container}`}>
+            <FontAwesome name={style.icon} size={12} color={style.color} />
+            <Text className={`text-xs font-medium ml-1.5 ${style.text}`}>{issue.message}</Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+export default CartLineIssues;
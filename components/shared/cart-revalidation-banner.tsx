@@ -0,0 +1,61 @@
+import React from "react";
+import { View, Text, ActivityIndicator } from "react-native";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import { Button } from "@/components/ui/Button";
+
+interface CartRevalidationBannerProps {
+  hasIssues: boolean;
+  isChecking: boolean;
+  isError: boolean;
+  onApply: () => void;
+  onRetry: () => void;
+  className?: string;
+}
+
+const CartRevalidationBanner = ({
+  hasIssues,
+  isChecking,
+  isError,
+  onApply,
+  onRetry,
+  className = '',
+}: CartRevalidationBannerProps) => {
+  if (isChecking) {
+    return (
+      <View className={`flex-row items-center rounded-xl px-3 py-2 bg-primary/10 ${className}`}>
+        <ActivityIndicator size="small" color="#2C59DB" />
+        <Text className="text-sm text-primary ml-2">Checking latest prices and stock...</Text>
+      </View>
+    );
+  }
+
+  if (isError) {
+    return (
+      <View className={`rounded-xl p-3 bg-red-50 dark:bg-red-900/30 ${className}`}>
+        <View className="flex-row items-center mb-2">
+          <FontAwesome name="exclamation-circle" size={16} color="#DC2626" />
+          <Text className="text-sm font-medium text-red-700 dark:text-red-300 ml-2 flex-1">
+            We couldn&apos;t confirm the latest prices and stock.
+          </Text>
+        </View>
+        <Button title="Try Again" icon="refresh" variant="outline" size="sm" onPress={onRetry} />
+      </View>
+    );
+  }
+
+  if (!hasIssues) return null;
+
+  return (
+    <View className={`rounded-xl p-3 bg-amber-50 dark:bg-amber-900/30 ${className}`}>
+      <View className="flex-row items-center mb-2">
+        <FontAwesome name="exclamation-triangle" size={16} color="#D97706" />
+        <Text className="text-sm font-medium text-amber-800 dark:text-amber-200 ml-2 flex-1">
+          Some items changed since you added them. Review the changes below.
+        </Text>
+      </View>
+      <Button title="Update Cart" icon="check" size="sm" onPress={onApply} />
+    </View>
+  );
+};
+
+export default CartRevalidationBanner;
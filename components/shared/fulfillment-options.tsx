@@ -0,0 +1,97 @@
+import React from "react";
+import { View, Text, TouchableOpacity } from "react-native";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import type { College, FulfillmentMethod } from "@prisma/client";
+import { TextInput } from "@/components/ui/TextInput";
+import { FULFILLMENT_METHODS } from "@/constants/fulfillment";
+import type { FulfillmentConfig, FulfillmentQuote, FulfillmentSelection } from "@/types/fulfillment";
+import { getAvailableFulfillmentMethods, getPickupPoints } from "@/utils/fulfillment";
+import { formatCurrency } from "@/utils/format-currency";
+
+interface FulfillmentOptionsProps {
+  config: FulfillmentConfig;
+  college: College | null | undefined;
+  selection: FulfillmentSelection;
+  quote: FulfillmentQuote;
+  onChange: (selection: FulfillmentSelection) => void;
+}
+
+const FulfillmentOptions = ({ config, college, selection, quote, onChange }: FulfillmentOptionsProps) => {
+  const methods = getAvailableFulfillmentMethods(config, college);
+  const pickupPoints = getPickupPoints(config, selection.method, college);
+
+  const selectMethod = (method: FulfillmentMethod) => {
+    const [firstPoint] = getPickupPoints(config, method, college);
+    onChange({
+      method,
+      pickupPointId: firstPoint?.id,
+      deliveryAddress: selection.deliveryAddress,
+    });
+  };
+
+  return (
+    <View>
+      {methods.map((method) => {
+        const option = FULFILLMENT_METHODS[method];
+        const isSelected = selection.method === method;
+
+        return (
+          <TouchableOpacity
+            key={method}
+            onPress={() => selectMethod(method)}
+            className={`flex-row items-center rounded-xl border p-3 mb-2 ${isSelected ? 'border-primary bg-primary/5' : 'border-neutral-200 dark:border-neutral-700'}`}
+          >
+            <FontAwesome name={option.icon} size={18} color={isSelected ? '#2C59DB' : '#9CA3AF'} />
+            <View className="flex-1 ml-3">
+              <Text className="text-base font-medium text-neutral-800 dark:text-neutral-100">{option.label}</Text>
+              <Text className="text-xs text-neutral-500 dark:text-neutral-400">{option.description}</Text>
+            </View>
+            <FontAwesome name={isSelected ? 'dot-circle-o' : 'circle-o'} size={18} color={isSelected ? '#2C59DB' : '#9CA3AF'} />
+          </TouchableOpacity>
+        );
+      })}
+
+      {pickupPoints.length > 0 && (
+        <View className="mt-2">
+          <Text className="text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">Pickup Point</Text>
+          {pickupPoints.map((point) => {
+            const isSelected = selection.pickupPointId === point.id;
+
+            return (
+              <TouchableOpacity
+                key={point.id}
+                onPress={() => onChange({ ...selection, pickupPointId: point.id })}
+                className={`rounded-lg border px-3 py-2 mb-2 ${isSelected ? 'border-primary' : 'border-neutral-200 dark:border-neutral-700'}`}
+              >
+                <Text className="text-sm font-medium text-neutral-800 dark:text-neutral-100">{point.name}</Text>
+                <Text className="text-xs text-neutral-500 dark:text-neutral-400">{point.location}</Text>
+                {point.schedule && (
+                  <Text className="text-xs text-neutral-500 dark:text-neutral-400">{point.schedule}</Text>
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      {selection.method === 'DELIVERY' && (
+        <View className="mt-2">
+          <TextInput
+            label="Delivery Address"
+            leftIcon="home"
+            placeholder="House no., street, barangay, city"
+            value={selection.deliveryAddress ?? ''}
+            onChangeText={(deliveryAddress) => onChange({ ...selection, deliveryAddress })}
+            multiline
+          />
+          <Text className="text-xs text-neutral-500 dark:text-neutral-400 mt-2">
+            Delivery fee: {quote.fee === 0 ? 'FREE' : formatCurrency(quote.fee)}
+            {quote.note ? ` · ${quote.note}` : ''}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+export default FulfillmentOptions;
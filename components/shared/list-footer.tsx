@@ -0,0 +1,50 @@
+import React from "react";
+import { View, Text, ActivityIndicator, TouchableOpacity } from "react-native";
+
+interface ListFooterProps {
+  isFetchingNextPage: boolean;
+  hasNextPage: boolean;
+  itemCount: number;
+  onLoadMore?: () => void;
+  // Shown once every page has been loaded, e.g. "You've seen all your orders"
+  endLabel?: string;
+}
+
+/**
+ * Footer for paginated lists: a spinner while the next page loads, a
+ * fallback "Load more" button, and an end-of-list note
+ */
+const ListFooter = ({
+  isFetchingNextPage,
+  hasNextPage,
+  itemCount,
+  onLoadMore,
+  endLabel = "You've reached the end",
+}: ListFooterProps) => {
+  if (isFetchingNextPage) {
+    return (
+      <View className="py-6 items-center">
+        <ActivityIndicator color="#2C59DB" />
+      </View>
+    );
+  }
+
+  if (hasNextPage) {
+    return (
+      <TouchableOpacity className="py-5 items-center" onPress={onLoadMore} disabled={!onLoadMore}>
+        <Text className="text-sm font-medium text-primary">Load more</Text>
+      </TouchableOpacity>
+    );
+  }
+
+  // Empty lists show their own empty state instead
+  if (itemCount === 0) return null;
+
+  return (
+    <View className="py-6 items-center">
+      <Text className="text-xs text-neutral-400 dark:text-neutral-500">{endLabel}</Text>
+    </View>
+  );
+};
+
+export default ListFooter;
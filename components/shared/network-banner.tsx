@@ -0,0 +1,51 @@
+import React from "react";
+import { View, Text, ActivityIndicator } from "react-native";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useIsOnline } from "@/lib/hooks/use-network-status";
+import { useOutboxStore } from "@/stores/outbox.store";
+import { useUserStore } from "@/stores/user.store";
+
+const pluralizeChanges = (count: number) => `${count} ${count === 1 ? 'change' : 'changes'}`;
+
+/**
+ * Strip over the top of the app while offline, or while queued changes are
+ * being sent after the connection returns
+ */
+const NetworkBanner = () => {
+  const insets = useSafeAreaInsets();
+  const isOnline = useIsOnline();
+  const userId = useUserStore((state) => state.user?.id);
+  const pendingCount = useOutboxStore((state) =>
+    state.entries.filter(entry => entry.userId === userId && entry.status === 'pending').length
+  );
+
+  if (isOnline && pendingCount === 0) return null;
+
+  return (
+    <View
+      pointerEvents="none"
+      className={`absolute left-0 right-0 top-0 flex-row items-center justify-center px-4 pb-1.5 ${isOnline ? 'bg-primary' : 'bg-neutral-800'}`}
+      style={{ paddingTop: insets.top + 4 }}
+    >
+      {isOnline ? (
+        <>
+          <ActivityIndicator size="small" color="#FFFFFF" />
+          <Text className="text-xs font-medium text-white ml-2">
+            Back online. Sending {pluralizeChanges(pendingCount)}...
+          </Text>
+        </>
+      ) : (
+        <>
+          <FontAwesome name="wifi" size={12} color="#FFFFFF" />
+          <Text className="text-xs font-medium text-white ml-2">
+            You&apos;re offline. Showing saved data
+            {pendingCount > 0 ? ` · ${pluralizeChanges(pendingCount)} waiting` : ''}
+          </Text>
+        </>
+      )}
+    </View>
+  );
+};
+
+export default NetworkBanner;
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, Switch, Alert, Linking } from "react-native";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import * as Notifications from "expo-notifications";
+import type { Order } from "@prisma/client";
+import { Button } from "@/components/ui/Button";
+import { Card } from "@/components/ui/Card";
+import { NOTIFICATION_CATEGORY_DETAILS } from "@/constants/notifications";
+import { useRegisterPushToken, useUpdateProfile } from "@/lib/hooks/use-mutations";
+import { presentLocalNotification, registerForPushNotifications } from "@/lib/notifications";
+import { useNotificationStore } from "@/stores/notification.store";
+import { useUserStore } from "@/stores/user.store";
+import type { NotificationCategory } from "@/types/notification";
+import { getNotificationPreferences, NOTIFICATION_CATEGORIES } from "@/utils/notifications";
+
+interface NotificationPreferencesProps {
+  // Used by the test notification, which opens this order when tapped
+  latestOrder?: Order;
+  className?: string;
+}
+
+/**
+ * Push notification switches for each category, plus a way to turn
+ * notifications on and to try one without the push service
+ */
+const NotificationPreferences = ({ latestOrder, className = '' }: NotificationPreferencesProps) => {
+  const storedPreferences = useUserStore((state) => state.user?.notificationPreferences);
+  const preferences = getNotificationPreferences(storedPreferences);
+  const setPushToken = useNotificationStore((state) => state.setPushToken);
+  const { mutate: updateProfile } = useUpdateProfile();
+  const { mutate: registerPushToken, isPending: isRegistering } = useRegisterPushToken();
+  const [permission, setPermission] = useState<Notifications.NotificationPermissionsStatus | null>(null);
+
+  useEffect(() => {
+    Notifications.getPermissionsAsync().then(setPermission).catch(() => setPermission(null));
+  }, []);
+
+  const togglePreference = (category: NotificationCategory, enabled: boolean) => {
+    updateProfile({ notificationPreferences: { ...preferences, [category]: enabled } }, {
+      onError: (error) => {
+        Alert.alert('Not Saved', error.message || "We couldn't update your notification settings.");
+      },
+    });
+  };
+
+  const enableNotifications = async () => {
+    // Once declined, the system won't ask again, so only the device settings can turn them on
+    if (permission && !permission.canAskAgain) {
+      Linking.openSettings();
+      return;
+    }
+
+    try {
+      const pushToken = await registerForPushNotifications();
+      setPermission(await Notifications.getPermissionsAsync());
+      if (pushToken) {
+        registerPushToken(pushToken, { onSuccess: () => setPushToken(pushToken) });
+      }
+    } catch (error) {
+      Alert.alert('Notifications Unavailable', error instanceof Error ? error.message : 'Please try again later.');
+    }
+  };
+
+  const sendTestNotification = () => {
+    if (!latestOrder) return;
+
+    presentLocalNotification({ category: 'order', orderId: latestOrder.id, status: latestOrder.status })
+      .catch((error) => {
+        Alert.alert('Test Not Sent', error instanceof Error ? error.message : 'Please try again later.');
+      });
+  };
+
+  const isGranted = permission?.granted ?? false;
+
+  return (
+    <Card className={`p-4 ${className}`}>
+      <Text className="text-lg font-semibold text-neutral-800 dark:text-white mb-1">Notifications</Text>
+      <Text className="text-xs text-neutral-500 dark:text-neutral-400 mb-2">
+        Choose which updates we send to this device
+      </Text>
+
+      {permission && !isGranted && (
+        <View className="flex-row items-center p-3 mb-2 rounded-lg bg-amber-50 dark:bg-amber-900/20">
+          <FontAwesome name="bell-slash" size={16} color="#D97706" />
+          <Text className="flex-1 mx-2 text-xs text-amber-800 dark:text-amber-300">
+            Notifications are turned off for MerchTrack.
+          </Text>
+          <Button
+            title={permission.canAskAgain ? 'Turn On' : 'Settings'}
+            size="sm"
+            onPress={enableNotifications}
+            isLoading={isRegistering}
+            disabled={isRegistering}
+          />
+        </View>
+      )}
+
+      {NOTIFICATION_CATEGORIES.map(category => {
+        const details = NOTIFICATION_CATEGORY_DETAILS[category];
+
+        return (
+          <View key={category} className="flex-row items-center py-3 border-t border-neutral-100 dark:border-neutral-700">
+            <View className="w-8 items-center">
+              <FontAwesome name={details.icon} size={16} color="#2C59DB" />
+            </View>
+            <View className="flex-1 mx-2">
+              <Text className="font-medium text-neutral-800 dark:text-white">{details.label}</Text>
+              <Text className="text-xs text-neutral-500 dark:text-neutral-400 mt-0.5">{details.description}</Text>
+            </View>
+            <Switch
+              value={preferences[category]}
+              onValueChange={(enabled) => togglePreference(category, enabled)}
+              trackColor={{ false: '#D1D5DB', true: '#BFDBFE' }}
+              thumbColor={preferences[category] ? '#2C59DB' : '#F3F4F6'}
+              ios_backgroundColor="#D1D5DB"
+            />
+          </View>
+        );
+      })}
+
+      {isGranted && latestOrder && (
+        <Button
+          title="Send Test Notification"
+          icon="bell"
+          variant="outline"
+          size="sm"
+          className="mt-2"
+          onPress={sendTestNotification}
+        />
+      )}
+    </Card>
+  );
+};
+
+export default NotificationPreferences;
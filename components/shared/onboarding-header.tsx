@@ -0,0 +1,38 @@
+import React from "react";
+import { View, Text, TouchableOpacity } from "react-native";
+import { router } from "expo-router";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+
+export const ONBOARDING_STEPS = 3;
+
+interface OnboardingHeaderProps {
+  // 1-based step number
+  step: number;
+  title: string;
+  subtitle?: string;
+}
+
+const OnboardingHeader = ({ step, title, subtitle }: OnboardingHeaderProps) => (
+  <View className="mb-6">
+    <View className="flex-row items-center mb-4">
+      <TouchableOpacity onPress={() => router.back()} className="p-2 -ml-2 mr-2">
+        <FontAwesome name="arrow-left" size={18} color="#9CA3AF" />
+      </TouchableOpacity>
+      <View className="flex-1 flex-row">
+        {Array.from({ length: ONBOARDING_STEPS }, (_, index) => (
+          <View
+            key={index}
+            className={`flex-1 h-1.5 rounded-full ${index < ONBOARDING_STEPS - 1 ? 'mr-1.5' : ''} ${index < step ? 'bg-primary' : 'bg-neutral-200 dark:bg-neutral-700'}`}
+          />
+        ))}
+      </View>
+    </View>
+    <Text className="text-xs font-medium text-primary mb-1">Step {step} of {ONBOARDING_STEPS}</Text>
+    <Text className="text-2xl font-bold text-neutral-800 dark:text-white">{title}</Text>
+    {subtitle ? (
+      <Text className="mt-1 text-neutral-500 dark:text-neutral-400">{subtitle}</Text>
+    ) : null}
+  </View>
+);
+
+export default OnboardingHeader;
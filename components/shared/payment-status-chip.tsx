@@ -0,0 +1,30 @@
+import React from "react";
+import { View, Text } from "react-native";
+import type { PaymentStatus } from "@prisma/client";
+import { PAYMENT_STATUS_DETAILS } from "@/constants/payments";
+
+interface PaymentStatusChipProps {
+  status: PaymentStatus;
+  className?: string;
+}
+
+const PaymentStatusChip = ({ status, className = '' }: PaymentStatusChipProps) => {
+  const details = PAYMENT_STATUS_DETAILS[status];
+
+  // Fall back to the raw value if the server sends a status this build doesn't know
+  if (!details) {
+    return (
+      <View className={`px-2 py-1 rounded-full bg-neutral-100 dark:bg-neutral-700 ${className}`}>
+        <Text className="text-xs font-medium text-neutral-800 dark:text-neutral-300">{status}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View className={`px-2 py-1 rounded-full ${details.className} ${className}`}>
+      <Text className={`text-xs font-medium ${details.textClassName}`}>{details.label}</Text>
+    </View>
+  );
+};
+
+export default PaymentStatusChip;
@@ -0,0 +1,85 @@
+import React from "react";
+import { View, Text, TouchableOpacity } from "react-native";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import { Card } from "@/components/ui/Card";
+import { useOutboxStore } from "@/stores/outbox.store";
+import { useUserStore } from "@/stores/user.store";
+import type { OutboxActionType, OutboxEntry } from "@/types/outbox";
+import { getOutboxLabel } from "@/utils/outbox";
+
+interface PendingChangesProps {
+  // Only show these kinds of changes; shows everything when left out
+  types?: OutboxActionType[];
+  title?: string;
+  className?: string;
+}
+
+const STATUS_DETAILS: Record<OutboxEntry['status'], {
+  icon: React.ComponentProps<typeof FontAwesome>['name'];
+  color: string;
+  label: string;
+}> = {
+  pending: { icon: 'clock-o', color: '#6B7280', label: 'Waiting for connection' },
+  conflict: { icon: 'exclamation-triangle', color: '#D97706', label: 'Changed on the server' },
+  failed: { icon: 'exclamation-circle', color: '#DC2626', label: 'Not accepted' },
+};
+
+/**
+ * Changes saved while offline that haven't reached the server yet, with
+ * retry and discard actions for the ones the server turned down
+ */
+const PendingChanges = ({ types, title = 'Pending Changes', className = '' }: PendingChangesProps) => {
+  const userId = useUserStore((state) => state.user?.id);
+  const allEntries = useOutboxStore((state) => state.entries);
+  const retry = useOutboxStore((state) => state.retry);
+  const discard = useOutboxStore((state) => state.discard);
+
+  const entries = allEntries.filter(entry =>
+    entry.userId === userId && (!types || types.includes(entry.type))
+  );
+
+  if (entries.length === 0) return null;
+
+  return (
+    <Card className={`p-4 ${className}`}>
+      <Text className="font-semibold text-neutral-800 dark:text-white mb-1">{title}</Text>
+      {entries.map(entry => {
+        const details = STATUS_DETAILS[entry.status];
+
+        return (
+          <View key={entry.id} className="py-2 border-t border-neutral-100 dark:border-neutral-700">
+            <View className="flex-row items-center">
+              <FontAwesome name={details.icon} size={14} color={details.color} />
+              <View className="flex-1 ml-2">
+                <Text className="text-sm text-neutral-800 dark:text-white" numberOfLines={1}>
+                  {getOutboxLabel(entry)}
+                </Text>
+                <Text className="text-xs text-neutral-500 dark:text-neutral-400">
+                  {details.label} · saved {new Date(entry.createdAt).toLocaleString('en-US')}
+                </Text>
+              </View>
+            </View>
+
+            {entry.status !== 'pending' && (
+              <>
+                {entry.error ? (
+                  <Text className="text-xs text-neutral-600 dark:text-neutral-300 mt-1 ml-6">{entry.error}</Text>
+                ) : null}
+                <View className="flex-row justify-end mt-1">
+                  <TouchableOpacity className="px-3 py-1" onPress={() => discard(entry.id)}>
+                    <Text className="text-sm text-red-600 dark:text-red-400">Discard</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity className="px-3 py-1" onPress={() => retry(entry.id)}>
+                    <Text className="text-sm font-medium text-primary">Send Again</Text>
+                  </TouchableOpacity>
+                </View>
+              </>
+            )}
+          </View>
+        );
+      })}
+    </Card>
+  );
+};
+
+export default PendingChanges;
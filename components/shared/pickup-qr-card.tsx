@@ -0,0 +1,63 @@
+import React from "react";
+import { View, Text, TouchableOpacity, ActivityIndicator } from "react-native";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import QrCode from "@/components/shared/qr-code";
+import { usePickupToken } from "@/lib/hooks/use-queries";
+
+interface PickupQrCardProps {
+  orderId: string;
+}
+
+const formatTime = (value: string) => new Date(value).toLocaleTimeString('en-US', {
+  hour: '2-digit',
+  minute: '2-digit',
+});
+
+const PickupQrCard = ({ orderId }: PickupQrCardProps) => {
+  const { data, isLoading, isFetching, error, refetch } = usePickupToken(orderId, true);
+  const pickupToken = data?.data;
+
+  return (
+    <View className="rounded-xl bg-white dark:bg-neutral-800 p-4 mb-4 items-center">
+      <Text className="text-lg font-semibold text-neutral-800 dark:text-white">Ready for Pickup</Text>
+      <Text className="text-sm text-neutral-500 dark:text-neutral-400 text-center mt-1 mb-4">
+        Show this code to the staff at the pickup point to claim your order.
+      </Text>
+
+      {isLoading ? (
+        <View className="h-48 items-center justify-center">
+          <ActivityIndicator color="#2C59DB" />
+        </View>
+      ) : error || !pickupToken ? (
+        <View className="h-48 items-center justify-center">
+          <FontAwesome name="exclamation-circle" size={32} color="#EF4444" />
+          <Text className="mt-2 text-sm text-neutral-600 dark:text-neutral-400 text-center">
+            We couldn&apos;t load your pickup code.
+          </Text>
+        </View>
+      ) : (
+        <>
+          <View className="p-3 bg-white rounded-xl">
+            <QrCode value={pickupToken.token} size={192} />
+          </View>
+          <Text className="text-xs text-neutral-500 dark:text-neutral-400 mt-3">
+            Valid until {formatTime(pickupToken.expiresAt)}
+          </Text>
+        </>
+      )}
+
+      <TouchableOpacity
+        className="flex-row items-center mt-3"
+        onPress={() => refetch()}
+        disabled={isFetching}
+      >
+        <FontAwesome name="refresh" size={14} color="#2C59DB" />
+        <Text className="ml-2 text-sm font-medium text-primary">
+          {isFetching ? 'Refreshing...' : 'Refresh Code'}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+export default PickupQrCard;
@@ -0,0 +1,81 @@
+import React, { useState } from "react";
+import { View, Text, TouchableOpacity } from "react-native";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import { TextInput } from "@/components/ui/TextInput";
+import { Button } from "@/components/ui/Button";
+import { formatCurrency } from "@/utils/format-currency";
+
+interface PromoCodeInputProps {
+  appliedCode?: string;
+  discountAmount: number;
+  description?: string;
+  error?: string | null;
+  isApplying: boolean;
+  onApply: (code: string) => void;
+  onRemove: () => void;
+}
+
+const PromoCodeInput = ({
+  appliedCode,
+  discountAmount,
+  description,
+  error,
+  isApplying,
+  onApply,
+  onRemove,
+}: PromoCodeInputProps) => {
+  const [code, setCode] = useState('');
+
+  if (appliedCode) {
+    return (
+      <View className="rounded-xl border border-primary bg-primary/5 p-3">
+        <View className="flex-row items-center">
+          <FontAwesome name="ticket" size={16} color="#2C59DB" />
+          <Text className="flex-1 ml-2 text-base font-semibold text-primary">{appliedCode}</Text>
+          <TouchableOpacity onPress={onRemove} hitSlop={8}>
+            <FontAwesome name="times" size={16} color="#6B7280" />
+          </TouchableOpacity>
+        </View>
+        {description && (
+          <Text className="text-xs text-neutral-500 dark:text-neutral-400 mt-1">{description}</Text>
+        )}
+        {error ? (
+          <Text className="text-xs font-medium text-red-600 dark:text-red-400 mt-1">{error}</Text>
+        ) : (
+          <Text className="text-xs font-medium text-green-600 dark:text-green-400 mt-1">
+            You save {formatCurrency(discountAmount)}
+          </Text>
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      <View className="flex-row items-end">
+        <View className="flex-1 mr-2">
+          <TextInput
+            placeholder="Enter promo code"
+            leftIcon="ticket"
+            value={code}
+            onChangeText={setCode}
+            autoCapitalize="characters"
+            autoCorrect={false}
+          />
+        </View>
+        <Button
+          title="Apply"
+          size="sm"
+          onPress={() => onApply(code)}
+          isLoading={isApplying}
+          disabled={!code.trim() || isApplying}
+        />
+      </View>
+      {error && (
+        <Text className="text-xs font-medium text-red-600 dark:text-red-400 mt-1">{error}</Text>
+      )}
+    </View>
+  );
+};
+
+export default PromoCodeInput;
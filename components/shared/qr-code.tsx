@@ -0,0 +1,42 @@
+import React, { useEffect, useState } from "react";
+import { View, ActivityIndicator } from "react-native";
+import { SvgXml } from "react-native-svg";
+import { toQrSvg } from "@/utils/qr-code";
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+  className?: string;
+}
+
+const QrCode = ({ value, size = 160, className = '' }: QrCodeProps) => {
+  const [xml, setXml] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+
+    toQrSvg(value)
+      .then((svg) => {
+        if (isCurrent) setXml(svg);
+      })
+      .catch(() => {
+        if (isCurrent) setXml(null);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [value]);
+
+  return (
+    <View className={`items-center justify-center bg-white ${className}`} style={{ width: size, height: size }}>
+      {xml ? (
+        <SvgXml xml={xml} width={size} height={size} />
+      ) : (
+        <ActivityIndicator color="#2C59DB" />
+      )}
+    </View>
+  );
+};
+
+export default QrCode;
@@ -0,0 +1,113 @@
+import React, { forwardRef } from "react";
+import { View, Text } from "react-native";
+import QrCode from "@/components/shared/qr-code";
+import { formatCurrency } from "@/utils/format-currency";
+import type { Receipt } from "@/utils/receipt";
+
+interface ReceiptViewProps {
+  receipt: Receipt;
+}
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-US', {
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric',
+});
+
+const TotalRow = ({ label, value, isGrand }: { label: string; value: string; isGrand?: boolean }) => (
+  <View className="flex-row justify-between py-1">
+    <Text className={isGrand ? "text-base font-bold text-primary" : "text-sm text-neutral-600"}>{label}</Text>
+    <Text className={isGrand ? "text-base font-bold text-primary" : "text-sm text-neutral-800"}>{value}</Text>
+  </View>
+);
+
+/**
+ * Always rendered light so captured images look like the printed PDF
+ */
+const ReceiptView = forwardRef<View, ReceiptViewProps>(({ receipt }, ref) => {
+  const money = (amount: number) => formatCurrency(amount, receipt.currency);
+
+  return (
+    <View ref={ref} collapsable={false} className="bg-white rounded-xl p-5">
+      <View className="flex-row justify-between">
+        <View className="flex-1 pr-3">
+          <Text className="text-lg font-bold text-primary">
+            {receipt.kind === 'PAYMENT' ? 'Payment Receipt' : 'Order Receipt'}
+          </Text>
+          <Text className="text-sm text-neutral-800">Receipt #{receipt.number}</Text>
+          <Text className="text-xs text-neutral-500">Issued {formatDate(receipt.issuedAt)}</Text>
+
+          <Text className="text-sm font-semibold text-neutral-800 mt-3">Billed To</Text>
+          <Text className="text-sm text-neutral-800">{receipt.customerName ?? 'Customer'}</Text>
+          {receipt.customerEmail && (
+            <Text className="text-xs text-neutral-500">{receipt.customerEmail}</Text>
+          )}
+          <Text className="text-xs text-neutral-500">Ordered {formatDate(receipt.orderDate)}</Text>
+          {receipt.fulfillment && (
+            <Text className="text-xs text-neutral-500">{receipt.fulfillment}</Text>
+          )}
+        </View>
+        <QrCode value={receipt.orderId} size={96} />
+      </View>
+
+      {receipt.lines.length > 0 && (
+        <View className="mt-4 pt-3 border-t border-neutral-200">
+          {receipt.lines.map((line, index) => (
+            <View key={index} className="flex-row justify-between py-2 border-b border-neutral-100">
+              <View className="flex-1 pr-3">
+                <Text className="text-sm font-semibold text-neutral-800">{line.name}</Text>
+                {line.variantName && (
+                  <Text className="text-xs text-neutral-500">{line.variantName}</Text>
+                )}
+                <Text className="text-xs text-neutral-500">
+                  {line.quantity} × {money(line.price)} · {line.appliedRole} pricing
+                </Text>
+                {line.originalPrice !== line.price && (
+                  <Text className="text-xs text-neutral-400 line-through">{money(line.originalPrice)}</Text>
+                )}
+              </View>
+              <Text className="text-sm font-medium text-neutral-800">{money(line.total)}</Text>
+            </View>
+          ))}
+
+          <View className="mt-2">
+            <TotalRow label="Subtotal" value={money(receipt.subtotal)} />
+            {receipt.discount > 0 && (
+              <TotalRow label="Discount" value={`-${money(receipt.discount)}`} />
+            )}
+            {receipt.fulfillmentFee > 0 && (
+              <TotalRow label="Delivery Fee" value={money(receipt.fulfillmentFee)} />
+            )}
+            <TotalRow label="Total" value={money(receipt.total)} isGrand />
+          </View>
+        </View>
+      )}
+
+      <View className="mt-4 pt-3 border-t border-neutral-200">
+        <Text className="text-sm font-semibold text-neutral-800 mb-1">Payments</Text>
+        {receipt.payments.length === 0 ? (
+          <Text className="text-xs text-neutral-500">No verified payments yet.</Text>
+        ) : (
+          <>
+            {receipt.payments.map((payment, index) => (
+              <View key={index} className="flex-row justify-between py-1">
+                <View className="flex-1 pr-3">
+                  <Text className="text-sm text-neutral-800">{payment.method}</Text>
+                  <Text className="text-xs text-neutral-500">
+                    Ref. {payment.referenceNo || 'N/A'} · {formatDate(payment.date)}
+                  </Text>
+                </View>
+                <Text className="text-sm text-neutral-800">{money(payment.amount)}</Text>
+              </View>
+            ))}
+            <TotalRow label="Amount Paid" value={money(receipt.amountPaid)} isGrand />
+          </>
+        )}
+      </View>
+    </View>
+  );
+});
+
+ReceiptView.displayName = 'ReceiptView';
+
+export default ReceiptView;
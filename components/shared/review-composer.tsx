@@ -0,0 +1,108 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, Alert } from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import type { Review } from '@prisma/client';
+import { Button } from '@/components/ui/Button';
+import { TextInput } from '@/components/ui/TextInput';
+import { useCreateReview, useUpdateReview } from '@/lib/hooks/use-mutations';
+import { reviewSchema, type ReviewFormData } from '@/lib/validations/forms';
+
+const RATING_LABELS = ['Poor', 'Fair', 'Good', 'Very good', 'Excellent'];
+
+interface ReviewComposerProps {
+  productId: string;
+  userId: string;
+  // Present when editing an existing review
+  review?: Pick<Review, 'id' | 'rating' | 'comment'>;
+  onDone: () => void;
+}
+
+export default function ReviewComposer({ productId, userId, review, onDone }: ReviewComposerProps) {
+  const createReviewMutation = useCreateReview();
+  const updateReviewMutation = useUpdateReview();
+  const isSaving = createReviewMutation.isPending || updateReviewMutation.isPending;
+
+  const { control, handleSubmit, watch, formState: { errors } } = useForm<ReviewFormData>({
+    resolver: zodResolver(reviewSchema),
+    defaultValues: {
+      rating: review?.rating ?? 0,
+      comment: review?.comment ?? '',
+    },
+  });
+  const rating = watch('rating');
+
+  const onSubmit = handleSubmit((values) => {
+    const data = { rating: values.rating, comment: values.comment || undefined };
+    const options = {
+      onSuccess: onDone,
+      onError: (error: Error) => {
+        Alert.alert('Review Not Saved', error.message || "We couldn't save your review. Please try again.");
+      },
+    };
+
+    if (review) {
+      updateReviewMutation.mutate({ id: review.id, data }, options);
+    } else {
+      createReviewMutation.mutate({ ...data, productId, userId }, options);
+    }
+  });
+
+  return (
+    <View className="mb-4 p-3 bg-white dark:bg-neutral-800 rounded-xl border border-neutral-200 dark:border-neutral-700">
+      <Text className="font-semibold text-neutral-800 dark:text-white mb-2">
+        {review ? 'Edit Your Review' : 'Write a Review'}
+      </Text>
+
+      <Controller
+        control={control}
+        name="rating"
+        render={({ field: { onChange, value } }) => (
+          <View className="flex-row items-center mb-1">
+            {[1, 2, 3, 4, 5].map(stars => (
+              <TouchableOpacity key={`composer-star-${stars}`} onPress={() => onChange(stars)} className="mr-1.5 p-0.5">
+                <FontAwesome name={stars <= value ? 'star' : 'star-o'} size={28} color="#FFC107" />
+              </TouchableOpacity>
+            ))}
+            {rating > 0 && (
+              <Text className="ml-2 text-sm text-neutral-600 dark:text-neutral-400">{RATING_LABELS[rating - 1]}</Text>
+            )}
+          </View>
+        )}
+      />
+      {errors.rating?.message ? (
+        <Text className="text-sm text-red-500 mb-1">{errors.rating.message}</Text>
+      ) : null}
+
+      <Controller
+        control={control}
+        name="comment"
+        render={({ field: { onChange, value } }) => (
+          <TextInput
+            value={value}
+            onChangeText={onChange}
+            placeholder="What did you like or dislike? (optional)"
+            multiline
+            numberOfLines={4}
+            className="mt-2 mb-3"
+            error={errors.comment?.message}
+          />
+        )}
+      />
+
+      <View className="flex-row">
+        <Button title="Cancel" variant="outline" size="sm" className="flex-1 mr-2" onPress={onDone} disabled={isSaving} />
+        <Button
+          title={review ? 'Save Review' : 'Post Review'}
+          icon="check"
+          size="sm"
+          className="flex-1"
+          isLoading={isSaving}
+          disabled={isSaving}
+          onPress={onSubmit}
+        />
+      </View>
+    </View>
+  );
+}
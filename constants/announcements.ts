@@ -0,0 +1,34 @@
+import type { ComponentProps } from 'react';
+import type FontAwesome from '@expo/vector-icons/FontAwesome';
+import type { AnnouncementLevel } from '@prisma/client';
+
+export const ANNOUNCEMENT_LEVEL_DETAILS: Record<AnnouncementLevel, {
+  label: string;
+  icon: ComponentProps<typeof FontAwesome>['name'];
+  color: string;
+  // Card background and text classes
+  className: string;
+  textClassName: string;
+}> = {
+  INFO: {
+    label: 'Info',
+    icon: 'info-circle',
+    color: '#2C59DB',
+    className: 'bg-blue-100 dark:bg-blue-900',
+    textClassName: 'text-blue-800 dark:text-blue-300',
+  },
+  WARNING: {
+    label: 'Heads up',
+    icon: 'exclamation-triangle',
+    color: '#D97706',
+    className: 'bg-amber-100 dark:bg-amber-900',
+    textClassName: 'text-amber-800 dark:text-amber-300',
+  },
+  CRITICAL: {
+    label: 'Important',
+    icon: 'bullhorn',
+    color: '#DC2626',
+    className: 'bg-red-100 dark:bg-red-900',
+    textClassName: 'text-red-800 dark:text-red-300',
+  },
+};
@@ -0,0 +1,47 @@
+import type { ComponentProps } from 'react';
+import type FontAwesome from '@expo/vector-icons/FontAwesome';
+import type { FulfillmentMethod } from '@prisma/client';
+import type { FulfillmentConfig } from '@/types/fulfillment';
+
+/**
+ * Used until the server config loads, or when it cannot be fetched
+ */
+export const DEFAULT_FULFILLMENT_CONFIG: FulfillmentConfig = {
+  methods: ['CAMPUS_PICKUP', 'COLLEGE_PICKUP', 'DELIVERY'],
+  pickupPoints: [
+    {
+      id: 'main-campus',
+      name: 'Main Campus Merch Booth',
+      location: 'Student Center Lobby',
+      college: null,
+      schedule: 'Mon-Fri, 9:00 AM - 5:00 PM',
+    },
+  ],
+  delivery: {
+    baseFee: 150,
+    freeThreshold: 1000,
+    collegeSubsidies: {},
+  },
+};
+
+export const FULFILLMENT_METHODS: Record<FulfillmentMethod, {
+  label: string;
+  description: string;
+  icon: ComponentProps<typeof FontAwesome>['name'];
+}> = {
+  CAMPUS_PICKUP: {
+    label: 'Campus Pickup',
+    description: 'Pick up your order at the main campus booth',
+    icon: 'university',
+  },
+  COLLEGE_PICKUP: {
+    label: 'College Pickup',
+    description: 'Pick up your order from your college',
+    icon: 'map-marker',
+  },
+  DELIVERY: {
+    label: 'Delivery',
+    description: 'Have your order delivered to your address',
+    icon: 'truck',
+  },
+};
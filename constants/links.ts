@@ -0,0 +1,6 @@
+// Must match `scheme` in app.json
+export const APP_SCHEME = 'myapp';
+
+// Website whose links open in the app; app.json lists it under associatedDomains and intentFilters
+export const APP_LINK_HOST = 'merchtrack.tech';
+export const APP_LINK_ORIGIN = `https://${APP_LINK_HOST}`;
@@ -0,0 +1,35 @@
+import type { ComponentProps } from 'react';
+import type FontAwesome from '@expo/vector-icons/FontAwesome';
+import type { NotificationCategory } from '@/types/notification';
+
+export const NOTIFICATION_CATEGORY_DETAILS: Record<NotificationCategory, {
+  label: string;
+  description: string;
+  icon: ComponentProps<typeof FontAwesome>['name'];
+}> = {
+  order: {
+    label: 'Order updates',
+    description: 'When an order is being processed, ready or delivered',
+    icon: 'shopping-bag',
+  },
+  fulfillment: {
+    label: 'Pickup and delivery',
+    description: 'When your merch is in production or ready to claim',
+    icon: 'truck',
+  },
+  payment: {
+    label: 'Payments',
+    description: 'When a payment is verified, declined or refunded',
+    icon: 'credit-card',
+  },
+  ticket: {
+    label: 'Support tickets',
+    description: 'Replies and status changes on your tickets',
+    icon: 'ticket',
+  },
+  announcement: {
+    label: 'Critical announcements',
+    description: 'Urgent notices such as pickup schedule changes',
+    icon: 'bullhorn',
+  },
+};
@@ -0,0 +1,82 @@
+import type { ComponentProps } from 'react';
+import type FontAwesome from '@expo/vector-icons/FontAwesome';
+import type { PaymentMethod, PaymentStatus } from '@prisma/client';
+
+export type OnlinePaymentMethod = Extract<PaymentMethod, 'GCASH' | 'MAYA' | 'BANK_TRANSFER'>;
+
+export type MerchantAccount = {
+  accountName: string;
+  accountNumber: string;
+  bankName?: string;
+  instructions: string;
+};
+
+export const ONLINE_PAYMENT_METHODS: OnlinePaymentMethod[] = ['GCASH', 'MAYA', 'BANK_TRANSFER'];
+
+export const PAYMENT_METHOD_DETAILS: Record<PaymentMethod, {
+  label: string;
+  icon: ComponentProps<typeof FontAwesome>['name'];
+}> = {
+  CASH: { label: 'Cash', icon: 'money' },
+  BANK_TRANSFER: { label: 'Bank Transfer', icon: 'bank' },
+  GCASH: { label: 'GCash', icon: 'mobile' },
+  MAYA: { label: 'Maya', icon: 'credit-card' },
+  OTHERS: { label: 'Others', icon: 'ellipsis-h' },
+};
+
+export const PAYMENT_STATUS_DETAILS: Record<PaymentStatus, {
+  label: string;
+  icon: ComponentProps<typeof FontAwesome>['name'];
+  // Chip background and text classes
+  className: string;
+  textClassName: string;
+}> = {
+  PENDING: {
+    label: 'Pending',
+    icon: 'clock-o',
+    className: 'bg-yellow-100 dark:bg-yellow-900',
+    textClassName: 'text-yellow-800 dark:text-yellow-300',
+  },
+  PROCESSING: {
+    label: 'Processing',
+    icon: 'spinner',
+    className: 'bg-blue-100 dark:bg-blue-900',
+    textClassName: 'text-blue-800 dark:text-blue-300',
+  },
+  VERIFIED: {
+    label: 'Verified',
+    icon: 'check-circle',
+    className: 'bg-green-100 dark:bg-green-900',
+    textClassName: 'text-green-800 dark:text-green-300',
+  },
+  DECLINED: {
+    label: 'Declined',
+    icon: 'times-circle',
+    className: 'bg-red-100 dark:bg-red-900',
+    textClassName: 'text-red-800 dark:text-red-300',
+  },
+  FAILED: {
+    label: 'Failed',
+    icon: 'exclamation-circle',
+    className: 'bg-red-100 dark:bg-red-900',
+    textClassName: 'text-red-800 dark:text-red-300',
+  },
+  CANCELLED: {
+    label: 'Cancelled',
+    icon: 'ban',
+    className: 'bg-neutral-200 dark:bg-neutral-700',
+    textClassName: 'text-neutral-700 dark:text-neutral-300',
+  },
+  REFUND_PENDING: {
+    label: 'Refund Pending',
+    icon: 'undo',
+    className: 'bg-purple-100 dark:bg-purple-900',
+    textClassName: 'text-purple-800 dark:text-purple-300',
+  },
+  REFUNDED: {
+    label: 'Refunded',
+    icon: 'undo',
+    className: 'bg-indigo-100 dark:bg-indigo-900',
+    textClassName: 'text-indigo-800 dark:text-indigo-300',
+  },
+};
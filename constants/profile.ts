@@ -0,0 +1,53 @@
+import type { ComponentProps } from 'react';
+import type FontAwesome from '@expo/vector-icons/FontAwesome';
+import type { College, Role } from '@prisma/client';
+
+// Placeholder the database stores for a missing phone number or course
+export const UNSET_PROFILE_VALUE = 'nan';
+
+export const ROLE_DETAILS: Record<Role, {
+  label: string;
+  description: string;
+  icon: ComponentProps<typeof FontAwesome>['name'];
+}> = {
+  STUDENT: {
+    label: 'Student',
+    description: 'Currently enrolled',
+    icon: 'graduation-cap',
+  },
+  PLAYER: {
+    label: 'Player',
+    description: 'Varsity or org athlete',
+    icon: 'trophy',
+  },
+  STAFF_FACULTY: {
+    label: 'Staff / Faculty',
+    description: 'University employee',
+    icon: 'briefcase',
+  },
+  ALUMNI: {
+    label: 'Alumni',
+    description: 'Graduated from the university',
+    icon: 'certificate',
+  },
+  OTHERS: {
+    label: 'Others',
+    description: 'Family, friends and guests',
+    icon: 'user',
+  },
+};
+
+// Order shown in pickers; NOT_APPLICABLE goes last
+export const COLLEGE_OPTIONS: College[] = ['COCS', 'STEP', 'ABBS', 'JPIA', 'ACHSS', 'ANSA', 'COL', 'AXI', 'NOT_APPLICABLE'];
+
+export const COLLEGE_LABELS: Record<College, string> = {
+  COCS: 'COCS',
+  STEP: 'STEP',
+  ABBS: 'ABBS',
+  JPIA: 'JPIA',
+  ACHSS: 'ACHSS',
+  ANSA: 'ANSA',
+  COL: 'COL',
+  AXI: 'AXI',
+  NOT_APPLICABLE: 'Not applicable',
+};
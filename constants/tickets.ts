@@ -0,0 +1,93 @@
+import type { ComponentProps } from 'react';
+import type FontAwesome from '@expo/vector-icons/FontAwesome';
+import type { TicketPriority } from '@prisma/client';
+import { TicketStatus } from '@/types/ticket';
+
+export const TICKET_STATUS_DETAILS: Record<TicketStatus, {
+  label: string;
+  icon: ComponentProps<typeof FontAwesome>['name'];
+  iconColor: string;
+  // Chip background and text classes
+  color: string;
+}> = {
+  [TicketStatus.OPEN]: {
+    label: 'Open',
+    icon: 'envelope-open',
+    iconColor: '#047857',
+    color: 'bg-green-100 text-green-800',
+  },
+  [TicketStatus.IN_PROGRESS]: {
+    label: 'In Progress',
+    icon: 'spinner',
+    iconColor: '#1E40AF',
+    color: 'bg-blue-100 text-blue-800',
+  },
+  [TicketStatus.RESOLVED]: {
+    label: 'Resolved',
+    icon: 'check-circle',
+    iconColor: '#4B5563',
+    color: 'bg-gray-100 text-gray-800',
+  },
+  [TicketStatus.CLOSED]: {
+    label: 'Closed',
+    icon: 'times-circle',
+    iconColor: '#B91C1C',
+    color: 'bg-red-100 text-red-800',
+  },
+};
+
+export type TicketTemplateId = 'WRONG_SIZE' | 'MISSING_ITEM' | 'DAMAGED_ITEM' | 'PAYMENT_NOT_REFLECTED' | 'OTHER';
+
+// What a template is about: an order, a payment, or anything
+export type TicketContext = 'order' | 'payment' | null;
+
+export const TICKET_TEMPLATES: Record<TicketTemplateId, {
+  label: string;
+  icon: ComponentProps<typeof FontAwesome>['name'];
+  context: TicketContext;
+  title: string;
+  // Prompt the customer fills in, so staff get the details they need up front
+  description: string;
+  priority: TicketPriority;
+}> = {
+  WRONG_SIZE: {
+    label: 'Wrong size',
+    icon: 'arrows-h',
+    context: 'order',
+    title: 'Wrong size received',
+    description: 'Item: \nSize I ordered: \nSize I received: ',
+    priority: 'MEDIUM',
+  },
+  MISSING_ITEM: {
+    label: 'Missing item',
+    icon: 'archive',
+    context: 'order',
+    title: 'Item missing from my order',
+    description: 'Missing item and quantity: ',
+    priority: 'HIGH',
+  },
+  DAMAGED_ITEM: {
+    label: 'Damaged item',
+    icon: 'chain-broken',
+    context: 'order',
+    title: 'Item arrived damaged',
+    description: 'Damaged item: \nWhat is wrong with it: ',
+    priority: 'MEDIUM',
+  },
+  PAYMENT_NOT_REFLECTED: {
+    label: 'Payment not reflected',
+    icon: 'credit-card',
+    context: 'payment',
+    title: 'Payment not reflected',
+    description: 'Amount paid: \nDate paid: \nReference number: ',
+    priority: 'HIGH',
+  },
+  OTHER: {
+    label: 'Something else',
+    icon: 'question-circle',
+    context: null,
+    title: '',
+    description: '',
+    priority: 'MEDIUM',
+  },
+};
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { z } from 'zod';
+import {
+  ApiError,
+  AuthError,
+  fetchApi,
+  getRetryDelay,
+  NetworkError,
+  NotFoundError,
+  TimeoutError,
+  ValidationError,
+} from '../api';
+import { apiResponseSchema } from '../validations/api';
+
+const jsonResponse = (status: number, body: unknown) => new Response(JSON.stringify(body), {
+  status,
+  headers: { 'Content-Type': 'application/json' },
+});
+
+const fetchMock = jest.fn<typeof fetch>();
+const originalFetch = global.fetch;
+
+describe('fetchApi', () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  it('sends the bearer token and JSON body', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(200, { success: true }));
+
+    await fetchApi('/orders', { method: 'POST', body: { take: 1 }, token: 'session-token' });
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init?.body).toBe('{"take":1}');
+    expect(init?.headers).toMatchObject({ Authorization: 'Bearer session-token' });
+  });
+
+  it('handles empty 204 responses', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+
+    await expect(fetchApi('/tickets/1', { method: 'DELETE' })).resolves.toBeUndefined();
+  });
+
+  it('does not crash on HTML error pages', async () => {
+    fetchMock.mockResolvedValue(new Response('<html>Bad Gateway</html>', {
+      status: 502,
+      statusText: 'Bad Gateway',
+      headers: { 'Content-Type': 'text/html' },
+    }));
+
+    const error = await fetchApi('/orders', { method: 'POST' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 502, message: 'Bad Gateway' });
+  });
+
+  it('maps error statuses to ApiError subclasses', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(401, { message: 'Unauthorized' }));
+    await expect(fetchApi('/users/me', { method: 'POST' })).rejects.toBeInstanceOf(AuthError);
+
+    fetchMock.mockResolvedValueOnce(jsonResponse(404, { message: 'Order not found' }));
+    await expect(fetchApi('/orders/x', { method: 'POST' })).rejects.toBeInstanceOf(NotFoundError);
+
+    fetchMock.mockResolvedValueOnce(jsonResponse(422, { message: 'Invalid amount' }));
+    await expect(fetchApi('/payments/create', { method: 'POST' })).rejects.toMatchObject({
+      name: 'ValidationError',
+      message: 'Invalid amount',
+    });
+  });
+
+  it('retries transient failures of idempotent requests', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(503, { message: 'Unavailable' }))
+      .mockRejectedValueOnce(new TypeError('Network request failed'))
+      .mockResolvedValueOnce(jsonResponse(200, { success: true }));
+
+    await expect(fetchApi('/settings/fulfillment', { method: 'GET' })).resolves.toEqual({ success: true });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry POSTs unless marked idempotent', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(503, { message: 'Unavailable' }));
+
+    await expect(fetchApi('/orders/create', { method: 'POST' })).rejects.toMatchObject({ status: 503 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockClear();
+    await expect(fetchApi('/orders', { method: 'POST' }, { idempotent: true, retries: 1 })).rejects.toMatchObject({ status: 503 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry client errors', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(404, { message: 'Not found' }));
+
+    await expect(fetchApi('/products/x', { method: 'GET' })).rejects.toBeInstanceOf(NotFoundError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('wraps connection failures in a NetworkError', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Network request failed'));
+
+    const error = await fetchApi('/orders', { method: 'POST' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error).toMatchObject({ status: 0 });
+  });
+
+  it('times out slow requests', async () => {
+    fetchMock.mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(new Error('Aborted')));
+    }));
+
+    await expect(fetchApi('/orders', { method: 'POST' }, { timeout: 20 })).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  it('passes caller cancellations through without retrying', async () => {
+    const controller = new AbortController();
+    const abortError = new Error('Aborted');
+    fetchMock.mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(abortError));
+    }));
+
+    const request = fetchApi('/products', { method: 'GET' }, { signal: controller.signal });
+    controller.abort();
+
+    await expect(request).rejects.toBe(abortError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('validates responses against a schema', async () => {
+    const schema = apiResponseSchema(z.object({ token: z.string() }));
+
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { success: true, data: { token: 'abc' } }));
+    await expect(fetchApi('/orders/1/pickup-token', { method: 'POST' }, { schema }))
+      .resolves.toEqual({ success: true, data: { token: 'abc' } });
+
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { success: true, data: { token: 42 } }));
+    const error = await fetchApi('/orders/1/pickup-token', { method: 'POST' }, { schema }).catch(e => e);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.issues).toHaveLength(1);
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('backs off exponentially up to a cap', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+
+    expect(getRetryDelay(0)).toBe(300);
+    expect(getRetryDelay(1)).toBe(600);
+    expect(getRetryDelay(2)).toBe(1200);
+    expect(getRetryDelay(10)).toBe(4000);
+
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from '@jest/globals';
+import { normalizeQueryParams, orderKeys, productKeys, userKeys } from '../query-keys';
+
+describe('normalizeQueryParams', () => {
+  it('is independent of key order', () => {
+    const a = normalizeQueryParams({ take: 3, where: { customerId: 'u1', status: 'READY' }, orderBy: { createdAt: 'desc' } });
+    const b = normalizeQueryParams({ orderBy: { createdAt: 'desc' }, where: { status: 'READY', customerId: 'u1' }, take: 3 });
+
+    expect(JSON.stringify(a)).toBe(JSON.stringify(b));
+  });
+
+  it('drops undefined fields and serialises dates', () => {
+    expect(normalizeQueryParams({
+      take: undefined,
+      skip: undefined,
+      where: { createdAt: { gte: new Date('2025-01-01T00:00:00Z') } },
+    })).toEqual({ where: { createdAt: { gte: '2025-01-01T00:00:00.000Z' } } });
+  });
+
+  it('keeps array order', () => {
+    expect(normalizeQueryParams({ status: ['OPEN', 'CLOSED'] })).toEqual({ status: ['OPEN', 'CLOSED'] });
+  });
+});
+
+describe('query key factories', () => {
+  it('nests lists and details under the entity key', () => {
+    expect(orderKeys.list({ take: 3 })).toEqual(['orders', 'list', { take: 3 }]);
+    expect(orderKeys.detail('o1')).toEqual(['orders', 'detail', 'o1']);
+    expect(orderKeys.detail('o1', { include: { payments: true } }))
+      .toEqual(['orders', 'detail', 'o1', { include: { payments: true } }]);
+  });
+
+  it('gives different params different keys', () => {
+    expect(orderKeys.list({ where: { status: 'READY' } })).not.toEqual(orderKeys.list({ where: { status: 'PENDING' } }));
+  });
+
+  it('sorts cart product IDs', () => {
+    expect(productKeys.cart(['b', 'a'])).toEqual(productKeys.cart(['a', 'b']));
+  });
+
+  it('groups profiles so they can be invalidated together', () => {
+    expect(userKeys.profile('u1').slice(0, 2)).toEqual([...userKeys.profiles()]);
+  });
+});
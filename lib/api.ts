@@ -1,64 +1,283 @@
+import { useMemo } from 'react';
+import { useAuth } from '@clerk/clerk-expo';
+import type { ZodType } from 'zod';
+import { handleMockPickupRequest } from './mocks/pickup-api';
+
 const API_URL = process.env.EXPO_PUBLIC_API_URL ?? 'http://localhost:3000/api';
+const USE_MOCK_API = process.env.EXPO_PUBLIC_MOCK_API === 'true';
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 300;
+const RETRY_MAX_DELAY_MS = 4000;
+
+// Methods that can be sent again without side effects
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE'];
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
 
 export class ApiError extends Error {
-  constructor(public status: number, message: string) {
+  constructor(
+    public status: number,
+    message: string,
+    public data?: unknown
+  ) {
     super(message);
     this.name = 'ApiError';
   }
+
+  // Whether sending the same request again might succeed
+  get isRetryable() {
+    return RETRYABLE_STATUSES.includes(this.status);
+  }
 }
 
-export async function fetchApi<T>(
-  path: string,
-  options: RequestInit = {}
-): Promise<T> {
-  const response = await fetch(`${API_URL}${path}`, {
-    ...options,
-    headers: {
-      'Content-Type': 'application/json',
-      ...options.headers,
-    },
-  });
+/**
+ * The request never reached the server or the connection dropped.
+ * Status is 0 since there is no HTTP response.
+ */
+export class NetworkError extends ApiError {
+  constructor(message = 'Unable to reach the server. Check your connection and try again.', public cause?: unknown) {
+    super(0, message);
+    this.name = 'NetworkError';
+  }
 
-  const data = await response.json();
+  get isRetryable() {
+    return true;
+  }
+}
+
+export class TimeoutError extends NetworkError {
+  constructor(timeout: number) {
+    super(`The request timed out after ${Math.round(timeout / 1000)}s`);
+    this.name = 'TimeoutError';
+  }
+}
 
-  if (!response.ok) {
-    throw new ApiError(response.status, data.message || 'Something went wrong');
+// 401 and 403 responses, or a missing session token
+export class AuthError extends ApiError {
+  constructor(status: number, message: string, data?: unknown) {
+    super(status, message, data);
+    this.name = 'AuthError';
   }
+}
 
-  return data as T;
+/**
+ * 400 and 422 responses, or a response that failed schema validation.
+ * `issues` holds the zod issues when the response itself was malformed.
+ */
+export class ValidationError extends ApiError {
+  constructor(status: number, message: string, data?: unknown, public issues?: unknown[]) {
+    super(status, message, data);
+    this.name = 'ValidationError';
+  }
 }
 
-export function useApiClient() {
-  const fetchWithAuth = async <T>(
-    path: string,
-    options: RequestInit = {}
-  ): Promise<T> => {
-    const token = process.env.EXPO_PUBLIC_API_TOKEN;
-    if (!token) {
-      throw new Error('API token is not defined in the environment variables');
+export class NotFoundError extends ApiError {
+  constructor(message: string, data?: unknown) {
+    super(404, message, data);
+    this.name = 'NotFoundError';
+  }
+}
+
+export type RequestOptions<T = unknown> = {
+  // Cancels the request, e.g. the signal React Query passes to queryFn
+  signal?: AbortSignal;
+  // Milliseconds before the request is aborted with a TimeoutError
+  timeout?: number;
+  // Retry attempts for transient failures; defaults to 2 for idempotent methods and 0 otherwise
+  retries?: number;
+  // Marks a non-idempotent request (e.g. a POST read) as safe to retry
+  idempotent?: boolean;
+  // Validates the parsed response body
+  schema?: ZodType<T>;
+  headers?: Record<string, string>;
+};
+
+type FetchInit = {
+  method: string;
+  body?: unknown;
+  token?: string | null;
+};
+
+/**
+ * Maps an error status to the matching ApiError subclass
+ */
+export function createApiError(status: number, message: string, data?: unknown): ApiError {
+  if (status === 401 || status === 403) return new AuthError(status, message, data);
+  if (status === 404) return new NotFoundError(message, data);
+  if (status === 400 || status === 422) return new ValidationError(status, message, data);
+  return new ApiError(status, message, data);
+}
+
+const getErrorMessage = (data: unknown, fallback: string) => {
+  if (data && typeof data === 'object' && 'message' in data && typeof data.message === 'string' && data.message) {
+    return data.message;
+  }
+  return fallback;
+};
+
+// Reads the body without assuming JSON, so 204s and HTML error pages don't throw
+const parseBody = async (response: Response): Promise<unknown> => {
+  if (response.status === 204 || response.status === 205) return undefined;
+
+  const text = await response.text();
+  if (!text) return undefined;
+
+  const contentType = response.headers.get('content-type') ?? '';
+  if (contentType.includes('json')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new ApiError(response.status, 'The server sent an invalid response');
     }
-    return fetchApi<T>(path, {
-      ...options,
+  }
+
+  return text;
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason);
+    return;
+  }
+
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+
+  function onAbort() {
+    clearTimeout(timer);
+    reject(signal?.reason);
+  }
+
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Exponential backoff with jitter: ~300ms, ~600ms, ~1.2s, capped at 4s
+ */
+export function getRetryDelay(attempt: number): number {
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+const resolveMockRequest = <T>(path: string, init: FetchInit): T | undefined => {
+  const mocked = handleMockPickupRequest(init.method, path, init.body as Record<string, unknown> | undefined);
+  if (!mocked) return undefined;
+
+  if (mocked.status >= 400) {
+    throw createApiError(mocked.status, getErrorMessage(mocked.body, 'Something went wrong'), mocked.body);
+  }
+  return mocked.body as T;
+};
+
+const sendRequest = async (path: string, init: FetchInit, options: RequestOptions<unknown>) => {
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT_MS;
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeout);
+  const abortFromCaller = () => controller.abort(options.signal?.reason);
+  options.signal?.addEventListener('abort', abortFromCaller, { once: true });
+
+  try {
+    const response = await fetch(`${API_URL}${path}`, {
+      method: init.method,
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+      signal: controller.signal,
       headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+        ...(init.token ? { Authorization: `Bearer ${init.token}` } : {}),
         ...options.headers,
-        Authorization: `Bearer ${token}`,
       },
     });
-  };
-
-  return {
-    get: <T>(path: string) => fetchWithAuth<T>(path, { method: 'GET' }),
-    post: <T>(path: string, data: unknown) =>
-      fetchWithAuth<T>(path, {
-        method: 'POST',
-        body: JSON.stringify(data),
-      }),
-    put: <T>(path: string, data: unknown) =>
-      fetchWithAuth<T>(path, {
-        method: 'PUT',
-        body: JSON.stringify(data),
-      }),
-    delete: <T>(path: string) =>
-      fetchWithAuth<T>(path, { method: 'DELETE' }),
-  };
-}
\ No newline at end of file
+
+    const data = await parseBody(response);
+
+    if (!response.ok) {
+      throw createApiError(response.status, getErrorMessage(data, response.statusText || 'Something went wrong'), data);
+    }
+
+    return data;
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    // Caller cancellations pass through untouched so React Query can ignore them
+    if (options.signal?.aborted) throw error;
+    if (timedOut) throw new TimeoutError(timeout);
+    throw new NetworkError(undefined, error);
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', abortFromCaller);
+  }
+};
+
+/**
+ * Sends a request to the API, retrying transient failures of idempotent calls
+ * @param path Path relative to EXPO_PUBLIC_API_URL
+ * @param init Method, JSON body and bearer token
+ * @param options Cancellation, timeout, retry and validation options
+ */
+export async function fetchApi<T>(
+  path: string,
+  init: FetchInit,
+  options: RequestOptions<T> = {}
+): Promise<T> {
+  if (USE_MOCK_API) {
+    const mocked = resolveMockRequest<T>(path, init);
+    if (mocked !== undefined) return mocked;
+  }
+
+  const canRetry = options.idempotent ?? IDEMPOTENT_METHODS.includes(init.method);
+  const retries = options.retries ?? (canRetry ? DEFAULT_RETRIES : 0);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const data = await sendRequest(path, init, options);
+
+      if (!options.schema) return data as T;
+
+      const result = options.schema.safeParse(data);
+      if (!result.success) {
+        throw new ValidationError(200, 'The server sent an unexpected response', data, result.error.issues);
+      }
+      return result.data;
+    } catch (error) {
+      const isRetryable = error instanceof ApiError && error.isRetryable;
+      if (!isRetryable || attempt >= retries || options.signal?.aborted) {
+        throw error;
+      }
+      await sleep(getRetryDelay(attempt), options.signal);
+    }
+  }
+}
+
+export function useApiClient() {
+  const { getToken } = useAuth();
+
+  return useMemo(() => {
+    const request = async <T>(method: string, path: string, body: unknown, options?: RequestOptions<T>) => {
+      // Clerk refreshes the session token as needed, so fetch it per request
+      const token = await getToken();
+      if (!token) {
+        throw new AuthError(401, 'You need to be signed in to do that');
+      }
+      return fetchApi<T>(path, { method, body, token }, options);
+    };
+
+    return {
+      get: <T>(path: string, options?: RequestOptions<T>) =>
+        request<T>('GET', path, undefined, options),
+      post: <T>(path: string, data: unknown, options?: RequestOptions<T>) =>
+        request<T>('POST', path, data, options),
+      put: <T>(path: string, data: unknown, options?: RequestOptions<T>) =>
+        request<T>('PUT', path, data, options),
+      delete: <T>(path: string, options?: RequestOptions<T>) =>
+        request<T>('DELETE', path, undefined, options),
+    };
+  }, [getToken]);
+}
@@ -0,0 +1,46 @@
+import { useCallback, useMemo } from 'react';
+import { useUserStore } from '@/stores/user.store';
+import { useAnnouncementStore } from '@/stores/announcement.store';
+import { countUnread, getBannerAnnouncement } from '@/utils/announcements';
+import { useRecentAnnouncements } from './use-queries';
+
+const NO_IDS: string[] = [];
+
+/**
+ * Read state of announcements for the signed-in user. Read and dismissed
+ * IDs are stored on the device, per user.
+ */
+export function useAnnouncementReadState() {
+  const userId = useUserStore((state) => state.user?.id);
+  const readIds = useAnnouncementStore((state) => (userId && state.readIds[userId]) || NO_IDS);
+  const dismissedIds = useAnnouncementStore((state) => (userId && state.dismissedIds[userId]) || NO_IDS);
+  const markReadForUser = useAnnouncementStore((state) => state.markRead);
+  const dismissForUser = useAnnouncementStore((state) => state.dismiss);
+
+  const markRead = useCallback((ids: string[]) => {
+    if (userId && ids.length > 0) markReadForUser(userId, ids);
+  }, [userId, markReadForUser]);
+
+  const dismiss = useCallback((id: string) => {
+    if (userId) dismissForUser(userId, id);
+  }, [userId, dismissForUser]);
+
+  const isRead = useCallback((id: string) => readIds.includes(id), [readIds]);
+
+  return { userId, readIds, dismissedIds, isRead, markRead, dismiss };
+}
+
+/**
+ * Unread count and the critical banner, based on the latest announcements
+ */
+export function useUnreadAnnouncements() {
+  const { userId, readIds, dismissedIds, dismiss } = useAnnouncementReadState();
+  const { data } = useRecentAnnouncements(!!userId);
+  const announcements = useMemo(() => data?.data ?? [], [data?.data]);
+
+  return {
+    unreadCount: useMemo(() => countUnread(announcements, readIds), [announcements, readIds]),
+    banner: useMemo(() => getBannerAnnouncement(announcements, readIds, dismissedIds), [announcements, readIds, dismissedIds]),
+    dismiss,
+  };
+}
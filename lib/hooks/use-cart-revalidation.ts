@@ -0,0 +1,49 @@
+import { useCallback, useMemo } from 'react';
+import { useCartStore } from '@/stores/cart.store';
+import { useCartProducts } from './use-queries';
+import { useRolePricing } from './use-role-pricing';
+import { applyCartRevalidation, CartLineCheck, revalidateCartItems } from '@/utils/cart-revalidation';
+
+/**
+ * Re-checks every cart line against live variant prices and inventory
+ */
+export function useCartRevalidation() {
+  const items = useCartStore((state) => state.items);
+  const setItems = useCartStore((state) => state.setItems);
+  const { customer } = useRolePricing();
+
+  const productIds = useMemo(
+    () => Array.from(new Set(items.map(item => item.productId))).sort(),
+    [items]
+  );
+
+  const { data, isFetching, isError, refetch } = useCartProducts(productIds);
+  const products = data?.data;
+
+  const checks = useMemo<CartLineCheck[]>(() => {
+    if (!products) return [];
+    return revalidateCartItems(items, products, customer);
+  }, [items, products, customer]);
+
+  const checksByItemId = useMemo(
+    () => Object.fromEntries(checks.map(check => [check.itemId, check])) as Record<string, CartLineCheck>,
+    [checks]
+  );
+
+  const hasIssues = checks.some(check => check.issues.length > 0);
+
+  const applyUpdates = useCallback(() => {
+    setItems(applyCartRevalidation(useCartStore.getState().items, checks));
+  }, [checks, setItems]);
+
+  return {
+    checksByItemId,
+    hasIssues,
+    // Lines are only trusted once the latest product data has been loaded
+    isVerified: !!products && !isFetching && !isError,
+    isChecking: isFetching,
+    isError,
+    recheck: refetch,
+    applyUpdates,
+  };
+}
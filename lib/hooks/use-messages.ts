@@ -0,0 +1,20 @@
+import { useMemo } from 'react';
+import { useUserStore } from '@/stores/user.store';
+import { countUnreadMessages, sortThreadsByActivity } from '@/utils/messages';
+import { useMessageThreads } from './use-queries';
+
+/**
+ * The signed-in user's message threads, most recently active first, with
+ * the unread total shared by the inbox and its tab badge
+ */
+export function useInbox() {
+  const user = useUserStore((state) => state.user);
+  const query = useMessageThreads(user);
+  const threads = useMemo(() => sortThreadsByActivity(query.data?.data ?? []), [query.data?.data]);
+
+  return {
+    ...query,
+    threads,
+    unreadCount: useMemo(() => countUnreadMessages(threads), [threads]),
+  };
+}
@@ -1,6 +1,21 @@
-import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { useApiClient } from '../api';
-import type { Product, Order } from '@prisma/client';
+import { onlineManager, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useUser } from '@clerk/clerk-expo';
+import { AuthError, useApiClient } from '../api';
+import { messageKeys, orderKeys, paymentKeys, productKeys, ticketKeys, userKeys } from '../query-keys';
+import type { CustomerSatisfactionSurvey, Product, Order, Fulfillment, FulfillmentMethod, Message, Payment, Review, Ticket, User } from '@prisma/client';
+import { ApiResponse } from '@/types/common';
+import type { CartSyncItem, ServerCart } from '@/utils/cart-sync';
+import type { PaymentReceipt, PaymentReceiptUploadInput } from '@/utils/payments';
+import type { MessageInput } from '@/types/message';
+import type { PushTokenInput } from '@/types/notification';
+import type { SurveyInput } from '@/types/survey';
+import type { TicketAttachment, TicketAttachmentUploadInput, TicketReplyInput } from '@/types/ticket';
+import type { Voucher } from '@/types/voucher';
+import type { PickupClaim } from '@/types/fulfillment';
+import type { OutboxAction, PaymentInput, ProfileInput, QueuedMutation, TicketInput } from '@/types/outbox';
+import { useOutboxStore } from '@/stores/outbox.store';
+import { useUserStore } from '@/stores/user.store';
+import { isQueuedMutation } from '@/utils/outbox';
 
 interface ProductInput {
   name: string;
@@ -13,14 +28,43 @@ interface ProductInput {
 }
 
 interface OrderInput {
-  products: Array<{
-    productId: string;
+  customerId: string;
+  orderItems: Array<{
+    variantId: string;
     quantity: number;
+    price: number;
+    originalPrice: number;
+    appliedRole: string;
+    customerNote?: string;
   }>;
-  shippingAddress: string;
-  paymentMethod: string;
+  totalAmount: number;
+  discountAmount: number;
+  voucherCode?: string;
+  fulfillmentMethod: FulfillmentMethod;
+  fulfillmentFee: number;
+  pickupPointId?: string;
+  deliveryAddress?: string;
 }
 
+interface ReviewInput {
+  productId: string;
+  userId: string;
+  rating: number;
+  comment?: string;
+}
+
+/**
+ * Saves the change to the outbox when the device is offline, to be sent once
+ * the connection returns
+ * @returns The queued marker, or undefined when online and the request should go out now
+ */
+const queueIfOffline = (action: OutboxAction, userId: string | undefined): QueuedMutation | undefined => {
+  if (onlineManager.isOnline() || !userId) return undefined;
+
+  const entry = useOutboxStore.getState().enqueue(action, userId);
+  return { queued: true, entryId: entry.id };
+};
+
 export function useCreateProduct() {
   const api = useApiClient();
   const queryClient = useQueryClient();
@@ -29,7 +73,8 @@ export function useCreateProduct() {
     mutationFn: (data: ProductInput) => 
       api.post<Product>('/products', data),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: productKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: productKeys.featured() });
     },
   });
 }
@@ -42,8 +87,9 @@ export function useUpdateProduct() {
     mutationFn: ({ id, data }: { id: string; data: Partial<ProductInput> }) =>
       api.put<Product>(`/products/${id}`, data),
     onSuccess: (_, variables) => {
-      queryClient.invalidateQueries({ queryKey: ['products'] });
-      queryClient.invalidateQueries({ queryKey: ['products', variables.id] });
+      queryClient.invalidateQueries({ queryKey: productKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: productKeys.featured() });
+      queryClient.invalidateQueries({ queryKey: productKeys.detail(variables.id) });
     },
   });
 }
@@ -55,8 +101,50 @@ export function useDeleteProduct() {
   return useMutation({
     mutationFn: (id: string) => 
       api.delete<void>(`/products/${id}`),
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: productKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: productKeys.featured() });
+      queryClient.removeQueries({ queryKey: productKeys.detail(id) });
+    },
+  });
+}
+
+export function useCreateReview() {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: ReviewInput) =>
+      api.post<ApiResponse<Review>>('/reviews/create', data),
+    onSuccess: () => {
+      // The server recalculates the product's rating and review count
+      queryClient.invalidateQueries({ queryKey: productKeys.all });
+    },
+  });
+}
+
+export function useUpdateReview() {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Pick<ReviewInput, 'rating' | 'comment'> }) =>
+      api.put<ApiResponse<Review>>(`/reviews/${id}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: productKeys.all });
+    },
+  });
+}
+
+export function useDeleteReview() {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) =>
+      api.delete<void>(`/reviews/${id}`),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: productKeys.all });
     },
   });
 }
@@ -67,9 +155,9 @@ export function useCreateOrder() {
   
   return useMutation({
     mutationFn: (data: OrderInput) =>
-      api.post<Order>('/orders', data),
+      api.post<ApiResponse<Order>>('/orders/create', data),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['orders'] });
+      queryClient.invalidateQueries({ queryKey: orderKeys.lists() });
     },
   });
 }
@@ -82,21 +170,297 @@ export function useUpdateOrder() {
     mutationFn: ({ id, data }: { id: string; data: Partial<OrderInput> }) =>
       api.put<Order>(`/orders/${id}`, data),
     onSuccess: (_, variables) => {
-      queryClient.invalidateQueries({ queryKey: ['orders'] });
-      queryClient.invalidateQueries({ queryKey: ['orders', variables.id] });
+      queryClient.invalidateQueries({ queryKey: orderKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: orderKeys.detail(variables.id) });
     },
   });
 }
 
+export function useSubmitSurvey() {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: SurveyInput) =>
+      api.post<ApiResponse<CustomerSatisfactionSurvey>>('/surveys/create', data),
+    onSuccess: (_, variables) => {
+      // The order now links to its survey, which marks the feedback as given
+      queryClient.invalidateQueries({ queryKey: orderKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: orderKeys.detail(variables.orderId) });
+    },
+  });
+}
+
+type ProfileSnapshot = {
+  previousUser: User | null;
+  previousProfile?: ApiResponse<User>;
+};
+
 export function useUpdateProfile() {
   const api = useApiClient();
   const queryClient = useQueryClient();
-  
+  const userId = useUserStore((state) => state.user?.id);
+
   return useMutation({
-    mutationFn: (data: { firstName?: string; lastName?: string; imageUrl?: string }) =>
-      api.put('/users/me', data),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['profile'] });
+    mutationFn: async (data: ProfileInput) => {
+      const queued = queueIfOffline({ type: 'profile.update', payload: data }, userId);
+      if (queued) return queued;
+
+      return api.put<ApiResponse<User>>('/users/me', data);
+    },
+    // Runs offline too, so the change can be queued instead of paused
+    networkMode: 'always',
+    // Show the change right away and keep what was there to roll back to
+    onMutate: async (data): Promise<ProfileSnapshot> => {
+      const { user: previousUser, setUser } = useUserStore.getState();
+      if (!previousUser) return { previousUser };
+
+      const profileKey = userKeys.profile(previousUser.clerkId);
+      await queryClient.cancelQueries({ queryKey: profileKey });
+      const previousProfile = queryClient.getQueryData<ApiResponse<User>>(profileKey);
+
+      const changes = Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+      const optimisticUser = { ...previousUser, ...changes } as User;
+      setUser(optimisticUser);
+      queryClient.setQueryData<ApiResponse<User>>(profileKey, { ...previousProfile, success: true, data: optimisticUser });
+
+      return { previousUser, previousProfile };
+    },
+    onError: (_error, _data, context) => {
+      if (!context?.previousUser) return;
+
+      useUserStore.getState().setUser(context.previousUser);
+      queryClient.setQueryData(userKeys.profile(context.previousUser.clerkId), context.previousProfile);
+    },
+    onSuccess: (response) => {
+      if (isQueuedMutation(response)) return;
+      // Apply the saved profile right away instead of waiting for the refetch
+      if (response.data) {
+        useUserStore.getState().setUser(response.data);
+      }
+      queryClient.invalidateQueries({ queryKey: userKeys.profiles() });
+    },
+  });
+}
+
+/**
+ * Uploads a new profile photo to Clerk, then saves its URL on the user
+ * @returns The profile update response
+ */
+export function useUpdateAvatar() {
+  const { user: clerkUser } = useUser();
+  const { mutateAsync: updateProfile } = useUpdateProfile();
+
+  return useMutation({
+    mutationFn: async (dataUri: string) => {
+      if (!clerkUser) {
+        throw new AuthError(401, 'You need to be signed in to do that');
+      }
+
+      const image = await clerkUser.setProfileImage({ file: dataUri });
+      // Clerk serves the photo from its own CDN URL, which the user resource has after a reload
+      await clerkUser.reload();
+      const imageUrl = clerkUser.imageUrl || image.publicUrl;
+      if (!imageUrl) {
+        throw new Error("We couldn't upload your photo. Please try again.");
+      }
+
+      return updateProfile({ imageUrl });
+    },
+  });
+}
+
+export function useSyncCart() {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ userId, items }: { userId: string; items: CartSyncItem[] }) =>
+      api.put<ApiResponse<ServerCart>>(`/users/${userId}/cart`, { items }),
+    onSuccess: (response, variables) => {
+      queryClient.setQueryData(userKeys.cart(variables.userId), response);
     },
   });
-}
\ No newline at end of file
+}
+
+export function useValidateVoucher() {
+  const api = useApiClient();
+
+  return useMutation({
+    mutationFn: (data: { code: string; customerId: string; subtotal: number }) =>
+      api.post<ApiResponse<Voucher>>('/vouchers/validate', data),
+  });
+}
+
+export function useCreatePayment() {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: PaymentInput) => {
+      const queued = queueIfOffline({ type: 'payment.create', payload: data }, data.userId);
+      if (queued) return queued;
+
+      return api.post<ApiResponse<Payment>>('/payments/create', data);
+    },
+    networkMode: 'always',
+    onSuccess: (response, variables) => {
+      if (isQueuedMutation(response)) return;
+      queryClient.invalidateQueries({ queryKey: paymentKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: orderKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: orderKeys.detail(variables.orderId) });
+    },
+  });
+}
+
+/**
+ * Uploads a payment receipt image. Payments only store the hosted URL,
+ * so they stay small enough to cache on the device and queue offline.
+ * @returns The receipt with its hosted URL
+ */
+export function useUploadPaymentReceipt() {
+  const api = useApiClient();
+
+  return useMutation({
+    mutationFn: async (data: PaymentReceiptUploadInput) => {
+      const response = await api.post<ApiResponse<PaymentReceipt>>('/payments/receipts', data);
+      if (!response.data?.url) {
+        throw new Error("We couldn't upload your receipt. Please try again.");
+      }
+      return response.data;
+    },
+  });
+}
+
+export function useCreateTicket() {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: TicketInput) => {
+      const queued = queueIfOffline({ type: 'ticket.create', payload: data }, data.userId);
+      if (queued) return queued;
+
+      return api.post<ApiResponse<Ticket>>('/tickets/create', data);
+    },
+    networkMode: 'always',
+    onSuccess: (response) => {
+      if (isQueuedMutation(response)) return;
+      queryClient.invalidateQueries({ queryKey: ticketKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Uploads an image for a ticket reply. Updates only store the hosted URL,
+ * so tickets stay small enough to cache on the device.
+ * @returns The attachment with its hosted URL
+ */
+export function useUploadTicketAttachment() {
+  const api = useApiClient();
+
+  return useMutation({
+    mutationFn: async ({ ticketId, ...data }: TicketAttachmentUploadInput) => {
+      const response = await api.post<ApiResponse<TicketAttachment>>(`/tickets/${ticketId}/attachments`, data);
+      if (!response.data?.url) {
+        throw new Error("We couldn't upload that image. Please try again.");
+      }
+      return response.data;
+    },
+  });
+}
+
+export function useAddTicketUpdate() {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ ticketId, ...data }: TicketReplyInput) =>
+      api.post<ApiResponse<Ticket>>(`/tickets/${ticketId}/updates`, data),
+    onSuccess: (response, variables) => {
+      // The server returns the ticket with the new update, so the thread shows it right away
+      if (response.data) {
+        queryClient.setQueryData(ticketKeys.detail(variables.ticketId), response);
+      } else {
+        queryClient.invalidateQueries({ queryKey: ticketKeys.detail(variables.ticketId) });
+      }
+      queryClient.invalidateQueries({ queryKey: ticketKeys.lists() });
+    },
+  });
+}
+
+export function useSendMessage() {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: MessageInput) =>
+      api.post<ApiResponse<Message>>('/messages/create', { ...data, isSentByCustomer: true }),
+    onSuccess: (_, variables) => {
+      if (variables.repliesToId) {
+        queryClient.invalidateQueries({ queryKey: messageKeys.detail(variables.repliesToId) });
+      }
+      queryClient.invalidateQueries({ queryKey: messageKeys.lists() });
+    },
+  });
+}
+
+export function useMarkThreadRead() {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (threadId: string) =>
+      api.put<ApiResponse<{ count: number }>>(`/messages/${threadId}/read`, {}),
+    onSuccess: (_, threadId) => {
+      // Refreshes the inbox badge along with the thread
+      queryClient.invalidateQueries({ queryKey: messageKeys.detail(threadId) });
+      queryClient.invalidateQueries({ queryKey: messageKeys.lists() });
+    },
+  });
+}
+
+export function useRegisterPushToken() {
+  const api = useApiClient();
+
+  return useMutation({
+    // Registering the same token again just moves it to the current user
+    mutationFn: (data: PushTokenInput) =>
+      api.put<ApiResponse<{ token: string }>>('/users/me/push-tokens', data, { idempotent: true }),
+  });
+}
+
+export function useUnregisterPushToken() {
+  const api = useApiClient();
+
+  return useMutation({
+    mutationFn: (token: string) =>
+      api.delete<void>(`/users/me/push-tokens/${encodeURIComponent(token)}`),
+  });
+}
+
+export function useVerifyPickup() {
+  const api = useApiClient();
+
+  return useMutation({
+    mutationFn: (data: { token: string }) =>
+      api.post<ApiResponse<PickupClaim>>('/fulfillments/pickup/verify', data),
+  });
+}
+
+export function useClaimPickup() {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: { token: string; processedById: string }) =>
+      api.post<ApiResponse<Fulfillment>>('/fulfillments/pickup/claim', data),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: orderKeys.lists() });
+      if (response.data) {
+        queryClient.invalidateQueries({ queryKey: orderKeys.detail(response.data.orderId) });
+        queryClient.invalidateQueries({ queryKey: orderKeys.pickupToken(response.data.orderId) });
+      }
+    },
+  });
+}
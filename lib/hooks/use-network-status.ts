@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from 'react';
+import { onlineManager } from '@tanstack/react-query';
+
+const subscribe = (onChange: () => void) => onlineManager.subscribe(onChange);
+const getIsOnline = () => onlineManager.isOnline();
+
+/**
+ * Whether the device is online, as tracked by React Query's online manager
+ * (fed by NetInfo in the query provider)
+ */
+export function useIsOnline() {
+  return useSyncExternalStore(subscribe, getIsOnline);
+}
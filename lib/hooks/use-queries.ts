@@ -1,16 +1,46 @@
-import { useQuery } from '@tanstack/react-query';
+import { useCallback, useMemo } from 'react';
+import { QueryKey, useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useApiClient } from '../api';
-import type { Product, Order, User, Payment } from '@prisma/client';
+import { announcementKeys, messageKeys, orderKeys, paymentKeys, productKeys, settingsKeys, surveyKeys, ticketKeys, userKeys } from '../query-keys';
+import type { Product, Order, User, Payment, SurveyCategory, Ticket, UserPermission } from '@prisma/client';
 import { ApiResponse, QueryParams } from '@/types/common';
+import { apiResponseSchema, pickupTokenSchema } from '@/lib/validations/api';
+import type { ServerCart } from '@/utils/cart-sync';
+import type { CartProduct } from '@/utils/cart-revalidation';
+import type { FulfillmentConfig, PickupToken } from '@/types/fulfillment';
+import type { AnnouncementWithAuthor } from '@/types/announcement';
+import type { MessageThread } from '@/types/message';
+import type { MerchantAccount, OnlinePaymentMethod } from '@/constants/payments';
+import { DEFAULT_PAGE_SIZE, flattenPages, getNextPageParam, keepFirstPage } from '@/utils/pagination';
 
 export function useProducts(params: QueryParams) {
   const api = useApiClient();
   
   return useQuery({
-    queryKey: ['products'],
-    queryFn: () => api.post<ApiResponse<Product[]>>('/products', {
+    queryKey: productKeys.list(params),
+    queryFn: ({ signal }) => api.post<ApiResponse<Product[]>>('/products', {
       ...params,
-    }),
+    }, { signal, idempotent: true }),
+  });
+}
+
+export function useCartProducts(productIds: string[]) {
+  const api = useApiClient();
+
+  return useQuery({
+    queryKey: productKeys.cart(productIds),
+    queryFn: ({ signal }) => api.post<ApiResponse<CartProduct[]>>('/products', {
+      take: productIds.length,
+      where: { id: { in: productIds } },
+      include: {
+        variants: true,
+        postedBy: { select: { college: true } }
+      }
+    }, { signal, idempotent: true }),
+    enabled: productIds.length > 0,
+    // Cart checks must always run against live prices and stock
+    staleTime: 0,
+    refetchOnMount: 'always',
   });
 }
 
@@ -18,10 +48,10 @@ export function useProduct(id: string, params: QueryParams = {}) {
   const api = useApiClient();
   
   return useQuery({
-    queryKey: ['products', id],
-    queryFn: () => api.post<ApiResponse<Product>>(`/products/${id}`, {
+    queryKey: productKeys.detail(id, params),
+    queryFn: ({ signal }) => api.post<ApiResponse<Product>>(`/products/${id}`, {
       ...params
-    }),
+    }, { signal, idempotent: true }),
     enabled: !!id,
   });
 }
@@ -30,10 +60,35 @@ export function useOrders(params: QueryParams) {
   const api = useApiClient();
 
   return useQuery({
-    queryKey: ['orders'],
-    queryFn: () => api.post<ApiResponse<Order[]>>('/orders', {
+    queryKey: orderKeys.list(params),
+    queryFn: ({ signal }) => api.post<ApiResponse<Order[]>>('/orders', {
       ...params
-    }),
+    }, { signal, idempotent: true }),
+  });
+}
+
+/**
+ * Whether the customer has a delivered order containing one of the product's variants,
+ * which is required before they can review it
+ */
+export function useCanReviewProduct(productId: string, userId: string | undefined) {
+  const api = useApiClient();
+  const params: QueryParams = {
+    where: {
+      customerId: userId ?? null,
+      status: 'DELIVERED',
+      orderItems: { some: { variant: { productId } } },
+    },
+    limit: 1,
+  };
+
+  return useQuery({
+    queryKey: orderKeys.list(params),
+    queryFn: ({ signal }) => api.post<ApiResponse<Order[]>>('/orders', {
+      ...params
+    }, { signal, idempotent: true }),
+    select: (response) => (response.data?.length ?? 0) > 0,
+    enabled: !!productId && !!userId,
   });
 }
 
@@ -41,10 +96,10 @@ export function useOrder(id: string, params: QueryParams) {
   const api = useApiClient();
   
   return useQuery({
-    queryKey: ['orders', id],
-    queryFn: () => api.post<ApiResponse<Order>>(`/orders/${id}`, {
+    queryKey: orderKeys.detail(id, params),
+    queryFn: ({ signal }) => api.post<ApiResponse<Order>>(`/orders/${id}`, {
       ...params
-    }),
+    }, { signal, idempotent: true }),
     enabled: !!id,
   });
 }
@@ -53,10 +108,10 @@ export function usePayments(params: QueryParams) {
   const api = useApiClient();
 
   return useQuery({
-    queryKey: ['payments'],
-    queryFn: () => api.post<ApiResponse<Payment[]>>('/payments', {
+    queryKey: paymentKeys.list(params),
+    queryFn: ({ signal }) => api.post<ApiResponse<Payment[]>>('/payments', {
       ...params
-    }),
+    }, { signal, idempotent: true }),
   });
 }
 
@@ -64,31 +119,316 @@ export function usePayment(id: string, params: QueryParams) {
   const api = useApiClient();
 
   return useQuery({
-    queryKey: ['payments', id],
-    queryFn: () => api.post<ApiResponse<Payment>>(`/payments/${id}`, {
+    queryKey: paymentKeys.detail(id, params),
+    queryFn: ({ signal }) => api.post<ApiResponse<Payment>>(`/payments/${id}`, {
       ...params
-    }),
+    }, { signal, idempotent: true }),
     enabled: !!id,
   });
 }
 
       
-export function useProfile(id: string) {
+/**
+ * Server profile of a signed-in user. This is the source of truth for role,
+ * college and staff flags; Clerk metadata can lag behind admin changes.
+ * @param clerkId Clerk user ID
+ */
+export function useProfile(clerkId: string) {
   const api = useApiClient();
   
   return useQuery({
-    queryKey: ['profile', id],
-    queryFn: () => api.get<ApiResponse<User>>(`/users/${id}`),
-    enabled: !!id,
+    queryKey: userKeys.profile(clerkId),
+    queryFn: ({ signal }) => api.get<ApiResponse<User>>(`/users/${clerkId}`, { signal }),
+    enabled: !!clerkId,
   });
 }
 
+/**
+ * Refetches the profile and permissions of the signed-in user
+ * @param userId Database ID of the user, for their permissions
+ */
+export function useRefreshProfile(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useCallback(async () => {
+    await Promise.all([
+      queryClient.invalidateQueries({ queryKey: userKeys.profiles() }),
+      userId ? queryClient.invalidateQueries({ queryKey: userKeys.permissions(userId) }) : undefined,
+    ]);
+  }, [queryClient, userId]);
+}
+
 export function useUserImageQuery(id: string) {
   const api = useApiClient();
   
   return useQuery({
-    queryKey: ['user-image', id],
-    queryFn: () => api.get<ApiResponse<string>>(`/users/image/${id}`),
+    queryKey: userKeys.image(id),
+    queryFn: ({ signal }) => api.get<ApiResponse<string>>(`/users/image/${id}`, { signal }),
     enabled: !!id,
   });
-}
\ No newline at end of file
+}
+
+export function useServerCart(userId: string) {
+  const api = useApiClient();
+
+  return useQuery({
+    queryKey: userKeys.cart(userId),
+    queryFn: ({ signal }) => api.post<ApiResponse<ServerCart | null>>(`/users/${userId}`, {
+      include: {
+        cartItems: {
+          include: {
+            variant: {
+              include: {
+                product: {
+                  select: { id: true, title: true, imageUrl: true, postedBy: { select: { college: true } } }
+                }
+              }
+            }
+          }
+        }
+      }
+    }, { signal, idempotent: true }),
+    enabled: !!userId,
+  });
+}
+
+export function useFulfillmentConfig() {
+  const api = useApiClient();
+
+  return useQuery({
+    queryKey: settingsKeys.fulfillment(),
+    queryFn: ({ signal }) => api.get<ApiResponse<Partial<FulfillmentConfig>>>('/settings/fulfillment', { signal }),
+    staleTime: 1000 * 60 * 30,
+  });
+}
+
+export function useMerchantAccounts() {
+  const api = useApiClient();
+
+  return useQuery({
+    queryKey: settingsKeys.merchantAccounts(),
+    queryFn: ({ signal }) => api.get<ApiResponse<Partial<Record<OnlinePaymentMethod, MerchantAccount>>>>('/settings/merchant-accounts', { signal }),
+    staleTime: 1000 * 60 * 30,
+  });
+}
+
+export function useSurveyCategory() {
+  const api = useApiClient();
+
+  return useQuery({
+    queryKey: surveyKeys.category(),
+    queryFn: ({ signal }) => api.get<ApiResponse<SurveyCategory>>('/surveys/category', { signal }),
+    staleTime: 1000 * 60 * 30,
+  });
+}
+
+export function useUserPermissions(userId: string) {
+  const api = useApiClient();
+
+  return useQuery({
+    queryKey: userKeys.permissions(userId),
+    queryFn: ({ signal }) => api.post<ApiResponse<User & { userPermissions: UserPermission[] }>>(`/users/${userId}`, {
+      include: { userPermissions: true }
+    }, { signal, idempotent: true }),
+    enabled: !!userId,
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
+export function usePickupToken(orderId: string, enabled: boolean) {
+  const api = useApiClient();
+
+  return useQuery({
+    queryKey: orderKeys.pickupToken(orderId),
+    queryFn: ({ signal }) => api.post<ApiResponse<PickupToken>>(`/orders/${orderId}/pickup-token`, {}, {
+      signal,
+      idempotent: true,
+      schema: apiResponseSchema(pickupTokenSchema),
+    }),
+    enabled: !!orderId && enabled,
+    // Tokens are short-lived, so fetch a fresh one before the current one expires
+    staleTime: 1000 * 60 * 5,
+    refetchInterval: 1000 * 60 * 5,
+  });
+}
+
+/**
+ * Pages through a list endpoint using `page`/`limit` and the response metadata.
+ * `refresh` drops every page but the first before refetching, and `loadMore`
+ * is safe to call repeatedly from scroll events.
+ */
+function useInfiniteList<T>(queryKey: QueryKey, path: string, params: QueryParams, enabled = true) {
+  const api = useApiClient();
+  const queryClient = useQueryClient();
+
+  const query = useInfiniteQuery({
+    queryKey,
+    queryFn: ({ pageParam, signal }) => api.post<ApiResponse<T[]>>(path, {
+      ...params,
+      // take/skip would override the page window on the server
+      take: undefined,
+      skip: undefined,
+      page: pageParam,
+      limit: params.limit ?? DEFAULT_PAGE_SIZE,
+    }, { signal, idempotent: true }),
+    initialPageParam: 1,
+    getNextPageParam,
+    enabled,
+  });
+
+  const { hasNextPage, isFetchingNextPage, fetchNextPage, refetch } = query;
+  const items = useMemo(() => flattenPages(query.data), [query.data]);
+
+  const loadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const refresh = useCallback(async () => {
+    queryClient.setQueryData(queryKey, keepFirstPage);
+    await refetch();
+  }, [queryClient, queryKey, refetch]);
+
+  return {
+    ...query,
+    items,
+    total: query.data?.pages[0]?.metadata?.total,
+    loadMore,
+    refresh,
+  };
+}
+
+export function useInfiniteProducts<T = Product>(params: QueryParams) {
+  return useInfiniteList<T>(productKeys.infinite(params), '/products', params);
+}
+
+export function useInfiniteOrders(params: QueryParams, enabled = true) {
+  return useInfiniteList<Order>(orderKeys.infinite(params), '/orders', params, enabled);
+}
+
+export function useInfinitePayments(params: QueryParams, enabled = true) {
+  return useInfiniteList<Payment>(paymentKeys.infinite(params), '/payments', params, enabled);
+}
+
+export function useTickets(params: QueryParams, enabled = true) {
+  const api = useApiClient();
+
+  return useQuery({
+    queryKey: ticketKeys.list(params),
+    queryFn: ({ signal }) => api.post<ApiResponse<Ticket[]>>('/tickets', {
+      ...params
+    }, { signal, idempotent: true }),
+    enabled,
+  });
+}
+
+// How often an open ticket thread checks for replies from support
+const TICKET_POLL_INTERVAL = 1000 * 20;
+
+export function useTicket(id: string) {
+  const api = useApiClient();
+
+  return useQuery({
+    queryKey: ticketKeys.detail(id),
+    queryFn: ({ signal }) => api.post<ApiResponse<Ticket>>(`/tickets/${id}`, {}, { signal, idempotent: true }),
+    enabled: !!id,
+    refetchInterval: TICKET_POLL_INTERVAL,
+  });
+}
+
+export function useInfiniteTickets(params: QueryParams, enabled = true) {
+  return useInfiniteList<Ticket>(ticketKeys.infinite(params), '/tickets', params, enabled);
+}
+
+// Replies are returned oldest first under `Message`, the relation's name on the model
+const messageReplies = {
+  Message: { orderBy: { createdAt: 'asc' } },
+};
+
+// How often the inbox and an open thread check for replies from staff
+const MESSAGE_POLL_INTERVAL = 1000 * 60;
+const MESSAGE_THREAD_POLL_INTERVAL = 1000 * 20;
+
+/**
+ * The signed-in user's message threads: ones they started, and ones staff
+ * started by writing to their email
+ */
+export function useMessageThreads(user: { id: string; email: string } | null | undefined) {
+  const api = useApiClient();
+  const params: QueryParams = {
+    where: {
+      repliesToId: null,
+      isArchived: false,
+      OR: [{ sentBy: user?.id ?? null }, { email: user?.email ?? null }],
+    },
+    include: messageReplies,
+    orderBy: { updatedAt: 'desc' },
+    limit: 50,
+  };
+
+  return useQuery({
+    queryKey: messageKeys.list(params),
+    queryFn: ({ signal }) => api.post<ApiResponse<MessageThread[]>>('/messages', {
+      ...params
+    }, { signal, idempotent: true }),
+    enabled: !!user,
+    refetchInterval: MESSAGE_POLL_INTERVAL,
+  });
+}
+
+export function useMessageThread(id: string) {
+  const api = useApiClient();
+
+  return useQuery({
+    queryKey: messageKeys.detail(id),
+    queryFn: ({ signal }) => api.post<ApiResponse<MessageThread>>(`/messages/${id}`, {
+      include: messageReplies,
+    }, { signal, idempotent: true }),
+    enabled: !!id,
+    refetchInterval: MESSAGE_THREAD_POLL_INTERVAL,
+  });
+}
+
+const announcementAuthor = {
+  publishedBy: { select: { firstName: true, lastName: true } },
+};
+
+// Latest announcements, shared by the tab badge and the home banner
+const recentAnnouncementParams: QueryParams = {
+  orderBy: { publishedAt: 'desc' },
+  limit: 20,
+};
+
+export function useRecentAnnouncements(enabled = true) {
+  const api = useApiClient();
+
+  return useQuery({
+    queryKey: announcementKeys.list(recentAnnouncementParams),
+    queryFn: ({ signal }) => api.post<ApiResponse<AnnouncementWithAuthor[]>>('/announcements', {
+      ...recentAnnouncementParams
+    }, { signal, idempotent: true }),
+    enabled,
+    staleTime: 1000 * 60 * 5,
+    refetchInterval: 1000 * 60 * 15,
+  });
+}
+
+export function useInfiniteAnnouncements(params: QueryParams, enabled = true) {
+  return useInfiniteList<AnnouncementWithAuthor>(announcementKeys.infinite(params), '/announcements', {
+    ...params,
+    include: announcementAuthor,
+  }, enabled);
+}
+
+export function useAnnouncement(id: string) {
+  const api = useApiClient();
+
+  return useQuery({
+    queryKey: announcementKeys.detail(id),
+    queryFn: ({ signal }) => api.post<ApiResponse<AnnouncementWithAuthor>>(`/announcements/${id}`, {
+      include: announcementAuthor,
+    }, { signal, idempotent: true }),
+    enabled: !!id,
+  });
+}
@@ -0,0 +1,33 @@
+import { useCallback, useMemo } from 'react';
+import { useUserStore } from '@/stores/user.store';
+import {
+  PricedVariant,
+  PricingCustomer,
+  resolveProductPriceRange,
+  resolveVariantPrice,
+} from '@/utils/pricing';
+
+/**
+ * Prices products for the signed-in user. Reads role and college from the
+ * user store, so prices update as soon as the synced profile changes.
+ */
+export function useRolePricing() {
+  const role = useUserStore((state) => state.user?.role);
+  const college = useUserStore((state) => state.user?.college);
+
+  const customer = useMemo<PricingCustomer>(() => ({ role, college }), [role, college]);
+
+  const getVariantPrice = useCallback(
+    (variant: PricedVariant, productCollege: string | null | undefined) =>
+      resolveVariantPrice(variant, customer, productCollege),
+    [customer]
+  );
+
+  const getProductPriceRange = useCallback(
+    (product: PricedVariant & { variants?: PricedVariant[] | null }, productCollege: string | null | undefined) =>
+      resolveProductPriceRange(product, customer, productCollege),
+    [customer]
+  );
+
+  return { customer, getVariantPrice, getProductPriceRange };
+}
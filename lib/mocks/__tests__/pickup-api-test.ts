@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import type { PickupToken } from '@/types/fulfillment';
+import { handleMockPickupRequest, MOCK_PICKUP_ORDER_ID, resetMockPickupApi } from '../pickup-api';
+
+const now = new Date('2025-06-01T08:00:00Z');
+
+const issueToken = () => {
+  const response = handleMockPickupRequest('POST', `/orders/${MOCK_PICKUP_ORDER_ID}/pickup-token`, {}, now);
+  return (response?.body as { data: PickupToken }).data.token;
+};
+
+describe('mock pickup API', () => {
+  beforeEach(() => {
+    resetMockPickupApi();
+  });
+
+  it('ignores endpoints it does not mock', () => {
+    expect(handleMockPickupRequest('POST', '/orders', {}, now)).toBeUndefined();
+    expect(handleMockPickupRequest('GET', '/fulfillments/pickup/verify', {}, now)).toBeUndefined();
+  });
+
+  it('verifies a token and returns the order items', () => {
+    const response = handleMockPickupRequest('POST', '/fulfillments/pickup/verify', { token: issueToken() }, now);
+
+    expect(response?.status).toBe(200);
+    expect(response?.body).toMatchObject({
+      data: {
+        fulfillment: { status: 'READY' },
+        order: { id: MOCK_PICKUP_ORDER_ID, orderItems: expect.any(Array) },
+      },
+    });
+  });
+
+  it('rejects tampered tokens', () => {
+    const token = issueToken().replace(/\.[^.]+$/, '.deadbeef');
+
+    expect(handleMockPickupRequest('POST', '/fulfillments/pickup/verify', { token }, now)?.status).toBe(400);
+  });
+
+  it('completes the fulfillment once and records who processed it', () => {
+    const token = issueToken();
+    const claimedAt = new Date(now.getTime() + 1000);
+
+    const claim = handleMockPickupRequest('POST', '/fulfillments/pickup/claim', { token, processedById: 'staff-1' }, claimedAt);
+    expect(claim?.status).toBe(200);
+    expect(claim?.body).toMatchObject({
+      data: { status: 'COMPLETED', processedById: 'staff-1', fulfillmentDate: claimedAt },
+    });
+
+    const again = handleMockPickupRequest('POST', '/fulfillments/pickup/claim', { token, processedById: 'staff-2' }, claimedAt);
+    expect(again?.status).toBe(409);
+  });
+
+  it('stops issuing tokens after the order is claimed', () => {
+    handleMockPickupRequest('POST', '/fulfillments/pickup/claim', { token: issueToken(), processedById: 'staff-1' }, now);
+
+    expect(handleMockPickupRequest('POST', `/orders/${MOCK_PICKUP_ORDER_ID}/pickup-token`, {}, now)?.status).toBe(409);
+  });
+});
@@ -0,0 +1,194 @@
+import type { Fulfillment } from '@prisma/client';
+import type { PickupClaim, PickupToken } from '@/types/fulfillment';
+import { decodePickupQr, encodePickupQr, getCurrentFulfillment, getPickupSigningInput } from '@/utils/pickup-qr';
+
+/**
+ * In-memory stand-in for the pickup endpoints so the QR and scanner flow can
+ * be tried without the backend. Enabled with EXPO_PUBLIC_MOCK_API=true.
+ *
+ * The real server signs tokens with a secret HMAC; the mock uses a plain
+ * FNV-1a hash, which is enough to catch tampered codes in testing.
+ */
+
+export type MockResponse = {
+  status: number;
+  body: unknown;
+};
+
+export const MOCK_PICKUP_ORDER_ID = 'MOCKORDER0001';
+
+const MOCK_SECRET = 'merchtrack-mock-pickup';
+const TOKEN_TTL_MS = 1000 * 60 * 15;
+
+const mockSign = (input: string) => {
+  let hash = 0x811c9dc5;
+  for (const char of `${MOCK_SECRET}:${input}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+};
+
+const createMockOrder = (): PickupClaim['order'] & { Fulfillment: Fulfillment[] } => {
+  const createdAt = new Date('2025-06-01T08:00:00Z');
+  const fulfillment = {
+    id: 'MOCKFULFILLMENT0001',
+    isDeleted: false,
+    orderId: MOCK_PICKUP_ORDER_ID,
+    fulfillmentDate: createdAt,
+    processedById: null,
+    status: 'READY',
+    createdAt,
+    updatedAt: createdAt,
+  } as Fulfillment;
+
+  return {
+    id: MOCK_PICKUP_ORDER_ID,
+    isDeleted: false,
+    customerId: 'MOCKCUSTOMER0001',
+    processedById: null,
+    orderDate: createdAt,
+    status: 'READY',
+    paymentStatus: 'PAID',
+    cancellationReason: null,
+    totalAmount: 850,
+    discountAmount: 0,
+    estimatedDelivery: createdAt,
+    createdAt,
+    updatedAt: createdAt,
+    fulfillmentId: fulfillment.id,
+    fulfillmentMethod: 'CAMPUS_PICKUP',
+    fulfillmentFee: 0,
+    pickupPointId: null,
+    deliveryAddress: null,
+    customerSatisfactionSurveyId: null,
+    customer: { firstName: 'Juan', lastName: 'Dela Cruz', email: 'juan.delacruz@example.com' },
+    orderItems: [
+      {
+        id: 'MOCKITEM0001',
+        orderId: MOCK_PICKUP_ORDER_ID,
+        variantId: 'MOCKVARIANT0001',
+        quantity: 2,
+        price: 350,
+        originalPrice: 400,
+        appliedRole: 'STUDENT',
+        customerNote: null,
+        size: 'M',
+        createdAt,
+        updatedAt: createdAt,
+        variant: { variantName: 'Navy Blue', product: { title: 'Org Shirt' } },
+      },
+      {
+        id: 'MOCKITEM0002',
+        orderId: MOCK_PICKUP_ORDER_ID,
+        variantId: 'MOCKVARIANT0002',
+        quantity: 1,
+        price: 150,
+        originalPrice: 150,
+        appliedRole: 'STUDENT',
+        customerNote: null,
+        size: null,
+        createdAt,
+        updatedAt: createdAt,
+        variant: { variantName: 'Default', product: { title: 'Lanyard' } },
+      },
+    ],
+    Fulfillment: [fulfillment],
+  } as unknown as PickupClaim['order'] & { Fulfillment: Fulfillment[] };
+};
+
+let mockOrders = [createMockOrder()];
+
+/**
+ * Restores the mock data to its initial state
+ */
+export function resetMockPickupApi() {
+  mockOrders = [createMockOrder()];
+}
+
+const ok = <T>(data: T): MockResponse => ({ status: 200, body: { success: true, data } });
+const fail = (status: number, message: string): MockResponse => ({ status, body: { success: false, message } });
+
+const issueToken = (orderId: string, now: Date): MockResponse => {
+  const order = mockOrders.find(entry => entry.id === orderId);
+  if (!order) return fail(404, 'Order not found');
+
+  const fulfillment = getCurrentFulfillment(order.Fulfillment);
+  if (fulfillment?.status !== 'READY') {
+    return fail(409, 'This order is not ready for pickup yet');
+  }
+
+  const unsigned = { orderId, fulfillmentId: fulfillment.id, expiresAt: now.getTime() + TOKEN_TTL_MS };
+  const token = encodePickupQr({ ...unsigned, signature: mockSign(getPickupSigningInput(unsigned)) });
+
+  return ok<PickupToken>({ token, expiresAt: new Date(unsigned.expiresAt).toISOString() });
+};
+
+const findClaim = (token: unknown, now: Date) => {
+  const decoded = decodePickupQr(typeof token === 'string' ? token : '', now);
+  if (!decoded.isValid) return { error: fail(400, decoded.reason) };
+
+  const { payload } = decoded;
+  if (mockSign(getPickupSigningInput(payload)) !== payload.signature) {
+    return { error: fail(400, 'This pickup code could not be verified') };
+  }
+
+  const order = mockOrders.find(entry => entry.id === payload.orderId);
+  const fulfillment = order?.Fulfillment.find(entry => entry.id === payload.fulfillmentId);
+  if (!order || !fulfillment) return { error: fail(404, 'Order not found') };
+
+  return { order, fulfillment };
+};
+
+/**
+ * Handles a request if it targets a mocked pickup endpoint
+ * @returns The mocked response, or undefined to fall through to the network
+ */
+export function handleMockPickupRequest(
+  method: string,
+  path: string,
+  body: Record<string, unknown> = {},
+  now: Date = new Date()
+): MockResponse | undefined {
+  if (method !== 'POST') return undefined;
+
+  const tokenMatch = path.match(/^\/orders\/([^/]+)\/pickup-token$/);
+  if (tokenMatch) {
+    return issueToken(tokenMatch[1], now);
+  }
+
+  if (path === `/orders/${MOCK_PICKUP_ORDER_ID}`) {
+    return ok(mockOrders[0]);
+  }
+
+  if (path === '/fulfillments/pickup/verify') {
+    const claim = findClaim(body.token, now);
+    if ('error' in claim) return claim.error;
+
+    return ok<PickupClaim>({ fulfillment: { ...claim.fulfillment }, order: claim.order });
+  }
+
+  if (path === '/fulfillments/pickup/claim') {
+    const claim = findClaim(body.token, now);
+    if ('error' in claim) return claim.error;
+
+    if (typeof body.processedById !== 'string' || !body.processedById) {
+      return fail(400, 'processedById is required');
+    }
+    if (claim.fulfillment.status === 'COMPLETED') {
+      return fail(409, 'This order has already been claimed');
+    }
+    if (claim.fulfillment.status !== 'READY') {
+      return fail(409, 'This order is not ready for pickup');
+    }
+
+    claim.fulfillment.status = 'COMPLETED';
+    claim.fulfillment.processedById = body.processedById;
+    claim.fulfillment.fulfillmentDate = now;
+    claim.fulfillment.updatedAt = now;
+
+    return ok<Fulfillment>({ ...claim.fulfillment });
+  }
+
+  return undefined;
+}
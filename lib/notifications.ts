@@ -0,0 +1,64 @@
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+import * as Device from 'expo-device';
+import * as Notifications from 'expo-notifications';
+import { NOTIFICATION_CATEGORY_DETAILS } from '@/constants/notifications';
+import type { NotificationData, NotificationPreferences, PushTokenInput } from '@/types/notification';
+import { buildNotificationContent, isNotificationEnabled, NOTIFICATION_CATEGORIES, parseNotificationData } from '@/utils/notifications';
+
+/**
+ * Decides how notifications that arrive while the app is open are shown.
+ * Categories the user turned off stay silent.
+ * @param getPreferences Reads the signed-in user's current preferences
+ */
+export function setNotificationHandler(getPreferences: () => NotificationPreferences) {
+  Notifications.setNotificationHandler({
+    handleNotification: async (notification) => {
+      const data = parseNotificationData(notification.request.content.data);
+      const show = !data || isNotificationEnabled(data, getPreferences());
+
+      return { shouldShowBanner: show, shouldShowList: show, shouldPlaySound: show, shouldSetBadge: false };
+    },
+  });
+}
+
+/**
+ * Asks for permission and returns this device's Expo push token. Returns null
+ * on simulators and web, or when the user declines.
+ */
+export async function registerForPushNotifications(): Promise<PushTokenInput | null> {
+  if (Platform.OS === 'web' || !Device.isDevice) return null;
+
+  if (Platform.OS === 'android') {
+    // One channel per category, so each can also be muted from the system settings
+    await Promise.all(NOTIFICATION_CATEGORIES.map(category =>
+      Notifications.setNotificationChannelAsync(category, {
+        name: NOTIFICATION_CATEGORY_DETAILS[category].label,
+        description: NOTIFICATION_CATEGORY_DETAILS[category].description,
+        importance: category === 'announcement'
+          ? Notifications.AndroidImportance.HIGH
+          : Notifications.AndroidImportance.DEFAULT,
+      })
+    ));
+  }
+
+  const existing = await Notifications.getPermissionsAsync();
+  const permission = existing.granted ? existing : await Notifications.requestPermissionsAsync();
+  if (!permission.granted) return null;
+
+  const projectId = Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+  const { data: token } = await Notifications.getExpoPushTokenAsync({ projectId });
+
+  return { token, platform: Platform.OS === 'ios' ? 'ios' : 'android' };
+}
+
+/**
+ * Shows a notification on this device right away, carrying the same data a
+ * push would. Lets tap handling be tried without the push service.
+ */
+export function presentLocalNotification(data: NotificationData) {
+  return Notifications.scheduleNotificationAsync({
+    content: { ...buildNotificationContent(data), data },
+    trigger: Platform.OS === 'android' ? { channelId: data.category } : null,
+  });
+}
@@ -0,0 +1,120 @@
+import type { QueryParams } from '@/types/common';
+
+/**
+ * Query key factories for every React Query cache entry in the app.
+ *
+ * Keys go from broad to specific, e.g. `['orders', 'list', params]`, so
+ * invalidating `orderKeys.all` refreshes every order query while
+ * `orderKeys.detail(id)` only touches that order.
+ */
+
+type QueryKeyValue = string | number | boolean | null | QueryKeyValue[] | { [key: string]: QueryKeyValue };
+
+const normalizeValue = (value: unknown): QueryKeyValue | undefined => {
+  if (value === undefined || typeof value === 'function') return undefined;
+  if (value === null || typeof value !== 'object') return value as QueryKeyValue;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) {
+    return value.map(entry => normalizeValue(entry) ?? null);
+  }
+
+  const normalized: Record<string, QueryKeyValue> = {};
+  for (const key of Object.keys(value).sort()) {
+    const entry = normalizeValue((value as Record<string, unknown>)[key]);
+    if (entry !== undefined) normalized[key] = entry;
+  }
+  return normalized;
+};
+
+/**
+ * Turns query params into a plain value that is equal for equal params:
+ * object keys are sorted, undefined fields dropped and dates stored as ISO strings
+ */
+export function normalizeQueryParams(params: QueryParams = {}): Record<string, QueryKeyValue> {
+  return normalizeValue(params) as Record<string, QueryKeyValue>;
+}
+
+export const productKeys = {
+  all: ['products'] as const,
+  lists: () => [...productKeys.all, 'list'] as const,
+  list: (params: QueryParams = {}) => [...productKeys.lists(), normalizeQueryParams(params)] as const,
+  infinite: (params: QueryParams = {}) => [...productKeys.lists(), 'infinite', normalizeQueryParams(params)] as const,
+  featured: () => [...productKeys.all, 'featured'] as const,
+  // Sorted so the same cart in a different order shares a cache entry
+  cart: (productIds: string[]) => [...productKeys.all, 'cart', [...productIds].sort()] as const,
+  details: () => [...productKeys.all, 'detail'] as const,
+  detail: (id: string, params?: QueryParams) => params
+    ? [...productKeys.details(), id, normalizeQueryParams(params)] as const
+    : [...productKeys.details(), id] as const,
+};
+
+export const categoryKeys = {
+  all: ['categories'] as const,
+  list: (params: QueryParams = {}) => [...categoryKeys.all, 'list', normalizeQueryParams(params)] as const,
+};
+
+export const orderKeys = {
+  all: ['orders'] as const,
+  lists: () => [...orderKeys.all, 'list'] as const,
+  list: (params: QueryParams = {}) => [...orderKeys.lists(), normalizeQueryParams(params)] as const,
+  infinite: (params: QueryParams = {}) => [...orderKeys.lists(), 'infinite', normalizeQueryParams(params)] as const,
+  details: () => [...orderKeys.all, 'detail'] as const,
+  detail: (id: string, params?: QueryParams) => params
+    ? [...orderKeys.details(), id, normalizeQueryParams(params)] as const
+    : [...orderKeys.details(), id] as const,
+  pickupToken: (id: string) => [...orderKeys.all, 'pickup-token', id] as const,
+};
+
+export const paymentKeys = {
+  all: ['payments'] as const,
+  lists: () => [...paymentKeys.all, 'list'] as const,
+  list: (params: QueryParams = {}) => [...paymentKeys.lists(), normalizeQueryParams(params)] as const,
+  infinite: (params: QueryParams = {}) => [...paymentKeys.lists(), 'infinite', normalizeQueryParams(params)] as const,
+  details: () => [...paymentKeys.all, 'detail'] as const,
+  detail: (id: string, params?: QueryParams) => params
+    ? [...paymentKeys.details(), id, normalizeQueryParams(params)] as const
+    : [...paymentKeys.details(), id] as const,
+};
+
+export const userKeys = {
+  all: ['users'] as const,
+  profiles: () => [...userKeys.all, 'profile'] as const,
+  profile: (id: string) => [...userKeys.profiles(), id] as const,
+  image: (id: string) => [...userKeys.all, 'image', id] as const,
+  permissions: (id: string) => [...userKeys.all, 'permissions', id] as const,
+  cart: (id: string) => [...userKeys.all, 'cart', id] as const,
+};
+
+export const ticketKeys = {
+  all: ['tickets'] as const,
+  lists: () => [...ticketKeys.all, 'list'] as const,
+  list: (params: QueryParams = {}) => [...ticketKeys.lists(), normalizeQueryParams(params)] as const,
+  infinite: (params: QueryParams = {}) => [...ticketKeys.lists(), 'infinite', normalizeQueryParams(params)] as const,
+  detail: (id: string) => [...ticketKeys.all, 'detail', id] as const,
+};
+
+export const announcementKeys = {
+  all: ['announcements'] as const,
+  lists: () => [...announcementKeys.all, 'list'] as const,
+  list: (params: QueryParams = {}) => [...announcementKeys.lists(), normalizeQueryParams(params)] as const,
+  infinite: (params: QueryParams = {}) => [...announcementKeys.lists(), 'infinite', normalizeQueryParams(params)] as const,
+  detail: (id: string) => [...announcementKeys.all, 'detail', id] as const,
+};
+
+export const messageKeys = {
+  all: ['messages'] as const,
+  lists: () => [...messageKeys.all, 'list'] as const,
+  list: (params: QueryParams = {}) => [...messageKeys.lists(), normalizeQueryParams(params)] as const,
+  detail: (id: string) => [...messageKeys.all, 'detail', id] as const,
+};
+
+export const surveyKeys = {
+  all: ['surveys'] as const,
+  category: () => [...surveyKeys.all, 'category'] as const,
+};
+
+export const settingsKeys = {
+  all: ['settings'] as const,
+  fulfillment: () => [...settingsKeys.all, 'fulfillment'] as const,
+  merchantAccounts: () => [...settingsKeys.all, 'merchant-accounts'] as const,
+};
@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import { TicketStatus } from '@/types/ticket';
+
+export const paginationMetadataSchema = z.object({
+  total: z.number(),
+  hasNextPage: z.boolean(),
+  hasPreviousPage: z.boolean(),
+  page: z.number(),
+  lastPage: z.number(),
+});
+
+/**
+ * Schema for an `ApiResponse<T>` envelope, for use with the `schema` request option
+ * @param dataSchema Schema of the `data` field
+ */
+export function apiResponseSchema<T extends z.ZodTypeAny>(dataSchema: T) {
+  return z.object({
+    success: z.boolean(),
+    message: z.string().optional(),
+    data: dataSchema.optional(),
+    metadata: paginationMetadataSchema.optional(),
+  });
+}
+
+export const pickupTokenSchema = z.object({
+  token: z.string().min(1),
+  expiresAt: z.string(),
+});
+
+export const merchantAccountSchema = z.object({
+  accountName: z.string().trim().min(1),
+  accountNumber: z.string().trim().min(1),
+  bankName: z.string().trim().min(1).optional(),
+  instructions: z.string().trim().min(1),
+});
+
+export const ticketAttachmentSchema = z.object({
+  url: z.string().min(1),
+  fileName: z.string().nullable().default(null),
+  width: z.number().default(0),
+  height: z.number().default(0),
+});
+
+export const ticketUpdateSchema = z.object({
+  status: z.nativeEnum(TicketStatus),
+  message: z.string().default(''),
+  createdBy: z.string().optional(),
+  createdAt: z.string().optional(),
+  attachments: z.array(ticketAttachmentSchema).optional(),
+});
+
+export const notificationDataSchema = z.discriminatedUnion('category', [
+  z.object({
+    category: z.literal('order'),
+    orderId: z.string().min(1),
+    status: z.enum(['PENDING', 'PROCESSING', 'READY', 'DELIVERED', 'CANCELLED']),
+  }),
+  z.object({
+    category: z.literal('fulfillment'),
+    orderId: z.string().min(1),
+    status: z.enum(['PENDING', 'PRODUCTION', 'READY', 'COMPLETED', 'CANCELLED']),
+  }),
+  z.object({
+    category: z.literal('payment'),
+    paymentId: z.string().min(1),
+    status: z.enum(['VERIFIED', 'PENDING', 'DECLINED', 'PROCESSING', 'FAILED', 'REFUND_PENDING', 'REFUNDED', 'CANCELLED']),
+  }),
+  z.object({
+    category: z.literal('ticket'),
+    ticketId: z.string().min(1),
+    status: z.nativeEnum(TicketStatus).optional(),
+  }),
+  z.object({
+    category: z.literal('announcement'),
+    announcementId: z.string().min(1),
+    level: z.enum(['INFO', 'WARNING', 'CRITICAL']),
+  }),
+]);
@@ -10,21 +10,100 @@ export const productSchema = z.object({
   tags: z.array(z.string()).optional(),
 });
 
+export const orderItemSchema = z.object({
+  variantId: z.string().min(1, 'Variant ID is required'),
+  quantity: z.number().int().min(1, 'Quantity must be at least 1'),
+  price: z.number().min(0, 'Price must be positive'),
+  originalPrice: z.number().min(0, 'Original price must be positive'),
+  appliedRole: z.string().min(1, 'Applied role is required'),
+  customerNote: z.string().max(500, 'Note must be at most 500 characters').optional(),
+});
+
 export const orderSchema = z.object({
-  products: z.array(z.object({
-    productId: z.string().min(1, 'Product ID is required'),
-    quantity: z.number().int().min(1, 'Quantity must be at least 1'),
-  })).min(1, 'At least one product is required'),
-  shippingAddress: z.string().min(1, 'Shipping address is required'),
-  paymentMethod: z.string().min(1, 'Payment method is required'),
+  customerId: z.string().min(1, 'Customer ID is required'),
+  orderItems: z.array(orderItemSchema).min(1, 'At least one item is required'),
+  totalAmount: z.number().min(0, 'Total must be positive'),
+  discountAmount: z.number().min(0, 'Discount must be positive').default(0),
+  voucherCode: z.string().max(50, 'Code must be at most 50 characters').optional(),
+  fulfillmentMethod: z.enum(['CAMPUS_PICKUP', 'COLLEGE_PICKUP', 'DELIVERY']),
+  fulfillmentFee: z.number().min(0, 'Fee must be positive').default(0),
+  pickupPointId: z.string().optional(),
+  deliveryAddress: z.string().max(500, 'Address must be at most 500 characters').optional(),
+}).refine(
+  (order) => order.fulfillmentMethod === 'DELIVERY' ? !!order.deliveryAddress?.trim() : !!order.pickupPointId,
+  { message: 'Please complete your pickup or delivery details', path: ['fulfillmentMethod'] }
+);
+
+export const paymentSchema = z.object({
+  paymentMethod: z.enum(['GCASH', 'MAYA', 'BANK_TRANSFER'], {
+    errorMap: () => ({ message: 'Choose a payment method' }),
+  }),
+  amount: z.coerce.number({ invalid_type_error: 'Enter an amount' }).positive('Amount must be greater than zero'),
+  referenceNo: z.string().trim().min(4, 'Enter the reference number from your receipt').max(50, 'Reference number is too long'),
+  memo: z.string().max(200, 'Note must be at most 200 characters').optional(),
 });
 
+// Philippine mobile numbers, e.g. 09171234567 or +639171234567; spaces and dashes are ignored
+export const phoneNumberSchema = z.string()
+  .transform(value => value.replace(/[\s-]/g, ''))
+  .pipe(z.string().regex(/^(\+63|0)9\d{9}$/, 'Enter a mobile number like 09171234567'));
+
 export const profileSchema = z.object({
-  firstName: z.string().min(1, 'First name is required'),
-  lastName: z.string().min(1, 'Last name is required'),
+  firstName: z.string().trim().min(1, 'First name is required').max(50, 'First name is too long'),
+  lastName: z.string().trim().min(1, 'Last name is required').max(50, 'Last name is too long'),
+  phone: phoneNumberSchema,
+  courses: z.string().trim().max(100, 'Course is too long'),
   imageUrl: z.string().url('Invalid image URL').optional(),
 });
 
+export const profileChangeRequestSchema = z.object({
+  role: z.enum(['STUDENT', 'PLAYER', 'STAFF_FACULTY', 'ALUMNI', 'OTHERS']),
+  college: z.enum(['COCS', 'STEP', 'ABBS', 'JPIA', 'ACHSS', 'ANSA', 'COL', 'AXI', 'NOT_APPLICABLE']),
+  reason: z.string().trim().min(10, 'Tell us why, in at least 10 characters').max(500, 'Reason must be at most 500 characters'),
+});
+
+export const reviewSchema = z.object({
+  rating: z.number().int().min(1, 'Tap a star to rate this product').max(5, 'Ratings go up to 5 stars'),
+  comment: z.string().trim().max(1000, 'Review must be at most 1000 characters'),
+});
+
+const surveyScoreSchema = z.number({ required_error: 'Pick a score' }).int().min(1, 'Pick a score').max(5, 'Pick a score');
+
+export const surveySchema = z.object({
+  answers: z.object({
+    q1: surveyScoreSchema,
+    q2: surveyScoreSchema,
+    q3: surveyScoreSchema,
+    q4: surveyScoreSchema,
+  }),
+  comments: z.string().trim().max(1000, 'Comments must be at most 1000 characters'),
+});
+
+export const ticketSchema = z.object({
+  title: z.string().trim().min(5, 'Title is required and must be at least 5 characters'),
+  description: z.string().trim().min(10, 'Description is required and must be at least 10 characters'),
+  priority: z.enum(['LOW', 'MEDIUM', 'HIGH']),
+});
+
+export const ticketReplySchema = z.object({
+  message: z.string().trim().min(1, 'Write a message').max(2000, 'Message must be at most 2000 characters'),
+});
+
+export const messageSchema = z.object({
+  subject: z.string().trim().min(3, 'Subject must be at least 3 characters').max(150, 'Subject must be at most 150 characters'),
+  message: z.string().trim().min(1, 'Write a message').max(2000, 'Message must be at most 2000 characters'),
+});
+
+export const messageReplySchema = messageSchema.pick({ message: true });
+
 export type ProductFormData = z.infer<typeof productSchema>;
 export type OrderFormData = z.infer<typeof orderSchema>;
-export type ProfileFormData = z.infer<typeof profileSchema>;
\ No newline at end of file
+export type PaymentFormData = z.infer<typeof paymentSchema>;
+export type ProfileFormData = z.infer<typeof profileSchema>;
+export type ProfileChangeRequestData = z.infer<typeof profileChangeRequestSchema>;
+export type ReviewFormData = z.infer<typeof reviewSchema>;
+export type SurveyFormData = z.infer<typeof surveySchema>;
+export type MessageFormData = z.infer<typeof messageSchema>;
+export type MessageReplyFormData = z.infer<typeof messageReplySchema>;
+export type TicketFormData = z.infer<typeof ticketSchema>;
+export type TicketReplyFormData = z.infer<typeof ticketReplySchema>;
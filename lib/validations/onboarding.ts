@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import { phoneNumberSchema } from './forms';
+
+const roleSchema = z.enum(['STUDENT', 'PLAYER', 'STAFF_FACULTY', 'ALUMNI', 'OTHERS'], {
+  errorMap: () => ({ message: 'Choose the option that describes you' }),
+});
+
+const collegeSchema = z.enum(['COCS', 'STEP', 'ABBS', 'JPIA', 'ACHSS', 'ANSA', 'COL', 'AXI', 'NOT_APPLICABLE'], {
+  errorMap: () => ({ message: 'Choose your college' }),
+});
+
+export const personalDetailsSchema = z.object({
+  firstName: z.string().trim().min(1, 'First name is required').max(50, 'First name is too long'),
+  lastName: z.string().trim().min(1, 'Last name is required').max(50, 'Last name is too long'),
+  phone: phoneNumberSchema,
+});
+
+export const affiliationSchema = z.object({
+  role: roleSchema,
+  college: collegeSchema,
+  courses: z.string().trim().max(100, 'Course is too long'),
+}).superRefine((values, ctx) => {
+  // Only guests can be outside every college; everyone else is priced by their college
+  if (values.role !== 'OTHERS' && values.college === 'NOT_APPLICABLE') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['college'], message: 'Choose the college you belong to' });
+  }
+  if (values.role === 'STUDENT' && !values.courses) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['courses'], message: 'Enter your course, e.g. BS Computer Science' });
+  }
+});
+
+export type PersonalDetailsInput = z.infer<typeof personalDetailsSchema>;
+export type AffiliationInput = z.infer<typeof affiliationSchema>;
+export type OnboardingInput = PersonalDetailsInput & AffiliationInput;
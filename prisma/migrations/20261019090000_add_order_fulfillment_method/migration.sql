@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "FulfillmentMethod" AS ENUM ('CAMPUS_PICKUP', 'COLLEGE_PICKUP', 'DELIVERY');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "deliveryAddress" TEXT,
+ADD COLUMN     "fulfillmentFee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "fulfillmentMethod" "FulfillmentMethod" NOT NULL DEFAULT 'CAMPUS_PICKUP',
+ADD COLUMN     "pickupPointId" TEXT;
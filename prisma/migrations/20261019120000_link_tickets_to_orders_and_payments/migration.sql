@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Ticket" ADD COLUMN     "orderId" TEXT,
+ADD COLUMN     "paymentId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "idx_ticket_orderId" ON "Ticket"("orderId");
+
+-- CreateIndex
+CREATE INDEX "idx_ticket_paymentId" ON "Ticket"("paymentId");
+
+-- AddForeignKey
+ALTER TABLE "Ticket" ADD CONSTRAINT "Ticket_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Ticket" ADD CONSTRAINT "Ticket_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
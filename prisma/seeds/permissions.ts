@@ -5,6 +5,7 @@ export const permissions = [
   { code: 'users', name: 'Users', description: 'Permission to manage users' },
   { code: 'orders', name: 'Orders', description: 'Permission to create orders' },
   { code: 'payments', name: 'Payments', description: 'Permission to process payments' },
+  { code: 'fulfillment', name: 'Fulfillment', description: 'Permission to scan pickup codes and complete fulfillments' },
   { code: 'inventory', name: 'Inventory', description: 'Permission to manage inventory' },
   { code: 'dashboard', name: 'Dashboard', description: 'Permission to view dashboard' },
   { code: 'settings', name: 'Settings', description: 'Permission to access settings' }
@@ -1,14 +1,61 @@
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { onlineManager, QueryClient, type Query } from "@tanstack/react-query";
+import { PersistQueryClientProvider } from "@tanstack/react-query-persist-client";
+import { createAsyncStoragePersister } from "@tanstack/query-async-storage-persister";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import NetInfo from "@react-native-community/netinfo";
 import React from "react";
 
-const queryClient = new QueryClient();
+// How long cached data is kept, in memory and on disk, so lists still render offline
+const CACHE_MAX_AGE_MS = 1000 * 60 * 60 * 24;
+// Bump when the shape of cached responses changes so old caches are dropped
+const CACHE_BUSTER = 'v1';
+
+// Cached data for these roots is saved to the device
+const PERSISTED_ROOTS = ['products', 'categories', 'orders', 'payments', 'tickets', 'users', 'settings', 'announcements', 'messages'];
+
+// Pickup tokens expire within minutes and shouldn't outlive the session
+const shouldPersistQuery = (query: Query) => {
+  const [root, scope] = query.queryKey;
+  if (query.state.status !== 'success') return false;
+  if (root === 'orders' && scope === 'pickup-token') return false;
+  return typeof root === 'string' && PERSISTED_ROOTS.includes(root);
+};
+
+// Pause queries and mutations while the device has no connection
+onlineManager.setEventListener((setOnline) => NetInfo.addEventListener((state) => {
+  setOnline(state.isConnected !== false && state.isInternetReachable !== false);
+}));
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      // The API client already retries transient failures with backoff
+      retry: false,
+      gcTime: CACHE_MAX_AGE_MS,
+    },
+  },
+});
+
+const persister = createAsyncStoragePersister({
+  storage: AsyncStorage,
+  key: 'merchtrack-query-cache',
+  throttleTime: 2000,
+});
 
 const QueryProvider = ({ children }: { children: React.ReactNode}) => {
   return (
-    <QueryClientProvider client={queryClient}>
+    <PersistQueryClientProvider
+      client={queryClient}
+      persistOptions={{
+        persister,
+        maxAge: CACHE_MAX_AGE_MS,
+        buster: CACHE_BUSTER,
+        dehydrateOptions: { shouldDehydrateQuery: shouldPersistQuery },
+      }}
+    >
       {children}
-    </QueryClientProvider>
+    </PersistQueryClientProvider>
   );
 };
 
-export default QueryProvider;
\ No newline at end of file
+export default QueryProvider;
@@ -0,0 +1,34 @@
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { addTrackedIds } from '@/utils/announcements';
+
+type AnnouncementState = {
+  // Keyed by user ID so people sharing a device keep their own read state
+  readIds: Record<string, string[]>;
+  dismissedIds: Record<string, string[]>;
+  markRead: (userId: string, ids: string[]) => void;
+  dismiss: (userId: string, id: string) => void;
+};
+
+export const useAnnouncementStore = create<AnnouncementState>()(
+  persist(
+    (set) => ({
+      readIds: {},
+      dismissedIds: {},
+
+      markRead: (userId, ids) => set((state) => ({
+        readIds: { ...state.readIds, [userId]: addTrackedIds(state.readIds[userId], ids) }
+      })),
+
+      dismiss: (userId, id) => set((state) => ({
+        dismissedIds: { ...state.dismissedIds, [userId]: addTrackedIds(state.dismissedIds[userId], [id]) }
+      })),
+    }),
+    {
+      name: 'merchtrack-announcements',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ readIds: state.readIds, dismissedIds: state.dismissedIds }),
+    }
+  )
+);
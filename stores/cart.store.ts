@@ -1,4 +1,6 @@
 import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 
 export type CartItem = {
   id: string;
@@ -6,6 +8,8 @@ export type CartItem = {
   variantId?: string;
   name: string;
   price: number;
+  originalPrice?: number;
+  appliedRole?: string;
   quantity: number;
   imageUrl?: string;
   notes?: string;
@@ -18,60 +22,79 @@ type CartState = {
   removeItem: (id: string) => void;
   updateQuantity: (id: string, quantity: number) => void;
   updateNotes: (id: string, notes: string) => void;
+  setItems: (items: CartItem[]) => void;
   clearCart: () => void;
   getTotalPrice: () => number;
   getTotalItems: () => number;
 }
 
-export const useCartStore = create<CartState>()((set, get) => ({
-  items: [],
-  
-  addItem: (newItem) => set((state) => {
-    // Check if item already exists with same product and variant
-    const existingItemIndex = state.items.findIndex(
-      item => item.productId === newItem.productId && 
-             item.variantId === newItem.variantId
-    );
-    
-    if (existingItemIndex > -1) {
-      // Update quantity if item exists
-      const updatedItems = [...state.items];
-      updatedItems[existingItemIndex].quantity += newItem.quantity;
-      return { items: updatedItems };
-    } else {
-      // Add new item with unique ID
-      const id = `${newItem.productId}-${newItem.variantId || 'default'}-${Date.now()}`;
-      return { items: [...state.items, { ...newItem, id }] };
+export const createCartItemId = (item: Pick<CartItem, 'productId' | 'variantId'>) =>
+  `${item.productId}-${item.variantId || 'default'}-${Date.now()}`;
+
+export const useCartStore = create<CartState>()(
+  persist(
+    (set, get) => ({
+      items: [],
+
+      addItem: (newItem) => set((state) => {
+        // Check if item already exists with same product and variant
+        const existingItemIndex = state.items.findIndex(
+          item => item.productId === newItem.productId &&
+                 item.variantId === newItem.variantId
+        );
+
+        if (existingItemIndex > -1) {
+          // Update quantity if item exists
+          return {
+            items: state.items.map((item, index) =>
+              index === existingItemIndex
+                ? { ...item, quantity: item.quantity + newItem.quantity }
+                : item
+            )
+          };
+        } else {
+          // Add new item with unique ID
+          return { items: [...state.items, { ...newItem, id: createCartItemId(newItem) }] };
+        }
+      }),
+
+      removeItem: (id) => set((state) => ({
+        items: state.items.filter(item => item.id !== id)
+      })),
+
+      updateQuantity: (id, quantity) => set((state) => ({
+        items: state.items.map(item =>
+          item.id === id
+            ? { ...item, quantity: Math.max(1, quantity) }
+            : item
+        )
+      })),
+
+      updateNotes: (id, notes) => set((state) => ({
+        items: state.items.map(item =>
+          item.id === id ? { ...item, notes } : item
+        )
+      })),
+
+      setItems: (items) => set({ items }),
+
+      clearCart: () => set({ items: [] }),
+
+      getTotalPrice: () => {
+        return get().items.reduce((total, item) =>
+          total + (item.price * item.quantity), 0);
+      },
+
+      getTotalItems: () => {
+        return get().items.reduce((total, item) =>
+          total + item.quantity, 0);
+      }
+    }),
+    {
+      name: 'merchtrack-cart',
+      storage: createJSONStorage(() => AsyncStorage),
+      // Only the items are data; everything else is actions
+      partialize: (state) => ({ items: state.items }),
     }
-  }),
-  
-  removeItem: (id) => set((state) => ({
-    items: state.items.filter(item => item.id !== id)
-  })),
-  
-  updateQuantity: (id, quantity) => set((state) => ({
-    items: state.items.map(item => 
-      item.id === id 
-        ? { ...item, quantity: Math.max(1, quantity) } 
-        : item
-    )
-  })),
-  
-  updateNotes: (id, notes) => set((state) => ({
-    items: state.items.map(item => 
-      item.id === id ? { ...item, notes } : item
-    )
-  })),
-  
-  clearCart: () => set({ items: [] }),
-  
-  getTotalPrice: () => {
-    return get().items.reduce((total, item) => 
-      total + (item.price * item.quantity), 0);
-  },
-  
-  getTotalItems: () => {
-    return get().items.reduce((total, item) => 
-      total + item.quantity, 0);
-  }
-})); 
\ No newline at end of file
+  )
+);
@@ -0,0 +1,19 @@
+import { create } from 'zustand';
+import type { ReturnHref } from '@/utils/deep-links';
+
+type NavigationState = {
+  // A link opened while signed out or mid-onboarding, opened once the user gets through
+  returnHref: ReturnHref | null;
+  setReturnHref: (returnHref: ReturnHref | null) => void;
+  takeReturnHref: () => ReturnHref | null;
+};
+
+export const useNavigationStore = create<NavigationState>((set, get) => ({
+  returnHref: null,
+  setReturnHref: (returnHref) => set({ returnHref }),
+  takeReturnHref: () => {
+    const { returnHref } = get();
+    set({ returnHref: null });
+    return returnHref;
+  },
+}));
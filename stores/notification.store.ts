@@ -0,0 +1,13 @@
+import { create } from 'zustand';
+import type { PushTokenInput } from '@/types/notification';
+
+type NotificationState = {
+  // Token registered for the signed-in user, removed from the server on logout
+  pushToken: PushTokenInput | null;
+  setPushToken: (pushToken: PushTokenInput | null) => void;
+};
+
+export const useNotificationStore = create<NotificationState>((set) => ({
+  pushToken: null,
+  setPushToken: (pushToken) => set({ pushToken }),
+}));
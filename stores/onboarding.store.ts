@@ -0,0 +1,19 @@
+import { create } from 'zustand';
+import type { AffiliationInput, PersonalDetailsInput } from '@/lib/validations/onboarding';
+
+// Answers collected across the onboarding steps until they're submitted together
+type OnboardingState = {
+  personalDetails: PersonalDetailsInput | null;
+  affiliation: AffiliationInput | null;
+  setPersonalDetails: (personalDetails: PersonalDetailsInput) => void;
+  setAffiliation: (affiliation: AffiliationInput) => void;
+  reset: () => void;
+};
+
+export const useOnboardingStore = create<OnboardingState>((set) => ({
+  personalDetails: null,
+  affiliation: null,
+  setPersonalDetails: (personalDetails) => set({ personalDetails }),
+  setAffiliation: (affiliation) => set({ affiliation }),
+  reset: () => set({ personalDetails: null, affiliation: null }),
+}));
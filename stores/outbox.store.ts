@@ -0,0 +1,61 @@
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { OutboxAction, OutboxEntry } from '@/types/outbox';
+import { addOutboxEntry, createOutboxEntry } from '@/utils/outbox';
+
+type OutboxState = {
+  entries: OutboxEntry[];
+  enqueue: (action: OutboxAction, userId: string) => OutboxEntry;
+  markSynced: (id: string) => void;
+  markDeferred: (id: string, error: string) => void;
+  markRejected: (id: string, status: 'conflict' | 'failed', error: string) => void;
+  retry: (id: string) => void;
+  discard: (id: string) => void;
+};
+
+export const useOutboxStore = create<OutboxState>()(
+  persist(
+    (set, get) => ({
+      entries: [],
+
+      enqueue: (action, userId) => {
+        const result = addOutboxEntry(get().entries, createOutboxEntry(action, userId));
+        set({ entries: result.entries });
+        return result.entry;
+      },
+
+      markSynced: (id) => set((state) => ({
+        entries: state.entries.filter(entry => entry.id !== id)
+      })),
+
+      markDeferred: (id, error) => set((state) => ({
+        entries: state.entries.map(entry =>
+          entry.id === id ? { ...entry, attempts: entry.attempts + 1, error } : entry
+        )
+      })),
+
+      markRejected: (id, status, error) => set((state) => ({
+        entries: state.entries.map(entry =>
+          entry.id === id ? { ...entry, status, attempts: entry.attempts + 1, error } : entry
+        )
+      })),
+
+      // Puts a rejected entry back in line, keeping its place
+      retry: (id) => set((state) => ({
+        entries: state.entries.map(entry =>
+          entry.id === id ? { ...entry, status: 'pending', error: undefined } : entry
+        )
+      })),
+
+      discard: (id) => set((state) => ({
+        entries: state.entries.filter(entry => entry.id !== id)
+      })),
+    }),
+    {
+      name: 'merchtrack-outbox',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ entries: state.entries }),
+    }
+  )
+);
@@ -0,0 +1,5 @@
+import type { Announcement, User } from '@prisma/client';
+
+export type AnnouncementWithAuthor = Announcement & {
+  publishedBy?: Pick<User, 'firstName' | 'lastName'>;
+};
@@ -0,0 +1,67 @@
+import type { College, Fulfillment, FulfillmentMethod, Order, OrderItem, Product, ProductVariant, User } from '@prisma/client';
+
+export type PickupPoint = {
+  id: string;
+  name: string;
+  location: string;
+  // Campus-wide points have no college and are open to every customer
+  college: College | null;
+  schedule?: string;
+};
+
+export type DeliveryFeeRule = {
+  baseFee: number;
+  // Orders above this subtotal ship for free; null disables free delivery
+  freeThreshold: number | null;
+  // Amount each college covers from the base fee
+  collegeSubsidies: Partial<Record<College, number>>;
+};
+
+export type FulfillmentConfig = {
+  methods: FulfillmentMethod[];
+  pickupPoints: PickupPoint[];
+  delivery: DeliveryFeeRule;
+};
+
+export type FulfillmentSelection = {
+  method: FulfillmentMethod;
+  pickupPointId?: string;
+  deliveryAddress?: string;
+};
+
+export type FulfillmentQuote = {
+  method: FulfillmentMethod;
+  fee: number;
+  baseFee: number;
+  subsidy: number;
+  isFree: boolean;
+  // Short explanation shown under the fee, e.g. why delivery is free
+  note?: string;
+};
+
+// Signed pickup token issued by the server for a READY fulfillment
+export type PickupToken = {
+  token: string;
+  expiresAt: string;
+};
+
+export type PickupPayload = {
+  orderId: string;
+  fulfillmentId: string;
+  // Unix time in milliseconds
+  expiresAt: number;
+  signature: string;
+};
+
+// What staff see after a pickup QR has been verified
+export type PickupClaim = {
+  fulfillment: Fulfillment;
+  order: Order & {
+    orderItems: Array<OrderItem & {
+      variant?: ProductVariant & {
+        product?: Pick<Product, 'title'>;
+      };
+    }>;
+    customer?: Pick<User, 'firstName' | 'lastName' | 'email'>;
+  };
+};
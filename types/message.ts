@@ -0,0 +1,18 @@
+import type { Message } from '@prisma/client';
+
+/**
+ * A thread's first message with its replies. Prisma names the replies
+ * relation after the model, hence `Message`.
+ */
+export type MessageThread = Message & {
+  Message?: Message[];
+};
+
+export type MessageInput = {
+  sentBy: string;
+  email: string;
+  subject: string;
+  message: string;
+  // First message of the thread this replies to
+  repliesToId?: string;
+};
@@ -0,0 +1,23 @@
+import type { AnnouncementLevel, FulfillmentStatus, OrderStatus, PaymentStatus } from '@prisma/client';
+import type { TicketStatus } from '@/types/ticket';
+
+export type NotificationCategory = 'order' | 'fulfillment' | 'payment' | 'ticket' | 'announcement';
+
+// Whether the user wants push notifications for each category
+export type NotificationPreferences = Record<NotificationCategory, boolean>;
+
+/**
+ * The `data` of a push or local notification. The category decides which
+ * preference applies and which screen opens when it's tapped.
+ */
+export type NotificationData =
+  | { category: 'order'; orderId: string; status: OrderStatus }
+  | { category: 'fulfillment'; orderId: string; status: FulfillmentStatus }
+  | { category: 'payment'; paymentId: string; status: PaymentStatus }
+  | { category: 'ticket'; ticketId: string; status?: TicketStatus }
+  | { category: 'announcement'; announcementId: string; level: AnnouncementLevel };
+
+export type PushTokenInput = {
+  token: string;
+  platform: 'ios' | 'android';
+};
@@ -0,0 +1,68 @@
+import type { College, OrderPaymentStatus, PaymentMethod, PaymentSite, Role, TicketPriority } from '@prisma/client';
+import type { NotificationPreferences } from '@/types/notification';
+
+export type TicketInput = {
+  title: string;
+  description: string;
+  priority: TicketPriority;
+  userId: string;
+  // Order or payment the ticket is about, when opened from one
+  orderId?: string;
+  paymentId?: string;
+};
+
+export type ProfileInput = {
+  firstName?: string;
+  lastName?: string;
+  imageUrl?: string;
+  phone?: string;
+  courses?: string;
+  // Set once during onboarding; later changes are reviewed by staff
+  role?: Role;
+  college?: College;
+  isOnboarded?: boolean;
+  notificationPreferences?: NotificationPreferences;
+};
+
+export type PaymentInput = {
+  orderId: string;
+  userId: string;
+  amount: number;
+  paymentMethod: PaymentMethod;
+  paymentSite: PaymentSite;
+  referenceNo: string;
+  memo?: string;
+  metadata?: Record<string, unknown>;
+  // Order payment status to set along with the payment, e.g. DOWNPAYMENT for partial payments
+  orderPaymentStatus?: OrderPaymentStatus;
+};
+
+export type OutboxAction =
+  | { type: 'ticket.create'; payload: TicketInput }
+  | { type: 'profile.update'; payload: ProfileInput }
+  | { type: 'payment.create'; payload: PaymentInput };
+
+export type OutboxActionType = OutboxAction['type'];
+
+/**
+ * pending: waiting to be sent
+ * conflict: the server refused it because the data changed (409)
+ * failed: the server rejected it, e.g. failed validation
+ */
+export type OutboxStatus = 'pending' | 'conflict' | 'failed';
+
+export type OutboxEntry = OutboxAction & {
+  id: string;
+  // Entries only replay for the user who made them
+  userId: string;
+  createdAt: string;
+  status: OutboxStatus;
+  attempts: number;
+  error?: string;
+};
+
+// What a mutation resolves with when it was queued instead of sent
+export type QueuedMutation = {
+  queued: true;
+  entryId: string;
+};
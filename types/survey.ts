@@ -0,0 +1,16 @@
+// Answers are stored as {questionId: score}, one key per SurveyCategory question
+export type SurveyQuestionId = 'q1' | 'q2' | 'q3' | 'q4';
+
+export type SurveyAnswers = Record<SurveyQuestionId, number>;
+
+export type SurveyQuestion = {
+  id: SurveyQuestionId;
+  text: string;
+};
+
+export type SurveyInput = {
+  orderId: string;
+  categoryId: string;
+  answers: SurveyAnswers;
+  comments?: string;
+};
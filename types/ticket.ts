@@ -5,9 +5,39 @@ export enum TicketStatus {
   RESOLVED = "RESOLVED"
 }
 
+export type TicketAttachment = {
+  // Hosted URL of the image, from uploading it to the ticket
+  url: string;
+  fileName: string | null;
+  width: number;
+  height: number;
+};
+
+export type TicketAttachmentUploadInput = {
+  ticketId: string;
+  userId: string;
+  // Image as a data URI, replaced by a hosted URL on upload
+  dataUri: string;
+  fileName: string | null;
+  width: number;
+  height: number;
+};
+
 export type TicketUpdate = {
-  status: TicketStatus
-   message: string
-   createdBy?: string
-   createdAt?: string
- }
\ No newline at end of file
+  // Status of the ticket after this update
+  status: TicketStatus;
+  message: string;
+  // ID of the user who posted the update
+  createdBy?: string;
+  createdAt?: string;
+  attachments?: TicketAttachment[];
+};
+
+export type TicketReplyInput = {
+  ticketId: string;
+  userId: string;
+  message: string;
+  attachments?: TicketAttachment[];
+  // Set to reopen or close the ticket along with the message
+  status?: TicketStatus;
+};
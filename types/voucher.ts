@@ -0,0 +1,22 @@
+import type { College, Role } from '@prisma/client';
+
+export type VoucherDiscountType = 'PERCENTAGE' | 'FIXED';
+
+export type Voucher = {
+  code: string;
+  description?: string;
+  discountType: VoucherDiscountType;
+  // Percent off (0-100) for PERCENTAGE, amount off for FIXED
+  value: number;
+  minSpend?: number | null;
+  // Caps the discount of percentage vouchers
+  maxDiscount?: number | null;
+  // Empty or missing lists mean the voucher is not restricted
+  colleges?: College[] | null;
+  roles?: Role[] | null;
+  expiresAt?: string | null;
+};
+
+export type VoucherEvaluation =
+  | { isValid: true; discountAmount: number }
+  | { isValid: false; reason: string };
@@ -0,0 +1,53 @@
+import { describe, expect, it } from '@jest/globals';
+import type { AnnouncementLevel } from '@prisma/client';
+import { addTrackedIds, countUnread, getBannerAnnouncement, MAX_TRACKED_ANNOUNCEMENTS } from '../announcements';
+
+const announcement = (id: string, level: AnnouncementLevel, publishedAt: string) => ({
+  id,
+  level,
+  publishedAt: new Date(publishedAt),
+});
+
+describe('addTrackedIds', () => {
+  it('appends new IDs without duplicates', () => {
+    expect(addTrackedIds(['a'], ['a', 'b'])).toEqual(['a', 'b']);
+  });
+
+  it('returns the same list when nothing is new', () => {
+    const current = ['a', 'b'];
+    expect(addTrackedIds(current, ['b'])).toBe(current);
+  });
+
+  it('drops the oldest IDs past the cap', () => {
+    const current = Array.from({ length: MAX_TRACKED_ANNOUNCEMENTS }, (_, i) => `id-${i}`);
+    const result = addTrackedIds(current, ['new']);
+
+    expect(result).toHaveLength(MAX_TRACKED_ANNOUNCEMENTS);
+    expect(result[0]).toBe('id-1');
+    expect(result[result.length - 1]).toBe('new');
+  });
+});
+
+describe('countUnread', () => {
+  it('counts announcements missing from the read list', () => {
+    expect(countUnread([{ id: 'a' }, { id: 'b' }, { id: 'c' }], ['b'])).toBe(2);
+    expect(countUnread([{ id: 'a' }])).toBe(1);
+  });
+});
+
+describe('getBannerAnnouncement', () => {
+  const announcements = [
+    announcement('old-critical', 'CRITICAL', '2025-01-01'),
+    announcement('warning', 'WARNING', '2025-03-01'),
+    announcement('new-critical', 'CRITICAL', '2025-02-01'),
+  ];
+
+  it('picks the newest unread critical announcement', () => {
+    expect(getBannerAnnouncement(announcements)?.id).toBe('new-critical');
+  });
+
+  it('skips announcements that were read or dismissed', () => {
+    expect(getBannerAnnouncement(announcements, ['new-critical'])?.id).toBe('old-critical');
+    expect(getBannerAnnouncement(announcements, [], ['new-critical', 'old-critical'])).toBeUndefined();
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, expect, it } from '@jest/globals';
+import type { CartItem } from '@/stores/cart.store';
+import { applyCartRevalidation, CartProduct, getAvailableQuantity, revalidateCartItems } from '../cart-revalidation';
+
+const student = { role: 'STUDENT', college: 'COCS' };
+
+const variant = (overrides: Record<string, unknown> = {}) => ({
+  id: 'variant-1',
+  productId: 'product-1',
+  variantName: 'Large',
+  price: '500',
+  rolePricing: { STUDENT: 350 },
+  inventory: 10,
+  createdAt: new Date('2025-05-01T00:00:00Z'),
+  updatedAt: new Date('2025-05-01T00:00:00Z'),
+  ...overrides,
+});
+
+const product = (overrides: Record<string, unknown> = {}) => ({
+  id: 'product-1',
+  isDeleted: false,
+  slug: 'org-shirt',
+  title: 'Org Shirt',
+  inventoryType: 'STOCK',
+  postedBy: { college: 'COCS' },
+  variants: [variant()],
+  ...overrides,
+}) as unknown as CartProduct;
+
+const item = (overrides: Partial<CartItem> = {}): CartItem => ({
+  id: 'item-1',
+  productId: 'product-1',
+  variantId: 'variant-1',
+  name: 'Org Shirt',
+  price: 350,
+  originalPrice: 500,
+  appliedRole: 'STUDENT',
+  quantity: 2,
+  ...overrides,
+});
+
+describe('getAvailableQuantity', () => {
+  it('limits stocked products to their inventory', () => {
+    expect(getAvailableQuantity('STOCK', { inventory: 4 })).toBe(4);
+    expect(getAvailableQuantity('STOCK', { inventory: -2 })).toBe(0);
+  });
+
+  it('never limits pre-orders', () => {
+    expect(getAvailableQuantity('PREORDER', { inventory: 0 })).toBeNull();
+  });
+});
+
+describe('revalidateCartItems', () => {
+  it('reports nothing when the line still matches', () => {
+    const [check] = revalidateCartItems([item()], [product()], student);
+
+    expect(check).toEqual({
+      itemId: 'item-1',
+      issues: [],
+      price: 350,
+      originalPrice: 500,
+      appliedRole: 'STUDENT',
+      availableQuantity: 10,
+    });
+  });
+
+  it('marks lines unavailable when the product was removed', () => {
+    const missing = revalidateCartItems([item()], [], student);
+    const deleted = revalidateCartItems([item()], [product({ isDeleted: true })], student);
+
+    [missing, deleted].forEach(([check]) => {
+      expect(check.issues).toEqual([{ kind: 'UNAVAILABLE', message: 'No longer available' }]);
+      expect(check.price).toBeUndefined();
+      expect(check.availableQuantity).toBe(0);
+    });
+  });
+
+  it('marks lines unavailable when the variant was removed', () => {
+    const [check] = revalidateCartItems([item()], [product({ variants: [variant({ id: 'variant-2' })] })], student);
+
+    expect(check.issues.map(issue => issue.kind)).toEqual(['UNAVAILABLE']);
+  });
+
+  it('flags out-of-stock and low-stock variants', () => {
+    const [outOfStock] = revalidateCartItems([item()], [product({ variants: [variant({ inventory: 0 })] })], student);
+    const [lowStock] = revalidateCartItems([item({ quantity: 5 })], [product({ variants: [variant({ inventory: 3 })] })], student);
+
+    expect(outOfStock.issues).toEqual([{ kind: 'OUT_OF_STOCK', message: 'Out of stock' }]);
+    expect(lowStock.issues).toEqual([{ kind: 'LOW_STOCK', message: 'Only 3 left' }]);
+    expect(lowStock.availableQuantity).toBe(3);
+  });
+
+  it('ignores stock for pre-orders', () => {
+    const preorder = product({ inventoryType: 'PREORDER', variants: [variant({ inventory: 0 })] });
+    const [check] = revalidateCartItems([item({ quantity: 50 })], [preorder], student);
+
+    expect(check.issues).toEqual([]);
+    expect(check.availableQuantity).toBeNull();
+  });
+
+  it('flags price changes with the customer\'s latest price', () => {
+    const repriced = product({ variants: [variant({ rolePricing: { STUDENT: 400 } })] });
+    const [check] = revalidateCartItems([item()], [repriced], student);
+
+    expect(check.issues).toEqual([{ kind: 'PRICE_CHANGED', message: expect.stringContaining('Price changed from') }]);
+    expect(check.issues[0].message).toContain('350');
+    expect(check.issues[0].message).toContain('400');
+    expect(check).toMatchObject({ price: 400, originalPrice: 500, appliedRole: 'STUDENT' });
+  });
+
+  it('reprices a line when the customer no longer gets the role price', () => {
+    const [check] = revalidateCartItems([item()], [product()], { role: 'STUDENT', college: 'STEP' });
+
+    expect(check.issues.map(issue => issue.kind)).toEqual(['PRICE_CHANGED']);
+    expect(check).toMatchObject({ price: 500, appliedRole: 'OTHERS' });
+  });
+});
+
+describe('applyCartRevalidation', () => {
+  it('updates prices, caps quantities and drops lines that cannot be ordered', () => {
+    const items = [
+      item({ id: 'repriced' }),
+      item({ id: 'capped', variantId: 'variant-2', quantity: 5 }),
+      item({ id: 'sold-out', variantId: 'variant-3' }),
+      item({ id: 'removed', productId: 'product-2' }),
+      item({ id: 'unchecked', productId: 'product-3' }),
+    ];
+    const products = [product({
+      variants: [
+        variant({ rolePricing: { STUDENT: 400 } }),
+        variant({ id: 'variant-2', inventory: 3 }),
+        variant({ id: 'variant-3', inventory: 0 }),
+      ],
+    })];
+    const checks = revalidateCartItems(items.slice(0, 4), products, student);
+
+    const updated = applyCartRevalidation(items, checks);
+
+    expect(updated.map(line => line.id)).toEqual(['repriced', 'capped', 'unchecked']);
+    expect(updated[0]).toMatchObject({ price: 400, originalPrice: 500, quantity: 2 });
+    expect(updated[1]).toMatchObject({ price: 350, quantity: 3 });
+    expect(updated[2]).toEqual(items[4]);
+  });
+
+  it('keeps pre-order quantities as they are', () => {
+    const preorder = product({ inventoryType: 'PREORDER', variants: [variant({ inventory: 0 })] });
+    const items = [item({ quantity: 20 })];
+
+    const [updated] = applyCartRevalidation(items, revalidateCartItems(items, [preorder], student));
+
+    expect(updated.quantity).toBe(20);
+  });
+});
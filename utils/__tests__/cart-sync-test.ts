@@ -0,0 +1,174 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import type { CartItem } from '@/stores/cart.store';
+import { getCartSyncStep, mapServerCartItems, mergeCartItems, toCartSyncItems, ServerCart, ServerCartItem } from '../cart-sync';
+
+// The cart store persists to AsyncStorage, which has no native module under Jest
+jest.mock('@react-native-async-storage/async-storage', () =>
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const student = { role: 'STUDENT', college: 'COCS' };
+
+const cartItem = (overrides: Record<string, unknown> = {}) => ({
+  id: 'cart-item-1',
+  cartId: 'cart-1',
+  variantId: 'variant-1',
+  quantity: 2,
+  createdAt: new Date('2025-05-01T00:00:00Z'),
+  updatedAt: new Date('2025-05-01T00:00:00Z'),
+  variant: {
+    id: 'variant-1',
+    productId: 'product-1',
+    variantName: 'Large',
+    price: '500',
+    rolePricing: { STUDENT: 350, OTHERS: 480 },
+    inventory: 10,
+    product: {
+      id: 'product-1',
+      title: 'Org Shirt',
+      imageUrl: ['https://example.com/shirt.png'],
+      postedBy: { college: 'COCS' },
+    },
+  },
+  ...overrides,
+}) as unknown as ServerCartItem;
+
+const serverCart = (cartItems: ServerCartItem[]) => ({
+  id: 'cart-1',
+  userId: 'user-1',
+  createdAt: new Date('2025-05-01T00:00:00Z'),
+  updatedAt: new Date('2025-05-01T00:00:00Z'),
+  cartItems,
+}) as ServerCart;
+
+const localItem = (overrides: Partial<CartItem> = {}): CartItem => ({
+  id: 'local-1',
+  productId: 'product-1',
+  variantId: 'variant-1',
+  name: 'Org Shirt',
+  price: 350,
+  originalPrice: 500,
+  appliedRole: 'STUDENT',
+  quantity: 1,
+  notes: 'Print my name',
+  ...overrides,
+});
+
+describe('mapServerCartItems', () => {
+  it('prices restored lines for the customer', () => {
+    const [item] = mapServerCartItems(serverCart([cartItem()]), student);
+
+    expect(item).toMatchObject({
+      productId: 'product-1',
+      variantId: 'variant-1',
+      name: 'Org Shirt',
+      variantName: 'Large',
+      imageUrl: 'https://example.com/shirt.png',
+      quantity: 2,
+      price: 350,
+      originalPrice: 500,
+      appliedRole: 'STUDENT',
+    });
+  });
+
+  it('uses the guest price for merch from another college', () => {
+    const [item] = mapServerCartItems(serverCart([cartItem()]), { role: 'STUDENT', college: 'STEP' });
+
+    expect(item).toMatchObject({ price: 480, originalPrice: 500, appliedRole: 'OTHERS' });
+  });
+
+  it('falls back to the base price when the profile is incomplete', () => {
+    const [item] = mapServerCartItems(serverCart([cartItem()]), { role: null, college: null });
+
+    expect(item).toMatchObject({ price: 500, originalPrice: 500, appliedRole: 'OTHERS' });
+  });
+
+  it('skips lines whose variant or product is gone, or with no quantity', () => {
+    const cart = serverCart([
+      cartItem({ id: 'no-variant', variant: null }),
+      cartItem({ id: 'no-product', variant: { ...cartItem().variant, product: undefined } }),
+      cartItem({ id: 'empty', quantity: 0 }),
+    ]);
+
+    expect(mapServerCartItems(cart, student)).toEqual([]);
+    expect(mapServerCartItems(null, student)).toEqual([]);
+    expect(mapServerCartItems(serverCart([]), student)).toEqual([]);
+  });
+});
+
+describe('mergeCartItems', () => {
+  it('keeps local details and the larger quantity for lines in both carts', () => {
+    const merged = mergeCartItems(
+      [localItem({ quantity: 1 })],
+      [localItem({ id: 'server-1', quantity: 3, notes: undefined })]
+    );
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({ id: 'local-1', quantity: 3, notes: 'Print my name' });
+  });
+
+  it('does not double a cart that was already synced', () => {
+    const local = [localItem({ quantity: 2 })];
+    const merged = mergeCartItems(local, [localItem({ id: 'server-1', quantity: 2 })]);
+
+    expect(merged[0].quantity).toBe(2);
+  });
+
+  it('adds lines that only one side has', () => {
+    const merged = mergeCartItems(
+      [localItem()],
+      [localItem({ id: 'server-2', variantId: 'variant-2', name: 'Cap' })]
+    );
+
+    expect(merged.map(item => item.variantId)).toEqual(['variant-1', 'variant-2']);
+  });
+
+  it('matches lines without a variant by product', () => {
+    const merged = mergeCartItems(
+      [localItem({ variantId: undefined, quantity: 4 })],
+      [localItem({ id: 'server-1', variantId: undefined, quantity: 1 })]
+    );
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].quantity).toBe(4);
+  });
+});
+
+describe('getCartSyncStep', () => {
+  const state = { userId: 'user-1', hasHydrated: true, mergedForUserId: null, serverCartStatus: 'pending' as const };
+
+  it('waits for the user, the stored cart and the server cart', () => {
+    expect(getCartSyncStep({ ...state, userId: '' })).toBe('wait');
+    expect(getCartSyncStep({ ...state, hasHydrated: false, serverCartStatus: 'success' })).toBe('wait');
+    expect(getCartSyncStep(state)).toBe('wait');
+  });
+
+  it('merges once the server cart loads, then pushes changes', () => {
+    expect(getCartSyncStep({ ...state, serverCartStatus: 'success' })).toBe('merge');
+    expect(getCartSyncStep({ ...state, serverCartStatus: 'success', mergedForUserId: 'user-1' })).toBe('push');
+  });
+
+  it('retries a failed fetch so later edits still sync', () => {
+    const failed = { ...state, serverCartStatus: 'error' as const };
+
+    expect(getCartSyncStep(failed)).toBe('refetch');
+    expect(getCartSyncStep({ ...failed, serverCartStatus: 'success' })).toBe('merge');
+    expect(getCartSyncStep({ ...failed, serverCartStatus: 'success', mergedForUserId: 'user-1' })).toBe('push');
+  });
+
+  it('merges again for a different user', () => {
+    expect(getCartSyncStep({ ...state, serverCartStatus: 'success', mergedForUserId: 'user-2' })).toBe('merge');
+  });
+});
+
+describe('toCartSyncItems', () => {
+  it('sends variant and quantity pairs, leaving out lines without a variant', () => {
+    const items = [
+      localItem({ quantity: 2 }),
+      localItem({ id: 'local-2', variantId: undefined, productId: 'product-2' }),
+    ];
+
+    expect(toCartSyncItems(items)).toEqual([{ variantId: 'variant-1', quantity: 2 }]);
+  });
+});
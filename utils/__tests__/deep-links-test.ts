@@ -0,0 +1,55 @@
+import { describe, expect, it } from '@jest/globals';
+import { getProductLink, getReturnHref, resolveDeepLink } from '../deep-links';
+
+describe('resolveDeepLink', () => {
+  it('opens order links in order tracking', () => {
+    expect(resolveDeepLink('myapp://order/abc123')).toBe('/track-order?orderId=abc123');
+    expect(resolveDeepLink('myapp:///order/abc123/')).toBe('/track-order?orderId=abc123');
+    expect(resolveDeepLink('https://merchtrack.tech/order/abc123')).toBe('/track-order?orderId=abc123');
+    expect(resolveDeepLink('https://www.merchtrack.tech/order/abc123?ref=email')).toBe('/track-order?orderId=abc123');
+    expect(resolveDeepLink('/order/abc123')).toBe('/track-order?orderId=abc123');
+  });
+
+  it('leaves links that already match a route alone', () => {
+    expect(resolveDeepLink('myapp://product/cics-shirt')).toBe('myapp://product/cics-shirt');
+    expect(resolveDeepLink('https://merchtrack.tech/ticket/t1')).toBe('https://merchtrack.tech/ticket/t1');
+    expect(resolveDeepLink('myapp://oauth-native-callback?code=x')).toBe('myapp://oauth-native-callback?code=x');
+  });
+
+  it('ignores other websites and deeper order paths', () => {
+    expect(resolveDeepLink('https://merchtrack.tech.example.com/order/abc')).toBe('https://merchtrack.tech.example.com/order/abc');
+    expect(resolveDeepLink('myapp://order/abc/items')).toBe('myapp://order/abc/items');
+    expect(resolveDeepLink('myapp://order')).toBe('myapp://order');
+  });
+});
+
+describe('getProductLink', () => {
+  it('builds a website link that opens in the app', () => {
+    expect(getProductLink('cics-shirt')).toBe('https://merchtrack.tech/product/cics-shirt');
+    expect(getProductLink('shirt & cap')).toBe('https://merchtrack.tech/product/shirt%20%26%20cap');
+  });
+});
+
+describe('getReturnHref', () => {
+  it('keeps the route and its params', () => {
+    expect(getReturnHref(['product', '[slug]'], { slug: 'cics-shirt' })).toEqual({
+      pathname: '/product/[slug]',
+      params: { slug: 'cics-shirt' },
+    });
+    expect(getReturnHref(['track-order'], { orderId: 'abc' })).toEqual({
+      pathname: '/track-order',
+      params: { orderId: 'abc' },
+    });
+  });
+
+  it('drops groups from the path', () => {
+    expect(getReturnHref(['(tabs)', 'tickets'], {})).toEqual({ pathname: '/tickets', params: {} });
+  });
+
+  it('skips the home tab and the sign-in and onboarding screens', () => {
+    expect(getReturnHref(['(tabs)'], {})).toBeNull();
+    expect(getReturnHref(['(tabs)', 'index'], {})).toBeNull();
+    expect(getReturnHref(['(auth)', 'sign-in'], {})).toBeNull();
+    expect(getReturnHref(['(onboarding)', 'welcome'], {})).toBeNull();
+  });
+});
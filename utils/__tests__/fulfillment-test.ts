@@ -0,0 +1,122 @@
+import { describe, expect, it } from '@jest/globals';
+import type { FulfillmentConfig } from '@/types/fulfillment';
+import {
+  calculateFulfillmentFee,
+  getAvailableFulfillmentMethods,
+  getDefaultFulfillmentSelection,
+  getPickupPoints,
+  resolveFulfillmentConfig,
+  validateFulfillmentSelection,
+} from '../fulfillment';
+
+const config: FulfillmentConfig = {
+  methods: ['CAMPUS_PICKUP', 'COLLEGE_PICKUP', 'DELIVERY'],
+  pickupPoints: [
+    { id: 'campus-booth', name: 'Merch Booth', location: 'Student Center', college: null },
+    { id: 'cocs-office', name: 'COCS Office', location: 'Room 101', college: 'COCS' },
+  ],
+  delivery: {
+    baseFee: 150,
+    freeThreshold: 1000,
+    collegeSubsidies: { COCS: 50, STEP: 200 },
+  },
+};
+
+describe('calculateFulfillmentFee', () => {
+  it('charges nothing for pickup', () => {
+    expect(calculateFulfillmentFee(config, 'CAMPUS_PICKUP', 100, 'COCS')).toEqual({
+      method: 'CAMPUS_PICKUP', fee: 0, baseFee: 0, subsidy: 0, isFree: true,
+    });
+    expect(calculateFulfillmentFee(config, 'COLLEGE_PICKUP', 100, 'COCS').fee).toBe(0);
+  });
+
+  it('charges the base fee for delivery', () => {
+    expect(calculateFulfillmentFee(config, 'DELIVERY', 500, 'ABBS')).toEqual({
+      method: 'DELIVERY', fee: 150, baseFee: 150, subsidy: 0, isFree: false, note: undefined,
+    });
+    expect(calculateFulfillmentFee(config, 'DELIVERY', 500, null).fee).toBe(150);
+  });
+
+  it('delivers for free only above the threshold', () => {
+    const atThreshold = calculateFulfillmentFee(config, 'DELIVERY', 1000, null);
+    const overThreshold = calculateFulfillmentFee(config, 'DELIVERY', 1000.01, null);
+
+    expect(atThreshold.fee).toBe(150);
+    expect(overThreshold).toMatchObject({ fee: 0, baseFee: 150, subsidy: 0, isFree: true });
+    expect(overThreshold.note).toContain('Free delivery on orders over');
+  });
+
+  it('charges delivery when a voucher takes the order below the threshold', () => {
+    const subtotal = 1100;
+    const discount = 200;
+
+    expect(calculateFulfillmentFee(config, 'DELIVERY', subtotal, null).fee).toBe(0);
+    expect(calculateFulfillmentFee(config, 'DELIVERY', subtotal - discount, null)).toMatchObject({ fee: 150, isFree: false });
+  });
+
+  it('never delivers for free when the threshold is disabled', () => {
+    const noThreshold = { ...config, delivery: { ...config.delivery, freeThreshold: null } };
+
+    expect(calculateFulfillmentFee(noThreshold, 'DELIVERY', 100000, null).fee).toBe(150);
+  });
+
+  it('takes the college subsidy off the fee, never below zero', () => {
+    const partial = calculateFulfillmentFee(config, 'DELIVERY', 500, 'COCS');
+    const full = calculateFulfillmentFee(config, 'DELIVERY', 500, 'STEP');
+
+    expect(partial).toMatchObject({ fee: 100, subsidy: 50, isFree: false });
+    expect(partial.note).toContain('covered by your college');
+    expect(full).toMatchObject({ fee: 0, subsidy: 150, isFree: true });
+  });
+});
+
+describe('validateFulfillmentSelection', () => {
+  it('requires a delivery address', () => {
+    expect(validateFulfillmentSelection(config, { method: 'DELIVERY' }, null)).toBe('Please enter a delivery address.');
+    expect(validateFulfillmentSelection(config, { method: 'DELIVERY', deliveryAddress: '   ' }, null))
+      .toBe('Please enter a delivery address.');
+    expect(validateFulfillmentSelection(config, { method: 'DELIVERY', deliveryAddress: '12 Main St' }, null)).toBeNull();
+  });
+
+  it('requires a pickup point offered for the method', () => {
+    expect(validateFulfillmentSelection(config, { method: 'CAMPUS_PICKUP' }, 'COCS')).toBe('Please choose a pickup point.');
+    expect(validateFulfillmentSelection(config, { method: 'CAMPUS_PICKUP', pickupPointId: 'campus-booth' }, 'COCS')).toBeNull();
+    expect(validateFulfillmentSelection(config, { method: 'CAMPUS_PICKUP', pickupPointId: 'cocs-office' }, 'COCS'))
+      .toBe('Please choose a pickup point.');
+  });
+
+  it('only accepts college pickup points of the customer\'s college', () => {
+    const selection = { method: 'COLLEGE_PICKUP' as const, pickupPointId: 'cocs-office' };
+
+    expect(validateFulfillmentSelection(config, selection, 'COCS')).toBeNull();
+    expect(validateFulfillmentSelection(config, selection, 'STEP')).toBe('Please choose a pickup point.');
+    expect(validateFulfillmentSelection(config, selection, null)).toBe('Please choose a pickup point.');
+  });
+});
+
+describe('getAvailableFulfillmentMethods', () => {
+  it('hides pickup methods without a pickup point for the customer', () => {
+    expect(getAvailableFulfillmentMethods(config, 'COCS')).toEqual(['CAMPUS_PICKUP', 'COLLEGE_PICKUP', 'DELIVERY']);
+    expect(getAvailableFulfillmentMethods(config, 'STEP')).toEqual(['CAMPUS_PICKUP', 'DELIVERY']);
+    expect(getPickupPoints(config, 'DELIVERY', 'COCS')).toEqual([]);
+  });
+});
+
+describe('getDefaultFulfillmentSelection', () => {
+  it('picks the first available method and pickup point', () => {
+    expect(getDefaultFulfillmentSelection(config, 'COCS')).toEqual({ method: 'CAMPUS_PICKUP', pickupPointId: 'campus-booth' });
+    expect(getDefaultFulfillmentSelection({ ...config, methods: ['COLLEGE_PICKUP', 'DELIVERY'] }, 'STEP'))
+      .toEqual({ method: 'DELIVERY', pickupPointId: undefined });
+  });
+});
+
+describe('resolveFulfillmentConfig', () => {
+  it('fills in what the server leaves out', () => {
+    const resolved = resolveFulfillmentConfig({ methods: [], delivery: { baseFee: 80 } as FulfillmentConfig['delivery'] });
+
+    expect(resolved.methods).toEqual(['CAMPUS_PICKUP', 'COLLEGE_PICKUP', 'DELIVERY']);
+    expect(resolved.delivery.baseFee).toBe(80);
+    expect(resolved.delivery.freeThreshold).toBe(1000);
+    expect(resolveFulfillmentConfig(null).pickupPoints.length).toBeGreaterThan(0);
+  });
+});
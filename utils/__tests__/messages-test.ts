@@ -0,0 +1,85 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  countUnreadInThread,
+  countUnreadMessages,
+  getLastMessage,
+  getReplySubject,
+  getThreadMessages,
+  isUnreadMessage,
+  sortThreadsByActivity,
+} from '../messages';
+
+const message = (id: string, createdAt: string, overrides: { isRead?: boolean; isSentByAdmin?: boolean } = {}) => ({
+  id,
+  createdAt: new Date(createdAt),
+  isRead: false,
+  isSentByAdmin: false,
+  ...overrides,
+});
+
+const thread = (...replies: ReturnType<typeof message>[]) => ({
+  ...message('first', '2025-04-01T08:00:00Z', { isRead: true }),
+  Message: replies,
+});
+
+describe('getThreadMessages', () => {
+  it('puts the first message before its replies, oldest first', () => {
+    const messages = getThreadMessages(thread(
+      message('second-reply', '2025-04-03T08:00:00Z'),
+      message('first-reply', '2025-04-02T08:00:00Z'),
+    ));
+
+    expect(messages.map(m => m.id)).toEqual(['first', 'first-reply', 'second-reply']);
+    expect(messages[0]).not.toHaveProperty('Message');
+  });
+
+  it('handles a thread without replies', () => {
+    expect(getThreadMessages(message('only', '2025-04-01T08:00:00Z')).map(m => m.id)).toEqual(['only']);
+  });
+});
+
+describe('unread counts', () => {
+  it('only counts staff replies that are not read', () => {
+    expect(isUnreadMessage({ isRead: false, isSentByAdmin: true })).toBe(true);
+    expect(isUnreadMessage({ isRead: true, isSentByAdmin: true })).toBe(false);
+    expect(isUnreadMessage({ isRead: false, isSentByAdmin: false })).toBe(false);
+  });
+
+  it('adds up unread replies across threads', () => {
+    const unread = thread(
+      message('staff-1', '2025-04-02T08:00:00Z', { isSentByAdmin: true }),
+      message('customer', '2025-04-03T08:00:00Z'),
+      message('staff-2', '2025-04-04T08:00:00Z', { isSentByAdmin: true }),
+    );
+    const read = thread(message('staff-3', '2025-04-02T08:00:00Z', { isSentByAdmin: true, isRead: true }));
+
+    expect(countUnreadInThread(unread)).toBe(2);
+    expect(countUnreadMessages([unread, read])).toBe(2);
+    expect(countUnreadMessages([])).toBe(0);
+  });
+});
+
+describe('getLastMessage', () => {
+  it('returns the newest reply', () => {
+    expect(getLastMessage(thread(
+      message('newest', '2025-04-05T08:00:00Z'),
+      message('older', '2025-04-02T08:00:00Z'),
+    )).id).toBe('newest');
+  });
+});
+
+describe('sortThreadsByActivity', () => {
+  it('puts the thread with the latest reply first', () => {
+    const quiet = { ...thread(), id: 'quiet', createdAt: new Date('2025-04-03T08:00:00Z') };
+    const busy = thread(message('latest', '2025-04-06T08:00:00Z'));
+
+    expect(sortThreadsByActivity([quiet, busy]).map(t => t.id)).toEqual(['first', 'quiet']);
+  });
+});
+
+describe('getReplySubject', () => {
+  it('adds a single Re: prefix', () => {
+    expect(getReplySubject('Hoodie sizes')).toBe('Re: Hoodie sizes');
+    expect(getReplySubject('RE: Hoodie sizes')).toBe('RE: Hoodie sizes');
+  });
+});
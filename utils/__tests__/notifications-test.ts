@@ -0,0 +1,76 @@
+import { describe, expect, it } from '@jest/globals';
+import { TicketStatus } from '@/types/ticket';
+import {
+  buildNotificationContent,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  getNotificationHref,
+  getNotificationPreferences,
+  isNotificationEnabled,
+  parseNotificationData,
+} from '../notifications';
+
+describe('getNotificationPreferences', () => {
+  it('turns every category on by default', () => {
+    expect(getNotificationPreferences({})).toEqual(DEFAULT_NOTIFICATION_PREFERENCES);
+    expect(getNotificationPreferences(null)).toEqual(DEFAULT_NOTIFICATION_PREFERENCES);
+  });
+
+  it('keeps saved choices and ignores values that are not booleans', () => {
+    const preferences = getNotificationPreferences({ payment: false, ticket: 'no', unknown: false });
+
+    expect(preferences.payment).toBe(false);
+    expect(preferences.ticket).toBe(true);
+    expect(preferences).not.toHaveProperty('unknown');
+  });
+});
+
+describe('parseNotificationData', () => {
+  it('reads known notification data', () => {
+    expect(parseNotificationData({ category: 'order', orderId: 'order-1', status: 'READY' }))
+      .toEqual({ category: 'order', orderId: 'order-1', status: 'READY' });
+  });
+
+  it('rejects unknown categories and statuses', () => {
+    expect(parseNotificationData({ category: 'promo', id: '1' })).toBeNull();
+    expect(parseNotificationData({ category: 'order', orderId: 'order-1', status: 'LOST' })).toBeNull();
+    expect(parseNotificationData(undefined)).toBeNull();
+  });
+});
+
+describe('isNotificationEnabled', () => {
+  it('respects the category preference', () => {
+    const data = { category: 'payment', paymentId: 'pay-1', status: 'VERIFIED' } as const;
+
+    expect(isNotificationEnabled(data, DEFAULT_NOTIFICATION_PREFERENCES)).toBe(true);
+    expect(isNotificationEnabled(data, { ...DEFAULT_NOTIFICATION_PREFERENCES, payment: false })).toBe(false);
+  });
+
+  it('only shows critical announcements', () => {
+    expect(isNotificationEnabled({ category: 'announcement', announcementId: 'a1', level: 'CRITICAL' }, DEFAULT_NOTIFICATION_PREFERENCES)).toBe(true);
+    expect(isNotificationEnabled({ category: 'announcement', announcementId: 'a1', level: 'INFO' }, DEFAULT_NOTIFICATION_PREFERENCES)).toBe(false);
+  });
+});
+
+describe('getNotificationHref', () => {
+  it('opens order tracking for order and fulfillment updates', () => {
+    expect(getNotificationHref({ category: 'fulfillment', orderId: 'order-1', status: 'READY' }))
+      .toEqual({ pathname: '/track-order', params: { orderId: 'order-1' } });
+  });
+
+  it('opens the ticket thread', () => {
+    expect(getNotificationHref({ category: 'ticket', ticketId: 'ticket-1' }))
+      .toEqual({ pathname: '/ticket/[id]', params: { id: 'ticket-1' } });
+  });
+});
+
+describe('buildNotificationContent', () => {
+  it('names the order', () => {
+    expect(buildNotificationContent({ category: 'order', orderId: '01jaorder123', status: 'READY' }))
+      .toEqual({ title: 'Your order is ready', body: 'Tap to see Order #01JAORDE.' });
+  });
+
+  it('describes ticket status changes and replies', () => {
+    expect(buildNotificationContent({ category: 'ticket', ticketId: 't1', status: TicketStatus.RESOLVED }).title).toBe('Ticket resolved');
+    expect(buildNotificationContent({ category: 'ticket', ticketId: 't1' }).title).toBe('New reply on your ticket');
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { ApiError, AuthError, NetworkError, ValidationError } from '@/lib/api';
+import type { OutboxEntry, PaymentInput } from '@/types/outbox';
+import {
+  addOutboxEntry,
+  createOutboxEntry,
+  getOutboxRequest,
+  getReplayOutcome,
+  isQueuedMutation,
+  replayOutbox,
+} from '../outbox';
+
+const now = new Date('2025-06-01T08:00:00Z');
+
+const payment = (overrides: Partial<PaymentInput> = {}): PaymentInput => ({
+  orderId: 'order-1',
+  userId: 'user-1',
+  amount: 500,
+  paymentMethod: 'GCASH',
+  paymentSite: 'OFFSITE',
+  referenceNo: 'REF-1',
+  ...overrides,
+});
+
+const ticket = (title: string) => createOutboxEntry({
+  type: 'ticket.create',
+  payload: { title, description: 'Shirt arrived in the wrong size', priority: 'MEDIUM', userId: 'user-1' },
+}, 'user-1', now);
+
+describe('addOutboxEntry', () => {
+  it('appends unrelated entries in order', () => {
+    const first = ticket('First issue');
+    const second = ticket('Second issue');
+
+    const { entries } = addOutboxEntry(addOutboxEntry([], first).entries, second);
+    expect(entries.map(entry => entry.id)).toEqual([first.id, second.id]);
+  });
+
+  it('merges profile updates into the pending one', () => {
+    const first = createOutboxEntry({ type: 'profile.update', payload: { firstName: 'Juan' } }, 'user-1', now);
+    const second = createOutboxEntry({ type: 'profile.update', payload: { lastName: 'Cruz', firstName: 'Jon' } }, 'user-1', now);
+
+    const result = addOutboxEntry([first], second);
+    expect(result.entries).toHaveLength(1);
+    expect(result.entry.id).toBe(first.id);
+    expect(result.entry.payload).toEqual({ firstName: 'Jon', lastName: 'Cruz' });
+  });
+
+  it('replaces a resubmitted payment for the same reference', () => {
+    const first = createOutboxEntry({ type: 'payment.create', payload: payment() }, 'user-1', now);
+    const resubmitted = createOutboxEntry({ type: 'payment.create', payload: payment({ amount: 450 }) }, 'user-1', now);
+    const other = createOutboxEntry({ type: 'payment.create', payload: payment({ referenceNo: 'REF-2' }) }, 'user-1', now);
+
+    const afterResubmit = addOutboxEntry([first], resubmitted);
+    expect(afterResubmit.entries).toHaveLength(1);
+    expect(afterResubmit.entry).toMatchObject({ id: first.id, payload: { amount: 450 } });
+
+    expect(addOutboxEntry(afterResubmit.entries, other).entries).toHaveLength(2);
+  });
+
+  it('does not merge into entries the server already rejected', () => {
+    const rejected: OutboxEntry = {
+      ...createOutboxEntry({ type: 'profile.update', payload: { firstName: 'Juan' } }, 'user-1', now),
+      status: 'failed',
+    };
+    const next = createOutboxEntry({ type: 'profile.update', payload: { firstName: 'Jon' } }, 'user-1', now);
+
+    expect(addOutboxEntry([rejected], next).entries).toHaveLength(2);
+  });
+});
+
+describe('getOutboxRequest', () => {
+  it('sends payments with an idempotency key so replays are not charged twice', () => {
+    const entry = createOutboxEntry({ type: 'payment.create', payload: payment() }, 'user-1', now);
+
+    expect(getOutboxRequest(entry)).toEqual({
+      method: 'POST',
+      path: '/payments/create',
+      body: payment(),
+      options: { idempotent: true, headers: { 'Idempotency-Key': entry.id } },
+    });
+  });
+
+  it('creates tickets relative to the API base URL', () => {
+    const entry = ticket('Wrong size');
+
+    expect(getOutboxRequest(entry)).toMatchObject({ method: 'POST', path: '/tickets/create' });
+  });
+});
+
+describe('getReplayOutcome', () => {
+  it('retries when the server could not be reached or the session expired', () => {
+    expect(getReplayOutcome(new NetworkError())).toBe('retry');
+    expect(getReplayOutcome(new ApiError(503, 'Unavailable'))).toBe('retry');
+    expect(getReplayOutcome(new AuthError(401, 'Signed out'))).toBe('retry');
+  });
+
+  it('sets aside conflicts and rejections', () => {
+    expect(getReplayOutcome(new ApiError(409, 'Order already paid'))).toBe('conflict');
+    expect(getReplayOutcome(new ValidationError(422, 'Invalid amount'))).toBe('failed');
+  });
+});
+
+describe('replayOutbox', () => {
+  const handlers = () => ({
+    onSynced: jest.fn(),
+    onRejected: jest.fn(),
+    onDeferred: jest.fn(),
+  });
+
+  it('sends entries oldest first', async () => {
+    const entries = [ticket('First'), ticket('Second')];
+    const sent: string[] = [];
+    const callbacks = handlers();
+
+    const result = await replayOutbox(entries, async (entry) => {
+      sent.push(entry.id);
+    }, callbacks);
+
+    expect(sent).toEqual(entries.map(entry => entry.id));
+    expect(callbacks.onSynced).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({ synced: 2, stopped: false });
+  });
+
+  it('stops at the first entry that cannot reach the server', async () => {
+    const entries = [ticket('First'), ticket('Second')];
+    const send = jest.fn(async () => {
+      throw new NetworkError();
+    });
+    const callbacks = handlers();
+
+    const result = await replayOutbox(entries, send, callbacks);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(callbacks.onDeferred).toHaveBeenCalledWith(entries[0], expect.any(String));
+    expect(result).toEqual({ synced: 0, stopped: true });
+  });
+
+  it('keeps going past a conflict', async () => {
+    const entries = [ticket('First'), ticket('Second')];
+    const callbacks = handlers();
+
+    await replayOutbox(entries, async (entry) => {
+      if (entry.id === entries[0].id) throw new ApiError(409, 'Already exists');
+    }, callbacks);
+
+    expect(callbacks.onRejected).toHaveBeenCalledWith(entries[0], 'conflict', 'Already exists');
+    expect(callbacks.onSynced).toHaveBeenCalledWith(entries[1], undefined);
+  });
+
+  it('skips entries that are not pending', async () => {
+    const rejected: OutboxEntry = { ...ticket('Rejected'), status: 'conflict' };
+    const send = jest.fn(async () => undefined);
+
+    await replayOutbox([rejected], send, handlers());
+    expect(send).not.toHaveBeenCalled();
+  });
+});
+
+describe('isQueuedMutation', () => {
+  it('tells queued results apart from API responses', () => {
+    expect(isQueuedMutation({ queued: true, entryId: 'abc' })).toBe(true);
+    expect(isQueuedMutation({ success: true, data: {} })).toBe(false);
+    expect(isQueuedMutation(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from '@jest/globals';
+import type { InfiniteData } from '@tanstack/react-query';
+import type { ApiResponse } from '@/types/common';
+import { flattenPages, getNextPageParam, isCloseToBottom, keepFirstPage } from '../pagination';
+
+const page = (items: string[], pageNumber: number, hasNextPage: boolean): ApiResponse<string[]> => ({
+  success: true,
+  data: items,
+  metadata: {
+    total: 5,
+    page: pageNumber,
+    lastPage: 3,
+    hasNextPage,
+    hasPreviousPage: pageNumber > 1,
+  },
+});
+
+const infinite = (...pages: ApiResponse<string[]>[]): InfiniteData<ApiResponse<string[]>, number> => ({
+  pages,
+  pageParams: pages.map((_, index) => index + 1),
+});
+
+describe('getNextPageParam', () => {
+  it('returns the following page while there are more', () => {
+    expect(getNextPageParam(page(['a', 'b'], 1, true))).toBe(2);
+  });
+
+  it('stops on the last page', () => {
+    expect(getNextPageParam(page(['e'], 3, false))).toBeUndefined();
+  });
+
+  it('stops when the response has no metadata', () => {
+    expect(getNextPageParam({ success: true, data: [] })).toBeUndefined();
+  });
+});
+
+describe('flattenPages', () => {
+  it('concatenates pages in order', () => {
+    const data = infinite(page(['a', 'b'], 1, true), page(['c', 'd'], 2, true), page(['e'], 3, false));
+    expect(flattenPages(data)).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('returns an empty list before the first page loads', () => {
+    expect(flattenPages(undefined)).toEqual([]);
+  });
+});
+
+describe('keepFirstPage', () => {
+  it('drops every page after the first', () => {
+    const data = infinite(page(['a', 'b'], 1, true), page(['c', 'd'], 2, true));
+    expect(keepFirstPage(data)).toEqual({ pages: [data.pages[0]], pageParams: [1] });
+  });
+});
+
+describe('isCloseToBottom', () => {
+  const event = (offset: number) => ({
+    layoutMeasurement: { height: 800, width: 400 },
+    contentOffset: { x: 0, y: offset },
+    contentSize: { height: 2000, width: 400 },
+  }) as Parameters<typeof isCloseToBottom>[0];
+
+  it('is false near the top', () => {
+    expect(isCloseToBottom(event(0))).toBe(false);
+  });
+
+  it('is true within the threshold of the end', () => {
+    expect(isCloseToBottom(event(900))).toBe(true);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from '@jest/globals';
+import type { Payment, PaymentStatus } from '@prisma/client';
+import {
+  canPayOrder,
+  getMerchantAccounts,
+  getOrderBalance,
+  getOrderPaymentStatusAfterPayment,
+  getPaymentReceipt,
+} from '../payments';
+
+// Decimal amounts reach the app as numbers or strings
+const payment = (amount: number | string, paymentStatus: PaymentStatus, isDeleted = false) => ({
+  amount: amount as unknown as Payment['amount'],
+  paymentStatus,
+  isDeleted,
+});
+
+describe('getOrderBalance', () => {
+  it('counts verified and in-flight payments towards the order', () => {
+    const payments = [payment(200, 'VERIFIED'), payment(100, 'PENDING'), payment(50, 'PROCESSING')];
+
+    expect(getOrderBalance(500, payments)).toEqual({ paidAmount: 350, balance: 150 });
+  });
+
+  it('ignores declined, failed, cancelled, refunded and deleted payments', () => {
+    const payments = [
+      payment(100, 'DECLINED'),
+      payment(100, 'FAILED'),
+      payment(100, 'CANCELLED'),
+      payment(100, 'REFUND_PENDING'),
+      payment(100, 'REFUNDED'),
+      payment(100, 'VERIFIED', true),
+    ];
+
+    expect(getOrderBalance(500, payments)).toEqual({ paidAmount: 0, balance: 500 });
+  });
+
+  it('reads decimal amounts sent as strings', () => {
+    expect(getOrderBalance(300, [payment('99.90', 'VERIFIED')])).toEqual({ paidAmount: 99.9, balance: 200.1 });
+  });
+
+  it('rounds to centavos and never goes below zero', () => {
+    expect(getOrderBalance(0.3, [payment(0.1, 'VERIFIED'), payment(0.1, 'VERIFIED')]).balance).toBe(0.1);
+    expect(getOrderBalance(500, [payment(600, 'VERIFIED')])).toEqual({ paidAmount: 600, balance: 0 });
+  });
+
+  it('treats an order without payments as unpaid', () => {
+    expect(getOrderBalance(450)).toEqual({ paidAmount: 0, balance: 450 });
+  });
+});
+
+describe('getOrderPaymentStatusAfterPayment', () => {
+  it('records less than the balance as a down payment', () => {
+    expect(getOrderPaymentStatusAfterPayment('PENDING', 500, 200)).toBe('DOWNPAYMENT');
+    expect(getOrderPaymentStatusAfterPayment('DOWNPAYMENT', 300, 100)).toBe('DOWNPAYMENT');
+  });
+
+  it('keeps the current status for a full payment until staff verify it', () => {
+    expect(getOrderPaymentStatusAfterPayment('PENDING', 500, 500)).toBe('PENDING');
+    expect(getOrderPaymentStatusAfterPayment('DOWNPAYMENT', 300, 300)).toBe('DOWNPAYMENT');
+  });
+});
+
+describe('canPayOrder', () => {
+  it('allows paying unpaid and partly paid orders', () => {
+    expect(canPayOrder({ status: 'PENDING', paymentStatus: 'PENDING' })).toBe(true);
+    expect(canPayOrder({ status: 'PROCESSING', paymentStatus: 'DOWNPAYMENT' })).toBe(true);
+  });
+
+  it('blocks cancelled and fully paid or refunded orders', () => {
+    expect(canPayOrder({ status: 'CANCELLED', paymentStatus: 'PENDING' })).toBe(false);
+    expect(canPayOrder({ status: 'READY', paymentStatus: 'PAID' })).toBe(false);
+    expect(canPayOrder({ status: 'DELIVERED', paymentStatus: 'REFUNDED' })).toBe(false);
+  });
+});
+
+describe('getMerchantAccounts', () => {
+  const gcash = {
+    accountName: 'MerchTrack Store',
+    accountNumber: '0917 000 0000',
+    instructions: 'Send through GCash, then enter the reference number.',
+  };
+
+  it('keeps complete accounts for online methods', () => {
+    const accounts = getMerchantAccounts({
+      GCASH: gcash,
+      BANK_TRANSFER: { ...gcash, bankName: 'BPI' },
+    });
+
+    expect(accounts).toEqual({ GCASH: gcash, BANK_TRANSFER: { ...gcash, bankName: 'BPI' } });
+  });
+
+  it('leaves out incomplete accounts and other methods', () => {
+    const accounts = getMerchantAccounts({
+      GCASH: { ...gcash, accountNumber: '  ' },
+      MAYA: { accountName: 'MerchTrack Store' },
+      CASH: gcash,
+    });
+
+    expect(accounts).toEqual({});
+  });
+
+  it('returns no accounts when the server sends none', () => {
+    expect(getMerchantAccounts(undefined)).toEqual({});
+    expect(getMerchantAccounts(null)).toEqual({});
+    expect(getMerchantAccounts('GCASH')).toEqual({});
+  });
+});
+
+describe('getPaymentReceipt', () => {
+  it('reads the receipt from payment metadata', () => {
+    expect(getPaymentReceipt({ receipt: { url: 'https://example.com/receipt.png', width: 10 } })).toEqual({
+      url: 'https://example.com/receipt.png',
+      fileName: null,
+      width: 10,
+      height: 0,
+    });
+  });
+
+  it('returns null without a receipt image', () => {
+    expect(getPaymentReceipt(null)).toBeNull();
+    expect(getPaymentReceipt({ receipt: { fileName: 'receipt.png' } })).toBeNull();
+    expect(getPaymentReceipt({ receipt: { dataUri: 'data:image/png;base64,AAA' } })).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from '@jest/globals';
+import type { Fulfillment, UserPermission } from '@prisma/client';
+import { canShowPickupQr, decodePickupQr, encodePickupQr, getCurrentFulfillment } from '../pickup-qr';
+import { canClaimPickups } from '../permissions';
+
+const now = new Date('2025-06-01T08:00:00Z');
+const payload = {
+  orderId: '01JXORDER',
+  fulfillmentId: '01JXFULFILLMENT',
+  expiresAt: now.getTime() + 60_000,
+  signature: 'abc123',
+};
+
+const fulfillment = (status: Fulfillment['status'], createdAt: string, isDeleted = false) => ({
+  id: `${status}-${createdAt}`,
+  isDeleted,
+  orderId: payload.orderId,
+  fulfillmentDate: new Date(createdAt),
+  processedById: null,
+  status,
+  createdAt: new Date(createdAt),
+  updatedAt: new Date(createdAt),
+}) as Fulfillment;
+
+describe('pickup QR encoding', () => {
+  it('round-trips a payload', () => {
+    expect(encodePickupQr(payload)).toBe(`MTPICKUP1.01JXORDER.01JXFULFILLMENT.${payload.expiresAt}.abc123`);
+    expect(decodePickupQr(encodePickupQr(payload), now)).toEqual({ isValid: true, payload });
+  });
+
+  it('rejects codes from other apps', () => {
+    expect(decodePickupQr('https://example.com', now).isValid).toBe(false);
+    expect(decodePickupQr('OTHER.a.b.1.sig', now).isValid).toBe(false);
+  });
+
+  it('rejects damaged codes', () => {
+    expect(decodePickupQr('MTPICKUP1.01JXORDER..123.sig', now).isValid).toBe(false);
+    expect(decodePickupQr('MTPICKUP1.01JXORDER.01JXFULFILLMENT.soon.sig', now).isValid).toBe(false);
+  });
+
+  it('rejects expired codes', () => {
+    const expired = encodePickupQr({ ...payload, expiresAt: now.getTime() });
+
+    expect(decodePickupQr(expired, now)).toEqual({
+      isValid: false,
+      reason: 'This pickup code has expired. Ask the customer to refresh it.',
+    });
+  });
+});
+
+describe('canShowPickupQr', () => {
+  it('uses the latest fulfillment that is not deleted', () => {
+    const fulfillments = [
+      fulfillment('PRODUCTION', '2025-05-01T00:00:00Z'),
+      fulfillment('READY', '2025-05-03T00:00:00Z'),
+      fulfillment('CANCELLED', '2025-05-04T00:00:00Z', true),
+    ];
+
+    expect(getCurrentFulfillment(fulfillments)?.status).toBe('READY');
+    expect(canShowPickupQr({ fulfillmentMethod: 'CAMPUS_PICKUP', Fulfillment: fulfillments })).toBe(true);
+  });
+
+  it('hides the code until the order is ready', () => {
+    expect(canShowPickupQr({
+      fulfillmentMethod: 'COLLEGE_PICKUP',
+      Fulfillment: [fulfillment('PRODUCTION', '2025-05-01T00:00:00Z')],
+    })).toBe(false);
+    expect(canShowPickupQr({ fulfillmentMethod: 'CAMPUS_PICKUP' })).toBe(false);
+  });
+
+  it('never shows a code for deliveries', () => {
+    expect(canShowPickupQr({
+      fulfillmentMethod: 'DELIVERY',
+      Fulfillment: [fulfillment('READY', '2025-05-01T00:00:00Z')],
+    })).toBe(false);
+  });
+});
+
+describe('canClaimPickups', () => {
+  const permission = (overrides: Partial<UserPermission> = {}): UserPermission => ({
+    userId: 'staff-1',
+    permissionId: 'fulfillment',
+    canCreate: false,
+    canRead: true,
+    canUpdate: true,
+    canDelete: false,
+    ...overrides,
+  });
+
+  it('requires staff with read and update on fulfillment', () => {
+    expect(canClaimPickups({ isStaff: true }, [permission()])).toBe(true);
+    expect(canClaimPickups({ isStaff: true }, [permission({ canUpdate: false })])).toBe(false);
+    expect(canClaimPickups({ isStaff: true }, [permission({ permissionId: 'orders' })])).toBe(false);
+  });
+
+  it('denies customers even with a permission row', () => {
+    expect(canClaimPickups({ isStaff: false }, [permission()])).toBe(false);
+    expect(canClaimPickups(null, undefined)).toBe(false);
+  });
+});
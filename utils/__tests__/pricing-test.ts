@@ -0,0 +1,224 @@
+import { describe, expect, it } from '@jest/globals';
+import type { College, Role } from '@prisma/client';
+import { formatCurrency } from '../format-currency';
+import { describeRolePricing, priceCart, resolveProductPriceRange, resolveVariantPrice } from '../pricing';
+
+// Records keyed by the Prisma enums so a new Role or College fails type-checking until it is covered here
+const roles = Object.keys({
+  PLAYER: true,
+  STUDENT: true,
+  STAFF_FACULTY: true,
+  ALUMNI: true,
+  OTHERS: true,
+} satisfies Record<Role, true>) as Role[];
+
+const colleges = Object.keys({
+  NOT_APPLICABLE: true,
+  COCS: true,
+  STEP: true,
+  ABBS: true,
+  JPIA: true,
+  ACHSS: true,
+  ANSA: true,
+  COL: true,
+  AXI: true,
+} satisfies Record<College, true>) as College[];
+
+const BASE_PRICE = 500;
+const OTHERS_PRICE = 480;
+
+// Every role gets a distinct price so the test can tell which one applied
+const rolePrices: Record<string, number> = Object.fromEntries(
+  roles.map((role, index) => [role, 300 + index * 25])
+);
+rolePrices.OTHERS = OTHERS_PRICE;
+
+const variant = { price: BASE_PRICE, rolePricing: rolePrices };
+
+describe('resolveVariantPrice', () => {
+  describe.each(roles)('role %s', (role) => {
+    it.each(colleges)('applies the role price when buying from their own college (%s)', (college) => {
+      const result = resolveVariantPrice(variant, { role, college }, college);
+
+      expect(result).toMatchObject({
+        price: rolePrices[role],
+        basePrice: BASE_PRICE,
+        appliedRole: role,
+        reason: 'ROLE_PRICE',
+        isSameCollege: true,
+        isFallback: false,
+        formattedPrice: formatCurrency(rolePrices[role]),
+      });
+    });
+
+    it.each(colleges)('applies the OTHERS price when buying from another college (%s)', (college) => {
+      const productCollege = colleges.find(other => other !== college);
+      const result = resolveVariantPrice(variant, { role, college }, productCollege);
+
+      expect(result).toMatchObject({
+        price: OTHERS_PRICE,
+        appliedRole: 'OTHERS',
+        reason: 'OTHERS_PRICE',
+        isSameCollege: false,
+        isFallback: false,
+        originalPrice: formatCurrency(BASE_PRICE),
+      });
+    });
+
+    it.each(colleges)('falls back to the base price when the role has no price (%s)', (college) => {
+      const result = resolveVariantPrice({ price: BASE_PRICE, rolePricing: {} }, { role, college }, college);
+
+      expect(result).toMatchObject({
+        price: BASE_PRICE,
+        appliedRole: 'OTHERS',
+        reason: 'NO_ROLE_PRICE',
+        isSameCollege: true,
+        isFallback: true,
+      });
+      expect(result.originalPrice).toBeUndefined();
+    });
+  });
+
+  it('falls back to the base price when another college has no OTHERS price', () => {
+    const result = resolveVariantPrice(
+      { price: BASE_PRICE, rolePricing: { STUDENT: 300 } },
+      { role: 'STUDENT', college: 'COCS' },
+      'STEP'
+    );
+
+    expect(result).toMatchObject({ price: BASE_PRICE, reason: 'NO_OTHERS_PRICE', isFallback: true });
+  });
+
+  it.each([
+    ['role', { role: null, college: 'COCS' }, 'COCS'],
+    ['college', { role: 'STUDENT', college: null }, 'COCS'],
+    ['product college', { role: 'STUDENT', college: 'COCS' }, null],
+  ])('uses the base price when the %s is unknown', (_label, customer, productCollege) => {
+    const result = resolveVariantPrice(variant, customer, productCollege);
+
+    expect(result).toMatchObject({
+      price: BASE_PRICE,
+      appliedRole: 'OTHERS',
+      reason: 'INCOMPLETE_PROFILE',
+      isSameCollege: null,
+      isFallback: true,
+    });
+  });
+
+  it('accepts string prices and ignores invalid role prices', () => {
+    const result = resolveVariantPrice(
+      { price: '250.50', rolePricing: { STUDENT: 'not a price' } },
+      { role: 'STUDENT', college: 'COCS' },
+      'COCS'
+    );
+
+    expect(result).toMatchObject({ price: 250.5, reason: 'NO_ROLE_PRICE' });
+  });
+
+  it('treats a missing base price as zero', () => {
+    expect(resolveVariantPrice({ price: null }, { role: null, college: null }, null).price).toBe(0);
+  });
+});
+
+describe('resolveProductPriceRange', () => {
+  const customer = { role: 'STUDENT', college: 'COCS' };
+
+  it('returns a range across variants', () => {
+    const result = resolveProductPriceRange(
+      {
+        price: 0,
+        variants: [
+          { price: 500, rolePricing: { STUDENT: 400 } },
+          { price: 700, rolePricing: { STUDENT: 600 } },
+        ],
+      },
+      customer,
+      'COCS'
+    );
+
+    expect(result).toMatchObject({
+      price: 400,
+      minPrice: 400,
+      maxPrice: 600,
+      isRange: true,
+      appliedRole: 'STUDENT',
+      formattedPrice: `${formatCurrency(400)} - ${formatCurrency(600)}`,
+      originalPrice: undefined,
+    });
+    expect(result.variants.map(v => v.reason)).toEqual(['ROLE_PRICE', 'ROLE_PRICE']);
+  });
+
+  it('collapses to a single price and reports OTHERS when variants resolve differently', () => {
+    const result = resolveProductPriceRange(
+      {
+        price: 0,
+        variants: [
+          { price: 500, rolePricing: { STUDENT: 400 } },
+          { price: 400, rolePricing: {} },
+        ],
+      },
+      customer,
+      'COCS'
+    );
+
+    expect(result).toMatchObject({ isRange: false, price: 400, appliedRole: 'OTHERS', originalPrice: undefined });
+  });
+
+  it('prices products without variants from the product itself', () => {
+    const result = resolveProductPriceRange(
+      { price: 350, rolePricing: { STUDENT: 300 }, variants: [] },
+      customer,
+      'COCS'
+    );
+
+    expect(result).toMatchObject({
+      price: 300,
+      isRange: false,
+      appliedRole: 'STUDENT',
+      originalPrice: formatCurrency(350),
+    });
+  });
+});
+
+describe('priceCart', () => {
+  it('returns a line-by-line breakdown with totals', () => {
+    const result = priceCart(
+      [
+        { id: 'a', quantity: 2, variant: { price: 500, rolePricing: { STUDENT: 400 } }, productCollege: 'COCS' },
+        { id: 'b', quantity: 1, variant: { price: 300, rolePricing: { OTHERS: 280 } }, productCollege: 'STEP' },
+        { id: 'c', quantity: 3, variant: { price: 100, rolePricing: {} }, productCollege: 'COCS' },
+      ],
+      { role: 'STUDENT', college: 'COCS' }
+    );
+
+    expect(result.lines.map(({ id, reason, lineTotal }) => ({ id, reason, lineTotal }))).toEqual([
+      { id: 'a', reason: 'ROLE_PRICE', lineTotal: 800 },
+      { id: 'b', reason: 'OTHERS_PRICE', lineTotal: 280 },
+      { id: 'c', reason: 'NO_ROLE_PRICE', lineTotal: 300 },
+    ]);
+    expect(result.subtotal).toBe(1380);
+    expect(result.baseSubtotal).toBe(1600);
+    expect(result.savings).toBe(220);
+    expect(result.formattedSubtotal).toBe(formatCurrency(1380));
+  });
+
+  it('returns zero totals for an empty cart', () => {
+    expect(priceCart([], { role: null, college: null })).toMatchObject({ lines: [], subtotal: 0, savings: 0 });
+  });
+});
+
+describe('describeRolePricing', () => {
+  it('names the role and college whose prices apply', () => {
+    expect(describeRolePricing({ role: 'ALUMNI', college: 'COCS' }))
+      .toBe('As an Alumni in COCS, you get alumni prices on merch posted by COCS. Merch from other colleges shows their guest price.');
+  });
+
+  it('explains guest pricing for customers outside every college', () => {
+    expect(describeRolePricing({ role: 'OTHERS', college: 'NOT_APPLICABLE' })).toMatch(/guest price on all merch/);
+    expect(describeRolePricing({ role: 'STUDENT', college: 'NOT_APPLICABLE' })).toMatch(/guest price on all merch/);
+  });
+
+  it('asks for a complete profile when role or college is missing', () => {
+    expect(describeRolePricing({ role: 'STUDENT', college: null })).toMatch(/^Complete your profile/);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from '@jest/globals';
+import { buildProfileChangeTicket, hasProfileChange, PROFILE_CHANGE_TICKET_PREFIX } from '../profile-change';
+
+const user = {
+  id: 'user-1',
+  firstName: 'Juan',
+  lastName: 'Dela Cruz',
+  email: 'juan@example.com',
+  role: 'STUDENT',
+  college: 'COCS',
+} as const;
+
+describe('hasProfileChange', () => {
+  it('is false when nothing changed', () => {
+    expect(hasProfileChange(user, { role: 'STUDENT', college: 'COCS' })).toBe(false);
+  });
+
+  it('detects a new role or college', () => {
+    expect(hasProfileChange(user, { role: 'ALUMNI', college: 'COCS' })).toBe(true);
+    expect(hasProfileChange(user, { role: 'STUDENT', college: 'STEP' })).toBe(true);
+  });
+});
+
+describe('buildProfileChangeTicket', () => {
+  const ticket = buildProfileChangeTicket(user, { role: 'ALUMNI', college: 'COCS', reason: '  I graduated last June.  ' });
+
+  it('files the ticket under the change request prefix for the user', () => {
+    expect(ticket.title).toBe(`${PROFILE_CHANGE_TICKET_PREFIX}: Alumni (COCS)`);
+    expect(ticket.userId).toBe('user-1');
+    expect(ticket.priority).toBe('MEDIUM');
+  });
+
+  it('lists the current and requested profile with the reason', () => {
+    expect(ticket.description).toContain('Juan Dela Cruz (juan@example.com)');
+    expect(ticket.description).toContain('Current: Student (COCS)');
+    expect(ticket.description).toContain('Requested: Alumni (COCS)');
+    expect(ticket.description).toContain('Reason: I graduated last June.');
+  });
+});
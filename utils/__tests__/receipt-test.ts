@@ -0,0 +1,114 @@
+import { describe, expect, it } from '@jest/globals';
+import { buildOrderReceipt, buildPaymentReceipt, renderReceiptHtml, ReceiptOrder, ReceiptPayment } from '../receipt';
+
+const issuedAt = new Date('2025-06-01T00:00:00Z');
+
+const payment = (overrides: Record<string, unknown> = {}) => ({
+  id: 'pay12345-0000',
+  isDeleted: false,
+  orderId: 'order123-0000',
+  userId: 'user-1',
+  processedById: null,
+  paymentDate: new Date('2025-05-20T00:00:00Z'),
+  amount: 300,
+  paymentStatus: 'VERIFIED',
+  paymentSite: 'OFFSITE',
+  paymentMethod: 'GCASH',
+  paymentProvider: null,
+  referenceNo: 'GC-0001',
+  transactionId: null,
+  memo: null,
+  currency: 'PHP',
+  metadata: null,
+  createdAt: new Date('2025-05-20T00:00:00Z'),
+  updatedAt: new Date('2025-05-20T00:00:00Z'),
+  ...overrides,
+}) as unknown as ReceiptPayment;
+
+const order = (overrides: Record<string, unknown> = {}) => ({
+  id: 'order123-0000',
+  orderDate: new Date('2025-05-18T00:00:00Z'),
+  totalAmount: 630,
+  discountAmount: 120,
+  fulfillmentMethod: 'DELIVERY',
+  fulfillmentFee: 150,
+  customer: { firstName: 'Juan', lastName: 'Dela Cruz', email: 'juan@example.com' },
+  orderItems: [
+    {
+      quantity: 2,
+      price: 250,
+      originalPrice: 300,
+      appliedRole: 'STUDENT',
+      variant: { variantName: 'Large', product: { title: 'Org Shirt' } },
+    },
+    {
+      quantity: 1,
+      price: 100,
+      originalPrice: 100,
+      appliedRole: 'OTHERS',
+      variant: { variantName: 'Default', product: { title: 'Sticker <Pack>' } },
+    },
+  ],
+  payments: [
+    payment(),
+    payment({ id: 'pending-1', paymentStatus: 'PENDING', amount: 330 }),
+  ],
+  ...overrides,
+}) as unknown as ReceiptOrder;
+
+describe('buildOrderReceipt', () => {
+  it('lists line items with their applied role and original price', () => {
+    const receipt = buildOrderReceipt(order(), issuedAt);
+
+    expect(receipt.number).toBe('ORDER123');
+    expect(receipt.lines).toEqual([
+      { name: 'Org Shirt', variantName: 'Large', quantity: 2, price: 250, originalPrice: 300, appliedRole: 'STUDENT', total: 500 },
+      { name: 'Sticker <Pack>', variantName: 'Default', quantity: 1, price: 100, originalPrice: 100, appliedRole: 'OTHERS', total: 100 },
+    ]);
+    expect(receipt.subtotal).toBe(600);
+    expect(receipt.discount).toBe(120);
+    expect(receipt.fulfillmentFee).toBe(150);
+    expect(receipt.total).toBe(630);
+    expect(receipt.customerName).toBe('Juan Dela Cruz');
+  });
+
+  it('only includes verified payments', () => {
+    const receipt = buildOrderReceipt(order(), issuedAt);
+
+    expect(receipt.payments).toHaveLength(1);
+    expect(receipt.payments[0]).toMatchObject({ method: 'GCash', referenceNo: 'GC-0001', amount: 300 });
+    expect(receipt.amountPaid).toBe(300);
+  });
+});
+
+describe('buildPaymentReceipt', () => {
+  it('uses the payment as the only payment line', () => {
+    const receipt = buildPaymentReceipt({ ...payment(), order: order() } as ReceiptPayment, issuedAt);
+
+    expect(receipt.kind).toBe('PAYMENT');
+    expect(receipt.number).toBe('PAY12345');
+    expect(receipt.orderId).toBe('order123-0000');
+    expect(receipt.lines).toHaveLength(2);
+    expect(receipt.payments).toHaveLength(1);
+    expect(receipt.amountPaid).toBe(300);
+  });
+
+  it('falls back to the payment amount without an order', () => {
+    const receipt = buildPaymentReceipt(payment(), issuedAt);
+
+    expect(receipt.lines).toEqual([]);
+    expect(receipt.total).toBe(300);
+  });
+});
+
+describe('renderReceiptHtml', () => {
+  it('escapes values and embeds the QR code', () => {
+    const html = renderReceiptHtml(buildOrderReceipt(order(), issuedAt), '<svg id="qr"></svg>');
+
+    expect(html).toContain('Sticker &lt;Pack&gt;');
+    expect(html).not.toContain('Sticker <Pack>');
+    expect(html).toContain('<svg id="qr"></svg>');
+    expect(html).toContain('GC-0001');
+    expect(html).toContain('STUDENT pricing');
+  });
+});
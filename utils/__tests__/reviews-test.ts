@@ -0,0 +1,58 @@
+import { describe, expect, it } from '@jest/globals';
+import { sortReviews, summarizeReviews } from '../reviews';
+
+const review = (id: string, rating: number, createdAt: string) => ({ id, rating, createdAt: new Date(createdAt) });
+
+describe('summarizeReviews', () => {
+  it('returns an empty summary without reviews', () => {
+    const summary = summarizeReviews([]);
+
+    expect(summary.average).toBe(0);
+    expect(summary.total).toBe(0);
+    expect(summary.buckets.map(bucket => bucket.count)).toEqual([0, 0, 0, 0, 0]);
+    expect(summary.buckets.every(bucket => bucket.share === 0)).toBe(true);
+  });
+
+  it('counts reviews per star, five stars first', () => {
+    const summary = summarizeReviews([{ rating: 5 }, { rating: 5 }, { rating: 4 }, { rating: 1 }]);
+
+    expect(summary.total).toBe(4);
+    expect(summary.average).toBe(3.75);
+    expect(summary.buckets).toEqual([
+      { stars: 5, count: 2, share: 0.5 },
+      { stars: 4, count: 1, share: 0.25 },
+      { stars: 3, count: 0, share: 0 },
+      { stars: 2, count: 0, share: 0 },
+      { stars: 1, count: 1, share: 0.25 },
+    ]);
+  });
+
+  it('clamps ratings outside one to five', () => {
+    const summary = summarizeReviews([{ rating: 0 }, { rating: 7 }]);
+
+    expect(summary.buckets.find(bucket => bucket.stars === 1)?.count).toBe(1);
+    expect(summary.buckets.find(bucket => bucket.stars === 5)?.count).toBe(1);
+    expect(summary.average).toBe(3);
+  });
+});
+
+describe('sortReviews', () => {
+  const reviews = [
+    review('old-five', 5, '2025-01-01'),
+    review('new-three', 3, '2025-03-01'),
+    review('mid-five', 5, '2025-02-01'),
+  ];
+
+  it('puts the newest review first', () => {
+    expect(sortReviews(reviews, 'newest').map(r => r.id)).toEqual(['new-three', 'mid-five', 'old-five']);
+  });
+
+  it('puts the highest rating first, newest among ties', () => {
+    expect(sortReviews(reviews, 'highest').map(r => r.id)).toEqual(['mid-five', 'old-five', 'new-three']);
+  });
+
+  it('does not change the original list', () => {
+    sortReviews(reviews, 'highest');
+    expect(reviews.map(r => r.id)).toEqual(['old-five', 'new-three', 'mid-five']);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from '@jest/globals';
+import { canGiveFeedback, getSurveyQuestions, hasGivenFeedback } from '../survey';
+
+describe('getSurveyQuestions', () => {
+  it('keys the four questions q1 to q4 in order', () => {
+    const questions = getSurveyQuestions({
+      question1: 'How was the quality?',
+      question2: 'How was the fit?',
+      question3: 'How was the pickup?',
+      question4: 'Would you buy again?',
+    });
+
+    expect(questions).toEqual([
+      { id: 'q1', text: 'How was the quality?' },
+      { id: 'q2', text: 'How was the fit?' },
+      { id: 'q3', text: 'How was the pickup?' },
+      { id: 'q4', text: 'Would you buy again?' },
+    ]);
+  });
+});
+
+describe('canGiveFeedback', () => {
+  it('asks for feedback on delivered orders without a survey', () => {
+    expect(canGiveFeedback({ status: 'DELIVERED', customerSatisfactionSurveyId: null })).toBe(true);
+  });
+
+  it('does not ask twice for the same order', () => {
+    const order = { status: 'DELIVERED', customerSatisfactionSurveyId: 'survey-1' } as const;
+
+    expect(hasGivenFeedback(order)).toBe(true);
+    expect(canGiveFeedback(order)).toBe(false);
+  });
+
+  it('waits until the order is delivered', () => {
+    for (const status of ['PENDING', 'PROCESSING', 'READY', 'CANCELLED'] as const) {
+      expect(canGiveFeedback({ status, customerSatisfactionSurveyId: null })).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it } from '@jest/globals';
+import { TicketStatus } from '@/types/ticket';
+import {
+  applyTicketTemplate,
+  buildTicketUpdate,
+  canTransitionTicket,
+  describeTicketLink,
+  getTicketActions,
+  getTicketTemplates,
+  isTicketTemplateId,
+  parseTicketUpdates,
+} from '../tickets';
+
+const NOW = new Date('2025-05-01T08:00:00.000Z');
+
+describe('canTransitionTicket', () => {
+  it('allows reopening a resolved ticket', () => {
+    expect(canTransitionTicket(TicketStatus.RESOLVED, TicketStatus.OPEN)).toBe(true);
+  });
+
+  it('keeps closed tickets closed', () => {
+    expect(canTransitionTicket(TicketStatus.CLOSED, TicketStatus.IN_PROGRESS)).toBe(false);
+    expect(canTransitionTicket(TicketStatus.CLOSED, TicketStatus.OPEN)).toBe(false);
+    expect(canTransitionTicket(TicketStatus.CLOSED, TicketStatus.CLOSED)).toBe(true);
+  });
+
+  it('does not skip back to in progress from resolved', () => {
+    expect(canTransitionTicket(TicketStatus.RESOLVED, TicketStatus.IN_PROGRESS)).toBe(false);
+  });
+});
+
+describe('getTicketActions', () => {
+  it('lets owners reply to and close active tickets', () => {
+    expect(getTicketActions(TicketStatus.IN_PROGRESS)).toEqual({ canReply: true, canReopen: false, canClose: true });
+  });
+
+  it('offers reopening only for resolved tickets', () => {
+    expect(getTicketActions(TicketStatus.RESOLVED).canReopen).toBe(true);
+    expect(getTicketActions(TicketStatus.OPEN).canReopen).toBe(false);
+  });
+
+  it('allows nothing on closed tickets', () => {
+    expect(getTicketActions(TicketStatus.CLOSED)).toEqual({ canReply: false, canReopen: false, canClose: false });
+  });
+});
+
+describe('parseTicketUpdates', () => {
+  const update = { status: 'OPEN', message: 'Hello', createdAt: '2025-04-01T00:00:00.000Z' };
+
+  it('returns an empty list for missing or malformed updates', () => {
+    expect(parseTicketUpdates(null)).toEqual([]);
+    expect(parseTicketUpdates(undefined)).toEqual([]);
+    expect(parseTicketUpdates('not json')).toEqual([]);
+    expect(parseTicketUpdates({ status: 'OPEN' })).toEqual([]);
+  });
+
+  it('parses JSON strings and arrays alike', () => {
+    expect(parseTicketUpdates(JSON.stringify([update]))).toEqual([update]);
+    expect(parseTicketUpdates([update])).toEqual([update]);
+  });
+
+  it('drops entries with an unknown status', () => {
+    expect(parseTicketUpdates([update, { status: 'ARCHIVED', message: 'x' }])).toEqual([update]);
+  });
+
+  it('sorts updates oldest first', () => {
+    const later = { ...update, message: 'Later', createdAt: '2025-04-02T00:00:00.000Z' };
+    expect(parseTicketUpdates([later, update]).map(entry => entry.message)).toEqual(['Hello', 'Later']);
+  });
+});
+
+describe('buildTicketUpdate', () => {
+  it('keeps the current status for a plain reply', () => {
+    expect(buildTicketUpdate(TicketStatus.IN_PROGRESS, { message: '  Any news?  ' }, 'user-1', NOW)).toEqual({
+      status: TicketStatus.IN_PROGRESS,
+      message: 'Any news?',
+      createdBy: 'user-1',
+      createdAt: NOW.toISOString(),
+    });
+  });
+
+  it('reopens a resolved ticket when the customer replies', () => {
+    expect(buildTicketUpdate(TicketStatus.RESOLVED, { message: 'Still broken' }, 'user-1', NOW).status).toBe(TicketStatus.OPEN);
+  });
+
+  it('keeps attachments', () => {
+    const attachments = [{ url: 'data:image/jpeg;base64,AAA', fileName: null, width: 10, height: 10 }];
+    expect(buildTicketUpdate(TicketStatus.OPEN, { message: 'Photo', attachments }, 'user-1', NOW).attachments).toEqual(attachments);
+  });
+
+  it('rejects invalid status changes', () => {
+    expect(() => buildTicketUpdate(TicketStatus.CLOSED, { message: 'Hi', status: TicketStatus.IN_PROGRESS }, 'user-1', NOW))
+      .toThrow("A ticket that is closed can't be set to in progress");
+  });
+});
+
+describe('ticket templates', () => {
+  it('recognizes template ids from route params', () => {
+    expect(isTicketTemplateId('WRONG_SIZE')).toBe(true);
+    expect(isTicketTemplateId('toString')).toBe(false);
+    expect(isTicketTemplateId(undefined)).toBe(false);
+  });
+
+  it('describes the payment before its order', () => {
+    expect(describeTicketLink({ orderId: '01jaorder123' })).toBe('Order #01JAORDE');
+    expect(describeTicketLink({ orderId: '01jaorder123', paymentId: '01jbpay4567' })).toBe('Payment #01JBPAY4');
+    expect(describeTicketLink({})).toBeNull();
+  });
+
+  it('offers templates that fit the linked record', () => {
+    expect(getTicketTemplates({ orderId: 'o1' })).toEqual(['WRONG_SIZE', 'MISSING_ITEM', 'DAMAGED_ITEM', 'OTHER']);
+    expect(getTicketTemplates({ orderId: 'o1', paymentId: 'p1' })).toEqual(['PAYMENT_NOT_REFLECTED', 'OTHER']);
+    expect(getTicketTemplates({})).toHaveLength(5);
+  });
+
+  it('names the linked order in the title', () => {
+    const filled = applyTicketTemplate('MISSING_ITEM', { orderId: '01jaorder123' });
+
+    expect(filled.title).toBe('Item missing from my order (Order #01JAORDE)');
+    expect(filled.priority).toBe('HIGH');
+    expect(filled.description).toContain('Missing item');
+  });
+
+  it('leaves the title empty for a free-form ticket', () => {
+    expect(applyTicketTemplate('OTHER', { orderId: '01jaorder123' }).title).toBe('');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from '@jest/globals';
+import type { Voucher } from '@/types/voucher';
+import { evaluateVoucher, normalizeVoucherCode } from '../voucher';
+
+const now = new Date('2025-06-01T00:00:00Z');
+const student = { role: 'STUDENT', college: 'COCS' };
+
+const voucher = (overrides: Partial<Voucher> = {}): Voucher => ({
+  code: 'MERCH10',
+  discountType: 'PERCENTAGE',
+  value: 10,
+  ...overrides,
+});
+
+describe('evaluateVoucher', () => {
+  it('applies a percentage discount', () => {
+    expect(evaluateVoucher(voucher(), 1250, student, now)).toEqual({ isValid: true, discountAmount: 125 });
+  });
+
+  it('caps percentage discounts at maxDiscount', () => {
+    expect(evaluateVoucher(voucher({ value: 50, maxDiscount: 200 }), 1000, student, now))
+      .toEqual({ isValid: true, discountAmount: 200 });
+  });
+
+  it('applies a fixed discount without exceeding the subtotal', () => {
+    expect(evaluateVoucher(voucher({ discountType: 'FIXED', value: 100 }), 450, student, now))
+      .toEqual({ isValid: true, discountAmount: 100 });
+    expect(evaluateVoucher(voucher({ discountType: 'FIXED', value: 500 }), 450, student, now))
+      .toEqual({ isValid: true, discountAmount: 450 });
+  });
+
+  it('rounds discounts to centavos', () => {
+    expect(evaluateVoucher(voucher({ value: 15 }), 99.99, student, now))
+      .toEqual({ isValid: true, discountAmount: 15 });
+  });
+
+  it('rejects carts below the minimum spend', () => {
+    const result = evaluateVoucher(voucher({ minSpend: 500 }), 499, student, now);
+
+    expect(result.isValid).toBe(false);
+    expect(evaluateVoucher(voucher({ minSpend: 500 }), 500, student, now).isValid).toBe(true);
+  });
+
+  it('rejects expired vouchers', () => {
+    expect(evaluateVoucher(voucher({ expiresAt: '2025-05-31T23:59:59Z' }), 1000, student, now).isValid).toBe(false);
+    expect(evaluateVoucher(voucher({ expiresAt: '2025-06-30T00:00:00Z' }), 1000, student, now).isValid).toBe(true);
+  });
+
+  it('restricts vouchers by college', () => {
+    const collegeVoucher = voucher({ colleges: ['STEP'] });
+
+    expect(evaluateVoucher(collegeVoucher, 1000, student, now)).toEqual({
+      isValid: false,
+      reason: 'This code is not available for your college.',
+    });
+    expect(evaluateVoucher(collegeVoucher, 1000, { ...student, college: 'STEP' }, now).isValid).toBe(true);
+  });
+
+  it('restricts vouchers by role', () => {
+    const roleVoucher = voucher({ roles: ['ALUMNI', 'STAFF_FACULTY'] });
+
+    expect(evaluateVoucher(roleVoucher, 1000, student, now)).toEqual({
+      isValid: false,
+      reason: 'This code is not available for your role.',
+    });
+    expect(evaluateVoucher(roleVoucher, 1000, { ...student, role: 'ALUMNI' }, now).isValid).toBe(true);
+  });
+
+  it('rejects restricted vouchers for customers without a role or college', () => {
+    expect(evaluateVoucher(voucher({ roles: ['STUDENT'] }), 1000, { role: null, college: null }, now).isValid).toBe(false);
+  });
+
+  it('treats empty restriction lists as unrestricted', () => {
+    expect(evaluateVoucher(voucher({ roles: [], colleges: [] }), 1000, student, now).isValid).toBe(true);
+  });
+});
+
+describe('normalizeVoucherCode', () => {
+  it('trims and uppercases codes', () => {
+    expect(normalizeVoucherCode('  merch10 ')).toBe('MERCH10');
+  });
+});
@@ -0,0 +1,44 @@
+import type { Announcement } from '@prisma/client';
+
+// Read and dismissed IDs kept per user; older ones drop off once a list grows past this
+export const MAX_TRACKED_ANNOUNCEMENTS = 200;
+
+type TrackedAnnouncement = Pick<Announcement, 'id' | 'level' | 'publishedAt'>;
+
+/**
+ * Adds announcement IDs to a tracked list, newest last, keeping it under the cap
+ * @param current IDs already tracked
+ * @param ids IDs to add
+ */
+export function addTrackedIds(current: string[] = [], ids: string[]): string[] {
+  const added = ids.filter(id => !current.includes(id));
+  if (added.length === 0) return current;
+  return [...current, ...added].slice(-MAX_TRACKED_ANNOUNCEMENTS);
+}
+
+/**
+ * Number of announcements the user has not opened
+ * @param announcements Announcements to count
+ * @param readIds IDs the user has read
+ */
+export function countUnread(announcements: Pick<Announcement, 'id'>[], readIds: string[] = []): number {
+  return announcements.filter(announcement => !readIds.includes(announcement.id)).length;
+}
+
+/**
+ * The newest critical announcement the user has neither read nor dismissed, for the home banner
+ * @param announcements Announcements to choose from
+ * @param readIds IDs the user has read
+ * @param dismissedIds IDs whose banner the user closed
+ */
+export function getBannerAnnouncement<T extends TrackedAnnouncement>(
+  announcements: T[],
+  readIds: string[] = [],
+  dismissedIds: string[] = []
+): T | undefined {
+  return announcements
+    .filter(announcement => announcement.level === 'CRITICAL'
+      && !readIds.includes(announcement.id)
+      && !dismissedIds.includes(announcement.id))
+    .sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime())[0];
+}
@@ -0,0 +1,124 @@
+import type { InventoryType, Product, ProductVariant } from '@prisma/client';
+import type { CartItem } from '@/stores/cart.store';
+import { formatCurrency } from '@/utils/format-currency';
+import { PricingCustomer, resolveVariantPrice } from '@/utils/pricing';
+
+/**
+ * Helpers for re-checking cart lines against live product variant data
+ */
+
+export interface CartProduct extends Product {
+  variants?: ProductVariant[];
+  postedBy?: {
+    college?: string | null;
+  };
+}
+
+export type CartLineIssueKind = 'UNAVAILABLE' | 'OUT_OF_STOCK' | 'LOW_STOCK' | 'PRICE_CHANGED';
+
+export type CartLineIssue = {
+  kind: CartLineIssueKind;
+  message: string;
+};
+
+export type CartLineCheck = {
+  itemId: string;
+  issues: CartLineIssue[];
+  // Latest pricing for the line; undefined when the variant no longer exists
+  price?: number;
+  originalPrice?: number;
+  appliedRole?: string;
+  // Units that can still be ordered; null when inventory is not tracked (pre-orders)
+  availableQuantity: number | null;
+};
+
+/**
+ * Units of a variant that can still be ordered for the given inventory type.
+ * Pre-order products are made to order, so they are never limited by stock.
+ */
+export function getAvailableQuantity(inventoryType: InventoryType, variant: Pick<ProductVariant, 'inventory'>): number | null {
+  if (inventoryType === 'PREORDER') return null;
+  return Math.max(0, variant.inventory);
+}
+
+/**
+ * Compares each cart line with the latest product data and reports what changed
+ * @param items Cart items to check
+ * @param products Latest products (with variants and postedBy.college) for the cart
+ * @param customer Role and college used for role pricing
+ * @returns One check result per cart item
+ */
+export function revalidateCartItems(
+  items: CartItem[],
+  products: CartProduct[],
+  customer: PricingCustomer
+): CartLineCheck[] {
+  const productsById = new Map(products.map(product => [product.id, product]));
+
+  return items.map((item) => {
+    const product = productsById.get(item.productId);
+    const variant = product?.variants?.find(v => v.id === item.variantId);
+
+    if (!product || product.isDeleted || !variant) {
+      return {
+        itemId: item.id,
+        issues: [{ kind: 'UNAVAILABLE', message: 'No longer available' }],
+        availableQuantity: 0,
+      };
+    }
+
+    const pricing = resolveVariantPrice(variant, customer, product.postedBy?.college);
+
+    const issues: CartLineIssue[] = [];
+    const availableQuantity = getAvailableQuantity(product.inventoryType, variant);
+
+    if (availableQuantity === 0) {
+      issues.push({ kind: 'OUT_OF_STOCK', message: 'Out of stock' });
+    } else if (availableQuantity !== null && item.quantity > availableQuantity) {
+      issues.push({ kind: 'LOW_STOCK', message: `Only ${availableQuantity} left` });
+    }
+
+    if (pricing.price !== item.price) {
+      issues.push({
+        kind: 'PRICE_CHANGED',
+        message: `Price changed from ${formatCurrency(item.price)} to ${formatCurrency(pricing.price)}`,
+      });
+    }
+
+    return {
+      itemId: item.id,
+      issues,
+      price: pricing.price,
+      originalPrice: pricing.basePrice,
+      appliedRole: pricing.appliedRole,
+      availableQuantity,
+    };
+  });
+}
+
+/**
+ * Applies check results to the cart: updates prices, caps quantities to the
+ * remaining stock and drops lines that can no longer be ordered
+ * @param items Current cart items
+ * @param checks Results from revalidateCartItems
+ * @returns Updated cart items
+ */
+export function applyCartRevalidation(items: CartItem[], checks: CartLineCheck[]): CartItem[] {
+  const checksById = new Map(checks.map(check => [check.itemId, check]));
+
+  return items.flatMap((item) => {
+    const check = checksById.get(item.id);
+    if (!check) return [item];
+    if (check.price === undefined || check.availableQuantity === 0) return [];
+
+    return [{
+      ...item,
+      price: check.price,
+      originalPrice: check.originalPrice,
+      appliedRole: check.appliedRole,
+      quantity: check.availableQuantity === null
+        ? item.quantity
+        : Math.min(item.quantity, check.availableQuantity),
+    }];
+  });
+}
@@ -0,0 +1,129 @@
+import type { Cart, CartItem as PrismaCartItem, Product, ProductVariant } from '@prisma/client';
+import type { QueryStatus } from '@tanstack/react-query';
+import { CartItem, createCartItemId } from '@/stores/cart.store';
+import { resolveVariantPrice, type PricingCustomer } from '@/utils/pricing';
+
+/**
+ * Helpers for reconciling the on-device cart with the server-side Cart model
+ */
+
+export interface ServerCartItem extends PrismaCartItem {
+  variant?: (ProductVariant & {
+    product?: Pick<Product, 'id' | 'title' | 'imageUrl'> & {
+      postedBy?: { college?: string | null } | null;
+    };
+  }) | null;
+}
+
+export interface ServerCart extends Cart {
+  cartItems?: ServerCartItem[];
+}
+
+export type CartSyncItem = {
+  variantId: string;
+  quantity: number;
+};
+
+/**
+ * wait: nothing to do until the user, stored cart or server cart is ready
+ * merge: fold the fetched server cart into the stored cart
+ * refetch: the server cart fetch failed; ask again before merging
+ * push: write local changes to the server
+ */
+export type CartSyncStep = 'wait' | 'merge' | 'refetch' | 'push';
+
+export type CartSyncState = {
+  userId: string;
+  hasHydrated: boolean;
+  // User whose server cart was last merged into the stored cart
+  mergedForUserId: string | null;
+  serverCartStatus: QueryStatus;
+};
+
+/**
+ * Key used to match the same line across the local and server carts
+ */
+const getLineKey = (item: Pick<CartItem, 'productId' | 'variantId'>) =>
+  item.variantId ?? `product:${item.productId}`;
+
+/**
+ * Converts server cart rows into local cart items, skipping rows whose
+ * variant or product is no longer available. Prices are resolved for the
+ * customer the same way as when adding to the cart.
+ * @param cart Server cart with cartItems.variant.product.postedBy included
+ * @param customer Customer role and college
+ * @returns Local cart items
+ */
+export function mapServerCartItems(cart: ServerCart | null | undefined, customer: PricingCustomer): CartItem[] {
+  if (!cart?.cartItems) return [];
+
+  return cart.cartItems.flatMap((cartItem) => {
+    const variant = cartItem.variant;
+    const product = variant?.product;
+    if (!variant || !product || cartItem.quantity <= 0) return [];
+
+    const pricing = resolveVariantPrice(variant, customer, product.postedBy?.college);
+    const item = {
+      productId: product.id,
+      variantId: variant.id,
+      name: product.title,
+      price: pricing.price,
+      originalPrice: pricing.basePrice,
+      appliedRole: pricing.appliedRole,
+      quantity: cartItem.quantity,
+      imageUrl: product.imageUrl?.[0],
+      variantName: variant.variantName,
+    };
+
+    return [{ ...item, id: createCartItemId(item) }];
+  });
+}
+
+/**
+ * What the cart sync does next. Local changes are only pushed once the server
+ * cart has been merged, so a failed fetch is retried (on the next cart change
+ * or reconnect) rather than leaving the cart unsynced for the session.
+ */
+export function getCartSyncStep({ userId, hasHydrated, mergedForUserId, serverCartStatus }: CartSyncState): CartSyncStep {
+  if (!userId || !hasHydrated) return 'wait';
+  if (mergedForUserId === userId) return 'push';
+  if (serverCartStatus === 'success') return 'merge';
+  return serverCartStatus === 'error' ? 'refetch' : 'wait';
+}
+
+/**
+ * Merges the local cart with the server cart. Lines present in both keep the
+ * local details (price, notes) and the larger quantity, so re-merging a cart
+ * that was already synced never doubles it.
+ * @param localItems Items currently on the device
+ * @param serverItems Items mapped from the server cart
+ * @returns Merged cart items
+ */
+export function mergeCartItems(localItems: CartItem[], serverItems: CartItem[]): CartItem[] {
+  const merged = new Map<string, CartItem>();
+
+  localItems.forEach((item) => merged.set(getLineKey(item), item));
+
+  serverItems.forEach((serverItem) => {
+    const key = getLineKey(serverItem);
+    const localItem = merged.get(key);
+
+    merged.set(key, localItem
+      ? { ...localItem, quantity: Math.max(localItem.quantity, serverItem.quantity) }
+      : serverItem);
+  });
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Converts local cart items into the payload accepted by the cart endpoint.
+ * Items without a variant cannot be stored in the server cart.
+ * @param items Local cart items
+ * @returns Variant ID and quantity pairs
+ */
+export function toCartSyncItems(items: CartItem[]): CartSyncItem[] {
+  return items
+    .filter((item): item is CartItem & { variantId: string } => !!item.variantId)
+    .map((item) => ({ variantId: item.variantId, quantity: item.quantity }));
+}
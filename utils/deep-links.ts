@@ -0,0 +1,58 @@
+import { APP_LINK_HOST, APP_LINK_ORIGIN, APP_SCHEME } from '@/constants/links';
+
+// Where the user was headed before being sent to sign-in or onboarding
+export type ReturnHref = {
+  pathname: string;
+  params: Record<string, string | string[]>;
+};
+
+const WEB_LINK_PATTERN = new RegExp(`^https?://(?:www\\.)?${APP_LINK_HOST.replace(/\./g, '\\.')}(?=[/?#]|$)`, 'i');
+const ORDER_LINK_PATTERN = /^\/order\/([^/?#]+)\/?(?:[?#].*)?$/;
+const GROUP_SEGMENT_PATTERN = /^\(.+\)$/;
+const SIGNED_OUT_GROUPS = ['(auth)', '(onboarding)'];
+
+/**
+ * Path part of an app or website link, e.g. `/order/abc` for both
+ * `myapp://order/abc` and `https://merchtrack.tech/order/abc`
+ */
+function getLinkPath(url: string): string | null {
+  if (url.startsWith(`${APP_SCHEME}://`)) {
+    return `/${url.slice(APP_SCHEME.length + 3).replace(/^\/+/, '')}`;
+  }
+  if (WEB_LINK_PATTERN.test(url)) {
+    return url.replace(WEB_LINK_PATTERN, '') || '/';
+  }
+  return url.startsWith('/') ? url : null;
+}
+
+/**
+ * Maps an incoming link to a route. Order links open order tracking, which
+ * takes the ID as a parameter; everything else already matches a route.
+ * @param url Link the app was opened with
+ */
+export function resolveDeepLink(url: string): string {
+  const match = getLinkPath(url)?.match(ORDER_LINK_PATTERN);
+  return match ? `/track-order?orderId=${match[1]}` : url;
+}
+
+/**
+ * Link to a product that opens in the app when it's installed and on the website otherwise
+ */
+export function getProductLink(slug: string): string {
+  return `${APP_LINK_ORIGIN}/product/${encodeURIComponent(slug)}`;
+}
+
+/**
+ * The current route, to return to after sign-in. Null for the home tab and
+ * for the sign-in and onboarding screens themselves.
+ * @param segments Route segments from `useSegments`
+ * @param params Route and search params from `useGlobalSearchParams`
+ */
+export function getReturnHref(segments: string[], params: Record<string, string | string[]>): ReturnHref | null {
+  if (SIGNED_OUT_GROUPS.includes(segments[0])) return null;
+
+  const pathSegments = segments.filter(segment => !GROUP_SEGMENT_PATTERN.test(segment) && segment !== 'index');
+  if (pathSegments.length === 0) return null;
+
+  return { pathname: `/${pathSegments.join('/')}`, params };
+}
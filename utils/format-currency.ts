@@ -1,11 +1,11 @@
 /**
- * Format a number as Philippine Peso (₱) currency
+ * Format a number as currency, Philippine Peso (₱) by default
  */
-export function formatCurrency(amount: number): string {
+export function formatCurrency(amount: number, currency: string = 'PHP'): string {
   return new Intl.NumberFormat('en-PH', {
     style: 'currency',
-    currency: 'PHP',
+    currency,
     minimumFractionDigits: 2,
     maximumFractionDigits: 2,
   }).format(amount);
-} 
\ No newline at end of file
+}
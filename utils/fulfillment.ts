@@ -0,0 +1,124 @@
+import type { College, FulfillmentMethod } from '@prisma/client';
+import { DEFAULT_FULFILLMENT_CONFIG } from '@/constants/fulfillment';
+import type { FulfillmentConfig, FulfillmentQuote, FulfillmentSelection, PickupPoint } from '@/types/fulfillment';
+import { formatCurrency } from '@/utils/format-currency';
+
+/**
+ * Fills in anything the server config leaves out with the local defaults
+ * @param serverConfig Config returned by the server, if any
+ * @returns Complete fulfillment config
+ */
+export function resolveFulfillmentConfig(serverConfig?: Partial<FulfillmentConfig> | null): FulfillmentConfig {
+  return {
+    methods: serverConfig?.methods?.length ? serverConfig.methods : DEFAULT_FULFILLMENT_CONFIG.methods,
+    pickupPoints: serverConfig?.pickupPoints ?? DEFAULT_FULFILLMENT_CONFIG.pickupPoints,
+    delivery: {
+      ...DEFAULT_FULFILLMENT_CONFIG.delivery,
+      ...serverConfig?.delivery,
+    },
+  };
+}
+
+/**
+ * Pickup points a customer can choose for a pickup method. Campus pickup uses
+ * campus-wide points; college pickup uses the points of the customer's college.
+ */
+export function getPickupPoints(
+  config: FulfillmentConfig,
+  method: FulfillmentMethod,
+  college: College | null | undefined
+): PickupPoint[] {
+  if (method === 'CAMPUS_PICKUP') {
+    return config.pickupPoints.filter(point => point.college === null);
+  }
+  if (method === 'COLLEGE_PICKUP') {
+    return college ? config.pickupPoints.filter(point => point.college === college) : [];
+  }
+  return [];
+}
+
+/**
+ * Methods the customer can actually use. Pickup methods without any pickup
+ * point for the customer are hidden.
+ */
+export function getAvailableFulfillmentMethods(
+  config: FulfillmentConfig,
+  college: College | null | undefined
+): FulfillmentMethod[] {
+  return config.methods.filter(method =>
+    method === 'DELIVERY' || getPickupPoints(config, method, college).length > 0
+  );
+}
+
+/**
+ * Calculates the fee for a fulfillment method
+ * @param config Fulfillment config
+ * @param method Selected method
+ * @param subtotal Cart subtotal after discounts, used for the free delivery threshold
+ * @param college Customer college used for delivery subsidies
+ * @returns Fee breakdown
+ */
+export function calculateFulfillmentFee(
+  config: FulfillmentConfig,
+  method: FulfillmentMethod,
+  subtotal: number,
+  college: College | null | undefined
+): FulfillmentQuote {
+  if (method !== 'DELIVERY') {
+    return { method, fee: 0, baseFee: 0, subsidy: 0, isFree: true };
+  }
+
+  const { baseFee, freeThreshold, collegeSubsidies } = config.delivery;
+
+  if (freeThreshold !== null && subtotal > freeThreshold) {
+    return {
+      method,
+      fee: 0,
+      baseFee,
+      subsidy: 0,
+      isFree: true,
+      note: `Free delivery on orders over ${formatCurrency(freeThreshold)}`,
+    };
+  }
+
+  const subsidy = Math.min(baseFee, (college && collegeSubsidies[college]) || 0);
+  const fee = baseFee - subsidy;
+
+  return {
+    method,
+    fee,
+    baseFee,
+    subsidy,
+    isFree: fee === 0,
+    note: subsidy > 0 ? `${formatCurrency(subsidy)} covered by your college` : undefined,
+  };
+}
+
+/**
+ * Checks that a selection has everything its method needs
+ * @returns Error message, or null when the selection is complete
+ */
+export function validateFulfillmentSelection(
+  config: FulfillmentConfig,
+  selection: FulfillmentSelection,
+  college: College | null | undefined
+): string | null {
+  if (selection.method === 'DELIVERY') {
+    return selection.deliveryAddress?.trim() ? null : 'Please enter a delivery address.';
+  }
+
+  const points = getPickupPoints(config, selection.method, college);
+  return points.some(point => point.id === selection.pickupPointId) ? null : 'Please choose a pickup point.';
+}
+
+/**
+ * First available method with its first pickup point, used until the customer picks one
+ */
+export function getDefaultFulfillmentSelection(
+  config: FulfillmentConfig,
+  college: College | null | undefined
+): FulfillmentSelection {
+  const [method = 'DELIVERY'] = getAvailableFulfillmentMethods(config, college);
+  const [firstPoint] = getPickupPoints(config, method, college);
+  return { method, pickupPointId: firstPoint?.id };
+}
@@ -0,0 +1,61 @@
+import type { Message } from '@prisma/client';
+
+type ThreadMessage = Pick<Message, 'id' | 'isRead' | 'isSentByAdmin' | 'createdAt'>;
+type Thread<T extends ThreadMessage> = T & { Message?: T[] };
+
+/**
+ * A thread's messages, oldest first
+ * @param thread First message with its replies
+ */
+export function getThreadMessages<T extends ThreadMessage>(thread: Thread<T>): T[] {
+  const { Message: replies = [], ...first } = thread;
+
+  return [first as unknown as T, ...replies]
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+}
+
+/**
+ * Whether a message is a staff reply the customer hasn't opened. The
+ * customer's own messages never count as unread.
+ */
+export function isUnreadMessage(message: Pick<Message, 'isRead' | 'isSentByAdmin'>): boolean {
+  return message.isSentByAdmin && !message.isRead;
+}
+
+/**
+ * Unread staff replies in one thread
+ */
+export function countUnreadInThread<T extends ThreadMessage>(thread: Thread<T>): number {
+  return getThreadMessages(thread).filter(isUnreadMessage).length;
+}
+
+/**
+ * Unread staff replies across threads, for the inbox badge
+ */
+export function countUnreadMessages<T extends ThreadMessage>(threads: Thread<T>[]): number {
+  return threads.reduce((total, thread) => total + countUnreadInThread(thread), 0);
+}
+
+/**
+ * The newest message in a thread, for the inbox preview
+ */
+export function getLastMessage<T extends ThreadMessage>(thread: Thread<T>): T {
+  const messages = getThreadMessages(thread);
+  return messages[messages.length - 1];
+}
+
+/**
+ * Returns a copy of the threads with the most recently active first
+ */
+export function sortThreadsByActivity<T extends ThreadMessage, U extends Thread<T>>(threads: U[]): U[] {
+  const lastActivity = (thread: U) => new Date(getLastMessage(thread).createdAt).getTime();
+  return [...threads].sort((a, b) => lastActivity(b) - lastActivity(a));
+}
+
+/**
+ * Subject for a reply. Replies keep the thread's subject with a single `Re:` prefix.
+ */
+export function getReplySubject(subject: string): string {
+  const trimmed = subject.trim();
+  return /^re:/i.test(trimmed) ? trimmed : `Re: ${trimmed}`;
+}
@@ -0,0 +1,106 @@
+import type { Href } from 'expo-router';
+import type { FulfillmentStatus, OrderStatus } from '@prisma/client';
+import { PAYMENT_STATUS_DETAILS } from '@/constants/payments';
+import { TICKET_STATUS_DETAILS } from '@/constants/tickets';
+import { notificationDataSchema } from '@/lib/validations/api';
+import type { NotificationCategory, NotificationData, NotificationPreferences } from '@/types/notification';
+
+export const NOTIFICATION_CATEGORIES: NotificationCategory[] = ['order', 'fulfillment', 'payment', 'ticket', 'announcement'];
+
+// Everything is on until the user turns a category off
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  order: true,
+  fulfillment: true,
+  payment: true,
+  ticket: true,
+  announcement: true,
+};
+
+const ORDER_STATUS_TITLES: Record<OrderStatus, string> = {
+  PENDING: 'Order received',
+  PROCESSING: 'Your order is being prepared',
+  READY: 'Your order is ready',
+  DELIVERED: 'Order delivered',
+  CANCELLED: 'Order cancelled',
+};
+
+const FULFILLMENT_STATUS_TITLES: Record<FulfillmentStatus, string> = {
+  PENDING: 'Fulfillment scheduled',
+  PRODUCTION: 'Your merch is in production',
+  READY: 'Ready for pickup',
+  COMPLETED: 'Order claimed',
+  CANCELLED: 'Fulfillment cancelled',
+};
+
+const orderReference = (orderId: string) => `Order #${orderId.slice(0, 8).toUpperCase()}`;
+
+/**
+ * Reads `User.notificationPreferences`. Missing or malformed categories fall back to on.
+ */
+export function getNotificationPreferences(value: unknown): NotificationPreferences {
+  const stored = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+
+  return Object.fromEntries(NOTIFICATION_CATEGORIES.map(category => [
+    category,
+    typeof stored[category] === 'boolean' ? stored[category] : DEFAULT_NOTIFICATION_PREFERENCES[category],
+  ])) as NotificationPreferences;
+}
+
+/**
+ * Reads the `data` of a notification, or null when it isn't one the app knows how to open
+ */
+export function parseNotificationData(data: unknown): NotificationData | null {
+  const result = notificationDataSchema.safeParse(data);
+  return result.success ? result.data : null;
+}
+
+/**
+ * Whether to show a notification. Only critical announcements are pushed.
+ * @param data Notification data
+ * @param preferences The user's notification preferences
+ */
+export function isNotificationEnabled(data: NotificationData, preferences: NotificationPreferences): boolean {
+  if (!preferences[data.category]) return false;
+  return data.category !== 'announcement' || data.level === 'CRITICAL';
+}
+
+/**
+ * Screen a tapped notification opens
+ */
+export function getNotificationHref(data: NotificationData): Href {
+  switch (data.category) {
+  case 'order':
+  case 'fulfillment':
+    return { pathname: '/track-order', params: { orderId: data.orderId } };
+  case 'payment':
+    return { pathname: '/account/payments/[paymentId]', params: { paymentId: data.paymentId } };
+  case 'ticket':
+    return { pathname: '/ticket/[id]', params: { id: data.ticketId } };
+  case 'announcement':
+    return { pathname: '/announcements/[id]', params: { id: data.announcementId } };
+  }
+}
+
+/**
+ * Title and body for a local notification. Pushes from the server carry their own text.
+ */
+export function buildNotificationContent(data: NotificationData): { title: string; body: string } {
+  switch (data.category) {
+  case 'order':
+    return { title: ORDER_STATUS_TITLES[data.status], body: `Tap to see ${orderReference(data.orderId)}.` };
+  case 'fulfillment':
+    return { title: FULFILLMENT_STATUS_TITLES[data.status], body: `Tap to see ${orderReference(data.orderId)}.` };
+  case 'payment':
+    return {
+      title: `Payment ${PAYMENT_STATUS_DETAILS[data.status].label.toLowerCase()}`,
+      body: `Tap to see payment #${data.paymentId.slice(0, 8).toUpperCase()}.`,
+    };
+  case 'ticket':
+    return {
+      title: data.status ? `Ticket ${TICKET_STATUS_DETAILS[data.status].label.toLowerCase()}` : 'New reply on your ticket',
+      body: 'Tap to open the conversation.',
+    };
+  case 'announcement':
+    return { title: 'Important announcement', body: 'Tap to read it.' };
+  }
+}
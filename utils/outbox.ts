@@ -0,0 +1,152 @@
+import { ApiError, AuthError } from '@/lib/api';
+import type { RequestOptions } from '@/lib/api';
+import type { OutboxAction, OutboxEntry, QueuedMutation } from '@/types/outbox';
+import { formatCurrency } from './format-currency';
+
+/**
+ * Helpers for the offline outbox: changes made without a connection are
+ * stored as entries and sent to the server, oldest first, once back online
+ */
+
+export type OutboxRequest = {
+  method: 'POST' | 'PUT';
+  path: string;
+  body: unknown;
+  options?: RequestOptions;
+};
+
+/**
+ * retry: the server could not be reached; keep the entry and try again later
+ * conflict: the server refused it because its data changed (409)
+ * failed: the server rejected it and sending it again won't help
+ */
+export type ReplayOutcome = 'retry' | 'conflict' | 'failed';
+
+export function createOutboxEntry(action: OutboxAction, userId: string, now: Date = new Date()): OutboxEntry {
+  return {
+    ...action,
+    id: `${now.getTime().toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+    userId,
+    createdAt: now.toISOString(),
+    status: 'pending',
+    attempts: 0,
+  } as OutboxEntry;
+}
+
+/**
+ * Adds an entry to the outbox, folding it into a pending entry it supersedes:
+ * profile updates merge into the user's pending update, and a payment for the
+ * same order and reference number replaces the earlier one
+ * @returns The updated entries and the entry that now holds the change
+ */
+export function addOutboxEntry(entries: OutboxEntry[], entry: OutboxEntry): { entries: OutboxEntry[]; entry: OutboxEntry } {
+  const existing = entries.find(current => {
+    if (current.status !== 'pending' || current.userId !== entry.userId || current.type !== entry.type) return false;
+    if (current.type === 'profile.update') return true;
+    if (current.type === 'payment.create' && entry.type === 'payment.create') {
+      return current.payload.orderId === entry.payload.orderId && current.payload.referenceNo === entry.payload.referenceNo;
+    }
+    return false;
+  });
+
+  if (!existing) {
+    return { entries: [...entries, entry], entry };
+  }
+
+  const merged = {
+    ...existing,
+    payload: existing.type === 'profile.update' ? { ...existing.payload, ...entry.payload } : entry.payload,
+  } as OutboxEntry;
+
+  return {
+    entries: entries.map(current => current.id === existing.id ? merged : current),
+    entry: merged,
+  };
+}
+
+/**
+ * Request that sends an entry to the API
+ */
+export function getOutboxRequest(entry: OutboxEntry): OutboxRequest {
+  switch (entry.type) {
+  case 'ticket.create':
+    return { method: 'POST', path: '/tickets/create', body: entry.payload };
+  case 'profile.update':
+    return { method: 'PUT', path: '/users/me', body: entry.payload, options: { idempotent: true } };
+  case 'payment.create':
+    // The key lets the server drop a payment it already received before the connection dropped
+    return {
+      method: 'POST',
+      path: '/payments/create',
+      body: entry.payload,
+      options: { idempotent: true, headers: { 'Idempotency-Key': entry.id } },
+    };
+  }
+}
+
+export function getReplayOutcome(error: unknown): ReplayOutcome {
+  // Signed out or an expired session: wait for the user to sign back in
+  if (error instanceof AuthError) return 'retry';
+  if (!(error instanceof ApiError) || error.isRetryable) return 'retry';
+  if (error.status === 409) return 'conflict';
+  return 'failed';
+}
+
+/**
+ * Short description of an entry for the pending changes list
+ */
+export function getOutboxLabel(entry: OutboxEntry): string {
+  switch (entry.type) {
+  case 'ticket.create':
+    return `Support ticket: ${entry.payload.title}`;
+  case 'profile.update':
+    return 'Profile update';
+  case 'payment.create':
+    return `${formatCurrency(entry.payload.amount)} payment for order #${entry.payload.orderId.slice(0, 8).toUpperCase()}`;
+  }
+}
+
+export function isQueuedMutation(value: unknown): value is QueuedMutation {
+  return !!value && typeof value === 'object' && 'queued' in value && value.queued === true;
+}
+
+type ReplayHandlers = {
+  onSynced: (entry: OutboxEntry, response: unknown) => void;
+  onRejected: (entry: OutboxEntry, outcome: Exclude<ReplayOutcome, 'retry'>, message: string) => void;
+  onDeferred: (entry: OutboxEntry, message: string) => void;
+};
+
+/**
+ * Sends pending entries one at a time, oldest first. Stops at the first entry
+ * that can't reach the server so later changes never overtake earlier ones;
+ * rejected entries are set aside and the rest keep going.
+ * @returns How many entries were sent and whether the replay stopped early
+ */
+export async function replayOutbox(
+  entries: OutboxEntry[],
+  send: (entry: OutboxEntry) => Promise<unknown>,
+  handlers: ReplayHandlers
+): Promise<{ synced: number; stopped: boolean }> {
+  let synced = 0;
+
+  for (const entry of entries) {
+    if (entry.status !== 'pending') continue;
+
+    try {
+      const response = await send(entry);
+      handlers.onSynced(entry, response);
+      synced++;
+    } catch (error) {
+      const outcome = getReplayOutcome(error);
+      const message = error instanceof Error && error.message ? error.message : 'Something went wrong';
+
+      if (outcome === 'retry') {
+        handlers.onDeferred(entry, message);
+        return { synced, stopped: true };
+      }
+      handlers.onRejected(entry, outcome, message);
+    }
+  }
+
+  return { synced, stopped: false };
+}
@@ -0,0 +1,43 @@
+import type { InfiniteData } from '@tanstack/react-query';
+import type { NativeScrollEvent } from 'react-native';
+import type { ApiResponse } from '@/types/common';
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+// Distance from the bottom, in points, at which the next page starts loading
+const LOAD_MORE_THRESHOLD = 320;
+
+/**
+ * Next page to request, read from the response metadata
+ * @returns The next page number, or undefined on the last page
+ */
+export function getNextPageParam<T>(lastPage: ApiResponse<T>): number | undefined {
+  const metadata = lastPage.metadata;
+  if (!metadata?.hasNextPage) return undefined;
+  return metadata.page + 1;
+}
+
+/**
+ * Concatenates the items of every loaded page
+ */
+export function flattenPages<T>(data: InfiniteData<ApiResponse<T[]>> | undefined): T[] {
+  return data?.pages.flatMap(page => page.data ?? []) ?? [];
+}
+
+/**
+ * Keeps only the first page, so a refresh starts over instead of refetching every loaded page
+ */
+export function keepFirstPage<T>(data: InfiniteData<T, number> | undefined): InfiniteData<T, number> | undefined {
+  if (!data) return data;
+  return {
+    pages: data.pages.slice(0, 1),
+    pageParams: data.pageParams.slice(0, 1),
+  };
+}
+
+/**
+ * Whether a ScrollView has been scrolled close enough to its end to load more
+ */
+export function isCloseToBottom({ layoutMeasurement, contentOffset, contentSize }: NativeScrollEvent): boolean {
+  return layoutMeasurement.height + contentOffset.y >= contentSize.height - LOAD_MORE_THRESHOLD;
+}
@@ -0,0 +1,95 @@
+import type { OrderPaymentStatus, Payment, PaymentStatus } from '@prisma/client';
+import { ONLINE_PAYMENT_METHODS, type MerchantAccount, type OnlinePaymentMethod } from '@/constants/payments';
+import { merchantAccountSchema } from '@/lib/validations/api';
+
+// Payments that are on their way to being (or already are) collected
+const COUNTED_PAYMENT_STATUSES: PaymentStatus[] = ['VERIFIED', 'PENDING', 'PROCESSING'];
+
+/**
+ * Sums the payments made towards an order, ignoring declined, failed,
+ * cancelled and refunded ones
+ * @param totalAmount Order total
+ * @param payments Payments recorded for the order
+ * @returns Amount paid so far and the outstanding balance
+ */
+export function getOrderBalance(
+  totalAmount: number,
+  payments: Pick<Payment, 'amount' | 'paymentStatus' | 'isDeleted'>[] = []
+): { paidAmount: number; balance: number } {
+  const paidAmount = payments
+    .filter(payment => !payment.isDeleted && COUNTED_PAYMENT_STATUSES.includes(payment.paymentStatus))
+    .reduce((sum, payment) => sum + Number(payment.amount), 0);
+
+  return {
+    paidAmount,
+    balance: Math.max(0, Math.round((totalAmount - paidAmount) * 100) / 100),
+  };
+}
+
+/**
+ * Order payment status after submitting a payment. Anything less than the
+ * outstanding balance is a down payment; full payments keep the current
+ * status until staff verify them.
+ */
+export function getOrderPaymentStatusAfterPayment(
+  currentStatus: OrderPaymentStatus,
+  balance: number,
+  amount: number
+): OrderPaymentStatus {
+  return amount < balance ? 'DOWNPAYMENT' : currentStatus;
+}
+
+/**
+ * Whether the customer can still send a payment for an order
+ */
+export function canPayOrder(order: { status: string; paymentStatus: OrderPaymentStatus }): boolean {
+  return order.status !== 'CANCELLED' && (order.paymentStatus === 'PENDING' || order.paymentStatus === 'DOWNPAYMENT');
+}
+
+/**
+ * Reads the merchant accounts returned by the server. Methods without a
+ * complete account are left out, so customers are never shown an account
+ * they can't pay into.
+ * @param value `data` of the merchant accounts response
+ */
+export function getMerchantAccounts(value: unknown): Partial<Record<OnlinePaymentMethod, MerchantAccount>> {
+  if (!value || typeof value !== 'object') return {};
+  const accounts = value as Record<string, unknown>;
+
+  return Object.fromEntries(ONLINE_PAYMENT_METHODS.flatMap((method) => {
+    const result = merchantAccountSchema.safeParse(accounts[method]);
+    return result.success ? [[method, result.data]] : [];
+  }));
+}
+
+export type PaymentReceipt = {
+  // Hosted URL of the receipt image, from uploading it
+  url: string;
+  fileName: string | null;
+  width: number;
+  height: number;
+};
+
+export type PaymentReceiptUploadInput = {
+  orderId: string;
+  userId: string;
+  // Image as a data URI, replaced by a hosted URL on upload
+  dataUri: string;
+  fileName: string | null;
+  width: number;
+  height: number;
+};
+
+/**
+ * Reads the receipt attached to a payment's metadata, if any
+ */
+export function getPaymentReceipt(metadata: unknown): PaymentReceipt | null {
+  if (!metadata || typeof metadata !== 'object') return null;
+  const receipt = (metadata as { receipt?: Partial<PaymentReceipt> }).receipt;
+  return receipt?.url ? {
+    url: receipt.url,
+    fileName: receipt.fileName ?? null,
+    width: receipt.width ?? 0,
+    height: receipt.height ?? 0,
+  } : null;
+}
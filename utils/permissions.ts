@@ -0,0 +1,42 @@
+import type { User, UserPermission } from '@prisma/client';
+
+export type PermissionAction = 'create' | 'read' | 'update' | 'delete';
+
+const ACTION_FLAGS: Record<PermissionAction, keyof Pick<UserPermission, 'canCreate' | 'canRead' | 'canUpdate' | 'canDelete'>> = {
+  create: 'canCreate',
+  read: 'canRead',
+  update: 'canUpdate',
+  delete: 'canDelete',
+};
+
+/**
+ * Checks whether a staff member holds a permission. Customers never do, even
+ * if a permission row exists for them.
+ * @param user Signed-in user
+ * @param userPermissions The user's permission rows
+ * @param code Permission code, e.g. 'fulfillment'
+ * @param actions Actions that must all be allowed
+ */
+export function hasStaffPermission(
+  user: Pick<User, 'isStaff'> | null | undefined,
+  userPermissions: UserPermission[] | undefined,
+  code: string,
+  actions: PermissionAction[] = ['read']
+): boolean {
+  if (!user?.isStaff) return false;
+
+  const permission = userPermissions?.find(entry => entry.permissionId === code);
+  if (!permission) return false;
+
+  return actions.every(action => permission[ACTION_FLAGS[action]]);
+}
+
+/**
+ * Whether the user can scan pickup codes and mark orders as claimed
+ */
+export function canClaimPickups(
+  user: Pick<User, 'isStaff'> | null | undefined,
+  userPermissions: UserPermission[] | undefined
+): boolean {
+  return hasStaffPermission(user, userPermissions, 'fulfillment', ['read', 'update']);
+}
@@ -0,0 +1,76 @@
+import type { Fulfillment, FulfillmentMethod } from '@prisma/client';
+import type { PickupPayload } from '@/types/fulfillment';
+
+/**
+ * Pickup QR codes carry a server-signed token in the form
+ * `MTPICKUP1.<orderId>.<fulfillmentId>.<expiresAt>.<signature>`.
+ * The app only checks the format and expiry; the signature is verified by the
+ * server when staff claim the order.
+ */
+
+export const PICKUP_QR_PREFIX = 'MTPICKUP1';
+
+export type PickupQrDecodeResult =
+  | { isValid: true; payload: PickupPayload }
+  | { isValid: false; reason: string };
+
+/**
+ * The string the server signs for a pickup token
+ */
+export function getPickupSigningInput(payload: Omit<PickupPayload, 'signature'>): string {
+  return [PICKUP_QR_PREFIX, payload.orderId, payload.fulfillmentId, payload.expiresAt].join('.');
+}
+
+/**
+ * Encodes a signed pickup payload as the value shown in the QR code
+ */
+export function encodePickupQr(payload: PickupPayload): string {
+  return `${getPickupSigningInput(payload)}.${payload.signature}`;
+}
+
+/**
+ * Decodes a scanned QR value into a pickup payload
+ * @param value Raw scanned value
+ * @param now Current time, used for the expiry check
+ */
+export function decodePickupQr(value: string, now: Date = new Date()): PickupQrDecodeResult {
+  const parts = value.trim().split('.');
+
+  if (parts.length !== 5 || parts[0] !== PICKUP_QR_PREFIX) {
+    return { isValid: false, reason: 'This is not a MerchTrack pickup code.' };
+  }
+
+  const [, orderId, fulfillmentId, expiresAtPart, signature] = parts;
+  const expiresAt = Number(expiresAtPart);
+
+  if (!orderId || !fulfillmentId || !signature || !Number.isFinite(expiresAt)) {
+    return { isValid: false, reason: 'This pickup code is damaged. Ask the customer to refresh it.' };
+  }
+
+  if (expiresAt <= now.getTime()) {
+    return { isValid: false, reason: 'This pickup code has expired. Ask the customer to refresh it.' };
+  }
+
+  return { isValid: true, payload: { orderId, fulfillmentId, expiresAt, signature } };
+}
+
+/**
+ * Latest fulfillment record of an order, ignoring deleted ones
+ */
+export function getCurrentFulfillment(fulfillments: Fulfillment[] | undefined): Fulfillment | undefined {
+  return (fulfillments ?? [])
+    .filter(fulfillment => !fulfillment.isDeleted)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
+}
+
+/**
+ * Whether an order should show its pickup QR code. Delivered orders are
+ * handed over by the courier, so only pickup methods get a code.
+ */
+export function canShowPickupQr(order: {
+  fulfillmentMethod: FulfillmentMethod;
+  Fulfillment?: Fulfillment[];
+}): boolean {
+  if (order.fulfillmentMethod === 'DELIVERY') return false;
+  return getCurrentFulfillment(order.Fulfillment)?.status === 'READY';
+}
@@ -0,0 +1,241 @@
+import type { College, Role } from '@prisma/client';
+import { COLLEGE_LABELS, ROLE_DETAILS } from '@/constants/profile';
+import { formatCurrency } from '@/utils/format-currency';
+
+/**
+ * Role-based pricing engine.
+ *
+ * A customer gets the price set for their role only when they belong to the
+ * same college that posted the product. Everyone else gets the OTHERS price,
+ * and any missing price falls back to the variant's base price.
+ */
+
+const OTHERS_ROLE = 'OTHERS';
+
+export type PricingCustomer = {
+  role: string | null | undefined;
+  college: string | null | undefined;
+};
+
+export type PricedVariant = {
+  price: number | string | { toString(): string } | null | undefined;
+  rolePricing?: unknown;
+};
+
+/**
+ * Why a price was applied:
+ * - ROLE_PRICE: same college and a price is set for the customer's role
+ * - OTHERS_PRICE: different college and an OTHERS price is set
+ * - NO_ROLE_PRICE: same college but no price is set for the role, base price used
+ * - NO_OTHERS_PRICE: different college and no OTHERS price is set, base price used
+ * - INCOMPLETE_PROFILE: customer role/college or product college unknown, base price used
+ */
+export type PricingReason =
+  | 'ROLE_PRICE'
+  | 'OTHERS_PRICE'
+  | 'NO_ROLE_PRICE'
+  | 'NO_OTHERS_PRICE'
+  | 'INCOMPLETE_PROFILE';
+
+export type PriceResolution = {
+  price: number;
+  basePrice: number;
+  appliedRole: string;
+  reason: PricingReason;
+  // null when either college is unknown
+  isSameCollege: boolean | null;
+  // true when the base price was used because no matching price was set
+  isFallback: boolean;
+  formattedPrice: string;
+  // Formatted base price, only set when it differs from the applied price
+  originalPrice?: string;
+};
+
+export type PriceRange = {
+  // Lowest applied price, used as the product's headline price
+  price: number;
+  minPrice: number;
+  maxPrice: number;
+  isRange: boolean;
+  // Role shared by every variant, OTHERS when variants resolved differently
+  appliedRole: string;
+  formattedPrice: string;
+  originalPrice?: string;
+  variants: PriceResolution[];
+};
+
+export type CartPricingLine = {
+  id: string;
+  quantity: number;
+  variant: PricedVariant;
+  productCollege: string | null | undefined;
+};
+
+export type PricedCartLine = PriceResolution & {
+  id: string;
+  quantity: number;
+  lineTotal: number;
+  formattedLineTotal: string;
+};
+
+export type CartPricing = {
+  lines: PricedCartLine[];
+  subtotal: number;
+  // Subtotal at base prices, before role pricing
+  baseSubtotal: number;
+  savings: number;
+  formattedSubtotal: string;
+};
+
+const toPrice = (value: unknown): number | undefined => {
+  if (value === null || value === undefined || value === '') return undefined;
+  const price = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(price) ? price : undefined;
+};
+
+const getRolePrice = (rolePricing: unknown, role: string): number | undefined => {
+  if (!rolePricing || typeof rolePricing !== 'object' || Array.isArray(rolePricing)) return undefined;
+  return toPrice((rolePricing as Record<string, unknown>)[role]);
+};
+
+const buildResolution = (
+  price: number,
+  basePrice: number,
+  appliedRole: string,
+  reason: PricingReason,
+  isSameCollege: boolean | null
+): PriceResolution => ({
+  price,
+  basePrice,
+  appliedRole,
+  reason,
+  isSameCollege,
+  isFallback: reason === 'NO_ROLE_PRICE' || reason === 'NO_OTHERS_PRICE' || reason === 'INCOMPLETE_PROFILE',
+  formattedPrice: formatCurrency(price),
+  originalPrice: price !== basePrice ? formatCurrency(basePrice) : undefined,
+});
+
+/**
+ * Resolves the price a customer pays for a single variant
+ * @param variant Variant base price and role pricing
+ * @param customer Customer role and college
+ * @param productCollege College of the user who posted the product
+ * @returns Applied price and the reason it applied
+ */
+export function resolveVariantPrice(
+  variant: PricedVariant,
+  customer: PricingCustomer,
+  productCollege: string | null | undefined
+): PriceResolution {
+  const basePrice = toPrice(variant?.price) ?? 0;
+
+  if (!customer.role || !customer.college || !productCollege) {
+    return buildResolution(basePrice, basePrice, OTHERS_ROLE, 'INCOMPLETE_PROFILE', null);
+  }
+
+  if (customer.college !== productCollege) {
+    const othersPrice = getRolePrice(variant.rolePricing, OTHERS_ROLE);
+    return othersPrice === undefined
+      ? buildResolution(basePrice, basePrice, OTHERS_ROLE, 'NO_OTHERS_PRICE', false)
+      : buildResolution(othersPrice, basePrice, OTHERS_ROLE, 'OTHERS_PRICE', false);
+  }
+
+  const rolePrice = getRolePrice(variant.rolePricing, customer.role);
+  return rolePrice === undefined
+    ? buildResolution(basePrice, basePrice, OTHERS_ROLE, 'NO_ROLE_PRICE', true)
+    : buildResolution(rolePrice, basePrice, customer.role, 'ROLE_PRICE', true);
+}
+
+/**
+ * Resolves the price range of a product across all of its variants. Products
+ * without variants are priced from their own price and role pricing.
+ * @param product Product with optional variants
+ * @param customer Customer role and college
+ * @param productCollege College of the user who posted the product
+ * @returns Lowest/highest applied prices and each variant's resolution
+ */
+export function resolveProductPriceRange(
+  product: PricedVariant & { variants?: PricedVariant[] | null },
+  customer: PricingCustomer,
+  productCollege: string | null | undefined
+): PriceRange {
+  const sources = product.variants && product.variants.length > 0 ? product.variants : [product];
+  const variants = sources.map(variant => resolveVariantPrice(variant, customer, productCollege));
+
+  const prices = variants.map(variant => variant.price);
+  const minPrice = Math.min(...prices);
+  const maxPrice = Math.max(...prices);
+  const isRange = minPrice !== maxPrice;
+
+  const [first] = variants;
+  const appliedRole = variants.every(variant => variant.appliedRole === first.appliedRole)
+    ? first.appliedRole
+    : OTHERS_ROLE;
+  // A single struck-through base price only makes sense when every variant shares it
+  const originalPrice = !isRange && variants.every(variant => variant.originalPrice === first.originalPrice)
+    ? first.originalPrice
+    : undefined;
+
+  return {
+    price: minPrice,
+    minPrice,
+    maxPrice,
+    isRange,
+    appliedRole,
+    formattedPrice: isRange
+      ? `${formatCurrency(minPrice)} - ${formatCurrency(maxPrice)}`
+      : formatCurrency(minPrice),
+    originalPrice,
+    variants,
+  };
+}
+
+/**
+ * Prices every line of a cart for a customer
+ * @param lines Cart lines with their variant pricing and product college
+ * @param customer Customer role and college
+ * @returns Line-by-line breakdown with subtotal and role pricing savings
+ */
+export function priceCart(lines: CartPricingLine[], customer: PricingCustomer): CartPricing {
+  const pricedLines = lines.map((line) => {
+    const resolution = resolveVariantPrice(line.variant, customer, line.productCollege);
+    const lineTotal = resolution.price * line.quantity;
+
+    return {
+      ...resolution,
+      id: line.id,
+      quantity: line.quantity,
+      lineTotal,
+      formattedLineTotal: formatCurrency(lineTotal),
+    };
+  });
+
+  const subtotal = pricedLines.reduce((sum, line) => sum + line.lineTotal, 0);
+  const baseSubtotal = pricedLines.reduce((sum, line) => sum + line.basePrice * line.quantity, 0);
+
+  return {
+    lines: pricedLines,
+    subtotal,
+    baseSubtotal,
+    savings: baseSubtotal - subtotal,
+    formattedSubtotal: formatCurrency(subtotal),
+  };
+}
+
+/**
+ * Plain-language summary of which prices a customer sees, for onboarding and profile screens
+ * @param customer Customer role and college
+ */
+export function describeRolePricing(customer: PricingCustomer): string {
+  if (!customer.role || !customer.college) {
+    return 'Complete your profile to see the prices for your role. Until then, every item shows its standard price.';
+  }
+
+  if (customer.role === OTHERS_ROLE || customer.college === 'NOT_APPLICABLE') {
+    return 'You see the guest price on all merch, or the standard price where no guest price is set.';
+  }
+
+  const role = ROLE_DETAILS[customer.role as Role]?.label ?? customer.role;
+  const college = COLLEGE_LABELS[customer.college as College] ?? customer.college;
+  return `As ${/^[AEIOU]/i.test(role) ? 'an' : 'a'} ${role} in ${college}, you get ${role.toLowerCase()} prices on merch posted by ${college}. Merch from other colleges shows their guest price.`;
+}
@@ -0,0 +1,44 @@
+import type { College, Role, User } from '@prisma/client';
+import type { TicketInput } from '@/types/outbox';
+import type { ProfileChangeRequestData } from '@/lib/validations/forms';
+import { COLLEGE_LABELS, ROLE_DETAILS } from '@/constants/profile';
+
+// Staff filter the ticket queue by this prefix to find pricing changes to review
+export const PROFILE_CHANGE_TICKET_PREFIX = 'Profile change request';
+
+type ProfileChangeUser = Pick<User, 'id' | 'firstName' | 'lastName' | 'email' | 'role' | 'college'>;
+
+/**
+ * Whether the requested role or college differs from the current profile
+ * @param current Current role and college
+ * @param requested Requested role and college
+ */
+export function hasProfileChange(
+  current: { role: Role; college: College },
+  requested: { role: Role; college: College }
+): boolean {
+  return current.role !== requested.role || current.college !== requested.college;
+}
+
+/**
+ * Builds the support ticket staff review before changing a customer's role or college
+ * @param user Customer asking for the change
+ * @param request Requested role, college and the customer's reason
+ */
+export function buildProfileChangeTicket(user: ProfileChangeUser, request: ProfileChangeRequestData): TicketInput {
+  const describe = (role: Role, college: College) => `${ROLE_DETAILS[role].label} (${COLLEGE_LABELS[college]})`;
+
+  return {
+    title: `${PROFILE_CHANGE_TICKET_PREFIX}: ${describe(request.role, request.college)}`,
+    description: [
+      `${user.firstName} ${user.lastName} (${user.email}) asked to change their pricing profile.`,
+      '',
+      `Current: ${describe(user.role, user.college)}`,
+      `Requested: ${describe(request.role, request.college)}`,
+      '',
+      `Reason: ${request.reason.trim()}`,
+    ].join('\n'),
+    priority: 'MEDIUM',
+    userId: user.id,
+  };
+}
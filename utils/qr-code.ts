@@ -0,0 +1,9 @@
+import QRCode from 'qrcode';
+
+/**
+ * Renders a value as QR code SVG markup
+ * @param value Text to encode
+ */
+export function toQrSvg(value: string): Promise<string> {
+  return QRCode.toString(value, { type: 'svg', margin: 1, errorCorrectionLevel: 'M' });
+}
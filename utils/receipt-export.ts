@@ -0,0 +1,47 @@
+import type { RefObject } from 'react';
+import type { View } from 'react-native';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { captureRef } from 'react-native-view-shot';
+import { toQrSvg } from '@/utils/qr-code';
+import { Receipt, renderReceiptHtml } from '@/utils/receipt';
+
+const ensureSharingAvailable = async () => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+};
+
+/**
+ * Prints a receipt to PDF and opens the share sheet
+ * @param receipt Receipt to export
+ */
+export async function shareReceiptPdf(receipt: Receipt) {
+  await ensureSharingAvailable();
+
+  const qrSvg = await toQrSvg(receipt.orderId);
+  const { uri } = await Print.printToFileAsync({ html: renderReceiptHtml(receipt, qrSvg) });
+
+  await Sharing.shareAsync(uri, {
+    mimeType: 'application/pdf',
+    UTI: 'com.adobe.pdf',
+    dialogTitle: `Receipt #${receipt.number}`,
+  });
+}
+
+/**
+ * Captures a rendered receipt as a PNG and opens the share sheet
+ * @param ref Ref to the view that renders the receipt
+ * @param receipt Receipt being captured, used for the dialog title
+ */
+export async function shareReceiptImage(ref: RefObject<View | null>, receipt: Receipt) {
+  await ensureSharingAvailable();
+
+  const uri = await captureRef(ref, { format: 'png', quality: 1, result: 'tmpfile' });
+
+  await Sharing.shareAsync(uri, {
+    mimeType: 'image/png',
+    UTI: 'public.png',
+    dialogTitle: `Receipt #${receipt.number}`,
+  });
+}
@@ -0,0 +1,249 @@
+import type { Order, OrderItem, Payment, Product, ProductVariant, User } from '@prisma/client';
+import { FULFILLMENT_METHODS } from '@/constants/fulfillment';
+import { PAYMENT_METHOD_DETAILS } from '@/constants/payments';
+import { formatCurrency } from '@/utils/format-currency';
+
+/**
+ * Builds printable receipts for orders and verified payments
+ */
+
+export interface ReceiptOrder extends Order {
+  orderItems?: Array<OrderItem & {
+    variant?: ProductVariant & {
+      product?: Pick<Product, 'title'>;
+    };
+  }>;
+  payments?: Payment[];
+  customer?: Pick<User, 'firstName' | 'lastName' | 'email'>;
+}
+
+export interface ReceiptPayment extends Payment {
+  order?: ReceiptOrder;
+}
+
+export type ReceiptLine = {
+  name: string;
+  variantName?: string;
+  quantity: number;
+  price: number;
+  originalPrice: number;
+  appliedRole: string;
+  total: number;
+};
+
+export type ReceiptPaymentLine = {
+  method: string;
+  referenceNo: string;
+  amount: number;
+  date: Date;
+};
+
+export type Receipt = {
+  kind: 'ORDER' | 'PAYMENT';
+  // Receipt number shown in the header
+  number: string;
+  issuedAt: Date;
+  orderId: string;
+  orderDate: Date;
+  customerName?: string;
+  customerEmail?: string;
+  fulfillment?: string;
+  currency: string;
+  lines: ReceiptLine[];
+  subtotal: number;
+  discount: number;
+  fulfillmentFee: number;
+  total: number;
+  payments: ReceiptPaymentLine[];
+  amountPaid: number;
+};
+
+const toPaymentLine = (payment: Payment): ReceiptPaymentLine => ({
+  method: PAYMENT_METHOD_DETAILS[payment.paymentMethod]?.label ?? payment.paymentMethod,
+  referenceNo: payment.referenceNo,
+  amount: Number(payment.amount),
+  date: new Date(payment.paymentDate),
+});
+
+const getCustomerName = (customer?: ReceiptOrder['customer']) => {
+  const name = [customer?.firstName, customer?.lastName].filter(Boolean).join(' ');
+  return name || undefined;
+};
+
+/**
+ * Builds a receipt for an order, listing its verified payments
+ * @param order Order with orderItems.variant.product, payments and customer included
+ * @param issuedAt When the receipt was generated
+ */
+export function buildOrderReceipt(order: ReceiptOrder, issuedAt: Date = new Date()): Receipt {
+  const lines = (order.orderItems ?? []).map((item) => ({
+    name: item.variant?.product?.title ?? 'Item',
+    variantName: item.variant?.variantName,
+    quantity: item.quantity,
+    price: Number(item.price),
+    originalPrice: Number(item.originalPrice),
+    appliedRole: item.appliedRole,
+    total: Number(item.price) * item.quantity,
+  }));
+
+  const payments = (order.payments ?? [])
+    .filter(payment => !payment.isDeleted && payment.paymentStatus === 'VERIFIED')
+    .map(toPaymentLine);
+
+  return {
+    kind: 'ORDER',
+    number: order.id.slice(0, 8).toUpperCase(),
+    issuedAt,
+    orderId: order.id,
+    orderDate: new Date(order.orderDate),
+    customerName: getCustomerName(order.customer),
+    customerEmail: order.customer?.email,
+    fulfillment: FULFILLMENT_METHODS[order.fulfillmentMethod]?.label,
+    currency: order.payments?.[0]?.currency ?? 'PHP',
+    lines,
+    subtotal: lines.reduce((sum, line) => sum + line.total, 0),
+    discount: order.discountAmount,
+    fulfillmentFee: order.fulfillmentFee,
+    total: order.totalAmount,
+    payments,
+    amountPaid: payments.reduce((sum, payment) => sum + payment.amount, 0),
+  };
+}
+
+/**
+ * Builds a receipt for a single verified payment
+ * @param payment Payment with its order (items, customer) included
+ * @param issuedAt When the receipt was generated
+ */
+export function buildPaymentReceipt(payment: ReceiptPayment, issuedAt: Date = new Date()): Receipt {
+  const paymentLine = toPaymentLine(payment);
+  const orderReceipt = payment.order
+    ? buildOrderReceipt(payment.order, issuedAt)
+    : undefined;
+
+  return {
+    kind: 'PAYMENT',
+    number: payment.id.slice(0, 8).toUpperCase(),
+    issuedAt,
+    orderId: payment.orderId,
+    orderDate: orderReceipt?.orderDate ?? new Date(payment.paymentDate),
+    customerName: orderReceipt?.customerName,
+    customerEmail: orderReceipt?.customerEmail,
+    fulfillment: orderReceipt?.fulfillment,
+    currency: payment.currency,
+    lines: orderReceipt?.lines ?? [],
+    subtotal: orderReceipt?.subtotal ?? 0,
+    discount: orderReceipt?.discount ?? 0,
+    fulfillmentFee: orderReceipt?.fulfillmentFee ?? 0,
+    total: orderReceipt?.total ?? paymentLine.amount,
+    payments: [paymentLine],
+    amountPaid: paymentLine.amount,
+  };
+}
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const formatReceiptDate = (date: Date) => date.toLocaleDateString('en-US', {
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric',
+});
+
+/**
+ * Renders a receipt as a standalone HTML document for printing to PDF
+ * @param receipt Receipt to render
+ * @param qrSvg SVG markup of the order ID QR code
+ */
+export function renderReceiptHtml(receipt: Receipt, qrSvg: string): string {
+  const money = (amount: number) => escapeHtml(formatCurrency(amount, receipt.currency));
+
+  const lineRows = receipt.lines.map(line => `
+    <tr>
+      <td>
+        <div class="item">${escapeHtml(line.name)}</div>
+        ${line.variantName ? `<div class="muted">${escapeHtml(line.variantName)}</div>` : ''}
+        <div class="muted">${escapeHtml(line.appliedRole)} pricing</div>
+      </td>
+      <td class="num">${line.quantity}</td>
+      <td class="num">
+        ${line.originalPrice !== line.price ? `<div class="strike">${money(line.originalPrice)}</div>` : ''}
+        ${money(line.price)}
+      </td>
+      <td class="num">${money(line.total)}</td>
+    </tr>`).join('');
+
+  const paymentRows = receipt.payments.map(payment => `
+    <tr>
+      <td>${escapeHtml(payment.method)}</td>
+      <td>${escapeHtml(payment.referenceNo || 'N/A')}</td>
+      <td>${escapeHtml(formatReceiptDate(payment.date))}</td>
+      <td class="num">${money(payment.amount)}</td>
+    </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<style>
+  body { font-family: -apple-system, Roboto, Helvetica, Arial, sans-serif; color: #1F2937; padding: 32px; font-size: 13px; }
+  h1 { color: #2C59DB; margin: 0; font-size: 22px; }
+  h2 { font-size: 14px; margin: 24px 0 8px; }
+  .header { display: flex; justify-content: space-between; align-items: flex-start; }
+  .qr svg { width: 110px; height: 110px; }
+  .muted { color: #6B7280; font-size: 11px; }
+  .strike { color: #9CA3AF; text-decoration: line-through; font-size: 11px; }
+  .item { font-weight: 600; }
+  table { width: 100%; border-collapse: collapse; }
+  th { text-align: left; font-size: 11px; color: #6B7280; border-bottom: 1px solid #E5E7EB; padding: 6px 4px; }
+  td { border-bottom: 1px solid #F3F4F6; padding: 8px 4px; vertical-align: top; }
+  .num { text-align: right; white-space: nowrap; }
+  .totals td { border: none; padding: 4px; }
+  .grand td { font-size: 15px; font-weight: 700; color: #2C59DB; }
+</style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>MerchTrack ${receipt.kind === 'PAYMENT' ? 'Payment Receipt' : 'Order Receipt'}</h1>
+      <div>Receipt #${escapeHtml(receipt.number)}</div>
+      <div class="muted">Issued ${escapeHtml(formatReceiptDate(receipt.issuedAt))}</div>
+      <h2>Billed To</h2>
+      <div>${escapeHtml(receipt.customerName ?? 'Customer')}</div>
+      ${receipt.customerEmail ? `<div class="muted">${escapeHtml(receipt.customerEmail)}</div>` : ''}
+      <div class="muted">Order ${escapeHtml(receipt.orderId)} · ${escapeHtml(formatReceiptDate(receipt.orderDate))}</div>
+      ${receipt.fulfillment ? `<div class="muted">${escapeHtml(receipt.fulfillment)}</div>` : ''}
+    </div>
+    <div class="qr">${qrSvg}</div>
+  </div>
+
+  ${receipt.lines.length > 0 ? `
+  <h2>Items</h2>
+  <table>
+    <tr><th>Item</th><th class="num">Qty</th><th class="num">Unit Price</th><th class="num">Amount</th></tr>
+    ${lineRows}
+  </table>
+  <table class="totals">
+    <tr><td>Subtotal</td><td class="num">${money(receipt.subtotal)}</td></tr>
+    ${receipt.discount > 0 ? `<tr><td>Discount</td><td class="num">-${money(receipt.discount)}</td></tr>` : ''}
+    ${receipt.fulfillmentFee > 0 ? `<tr><td>Delivery Fee</td><td class="num">${money(receipt.fulfillmentFee)}</td></tr>` : ''}
+    <tr class="grand"><td>Total</td><td class="num">${money(receipt.total)}</td></tr>
+  </table>` : ''}
+
+  <h2>Payments</h2>
+  ${receipt.payments.length > 0 ? `
+  <table>
+    <tr><th>Method</th><th>Reference</th><th>Date</th><th class="num">Amount</th></tr>
+    ${paymentRows}
+  </table>
+  <table class="totals">
+    <tr class="grand"><td>Amount Paid</td><td class="num">${money(receipt.amountPaid)}</td></tr>
+  </table>` : '<div class="muted">No verified payments yet.</div>'}
+</body>
+</html>`;
+}
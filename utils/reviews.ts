@@ -0,0 +1,59 @@
+import type { Review } from '@prisma/client';
+
+export type ReviewSort = 'newest' | 'highest';
+
+export type RatingBucket = {
+  stars: number;
+  count: number;
+  // Fraction of all reviews, 0 to 1, for sizing the histogram bar
+  share: number;
+};
+
+export type ReviewSummary = {
+  average: number;
+  total: number;
+  // Five stars first, the way the histogram is drawn
+  buckets: RatingBucket[];
+};
+
+type RatedReview = Pick<Review, 'rating' | 'createdAt'>;
+
+/**
+ * Average rating and per-star counts for a product's reviews
+ * @param reviews Reviews to summarize; ratings outside 1-5 are clamped
+ */
+export function summarizeReviews(reviews: Pick<Review, 'rating'>[]): ReviewSummary {
+  const counts = [0, 0, 0, 0, 0];
+  let sum = 0;
+
+  for (const review of reviews) {
+    const stars = Math.min(5, Math.max(1, Math.round(review.rating)));
+    counts[stars - 1] += 1;
+    sum += stars;
+  }
+
+  const total = reviews.length;
+  return {
+    average: total > 0 ? sum / total : 0,
+    total,
+    buckets: [5, 4, 3, 2, 1].map(stars => ({
+      stars,
+      count: counts[stars - 1],
+      share: total > 0 ? counts[stars - 1] / total : 0,
+    })),
+  };
+}
+
+/**
+ * Returns a sorted copy of the reviews. Ties on rating go to the newer review.
+ * @param reviews Reviews to sort
+ * @param sort Newest first, or highest rating first
+ */
+export function sortReviews<T extends RatedReview>(reviews: T[], sort: ReviewSort): T[] {
+  const newestFirst = (a: T, b: T) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+
+  return [...reviews].sort((a, b) => {
+    if (sort === 'highest' && a.rating !== b.rating) return b.rating - a.rating;
+    return newestFirst(a, b);
+  });
+}
@@ -0,0 +1,40 @@
+import type { OrderStatus, SurveyCategory } from '@prisma/client';
+import type { SurveyQuestion } from '@/types/survey';
+
+// Answers are scored from 1 to SURVEY_SCALE
+export const SURVEY_SCALE = 5;
+
+export const SURVEY_SCALE_LABELS = ['Very poor', 'Poor', 'Okay', 'Good', 'Excellent'];
+
+type SurveyOrder = {
+  status: OrderStatus;
+  customerSatisfactionSurveyId: string | null;
+};
+
+/**
+ * The category's four fixed questions, keyed the way answers are stored
+ * @param category Survey category to ask
+ */
+export function getSurveyQuestions(category: Pick<SurveyCategory, 'question1' | 'question2' | 'question3' | 'question4'>): SurveyQuestion[] {
+  return [
+    { id: 'q1', text: category.question1 },
+    { id: 'q2', text: category.question2 },
+    { id: 'q3', text: category.question3 },
+    { id: 'q4', text: category.question4 },
+  ];
+}
+
+/**
+ * Whether the customer already filled in the survey for an order
+ */
+export function hasGivenFeedback(order: SurveyOrder): boolean {
+  return !!order.customerSatisfactionSurveyId;
+}
+
+/**
+ * Whether to ask for feedback on an order: it was delivered and has no survey yet.
+ * Each order takes one survey.
+ */
+export function canGiveFeedback(order: SurveyOrder): boolean {
+  return order.status === 'DELIVERED' && !hasGivenFeedback(order);
+}
@@ -0,0 +1,148 @@
+import { TICKET_STATUS_DETAILS, TICKET_TEMPLATES, type TicketTemplateId } from '@/constants/tickets';
+import { ticketUpdateSchema } from '@/lib/validations/api';
+import type { TicketInput } from '@/types/outbox';
+import { TicketStatus, type TicketAttachment, type TicketUpdate } from '@/types/ticket';
+
+// Most images a customer can attach to one message
+export const MAX_TICKET_ATTACHMENTS = 3;
+
+/**
+ * Statuses a ticket may move to from each status. Closed tickets are final;
+ * customers open a new ticket instead.
+ */
+export const TICKET_STATUS_TRANSITIONS: Record<TicketStatus, TicketStatus[]> = {
+  [TicketStatus.OPEN]: [TicketStatus.IN_PROGRESS, TicketStatus.RESOLVED, TicketStatus.CLOSED],
+  [TicketStatus.IN_PROGRESS]: [TicketStatus.OPEN, TicketStatus.RESOLVED, TicketStatus.CLOSED],
+  [TicketStatus.RESOLVED]: [TicketStatus.OPEN, TicketStatus.CLOSED],
+  [TicketStatus.CLOSED]: [],
+};
+
+/**
+ * Whether a ticket may move from one status to another
+ */
+export function canTransitionTicket(from: TicketStatus, to: TicketStatus): boolean {
+  return from === to || TICKET_STATUS_TRANSITIONS[from]?.includes(to) === true;
+}
+
+/**
+ * What the ticket's owner can do at its current status. Staff move tickets
+ * to IN_PROGRESS and RESOLVED; customers can only reopen or close.
+ */
+export function getTicketActions(status: TicketStatus) {
+  return {
+    canReply: status !== TicketStatus.CLOSED,
+    canReopen: status === TicketStatus.RESOLVED,
+    canClose: TICKET_STATUS_TRANSITIONS[status].includes(TicketStatus.CLOSED),
+  };
+}
+
+/**
+ * Reads `Ticket.updates`, which may arrive as an array, a JSON string or null.
+ * Entries that don't match the update shape are dropped.
+ * @returns Updates, oldest first
+ */
+export function parseTicketUpdates(updates: unknown): TicketUpdate[] {
+  let value = updates;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(value)) return [];
+
+  const parsed = value.flatMap((entry) => {
+    const result = ticketUpdateSchema.safeParse(entry);
+    return result.success ? [result.data] : [];
+  });
+
+  // Updates without a timestamp keep their place at the start
+  return parsed
+    .map((update, index) => ({ update, index }))
+    .sort((a, b) => {
+      const timeA = a.update.createdAt ? new Date(a.update.createdAt).getTime() : 0;
+      const timeB = b.update.createdAt ? new Date(b.update.createdAt).getTime() : 0;
+      return timeA - timeB || a.index - b.index;
+    })
+    .map(({ update }) => update);
+}
+
+/**
+ * Builds the update a customer posts to their ticket. Replying to a resolved
+ * ticket reopens it, since the customer still needs help.
+ * @param currentStatus Status of the ticket before the reply
+ * @param reply Message, attachments and the status the customer chose, if any
+ * @param userId ID of the customer
+ * @param now Time of the reply
+ */
+export function buildTicketUpdate(
+  currentStatus: TicketStatus,
+  reply: { message: string; attachments?: TicketAttachment[]; status?: TicketStatus },
+  userId: string,
+  now: Date = new Date()
+): TicketUpdate {
+  const status = reply.status
+    ?? (currentStatus === TicketStatus.RESOLVED ? TicketStatus.OPEN : currentStatus);
+
+  if (!canTransitionTicket(currentStatus, status)) {
+    const from = TICKET_STATUS_DETAILS[currentStatus].label.toLowerCase();
+    const to = TICKET_STATUS_DETAILS[status].label.toLowerCase();
+    throw new Error(`A ticket that is ${from} can't be set to ${to}`);
+  }
+
+  return {
+    status,
+    message: reply.message.trim(),
+    createdBy: userId,
+    createdAt: now.toISOString(),
+    ...(reply.attachments?.length ? { attachments: reply.attachments } : {}),
+  };
+}
+
+export type TicketLink = Pick<TicketInput, 'orderId' | 'paymentId'>;
+
+/**
+ * Whether a route param names a ticket template
+ */
+export function isTicketTemplateId(value: unknown): value is TicketTemplateId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(TICKET_TEMPLATES, value);
+}
+
+/**
+ * Short reference to what a ticket is about, e.g. `Order #01JA2B3C`.
+ * A payment wins over its order since it is the more specific record.
+ */
+export function describeTicketLink(link: { orderId?: string | null; paymentId?: string | null }): string | null {
+  if (link.paymentId) return `Payment #${link.paymentId.slice(0, 8).toUpperCase()}`;
+  if (link.orderId) return `Order #${link.orderId.slice(0, 8).toUpperCase()}`;
+  return null;
+}
+
+/**
+ * Templates that fit what the ticket is linked to. Unlinked tickets can use any template.
+ */
+export function getTicketTemplates(link: TicketLink): TicketTemplateId[] {
+  const ids = Object.keys(TICKET_TEMPLATES) as TicketTemplateId[];
+  const context = link.paymentId ? 'payment' : link.orderId ? 'order' : null;
+  if (!context) return ids;
+
+  return ids.filter(id => TICKET_TEMPLATES[id].context === context || TICKET_TEMPLATES[id].context === null);
+}
+
+/**
+ * Title, description and priority a template fills in. The title names the
+ * linked order or payment so staff can find it in the queue.
+ * @param id Template to apply
+ * @param link Order or payment the ticket is about
+ */
+export function applyTicketTemplate(id: TicketTemplateId, link: TicketLink): Pick<TicketInput, 'title' | 'description' | 'priority'> {
+  const template = TICKET_TEMPLATES[id];
+  const reference = describeTicketLink(link);
+
+  return {
+    title: template.title && reference ? `${template.title} (${reference})` : template.title,
+    description: template.description,
+    priority: template.priority,
+  };
+}
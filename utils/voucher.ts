@@ -0,0 +1,51 @@
+import type { Voucher, VoucherEvaluation } from '@/types/voucher';
+import type { PricingCustomer } from '@/utils/pricing';
+import { formatCurrency } from '@/utils/format-currency';
+
+/**
+ * Checks a voucher's rules against the current cart and customer
+ * @param voucher Voucher returned by the validation endpoint
+ * @param subtotal Cart subtotal the discount applies to
+ * @param customer Customer role and college
+ * @param now Current time, used for the expiry check
+ * @returns Discount amount, or the reason the voucher cannot be used
+ */
+export function evaluateVoucher(
+  voucher: Voucher,
+  subtotal: number,
+  customer: PricingCustomer,
+  now: Date = new Date()
+): VoucherEvaluation {
+  if (voucher.expiresAt && new Date(voucher.expiresAt).getTime() <= now.getTime()) {
+    return { isValid: false, reason: 'This code has expired.' };
+  }
+
+  if (voucher.minSpend && subtotal < voucher.minSpend) {
+    return { isValid: false, reason: `Spend at least ${formatCurrency(voucher.minSpend)} to use this code.` };
+  }
+
+  if (voucher.colleges?.length && !voucher.colleges.some(college => college === customer.college)) {
+    return { isValid: false, reason: 'This code is not available for your college.' };
+  }
+
+  if (voucher.roles?.length && !voucher.roles.some(role => role === customer.role)) {
+    return { isValid: false, reason: 'This code is not available for your role.' };
+  }
+
+  const rawDiscount = voucher.discountType === 'PERCENTAGE'
+    ? subtotal * (Math.min(Math.max(voucher.value, 0), 100) / 100)
+    : Math.max(voucher.value, 0);
+  const cappedDiscount = voucher.maxDiscount ? Math.min(rawDiscount, voucher.maxDiscount) : rawDiscount;
+
+  // Round to centavos and never discount more than the subtotal
+  const discountAmount = Math.min(Math.round(cappedDiscount * 100) / 100, subtotal);
+
+  return { isValid: true, discountAmount };
+}
+
+/**
+ * Normalizes a code typed by the customer
+ */
+export function normalizeVoucherCode(code: string): string {
+  return code.trim().toUpperCase();
+}